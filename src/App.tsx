@@ -1,63 +1,104 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Icons from './components/icons';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import AdminPanel from './components/AdminPanel.tsx';
+import VirtualizedList from './components/VirtualizedList.tsx';
+import PresenceDot from './components/PresenceDot.tsx';
+import DependencyGraph from './components/DependencyGraph.tsx';
+import IssueActivity from './components/IssueActivity.tsx';
+import { createApiClient, isApiError, isDevProxyActive, IssuePayload, RefreshResponse, toIssuePage } from './apiClient.ts';
+import type { MockBackend } from './mockBackend.ts';
+import { createDataStore, PageInfo, ReadOptions, usePageInfo, useResourceList } from './dataStore.ts';
+import {
+  applyQueuedMutations,
+  createOfflineQueue,
+  createTempId,
+  describeMutation,
+  isOfflineError,
+  isTempId,
+  QueuedMutation,
+  QueuedMutationInput,
+  replayOfflineQueue
+} from './offlineQueue.ts';
+import {
+  applyPresenceEvent,
+  createPresenceTracker,
+  describeLastSeen,
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_LABELS,
+  PRESENCE_SOCKET_EVENTS,
+  presenceOf,
+  withPresence
+} from './presence.ts';
+import { createTypingThrottle, describeTypingUsers, TYPING_TIMEOUT_MS } from './typingIndicator.ts';
+import { allowedParentTypes, childTypesOf, findEpic, ISSUE_TYPE_LABELS, parentProblem, rollupChildren } from './issueHierarchy.ts';
+import { findDependencyCycles, ISSUE_LINK_SOCKET_EVENTS, LINK_CHOICES, linksOf, openBlockersOf } from './issueLinks.ts';
+import { createWorkflow, DEFAULT_WORKFLOW, resolveStatus, WORKFLOW_SOCKET_EVENT } from './workflow.ts';
+import {
+  addAttachment,
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_SOCKET_EVENTS,
+  attachmentProblem,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES,
+  previewKind
+} from './attachments.ts';
+import { appendHistoryEntry, buildActivityTimeline, ChangeRow, ISSUE_HISTORY_SOCKET_EVENT } from './issueHistory.ts';
+import { applyIssueTemplate, defaultTemplateFor, hasTypedText, ISSUE_TEMPLATE_SOCKET_EVENTS, sortTemplates } from './issueTemplates.ts';
+import { isWatching, WATCHER_NOTIFICATION_EVENT } from './watchers.ts';
+import {
+  DEFAULT_SCHEDULE,
+  describeSchedule,
+  RECURRENCE_FREQUENCY_LABELS,
+  RECURRING_ISSUE_SOCKET_EVENTS,
+  scheduleProblem,
+  upcomingRuns,
+  WEEKDAY_LABELS
+} from './recurrence.ts';
+import {
+  addDays,
+  addWorkLog,
+  buildTimesheet,
+  formatDuration,
+  hasTimeTracking,
+  parseDuration,
+  startOfWeek,
+  timeProgress,
+  toDateOnly,
+  toHours,
+  WORK_LOG_SOCKET_EVENTS,
+  weekDates,
+  workLogProblem
+} from './timeTracking.ts';
+import {
+  compactFieldValues,
+  CUSTOM_FIELD_SOCKET_EVENTS,
+  fieldValuesProblem,
+  formatFieldValue,
+  isEmptyFieldValue,
+  matchesFieldFilter,
+  parseFieldValue
+} from './customFields.ts';
+import {
+  Attachment,
+  User,
+  Organization,
+  Issue,
+  IssueLink,
+  IssueHistoryEntry,
+  IssueTemplate,
+  Comment,
+  PresenceStatus,
+  WorkflowStatus,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  RecurrenceSchedule,
+  RecurringIssue,
+  WorkLog
+} from './types.ts';
 
 // Type definitions
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  avatar: string;
-  profile_picture?: string;
-  role: 'super_admin' | 'admin' | 'project_manager' | 'developer' | 'tester'| 'employees';
-  organization_id: string;
-  is_active: boolean;
-  created_at: string;
-  last_seen?: string;
-  is_online?: boolean;
-}
-
-interface Organization {
-  id: string;
-  name: string;
-  domain: string;
-  plan: 'free' | 'pro' | 'enterprise';
-  user_count: number;
-  max_users: number;
-  created_at: string;
-}
-
-interface Issue {
-  id: string;
-  key: string;
-  title: string;
-  description: string;
-  issue_type: 'STORY' | 'TASK' | 'BUG' | 'EPIC';
-  priority: 'HIGHEST' | 'HIGH' | 'MEDIUM' | 'LOW' | 'LOWEST';
-  status: 'TODO' | 'IN_PROGRESS' | 'REVIEW' | 'DONE';
-  assignee_id: string | null;
-  reporter_id: string;
-  story_points: number | null;
-  created_at: string;
-  updated_at: string;
-  labels: string[];
-  visibility?: string;
-  organization_id: string;
-  deadline?: string | null;
-  comments?: Comment[];
-}
-
-interface Comment {
-  id: string;
-  content: string;
-  author_id: string;
-  issue_id: string;
-  created_at: string;
-  updated_at: string;
-}
-
 interface Notification {
   id: string;
   type: 'issue_created' | 'issue_updated' | 'issue_deleted' | 'issue_assigned' | 'comment_added' | 'status_changed' | 'user_joined' | 'new_message';
@@ -82,17 +123,27 @@ type IssueEditDraft = {
   status: Issue['status'];
   priority: Issue['priority'];
   issue_type: Issue['issue_type'];
+  parent_id: string;
   assignee_id: string;
   story_points: string;
   labels: string;
   deadline: string;
+  custom_fields: Record<string, CustomFieldValue>;
+  /** Durations as typed, e.g. "2d 4h". */
+  original_estimate: string;
+  remaining_estimate: string;
 };
-type AppView = 'auth' | 'dashboard' | 'board' | 'admin' | 'profile' | 'settings';
+type AppView = 'auth' | 'dashboard' | 'board' | 'dependencies' | 'timesheet' | 'recurring' | 'admin' | 'profile' | 'settings';
+
+type SocketStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
 
 const VIEW_TO_PATH: Record<AppView, string> = {
   auth: '/auth',
   dashboard: '/home',
   board: '/board',
+  dependencies: '/dependencies',
+  timesheet: '/timesheet',
+  recurring: '/recurring',
   admin: '/adminpanel',
   profile: '/profile',
   settings: '/settings'
@@ -114,6 +165,253 @@ const PATH_TO_VIEW: Record<string, AppView> = Object.entries(VIEW_TO_PATH).reduc
 );
 PATH_TO_VIEW['/'] = 'dashboard';
 
+// Issue deep links: /board/:issueKey opens the modal over the board, /dependencies/:issueKey
+// over the dependency graph and /issues/:issueKey over the dashboard.
+const ISSUE_ROUTE_PATTERN = /^\/(board|dependencies|issues)\/([^/]+)$/;
+const POST_AUTH_REDIRECT_KEY = 'postAuthRedirect';
+const STASHED_ISSUE_DRAFT_KEY = 'stashedIssueDraft';
+
+interface AppLocation {
+  view: AppView;
+  issueKey: string | null;
+}
+
+const normalizeIssueKey = (key: string) => key.trim().toUpperCase();
+
+// How many levels of parents an issue type can sit under: epics 0, stories 1, subtasks 2
+const hierarchyDepth = (type: Issue['issue_type']): number =>
+  Math.max(0, ...allowedParentTypes(type).map(parentType => hierarchyDepth(parentType) + 1));
+
+interface StashedIssueDraft {
+  issueId: string;
+  draft: IssueEditDraft;
+  /** The issue as it was when editing began, so a save after signing back in can still detect conflicts. */
+  base?: Issue;
+}
+
+// Returns (and forgets) the edit draft stashed when a session expired mid-edit
+const takeStashedIssueDraft = (issueId: string): StashedIssueDraft | null => {
+  if (!isBrowser) return null;
+  const raw = sessionStorage.getItem(STASHED_ISSUE_DRAFT_KEY);
+  if (!raw) return null;
+  try {
+    const stashed = JSON.parse(raw) as StashedIssueDraft;
+    if (stashed.issueId !== issueId) return null;
+    sessionStorage.removeItem(STASHED_ISSUE_DRAFT_KEY);
+    return stashed;
+  } catch {
+    sessionStorage.removeItem(STASHED_ISSUE_DRAFT_KEY);
+    return null;
+  }
+};
+
+// Fields the edit form can change, in the order the merge dialog lists them
+const MERGEABLE_ISSUE_FIELDS = [
+  'title', 'description', 'status', 'priority', 'issue_type', 'parent_id', 'assignee_id', 'story_points', 'labels', 'deadline', 'custom_fields',
+  'original_estimate_minutes', 'remaining_estimate_minutes'
+] as const;
+type MergeableIssueField = typeof MERGEABLE_ISSUE_FIELDS[number];
+
+const ISSUE_FIELD_LABELS: Record<MergeableIssueField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  issue_type: 'Type',
+  parent_id: 'Parent',
+  assignee_id: 'Assignee',
+  story_points: 'Story points',
+  labels: 'Labels',
+  deadline: 'Deadline',
+  custom_fields: 'Custom fields',
+  original_estimate_minutes: 'Original estimate',
+  remaining_estimate_minutes: 'Remaining estimate'
+};
+
+interface IssueMergeState {
+  /** The issue as it was when editing began. */
+  base: Issue;
+  /** The newer version someone else saved. */
+  theirs: Issue;
+  /** Only the fields this user changed. */
+  mine: Partial<Issue>;
+  choices: Partial<Record<MergeableIssueField, 'mine' | 'theirs'>>;
+}
+
+interface IssueMergeRow {
+  field: MergeableIssueField;
+  mineChanged: boolean;
+  theirsChanged: boolean;
+  /** Both sides changed the field to different values, so the user has to pick one. */
+  conflict: boolean;
+}
+
+// Deadlines come back as full timestamps but are edited as dates
+const sameIssueFieldValue = (field: MergeableIssueField, a: unknown, b: unknown) => {
+  const normalize = (value: unknown) => {
+    if (value === undefined || value === '') return null;
+    if (field === 'deadline' && value) return String(value).slice(0, 10);
+    if (field === 'description') return String(value ?? '').trim();
+    if (field === 'custom_fields') {
+      const compacted = compactFieldValues(value as Issue['custom_fields']);
+      return Object.keys(compacted).length > 0 ? compacted : null;
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+};
+
+const diffIssueEdit = ({ base, theirs, mine }: Pick<IssueMergeState, 'base' | 'theirs' | 'mine'>): IssueMergeRow[] =>
+  MERGEABLE_ISSUE_FIELDS.flatMap(field => {
+    const mineChanged = field in mine;
+    const theirsChanged = !sameIssueFieldValue(field, base[field], theirs[field]);
+    if (!mineChanged && !theirsChanged) return [];
+    const conflict = mineChanged && theirsChanged && !sameIssueFieldValue(field, mine[field], theirs[field]);
+    return [{ field, mineChanged, theirsChanged, conflict }];
+  });
+
+const parseAppLocation = (pathname: string): AppLocation => {
+  const normalized = normalizePath(pathname);
+  const issueMatch = normalized.match(ISSUE_ROUTE_PATTERN);
+  if (issueMatch) {
+    let rawKey = issueMatch[2];
+    try {
+      rawKey = decodeURIComponent(rawKey);
+    } catch {
+      // Keep the raw segment when it is not valid URI encoding
+    }
+    return {
+      view: issueMatch[1] === 'issues' ? 'dashboard' : (issueMatch[1] as AppView),
+      issueKey: normalizeIssueKey(rawKey)
+    };
+  }
+  return { view: PATH_TO_VIEW[normalized] || 'dashboard', issueKey: null };
+};
+
+const buildIssuePath = (view: AppView, issueKey: string) => {
+  const encodedKey = encodeURIComponent(issueKey);
+  return view === 'board' || view === 'dependencies' ? `${VIEW_TO_PATH[view]}/${encodedKey}` : `/issues/${encodedKey}`;
+};
+
+// Board filters live in the /board query string so a filtered board can be shared as a link
+type DeadlineWindow = '' | 'overdue' | 'today' | 'week' | 'month' | 'none';
+
+interface BoardFilters {
+  assignee: string; // '' (anyone), 'me', 'unassigned' or a user id
+  types: Issue['issue_type'][];
+  priorities: Issue['priority'][];
+  label: string;
+  text: string;
+  deadline: DeadlineWindow;
+  /** Custom field id -> wanted value, written to the query string as `cf.<field id>`. */
+  fields: Record<string, string>;
+}
+
+const ISSUE_TYPES: Issue['issue_type'][] = ['STORY', 'TASK', 'BUG', 'EPIC', 'SUBTASK'];
+const ISSUE_PRIORITIES: Issue['priority'][] = ['HIGHEST', 'HIGH', 'MEDIUM', 'LOW', 'LOWEST'];
+const DEADLINE_WINDOWS: Exclude<DeadlineWindow, ''>[] = ['overdue', 'today', 'week', 'month', 'none'];
+const CUSTOM_FIELD_PARAM_PREFIX = 'cf.';
+
+// Board columns load this many issues at a time as they are scrolled
+const ISSUE_PAGE_SIZE = 50;
+// Page size when the whole backlog is needed at once (exports, dashboard totals, filters)
+const ISSUE_BULK_PAGE_SIZE = 500;
+// Windowed column lists lay cards out at this height until they have been measured
+const BOARD_CARD_ESTIMATED_HEIGHT = 176;
+const BOARD_CARD_GAP = 12;
+const boardCardKey = (issue: Issue) => issue.id;
+const issuePageKey = (status: Issue['status']) => `issues:${status}`;
+const issueKeyNumber = (key: string) => Number(key.split('-').pop()) || 0;
+
+// Blank create form, and what it goes back to after a save
+const NEW_ISSUE_DEFAULTS = {
+  title: '',
+  description: '',
+  issue_type: 'STORY' as Issue['issue_type'],
+  priority: 'MEDIUM' as Issue['priority'],
+  // Empty means the workflow's first to-do status
+  status: '' as Issue['status'],
+  assignee_id: '',
+  story_points: 1,
+  labels: [] as string[],
+  deadline: '',
+  parent_id: '',
+  custom_fields: {} as Record<string, CustomFieldValue>,
+  original_estimate: ''
+};
+
+const ISSUE_SOCKET_EVENTS = ['issue_created', 'issue_updated', 'issue_deleted', 'comment_added', WATCHER_NOTIFICATION_EVENT];
+const CHAT_SOCKET_EVENTS = ['chat_message', 'message_deleted', 'user_typing'];
+// Chat messages arrive over the socket; the open conversation is only polled while it is down
+const CHAT_FALLBACK_POLL_MS = 3000;
+
+const SOCKET_RECONNECT_BASE_MS = 1000;
+const SOCKET_RECONNECT_MAX_MS = 30000;
+// Writes still queued while online (the server failed, or they queued behind ones that did) are retried on this backoff
+const OFFLINE_SYNC_RETRY_BASE_MS = 2000;
+const OFFLINE_SYNC_RETRY_MAX_MS = 60000;
+// A server that doesn't speak the resume protocol never answers; reload the lists after this long instead
+const SOCKET_RESUME_TIMEOUT_MS = 5000;
+const SEEN_SOCKET_EVENT_LIMIT = 500;
+
+// Exponential backoff with half of each window randomised, so clients that dropped together
+// don't all retry at the same moment
+const jitteredBackoff = (attempt: number, baseMs: number, maxMs: number) => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+const EMPTY_BOARD_FILTERS: BoardFilters = {
+  assignee: '',
+  types: [],
+  priorities: [],
+  label: '',
+  text: '',
+  deadline: '',
+  fields: {}
+};
+
+const parseListParam = <T extends string,>(value: string | null, allowed: T[]): T[] =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim().toUpperCase())
+    .filter((item): item is T => (allowed as string[]).includes(item));
+
+const parseBoardFilters = (search: string): BoardFilters => {
+  const params = new URLSearchParams(search);
+  const deadline = (params.get('deadline') || '').toLowerCase();
+  return {
+    assignee: params.get('assignee') || '',
+    types: parseListParam(params.get('type'), ISSUE_TYPES),
+    priorities: parseListParam(params.get('priority'), ISSUE_PRIORITIES),
+    label: params.get('label') || '',
+    text: params.get('q') || '',
+    deadline: (DEADLINE_WINDOWS as string[]).includes(deadline) ? deadline as DeadlineWindow : '',
+    fields: Object.fromEntries(
+      Array.from(params.entries())
+        .filter(([name, value]) => name.startsWith(CUSTOM_FIELD_PARAM_PREFIX) && value)
+        .map(([name, value]) => [name.slice(CUSTOM_FIELD_PARAM_PREFIX.length), value])
+    )
+  };
+};
+
+const serializeBoardFilters = (filters: BoardFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.assignee) params.set('assignee', filters.assignee);
+  if (filters.types.length) params.set('type', filters.types.join(','));
+  if (filters.priorities.length) params.set('priority', filters.priorities.join(','));
+  if (filters.label) params.set('label', filters.label);
+  if (filters.text.trim()) params.set('q', filters.text.trim());
+  if (filters.deadline) params.set('deadline', filters.deadline);
+  Object.entries(filters.fields).forEach(([fieldId, value]) => {
+    if (value.trim()) params.set(`${CUSTOM_FIELD_PARAM_PREFIX}${fieldId}`, value.trim());
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+const hasActiveBoardFilters = (filters: BoardFilters) => serializeBoardFilters(filters) !== '';
+
 
 // API Base URL - fallback to localhost for development
 const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'https://missedtask-backend-2.onrender.com';
@@ -121,7 +419,54 @@ const WS_BASE_URL = process.env.REACT_APP_WS_BASE_URL;
 const devProxyDisabled = process.env.REACT_APP_DISABLE_DEV_PROXY === 'true';
 const isBrowser = typeof window !== 'undefined';
 const isLocalhostEnv = () => isBrowser && window.location.hostname === 'localhost';
-let devProxyActivated = false;
+const offlineQueue = createOfflineQueue();
+const presenceTracker = createPresenceTracker();
+
+// Socket events can arrive before or after the response carrying the same comment, so adding one is
+// idempotent; replaceId swaps out an offline placeholder
+const withComment = (issue: Issue, comment: Comment, replaceId?: string): Issue => {
+  const others = (issue.comments || []).filter(existing => existing.id !== comment.id);
+  const hasPlaceholder = !!replaceId && others.some(existing => existing.id === replaceId);
+  return {
+    ...issue,
+    comments: hasPlaceholder
+      ? others.map(existing => (existing.id === replaceId ? comment : existing))
+      : [...others, comment]
+  };
+};
+
+// Teammates with an issue open. Editing is a soft lock: it only raises a banner, saving is never blocked
+interface IssueViewer {
+  user_id: string;
+  editing: boolean;
+}
+
+const describeIssueEditors = (names: string[]) => {
+  if (names.length === 1) return `${names[0]} is editing`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are editing`;
+  return `${names.length} people are editing`;
+};
+
+interface ChatLine {
+  id: string;
+  user: string;
+  userId: string;
+  message: string;
+  timestamp: string;
+  avatar?: string;
+  recipientId?: string; // For direct messages
+}
+
+// Messages from the REST API and the socket carry the sender under different field names
+const toChatLine = (msg: any): ChatLine => ({
+  id: msg.id,
+  user: msg.sender_name || msg.author_name || msg.author?.name || 'Unknown',
+  userId: msg.sender_id || msg.author_id || msg.author?.id || '',
+  message: msg.content,
+  timestamp: msg.created_at,
+  avatar: msg.sender_avatar || msg.author_avatar || msg.author?.avatar || 'U',
+  recipientId: undefined // Backend handles this via conversation
+});
 
 // Toast notification component
 const Toast: React.FC<{ toast: ToastMessage; onRemove: (id: string) => void }> = ({ toast, onRemove }) => {
@@ -207,17 +552,21 @@ const ToastContainer: React.FC<{ toasts: ToastMessage[]; onRemove: (id: string)
 // Notification panel component
 // Online Users Indicator Component
 const OnlineUsersIndicator: React.FC<{ users: User[] }> = ({ users }) => {
-  const onlineUsers = users.filter(u => u.is_online);
+  const onlineUsers = users.filter(u => presenceOf(u) !== 'offline');
+  const inactiveCount = onlineUsers.filter(u => presenceOf(u) !== 'active').length;
 
   return (
-    <div style={{
-      display: 'flex',
-      alignItems: 'center',
-      gap: '8px',
-      background: 'rgba(255,255,255,0.1)',
-      padding: '8px 12px',
-      borderRadius: '20px'
-    }}>
+    <div
+      title={onlineUsers.map(u => `${u.name}: ${PRESENCE_LABELS[presenceOf(u)]}`).join('\n')}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        background: 'rgba(255,255,255,0.1)',
+        padding: '8px 12px',
+        borderRadius: '20px'
+      }}
+    >
       <div style={{
         width: '8px',
         height: '8px',
@@ -225,7 +574,7 @@ const OnlineUsersIndicator: React.FC<{ users: User[] }> = ({ users }) => {
         background: '#36b37e'
       }} />
       <span style={{ fontSize: '12px', color: 'white' }}>
-        {onlineUsers.length} online
+        {onlineUsers.length} online{inactiveCount > 0 ? ` · ${inactiveCount} idle or away` : ''}
       </span>
     </div>
   );
@@ -237,7 +586,8 @@ const CommentSection: React.FC<{
   users: User[];
   onAddComment: (content: string) => Promise<void>;
   currentUserId: string;
-}> = ({ comments, users, onAddComment, currentUserId }) => {
+  pendingCommentIds?: Set<string>;
+}> = ({ comments, users, onAddComment, currentUserId, pendingCommentIds }) => {
   const [newComment, setNewComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -321,6 +671,18 @@ const CommentSection: React.FC<{
                   }}>
                     {new Date(comment.created_at).toLocaleString()}
                   </span>
+                  {pendingCommentIds?.has(comment.id) && (
+                    <span style={{
+                      fontSize: '10px',
+                      fontWeight: '600',
+                      color: '#b45309',
+                      background: '#fef3c7',
+                      padding: '1px 6px',
+                      borderRadius: '4px'
+                    }}>
+                      Pending sync
+                    </span>
+                  )}
                 </div>
                 <div style={{
                   fontSize: '13px',
@@ -380,8 +742,13 @@ const CommentSection: React.FC<{
   );
 };
 
+interface AppProps {
+  /** In-memory stand-in for the remote API and WebSocket (REACT_APP_MOCK_BACKEND=true); see index.tsx. */
+  mockBackend?: MockBackend | null;
+}
+
 // Main App Component
-const App: React.FC = () => {
+const App: React.FC<AppProps> = ({ mockBackend = null }) => {
   // Global dark theme styles
   useEffect(() => {
     const style = document.createElement('style');
@@ -476,8 +843,6 @@ const App: React.FC = () => {
   const [organization, setOrganization] = useState<Organization | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [accessToken, setAccessToken] = useState('');
-  const [users, setUsers] = useState<User[]>([]);
-  const [issues, setIssues] = useState<Issue[]>([]);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [currentView, setCurrentView] = useState<AppView>('auth');
@@ -486,8 +851,19 @@ const App: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showIssueModal, setShowIssueModal] = useState(false);
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
+  const [pendingMutations, setPendingMutations] = useState<QueuedMutation[]>([]);
+  const [isOnline, setIsOnline] = useState(() => !isBrowser || navigator.onLine);
+  const [isSyncingOffline, setIsSyncingOffline] = useState(false);
+  // Number of unconfirmed optimistic writes per issue
+  const [inFlightIssueWrites, setInFlightIssueWrites] = useState<Record<string, number>>({});
+  const [routeIssueKey, setRouteIssueKey] = useState<string | null>(null);
+  const [hasLoadedIssues, setHasLoadedIssues] = useState(false);
+  const [boardFilters, setBoardFilters] = useState<BoardFilters>(EMPTY_BOARD_FILTERS);
   const [isEditingIssue, setIsEditingIssue] = useState(false);
   const [issueEditDraft, setIssueEditDraft] = useState<IssueEditDraft | null>(null);
+  // The issue as the draft was taken from it; saves send its updated_at so a newer version isn't overwritten
+  const [issueEditBase, setIssueEditBase] = useState<Issue | null>(null);
+  const [issueMerge, setIssueMerge] = useState<IssueMergeState | null>(null);
   const [isSavingIssue, setIsSavingIssue] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [showProfileMenu, setShowProfileMenu] = useState(false);
@@ -507,56 +883,107 @@ const App: React.FC = () => {
     organization_name: ''
   });
   const [otpForm, setOtpForm] = useState({ otp: '', email: '' });
-  const [newIssue, setNewIssue] = useState({
-    title: '',
-    description: '',
-    issue_type: 'STORY' as Issue['issue_type'],
-    priority: 'MEDIUM' as Issue['priority'],
-    status: 'TODO' as Issue['status'],
-    assignee_id: '',
-    story_points: 1,
-    labels: [] as string[],
-    deadline: ''
-  });
+  const [newIssue, setNewIssue] = useState(NEW_ISSUE_DEFAULTS);
+  // Set while the create form is saving a recurring series instead of a single issue
+  const [newIssueRecurrence, setNewIssueRecurrence] = useState<{ schedule: RecurrenceSchedule; deadlineOffsetDays: string } | null>(null);
+  const [editingRecurringIssueId, setEditingRecurringIssueId] = useState<string | null>(null);
+  // The template last put in the create form, with the title and description it filled in (to tell them from typed text)
+  const [newIssueTemplate, setNewIssueTemplate] = useState<{ id: string; title: string; description: string } | null>(null);
   const [chatMessage, setChatMessage] = useState('');
   const [selectedChatUser, setSelectedChatUser] = useState<string | null>(null); // null = team chat, user_id = direct message
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [, setConversations] = useState<Record<string, any>>({});
-  const [chatMessages, setChatMessages] = useState<Array<{
-    id: string;
-    user: string;
-    userId: string;
-    message: string;
-    timestamp: string;
-    avatar?: string;
-    recipientId?: string; // For direct messages
-  }>>([]);
+  const [chatMessages, setChatMessages] = useState<ChatLine[]>([]);
   const [unreadMessagesCount, setUnreadMessagesCount] = useState(0);
+  // Who is typing in each conversation, by user id
+  const [typingByConversation, setTypingByConversation] = useState<Record<string, string[]>>({});
+  const typingTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
 
 
   const navigateToView = useCallback((view: AppView, options: { replace?: boolean } = {}) => {
     setCurrentView(view);
+    setRouteIssueKey(null);
     if (!isBrowser) return;
 
     const targetPath = VIEW_TO_PATH[view];
+    const targetSearch = view === 'board' ? serializeBoardFilters(boardFilters) : '';
     const normalizedTarget = normalizePath(targetPath);
     const normalizedCurrent = normalizePath(window.location.pathname);
     const method: 'replaceState' | 'pushState' = options.replace ? 'replaceState' : 'pushState';
 
     if (normalizedCurrent !== normalizedTarget) {
-      window.history[method]({ view }, '', targetPath);
-    } else if (options.replace) {
-      window.history.replaceState({ view }, '', targetPath);
+      window.history[method]({ view }, '', `${targetPath}${targetSearch}`);
+    } else if (options.replace || window.location.search !== targetSearch) {
+      window.history.replaceState({ view }, '', `${targetPath}${targetSearch}`);
+    }
+  }, [setCurrentView, boardFilters]);
+
+  const navigateToIssue = useCallback((issueKey: string, options: { view?: AppView; replace?: boolean } = {}) => {
+    const normalizedKey = normalizeIssueKey(issueKey);
+    const view = options.view ?? currentView;
+    setRouteIssueKey(normalizedKey);
+    if (!isBrowser) return;
+
+    const targetPath = buildIssuePath(view, normalizedKey);
+    const targetSearch = view === 'board' ? serializeBoardFilters(boardFilters) : '';
+    if (normalizePath(window.location.pathname) === normalizePath(targetPath)) return;
+    const method: 'replaceState' | 'pushState' = options.replace ? 'replaceState' : 'pushState';
+    window.history[method]({ view, issueKey: normalizedKey }, '', `${targetPath}${targetSearch}`);
+  }, [currentView, boardFilters]);
+
+  // Filter edits replace the current history entry so typing in the search box doesn't flood back/forward
+  const updateBoardFilters = useCallback((updates: Partial<BoardFilters>) => {
+    const next = { ...boardFilters, ...updates };
+    setBoardFilters(next);
+    if (isBrowser) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${serializeBoardFilters(next)}`);
+    }
+  }, [boardFilters]);
+
+  // Keep the link the user asked for so it can be reopened once they are signed in
+  const rememberRequestedLocation = useCallback(() => {
+    if (!isBrowser) return;
+    const { pathname, search } = window.location;
+    const normalized = normalizePath(pathname);
+    if (normalized === '/' || parseAppLocation(normalized).view === 'auth') return;
+    sessionStorage.setItem(POST_AUTH_REDIRECT_KEY, `${pathname}${search}`);
+  }, []);
+
+  const restoreRequestedLocation = useCallback(() => {
+    if (!isBrowser) {
+      navigateToView('dashboard');
+      return;
+    }
+
+    const storedTarget = sessionStorage.getItem(POST_AUTH_REDIRECT_KEY);
+    sessionStorage.removeItem(POST_AUTH_REDIRECT_KEY);
+    const target = storedTarget || `${window.location.pathname}${window.location.search}`;
+    const [targetPath, targetQuery = ''] = target.split('?');
+    const location = parseAppLocation(targetPath);
+
+    if (normalizePath(targetPath) === '/' || location.view === 'auth') {
+      navigateToView('dashboard');
+      return;
+    }
+
+    window.history.replaceState({ view: location.view, issueKey: location.issueKey }, '', target);
+    setCurrentView(location.view);
+    setRouteIssueKey(location.issueKey);
+    if (location.view === 'board') {
+      setBoardFilters(parseBoardFilters(targetQuery));
     }
-  }, [setCurrentView]);
+  }, [navigateToView]);
 
   useEffect(() => {
     if (!isBrowser) return;
 
     const syncViewFromLocation = () => {
-      const normalized = normalizePath(window.location.pathname);
-      const nextView = PATH_TO_VIEW[normalized] || 'dashboard';
-      setCurrentView(nextView);
+      const location = parseAppLocation(window.location.pathname);
+      setCurrentView(location.view);
+      setRouteIssueKey(location.issueKey);
+      if (location.view === 'board') {
+        setBoardFilters(parseBoardFilters(window.location.search));
+      }
     };
 
     window.addEventListener('popstate', syncViewFromLocation);
@@ -582,6 +1009,48 @@ const App: React.FC = () => {
 
   // Refs
   const wsRef = useRef<WebSocket | null>(null);
+  // The socket handlers outlive renders, so issue and chat events are routed through refs to the latest handlers
+  const issueSocketEventRef = useRef<(data: any) => void>(() => {});
+  const chatSocketEventRef = useRef<(data: any) => void>(() => {});
+  const workLogSocketEventRef = useRef<(data: any) => void>(() => {});
+  const attachmentSocketEventRef = useRef<(data: any) => void>(() => {});
+  // Refetches the open conversation when the socket missed messages it can't replay
+  const chatResyncRef = useRef<() => void>(() => {});
+  const connectWebSocketRef = useRef<() => void>(() => {});
+  const [socketStatus, setSocketStatus] = useState<SocketStatus>('disconnected');
+  const [ownPresence, setOwnPresence] = useState<PresenceStatus>(presenceTracker.getStatus());
+  const [issueViewers, setIssueViewers] = useState<{ issueId: string; viewers: IssueViewer[] } | null>(null);
+  const [issueLinkDraft, setIssueLinkDraft] = useState({ choice: 'blocks', targetId: '' });
+  const [issueModalTab, setIssueModalTab] = useState<'comments' | 'activity'>('comments');
+  // Loaded when an issue's activity tab opens; socket entries are only added to issues already loaded
+  const [issueHistory, setIssueHistory] = useState<Record<string, IssueHistoryEntry[]>>({});
+  const [issueHistoryError, setIssueHistoryError] = useState<string | null>(null);
+  // Work logs of issues opened this session; an empty remaining estimate lets the server count it down
+  const [issueWorkLogs, setIssueWorkLogs] = useState<Record<string, WorkLog[]>>({});
+  const [logWorkDraft, setLogWorkDraft] = useState<{ issueId: string; duration: string; date: string; note: string; remaining: string } | null>(null);
+  const [isLoggingWork, setIsLoggingWork] = useState(false);
+  const [issueAttachments, setIssueAttachments] = useState<Record<string, Attachment[]>>({});
+  // Uploads in flight, and failed ones until dismissed
+  const [attachmentUploads, setAttachmentUploads] = useState<Array<{ id: string; issueId: string; fileName: string; size: number; sent: number; error?: string }>>([]);
+  const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
+  // Picked in the create modal and uploaded once the issue exists
+  const [newIssueFiles, setNewIssueFiles] = useState<File[]>([]);
+  const [fileDropTarget, setFileDropTarget] = useState<'issue' | 'create' | null>(null);
+  const [timesheet, setTimesheet] = useState<{ userId: string; weekStart: Date; logs: WorkLog[] | null; error: string | null }>({
+    userId: '',
+    weekStart: startOfWeek(new Date()),
+    logs: null,
+    error: null
+  });
+  const [isSavingIssueLink, setIsSavingIssueLink] = useState(false);
+  const [showAllIssueLinks, setShowAllIssueLinks] = useState(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const resumeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set once a socket has opened in this session; later opens are reconnects that need to resume
+  const hasConnectedRef = useRef(false);
+  const lastSocketEventRef = useRef<{ id: string; at: string } | null>(null);
+  const seenSocketEventIdsRef = useRef(new Set<string>());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Helper functions
@@ -634,14 +1103,19 @@ const App: React.FC = () => {
         status: issue.status,
         priority: issue.priority,
         issue_type: issue.issue_type,
+        parent_id: issue.parent_id || '',
         assignee_id: issue.assignee_id || '',
         story_points: issue.story_points != null ? String(issue.story_points) : '',
         labels: sanitizeLabels(issue.labels || []).join(', '),
-        deadline: formatDateForInput(issue.deadline)
+        deadline: formatDateForInput(issue.deadline),
+        custom_fields: compactFieldValues(issue.custom_fields),
+        original_estimate: issue.original_estimate_minutes != null ? formatDuration(issue.original_estimate_minutes) : '',
+        remaining_estimate: issue.remaining_estimate_minutes != null ? formatDuration(issue.remaining_estimate_minutes) : ''
       });
     } else {
       setIssueEditDraft(null);
     }
+    setIssueEditBase(issue);
   }, [formatDateForInput, sanitizeLabels]);
 
   const buildIssueUpdatePayload = (updates: Partial<Issue> & { visibility?: string }) => {
@@ -656,6 +1130,10 @@ const App: React.FC = () => {
       'labels',
       'deadline',
       'issue_type',
+      'parent_id',
+      'custom_fields',
+      'original_estimate_minutes',
+      'remaining_estimate_minutes',
       'visibility'
     ];
 
@@ -707,6 +1185,9 @@ const App: React.FC = () => {
             payload[key] = normalizeDeadline(value) ?? null;
           }
           break;
+        case 'custom_fields':
+          payload[key] = compactFieldValues(value);
+          break;
         default:
           payload[key] = value;
       }
@@ -753,7 +1234,7 @@ const App: React.FC = () => {
   useEffect(() => {
     const validateAndRestoreSession = async () => {
       console.log('🚀 App starting up...');
-      console.log('📡 API Base URL:', API_BASE_URL);
+      console.log('📡 API Base URL:', mockBackend ? 'in-memory mock backend' : API_BASE_URL);
 
       const savedToken = localStorage.getItem('accessToken');
       const savedUser = localStorage.getItem('user');
@@ -771,36 +1252,39 @@ const App: React.FC = () => {
 
           console.log('â Restoring session for user:', parsedUser.email);
 
-          // Validate token by making a test API call
+          // Validate token by making a test API call (an expired token is renewed by the API client,
+          // so only a failed refresh ends the session here)
           console.log('ð Validating token...');
           try {
-            await apiCall('/api/users', {
-              headers: { 'Authorization': `Bearer ${savedToken}` }
-            });
+            // The response doubles as the first users load
+            const validatedUsers = await api.users.list({ accessToken: savedToken });
+            dataStore.prime('users', validatedUsers.map(withPresence));
+            console.log('â Token validated successfully');
           } catch (validationError) {
-            console.warn('â Token validation failed - clearing session', validationError);
-            localStorage.removeItem('accessToken');
-            localStorage.removeItem('user');
-            localStorage.removeItem('organization');
-            navigateToView('auth', { replace: true });
-            return;
+            if (isApiError(validationError) && validationError.kind === 'unauthorized') {
+              console.warn('â Token validation failed - session cleared', validationError);
+              return;
+            }
+            console.warn('⚠️ Could not reach the server to validate the session, keeping it', validationError);
           }
 
-          console.log('â Token validated successfully');
-
-          setAccessToken(savedToken);
+          const activeToken = localStorage.getItem('accessToken') || savedToken;
+          applySessionTokens(activeToken);
+          userIdRef.current = parsedUser.id;
           setUser(parsedUser);
           setOrganization(parsedOrg);
           setIsAuthenticated(true);
-          navigateToView('dashboard');
+          restoreRequestedLocation();
 
           // Load data
-          loadIssues(savedToken);
-          loadUsers(savedToken);
+          loadIssues();
+          loadUsers();
           connectWebSocket();
         } catch (error) {
           console.error('â Error validating saved session:', error);
+          rememberRequestedLocation();
           localStorage.removeItem('accessToken');
+          localStorage.removeItem('refreshToken');
           localStorage.removeItem('user');
           localStorage.removeItem('organization');
           navigateToView('auth', { replace: true });
@@ -835,208 +1319,624 @@ const App: React.FC = () => {
     }
   }, [currentView]);
 
+  // Re-hydrate only when a different issue is opened, so optimistic updates and rollbacks
+  // of the open issue don't throw away what is being typed
+  const hydratedIssueIdRef = useRef<string | null>(null);
   useEffect(() => {
-    hydrateIssueEditDraft(selectedIssue);
-    setIsEditingIssue(false);
-    setIsSavingIssue(false);
-  }, [selectedIssue, hydrateIssueEditDraft]);
+    const issueId = selectedIssue?.id ?? null;
+    if (issueId !== hydratedIssueIdRef.current) {
+      hydratedIssueIdRef.current = issueId;
+      hydrateIssueEditDraft(selectedIssue);
+      setIsEditingIssue(false);
+      setIsSavingIssue(false);
+      setIssueMerge(null);
+    }
+
+    const stashed = selectedIssue ? takeStashedIssueDraft(selectedIssue.id) : null;
+    if (stashed) {
+      setIssueEditDraft(stashed.draft);
+      setIssueEditBase(stashed.base ?? selectedIssue);
+      setIsEditingIssue(true);
+      showToast('info', 'Draft Restored', 'Your unsaved changes were kept while you signed back in');
+    }
+  }, [selectedIssue, hydrateIssueEditDraft, showToast]);
 
   useEffect(() => {
     if (!showIssueModal) {
       setIsEditingIssue(false);
       setIsSavingIssue(false);
+      setIssueMerge(null);
     }
   }, [showIssueModal]);
 
-  const buildApiUrl = (base: string, endpoint: string) => {
-    const trimmedBase = base.replace(/\/$/, '');
-    const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    if (!trimmedBase) {
-      return normalizedEndpoint;
-    }
-    return `${trimmedBase}${normalizedEndpoint}`;
-  };
-
-  const interpretOnlineFlag = (value: any): boolean | undefined => {
-    if (typeof value === 'boolean') return value;
-    if (typeof value === 'number') {
-      if (value === 1) return true;
-      if (value === 0) return false;
+  // Only reached once a refresh has failed too; an open edit is stashed so it can be resumed after signing in
+  const handleSessionExpired = useCallback(() => {
+    console.warn('⚠️ 401 Unauthorized - Token expired or invalid');
+    rememberRequestedLocation();
+    if (isEditingIssue && selectedIssue && issueEditDraft) {
+      const stashed: StashedIssueDraft = { issueId: selectedIssue.id, draft: issueEditDraft, base: issueEditBase ?? undefined };
+      sessionStorage.setItem(STASHED_ISSUE_DRAFT_KEY, JSON.stringify(stashed));
     }
-    if (typeof value === 'string') {
-      const normalized = value.trim().toLowerCase();
-      if (['1', 'true', 'yes', 'online', 'active'].includes(normalized)) return true;
-      if (['0', 'false', 'no', 'offline', 'inactive'].includes(normalized)) return false;
+    localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+    localStorage.removeItem('organization');
+    setAccessToken('');
+    setUser(null);
+    setOrganization(null);
+    setIsAuthenticated(false);
+    navigateToView('auth', { replace: true });
+    showToast('warning', 'Session Expired', 'Please login again');
+  }, [navigateToView, rememberRequestedLocation, showToast, isEditingIssue, selectedIssue, issueEditDraft, issueEditBase]);
+
+  // The client is created once; it reads the token and 401 handler through refs so they never go stale
+  const accessTokenRef = useRef(accessToken);
+  accessTokenRef.current = accessToken;
+  const sessionExpiredRef = useRef(handleSessionExpired);
+  sessionExpiredRef.current = handleSessionExpired;
+  // Owner of the offline queue; also set on sign-in because loadIssues runs before the re-render
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = user?.id ?? null;
+  const applySessionTokens = useCallback((nextAccessToken: string, nextRefreshToken?: string) => {
+    accessTokenRef.current = nextAccessToken;
+    setAccessToken(nextAccessToken);
+    localStorage.setItem('accessToken', nextAccessToken);
+    if (nextRefreshToken) {
+      localStorage.setItem('refreshToken', nextRefreshToken);
     }
-    return undefined;
-  };
+  }, []);
+
+  const api = useMemo(() => createApiClient({
+    baseUrl: API_BASE_URL,
+    getAccessToken: () => accessTokenRef.current,
+    getRefreshToken: () => localStorage.getItem('refreshToken'),
+    onTokenRefreshed: (tokens: RefreshResponse) => {
+      console.log('🔄 Access token renewed');
+      applySessionTokens(tokens.access_token, tokens.refresh_token);
+    },
+    onUnauthorized: () => sessionExpiredRef.current(),
+    allowDevProxyFallback: !mockBackend && !devProxyDisabled && isLocalhostEnv(),
+    fetchImpl: mockBackend?.fetch
+  }), [applySessionTokens, mockBackend]);
+
+  const issuesRef = useRef<Issue[]>([]);
+  // Issues opened through a deep link before their column page was loaded; kept across refreshes
+  const pinnedIssueIdsRef = useRef(new Set<string>());
+  // Whether the server pages issues, learned from the first load; until then one column is asked first
+  const serverPagesIssuesRef = useRef<boolean | null>(null);
+
+  // Issues and users live in one normalized store shared by every view
+  const dataStore = useMemo(() => {
+    const store = createDataStore({
+      loaders: {
+        // One page per board column; a refresh re-reads each column as deep as it has been scrolled
+        issues: async ({ setPageInfo }) => {
+          const current = issuesRef.current;
+          const columns = await store.read('workflowStatuses');
+          const loadColumn = (column: WorkflowStatus) => {
+            const loadedInColumn = current.filter(issue => issue.status === column.id && !isTempId(issue.id)).length;
+            return api.issues.listPage({ status: column.id, limit: Math.max(ISSUE_PAGE_SIZE, loadedInColumn) });
+          };
+          // A server without pagination answers every column with the whole backlog, so its first answer
+          // is split into the columns rather than downloaded once per column
+          const [firstColumn, ...otherColumns] = columns;
+          const firstPage = serverPagesIssuesRef.current || !firstColumn ? null : await loadColumn(firstColumn);
+          serverPagesIssuesRef.current = serverPagesIssuesRef.current ?? (firstPage ? !firstPage.allIssues : null);
+          const allIssues = firstPage?.allIssues;
+          const pages = allIssues
+            ? columns.map(column => toIssuePage(allIssues, { status: column.id }))
+            : firstPage
+              ? [firstPage, ...await Promise.all(otherColumns.map(loadColumn))]
+              : await Promise.all(columns.map(loadColumn));
+          pages.forEach((page, index) => setPageInfo(issuePageKey(columns[index].id), {
+            nextCursor: page.next_cursor,
+            total: page.total,
+            fetched: page.items.length,
+            loading: false
+          }));
+
+          const issuesData = pages.flatMap(page => page.items);
+          const fetchedIds = new Set(issuesData.map(issue => issue.id));
+          fetchedIds.forEach(issueId => pinnedIssueIdsRef.current.delete(issueId));
+          const pinned = current.filter(issue => pinnedIssueIdsRef.current.has(issue.id));
+          const queued = userIdRef.current ? await offlineQueue.list(userIdRef.current) : [];
+          return applyQueuedMutations([...issuesData, ...pinned], queued);
+        },
+        users: async () => (await api.users.list()).map(withPresence),
+        issueLinks: () => api.issueLinks.list(),
+        workflowStatuses: async () => {
+          try {
+            return await api.workflow.list();
+          } catch (error) {
+            // Servers without configurable workflows keep the original four columns
+            if (isApiError(error) && error.kind === 'not_found') return DEFAULT_WORKFLOW;
+            throw error;
+          }
+        },
+        customFields: async () => {
+          try {
+            return await api.customFields.list();
+          } catch (error) {
+            if (isApiError(error) && error.kind === 'not_found') return [];
+            throw error;
+          }
+        },
+        recurringIssues: async () => {
+          try {
+            return await api.recurringIssues.list();
+          } catch (error) {
+            if (isApiError(error) && error.kind === 'not_found') return [];
+            throw error;
+          }
+        },
+        issueTemplates: async () => {
+          try {
+            return await api.issueTemplates.list();
+          } catch (error) {
+            if (isApiError(error) && error.kind === 'not_found') return [];
+            throw error;
+          }
+        }
+      }
+    });
+    return store;
+  }, [api]);
+  const issues = useResourceList(dataStore, 'issues');
+  const users = useResourceList(dataStore, 'users');
+  const issueLinks = useResourceList(dataStore, 'issueLinks');
+  const workflowStatuses = useResourceList(dataStore, 'workflowStatuses');
+  // Board columns, status names and colors, and what counts as finished all come from the organization's workflow
+  const workflow = useMemo(() => createWorkflow(workflowStatuses), [workflowStatuses]);
+  const customFields = useResourceList(dataStore, 'customFields');
+  const recurringIssues = useResourceList(dataStore, 'recurringIssues');
+  const issueTemplates = useResourceList(dataStore, 'issueTemplates');
+  const issuePages = usePageInfo(dataStore);
+  const setIssues = useCallback((next: Issue[] | ((previous: Issue[]) => Issue[])) => dataStore.setList('issues', next), [dataStore]);
+  const setUsers = useCallback((next: User[] | ((previous: User[]) => User[])) => dataStore.setList('users', next), [dataStore]);
+  issuesRef.current = issues;
+
+  // Offline queue
+  const refreshPendingMutations = useCallback(async () => {
+    const userId = userIdRef.current;
+    setPendingMutations(userId ? await offlineQueue.list(userId) : []);
+  }, []);
 
-  // API call helper
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const optionHeaders = options.headers instanceof Headers
-      ? Object.fromEntries(options.headers.entries())
-      : (options.headers as Record<string, string> | undefined) ?? {};
+  const updateIssueInState = useCallback((issueIds: string[], updater: (issue: Issue) => Issue | null) => {
+    const apply = (issue: Issue) => (issueIds.includes(issue.id) ? updater(issue) : issue);
+    setIssues(prev => prev.map(apply).filter((issue): issue is Issue => issue !== null));
+    setSelectedIssue(prev => (prev ? apply(prev) : prev));
+  }, [setIssues]);
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...optionHeaders,
-    };
-    if (accessToken) headers['Authorization'] = `Bearer ${accessToken}`;
+  const queueOfflineMutation = async (input: QueuedMutationInput) => {
+    if (!userIdRef.current) return;
+    await offlineQueue.enqueue(userIdRef.current, input);
+    await refreshPendingMutations();
+  };
+
+  const syncOfflineQueueRef = useRef<() => void>(() => {});
+  const offlineSyncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const offlineSyncAttemptRef = useRef(0);
+
+  // Nothing else replays writes that queued while the browser still counted as online, so they get
+  // their own retry; a replay cut short by a failure waits longer each time
+  const scheduleOfflineSync = useCallback((afterFailure: boolean) => {
+    if (offlineSyncTimerRef.current) return;
+    const delay = afterFailure ? jitteredBackoff(offlineSyncAttemptRef.current, OFFLINE_SYNC_RETRY_BASE_MS, OFFLINE_SYNC_RETRY_MAX_MS) : 0;
+    offlineSyncAttemptRef.current = afterFailure ? offlineSyncAttemptRef.current + 1 : 0;
+    offlineSyncTimerRef.current = setTimeout(() => {
+      offlineSyncTimerRef.current = null;
+      syncOfflineQueueRef.current();
+    }, delay);
+  }, []);
 
-    const { headers: _ignored, ...restOptions } = options;
-    const initialBase = devProxyActivated || !API_BASE_URL ? '' : API_BASE_URL;
-    const allowProxyFallback = !devProxyActivated && !devProxyDisabled && !!API_BASE_URL && isLocalhostEnv();
+  const cancelOfflineSync = useCallback(() => {
+    if (offlineSyncTimerRef.current) clearTimeout(offlineSyncTimerRef.current);
+    offlineSyncTimerRef.current = null;
+    offlineSyncAttemptRef.current = 0;
+  }, []);
 
-    const attemptFetch = async (base: string, enableProxyFallback: boolean): Promise<any> => {
-      const requestUrl = buildApiUrl(base, endpoint);
-      let response: Response;
+  // Sends a write now, or queues it when offline. Writes also queue while earlier ones are still
+  // waiting (or when they target an issue created offline) so the server sees them in order.
+  const runOrQueue = async <T,>(send: () => Promise<T>, input: QueuedMutationInput): Promise<{ queued: boolean; result?: T }> => {
+    const targetsOfflineIssue = input.kind !== 'issue.create' && isTempId(input.issueId);
+    const hasWaitingWrites = pendingMutations.some(mutation => mutation.state === 'pending');
+    let sendFailed = false;
+    if (isOnline && !targetsOfflineIssue && !hasWaitingWrites) {
       try {
-        response = await fetch(requestUrl, { ...restOptions, headers });
-      } catch (networkError) {
-        if (enableProxyFallback) {
-          console.warn('Network error while calling API, retrying via dev proxy fallback.', { endpoint, requestUrl, networkError });
-          devProxyActivated = true;
-          return attemptFetch('', false);
-        }
-        const message = networkError instanceof Error ? networkError.message : String(networkError);
-        const wrappedError = new Error(`Network request failed: ${message}. Check server availability and CORS configuration.`);
-        (wrappedError as any).cause = networkError;
-        throw wrappedError;
+        return { queued: false, result: await send() };
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+        console.warn('[offline] Request failed, queueing write:', input.kind);
+        sendFailed = true;
       }
+    }
+    await queueOfflineMutation(input);
+    if (isOnline) scheduleOfflineSync(sendFailed);
+    return { queued: true };
+  };
 
-      const contentType = response.headers.get('content-type') || '';
-      const isJsonResponse = contentType.includes('application/json');
-      const statusHasBody = ![204, 205].includes(response.status);
-      const responseBodyText = statusHasBody ? await response.text() : '';
-      let parsedBody: any = null;
+  const buildOfflineIssue = (tempId: string, payload: IssuePayload): Issue => {
+    const now = new Date().toISOString();
+    return {
+      id: tempId,
+      key: `PENDING-${tempId.slice(-4).toUpperCase()}`,
+      title: payload.title || '',
+      description: payload.description || '',
+      issue_type: (payload.issue_type || 'TASK') as Issue['issue_type'],
+      priority: (payload.priority || 'MEDIUM') as Issue['priority'],
+      status: payload.status || workflow.initialStatus,
+      assignee_id: payload.assignee_id ?? null,
+      reporter_id: user?.id || '',
+      story_points: payload.story_points ?? null,
+      created_at: now,
+      updated_at: now,
+      labels: payload.labels || [],
+      organization_id: user?.organization_id || '',
+      deadline: payload.deadline ?? null,
+      parent_id: payload.parent_id ?? null,
+      custom_fields: payload.custom_fields ?? {},
+      original_estimate_minutes: payload.original_estimate_minutes ?? null,
+      remaining_estimate_minutes: payload.remaining_estimate_minutes ?? payload.original_estimate_minutes ?? null,
+      time_spent_minutes: 0,
+      comments: []
+    };
+  };
 
-      if (responseBodyText && isJsonResponse) {
-        try {
-          parsedBody = JSON.parse(responseBodyText);
-        } catch (parseError) {
-          console.error('Received malformed JSON from API:', parseError);
-          console.debug('Malformed payload preview:', responseBodyText.slice(0, 200));
-          if (response.ok) {
-            throw new Error('Received malformed JSON response from server.');
+  const isSyncingRef = useRef(false);
+
+  const syncOfflineQueue = useCallback(async () => {
+    const userId = userIdRef.current;
+    if (!userId || isSyncingRef.current || (isBrowser && !navigator.onLine)) return;
+
+    isSyncingRef.current = true;
+    setIsSyncingOffline(true);
+    let stalled = false;
+    try {
+      const outcome = await replayOfflineQueue(api, offlineQueue, userId, {
+        onApplied: (mutation, response, resolvedIssueId) => {
+          switch (mutation.kind) {
+            case 'issue.create': {
+              const createdIssue = response as Issue;
+              // The socket may already have delivered the real issue
+              setIssues(prev => prev.filter(issue => issue.id !== createdIssue.id));
+              updateIssueInState([mutation.tempId], () => createdIssue);
+              // Keep an open deep link pointing at the issue once it has its real key
+              if (parseAppLocation(window.location.pathname).issueKey === normalizeIssueKey(mutation.placeholder.key)) {
+                navigateToIssue(createdIssue.key, { replace: true });
+              }
+              break;
+            }
+            case 'issue.update':
+              updateIssueInState([mutation.issueId, resolvedIssueId], () => response as Issue);
+              break;
+            case 'issue.delete':
+              updateIssueInState([mutation.issueId, resolvedIssueId], () => null);
+              break;
+            case 'comment.create':
+              updateIssueInState([mutation.issueId, resolvedIssueId], issue => withComment(issue, response as Comment, mutation.tempId));
+              break;
           }
+        },
+        onConflict: (mutation, message) => {
+          const issueId = mutation.kind === 'issue.create' ? mutation.tempId : mutation.issueId;
+          const issueKey = issuesRef.current.find(issue => issue.id === issueId)?.key;
+          showToast('warning', 'Sync Conflict', `${describeMutation(mutation, issueKey)}: ${message}`);
         }
-      } else if (responseBodyText) {
-        parsedBody = responseBodyText;
+      });
+
+      stalled = outcome.stalled;
+      if (outcome.applied > 0) {
+        showToast('success', 'Changes Synced', `${outcome.applied} offline change${outcome.applied === 1 ? '' : 's'} synced`);
       }
+    } catch (error) {
+      console.error('[offline] Replay failed:', error);
+      stalled = true;
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncingOffline(false);
+      await refreshPendingMutations();
+    }
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.warn('⚠️ 401 Unauthorized - Token expired or invalid');
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('user');
-          localStorage.removeItem('organization');
-          setAccessToken('');
-          setUser(null);
-          setOrganization(null);
-          setIsAuthenticated(false);
-          navigateToView('auth', { replace: true });
-          showToast('warning', 'Session Expired', 'Please login again');
-          throw new Error('Session expired. Please login again.');
-        }
+    // Go again if the replay was cut short or more writes queued while it ran
+    const stillWaiting = (await offlineQueue.list(userId)).some(mutation => mutation.state === 'pending');
+    if (stillWaiting) scheduleOfflineSync(stalled);
+    else cancelOfflineSync();
+  }, [api, cancelOfflineSync, navigateToIssue, refreshPendingMutations, scheduleOfflineSync, setIssues, showToast, updateIssueInState]);
+  syncOfflineQueueRef.current = syncOfflineQueue;
+
+  const retryQueuedMutation = async (mutation: QueuedMutation) => {
+    await offlineQueue.put({ ...mutation, state: 'pending', error: undefined, serverFailures: 0 });
+    await refreshPendingMutations();
+    syncOfflineQueue();
+  };
 
-        console.error('API Error Response:', parsedBody ?? responseBodyText);
+  const discardQueuedMutation = async (mutation: QueuedMutation) => {
+    await offlineQueue.remove(mutation.seq);
+    await refreshPendingMutations();
+    // Reload so the discarded change disappears from the local copy
+    dataStore.invalidate('issues');
+  };
 
-        let errorMessage = `HTTP ${response.status}`;
-        if (parsedBody && typeof parsedBody === 'object') {
-          if (typeof parsedBody.detail === 'string') {
-            errorMessage = parsedBody.detail;
-          } else if (typeof parsedBody.detail === 'object') {
-            errorMessage = JSON.stringify(parsedBody.detail);
-          } else if (parsedBody.message) {
-            errorMessage = parsedBody.message;
-          }
-        } else if (responseBodyText.trim()) {
-          const trimmed = responseBodyText.trim();
-          errorMessage = trimmed.length > 200 ? `${trimmed.slice(0, 200)}...` : trimmed;
-        }
+  // Pick up changes made elsewhere when the user comes back to the tab
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const handleFocus = () => dataStore.revalidateStale();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') dataStore.revalidateStale();
+    };
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [dataStore, isAuthenticated]);
 
-        throw new Error(errorMessage);
-      }
+  const sendPresenceHeartbeat = useCallback(() => {
+    const socket = wsRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'heartbeat', status: presenceTracker.getStatus() }));
+    }
+  }, []);
 
-      if (!responseBodyText) {
-        return null;
-      }
+  // Heartbeats keep us listed as present; a change of status is reported straight away instead of on the next beat
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    presenceTracker.start();
+    setOwnPresence(presenceTracker.getStatus());
+    const unsubscribe = presenceTracker.subscribe(status => {
+      setOwnPresence(status);
+      sendPresenceHeartbeat();
+    });
+    const interval = setInterval(sendPresenceHeartbeat, PRESENCE_HEARTBEAT_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      presenceTracker.stop();
+    };
+  }, [isAuthenticated, sendPresenceHeartbeat]);
 
-      if (isJsonResponse) {
-        return parsedBody ?? null;
+  // Tells the server which issue we have open and whether we're editing it. A fresh socket knows
+  // nothing, so this is re-sent on every reconnect; closing the socket releases the lock server-side.
+  const viewingIssueId = showIssueModal && selectedIssue && !isTempId(selectedIssue.id) ? selectedIssue.id : null;
+  useEffect(() => {
+    const socket = wsRef.current;
+    if (socketStatus !== 'connected' || !socket || socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ type: 'issue_viewing', issue_id: viewingIssueId, editing: viewingIssueId ? isEditingIssue : false }));
+  }, [socketStatus, viewingIssueId, isEditingIssue]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncOfflineQueue();
+      if (accessTokenRef.current && !wsRef.current) {
+        connectWebSocketRef.current();
       }
+    };
+    const handleOffline = () => setIsOnline(false);
 
-      return responseBodyText;
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
     };
+  }, [syncOfflineQueue]);
+
+  // Pick up writes left from an earlier offline session once signed in
+  useEffect(() => {
+    if (!isAuthenticated || !user?.id) return;
+    refreshPendingMutations().then(() => syncOfflineQueueRef.current());
+    return cancelOfflineSync;
+  }, [isAuthenticated, user?.id, refreshPendingMutations, cancelOfflineSync]);
 
-    return attemptFetch(initialBase, allowProxyFallback);
-  }, [accessToken, showToast, setAccessToken, setUser, setOrganization, setIsAuthenticated, setCurrentView]);
-  // Load issues
-  const loadIssues = async (token: string) => {
+  // Load issues (served from the shared store; pass force after a sign-in or a bulk change)
+  const loadIssues = async (options: ReadOptions = {}) => {
     try {
       console.log('📋 Loading issues...');
-      const issuesData = await apiCall('/api/issues', {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      // Links, custom field definitions, recurring series and templates are only meaningful next to the issues, so they load (and refresh) together
+      const [issuesData] = await Promise.all([
+        dataStore.read('issues', options),
+        dataStore.read('issueLinks', options),
+        dataStore.read('customFields', options),
+        dataStore.read('recurringIssues', options),
+        dataStore.read('issueTemplates', options)
+      ]);
       console.log('✅ Issues loaded:', issuesData.length);
-      setIssues(issuesData);
+      setHasLoadedIssues(true);
     } catch (error) {
       console.error('❌ Failed to load issues:', error);
       showToast('error', 'Loading Failed', 'Could not load issues');
     }
   };
 
-  // Load users
+  // Column page requests in flight; asking for the same column again joins the one already running
+  const columnLoadsRef = useRef(new Map<string, Promise<boolean>>());
+
+  // Next page of one board column, requested as the column is scrolled. Resolves false when there was
+  // nothing left to load or the page failed
+  const loadMoreIssues = (status: Issue['status'], limit = ISSUE_PAGE_SIZE): Promise<boolean> => {
+    const inFlight = columnLoadsRef.current.get(status);
+    if (inFlight) return inFlight;
+    const queryKey = issuePageKey(status);
+    const info = dataStore.getPages()[queryKey];
+    if (!info || !info.nextCursor) return Promise.resolve(false);
+
+    const load = fetchColumnPage(status, info, limit).finally(() => columnLoadsRef.current.delete(status));
+    columnLoadsRef.current.set(status, load);
+    return load;
+  };
 
-  const loadUsers = async (token: string) => {
+  const fetchColumnPage = async (status: Issue['status'], info: PageInfo, limit: number) => {
+    const queryKey = issuePageKey(status);
+    dataStore.setPageInfo(queryKey, { ...info, loading: true });
     try {
-      console.log('ð¥ Loading users...');
-      const usersData = await apiCall('/api/users', {
-        headers: { 'Authorization': `Bearer ${token}` }
+      const page = await api.issues.listPage({ status, cursor: info.nextCursor, limit });
+      page.items.forEach(issue => pinnedIssueIdsRef.current.delete(issue.id));
+      // Queued offline edits still apply to issues that arrive later; queued creates are already listed
+      const queuedEdits = pendingMutations.filter(mutation => mutation.kind !== 'issue.create');
+      dataStore.upsert('issues', applyQueuedMutations(page.items, queuedEdits));
+      dataStore.setPageInfo(queryKey, {
+        nextCursor: page.next_cursor,
+        total: page.total,
+        fetched: info.fetched + page.items.length,
+        loading: false
       });
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to load more issues:', error);
+      dataStore.setPageInfo(queryKey, { ...info, loading: false });
+      showToast('error', 'Loading Failed', 'Could not load more issues');
+      return false;
+    }
+  };
 
-      const usersArray = Array.isArray(usersData)
-        ? usersData
-        : Array.isArray(usersData?.users)
-          ? usersData.users
-          : [];
-
-      console.log('â Users loaded:', usersArray.length);
-
-      const usersWithStatus = usersArray.map((u: any) => {
-        const derivedOnline =
-          interpretOnlineFlag(u?.is_online) ??
-          interpretOnlineFlag(u?.online) ??
-          interpretOnlineFlag(u?.online_status) ??
-          interpretOnlineFlag(u?.status?.is_online) ??
-          interpretOnlineFlag(u?.status?.online) ??
-          interpretOnlineFlag(u?.presence?.is_online) ??
-          interpretOnlineFlag(u?.presence);
-
-        return {
-          ...u,
-          is_online: derivedOnline ?? false,
-        };
-      });
+  const allIssuesLoaded = hasLoadedIssues && workflow.statuses.every(column => !issuePages[issuePageKey(column.id)]?.nextCursor);
+
+  // Pages every column to its end. Exports and the dashboard's point totals need the whole backlog, not
+  // just what the board has scrolled through; resolves false if a page failed
+  const loadAllIssuesPromiseRef = useRef<Promise<boolean> | null>(null);
+  const loadAllIssues = () => {
+    if (!loadAllIssuesPromiseRef.current) {
+      loadAllIssuesPromiseRef.current = Promise.all(workflow.statuses.map(async column => {
+        while (dataStore.getPages()[issuePageKey(column.id)]?.nextCursor) {
+          if (!(await loadMoreIssues(column.id, ISSUE_BULK_PAGE_SIZE))) return false;
+        }
+        return true;
+      }))
+        .then(results => results.every(Boolean))
+        .finally(() => {
+          loadAllIssuesPromiseRef.current = null;
+        });
+    }
+    return loadAllIssuesPromiseRef.current;
+  };
+  const loadAllIssuesRef = useRef(loadAllIssues);
+  loadAllIssuesRef.current = loadAllIssues;
+
+  // Columns come back in key order, so an issue belongs among the loaded cards when the column has no
+  // more pages or its last loaded card sorts after it
+  const isInLoadedWindow = (issue: Issue) => {
+    if (!dataStore.getPages()[issuePageKey(issue.status)]?.nextCursor) return true;
+    const loadedNumbers = dataStore.getList('issues')
+      .filter(candidate => candidate.status === issue.status && !pinnedIssueIdsRef.current.has(candidate.id))
+      .map(candidate => issueKeyNumber(candidate.key));
+    return loadedNumbers.some(number => number > issueKeyNumber(issue.key));
+  };
+
+  // Counts a card that entered or left a column outside its loaded pages
+  const shiftColumnTotal = (status: Issue['status'], delta: number) => {
+    const queryKey = issuePageKey(status);
+    const info = dataStore.getPages()[queryKey];
+    if (info) dataStore.setPageInfo(queryKey, { ...info, total: Math.max(0, info.total + delta) });
+  };
+
+  // Server-side total for a column, adjusted for local moves, creates and deletes not yet reflected in it
+  const getColumnTotal = (status: Issue['status']) => {
+    const loadedCount = issues.filter(issue => issue.status === status && !pinnedIssueIdsRef.current.has(issue.id)).length;
+    const info = issuePages[issuePageKey(status)];
+    return info ? Math.max(0, info.total - info.fetched + loadedCount) : loadedCount;
+  };
+
+  // Load users
 
-      console.log('â Users with online status:', usersWithStatus);
-      setUsers(usersWithStatus);
+  const loadUsers = async (options: ReadOptions = {}) => {
+    try {
+      const usersWithStatus = await dataStore.read('users', options);
+      console.log('Users loaded:', usersWithStatus.length);
     } catch (error) {
-      console.error('â Failed to load users:', error);
+      console.error('Failed to load users:', error);
       showToast('error', 'Loading Failed', 'Could not load users');
     }
   };
 
   // WebSocket connection
 
+  const scheduleSocketReconnect = () => {
+    // Signed out, or the browser is offline (the online listener reconnects straight away)
+    if (!accessTokenRef.current || (isBrowser && !navigator.onLine)) {
+      setSocketStatus('disconnected');
+      return;
+    }
+    const delay = jitteredBackoff(reconnectAttemptRef.current, SOCKET_RECONNECT_BASE_MS, SOCKET_RECONNECT_MAX_MS);
+    reconnectAttemptRef.current += 1;
+    setSocketStatus('reconnecting');
+    console.log(`[socket] Disconnected, reconnecting in ${Math.round(delay / 100) / 10}s`);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      connectWebSocketRef.current();
+    }, delay);
+  };
+
+  const rememberSocketEvent = (eventId: string, sentAt?: string) => {
+    const seen = seenSocketEventIdsRef.current;
+    seen.add(eventId);
+    if (seen.size > SEEN_SOCKET_EVENT_LIMIT) {
+      seen.delete(seen.values().next().value as string);
+    }
+    lastSocketEventRef.current = { id: eventId, at: sentAt || new Date().toISOString() };
+  };
+
+  const reloadAfterMissedEvents = () => {
+    dataStore.invalidate();
+    chatResyncRef.current();
+  };
+
+  // Asks the server for everything sent since the last event we processed
+  const resumeSocketEvents = (socket: WebSocket) => {
+    const lastEvent = lastSocketEventRef.current;
+    if (!lastEvent) {
+      reloadAfterMissedEvents();
+      return;
+    }
+    socket.send(JSON.stringify({ type: 'resume', last_event_id: lastEvent.id, last_event_at: lastEvent.at }));
+    resumeTimerRef.current = setTimeout(() => {
+      resumeTimerRef.current = null;
+      console.warn('[socket] No answer to the resume request, reloading instead');
+      reloadAfterMissedEvents();
+    }, SOCKET_RESUME_TIMEOUT_MS);
+  };
+
+  const finishSocketResume = (data: { type: string; replayed?: number }) => {
+    if (resumeTimerRef.current) {
+      clearTimeout(resumeTimerRef.current);
+      resumeTimerRef.current = null;
+    }
+    if (data.type === 'resume_failed') {
+      console.warn('[socket] Missed events are no longer available, reloading');
+      reloadAfterMissedEvents();
+      return;
+    }
+    console.log(`[socket] Caught up on ${data.replayed ?? 0} missed event(s)`);
+  };
+
+  const disconnectWebSocket = () => {
+    [reconnectTimerRef, resumeTimerRef].forEach(timerRef => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+    });
+    if (wsRef.current) {
+      wsRef.current.onclose = null;
+      wsRef.current.close();
+      wsRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    hasConnectedRef.current = false;
+    lastSocketEventRef.current = null;
+    seenSocketEventIdsRef.current.clear();
+    setSocketStatus('disconnected');
+  };
+
   const connectWebSocket = () => {
+    // Read through the ref: callers run right after a login or refresh, before state has re-rendered
+    const accessToken = accessTokenRef.current;
     if (!accessToken) return;
 
     let wsUrl: string | null = null;
 
     if (WS_BASE_URL) {
       wsUrl = `${WS_BASE_URL.replace(/\/$/, '')}/ws/${accessToken}`;
-    } else if (devProxyActivated && isBrowser) {
+    } else if (isDevProxyActive() && isBrowser) {
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
       wsUrl = `${protocol}//${window.location.host}/ws/${accessToken}`;
     } else if (API_BASE_URL) {
@@ -1062,74 +1962,121 @@ const App: React.FC = () => {
     }
 
     console.log('ð Connecting to WebSocket:', wsUrl);
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
     if (wsRef.current) {
+      // Detach first so closing the old socket doesn't schedule a reconnect of its own
+      wsRef.current.onclose = null;
       wsRef.current.close();
     }
 
-    wsRef.current = new WebSocket(wsUrl);
+    setSocketStatus(hasConnectedRef.current ? 'reconnecting' : 'connecting');
+    const socket = mockBackend ? mockBackend.createWebSocket(wsUrl) : new WebSocket(wsUrl);
+    wsRef.current = socket;
 
     wsRef.current.onopen = () => {
-      console.log('â WebSocket connected');
+      console.log('[socket] Connected');
+      reconnectAttemptRef.current = 0;
+      setSocketStatus('connected');
+      sendPresenceHeartbeat();
+      if (hasConnectedRef.current) {
+        resumeSocketEvents(socket);
+        // A dropped socket often means the server was briefly away; writes that queued meanwhile can go now
+        syncOfflineQueueRef.current();
+      }
+      hasConnectedRef.current = true;
     };
 
     wsRef.current.onerror = (error) => {
-      console.error('â WebSocket error:', error);
+      console.error('[socket] Error:', error);
     };
 
     wsRef.current.onclose = () => {
-      console.log('ð WebSocket disconnected');
-      setTimeout(() => {
-        if (accessToken) {
-          connectWebSocket();
-        }
-      }, 5000);
+      if (wsRef.current !== socket) return;
+      wsRef.current = null;
+      scheduleSocketReconnect();
     };
 
     wsRef.current.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data);
-        console.log('ð¨ WebSocket message:', data);
-
-        // Handle incoming chat messages
-        if (data.type === 'chat_message' && data.message) {
-          const message = data.message;
-
-          // Only show notification if the message is not from the current user
-          if (message.sender_id !== user?.id) {
-            // Find sender name
-            const sender = users.find(u => u.id === message.sender_id);
-            const senderName = sender?.name || message.sender_name || 'Someone';
-
-            // Show popup toast
-            showToast(
-              'info',
-              `New Message from ${senderName}`,
-              message.content.length > 50
-                ? message.content.substring(0, 50) + '...'
-                : message.content
-            );
-
-            // Add to notification panel
-            addNotification({
-              type: 'comment_added',
-              title: `New Message from ${senderName}`,
-              message: message.content.length > 100
-                ? message.content.substring(0, 100) + '...'
-                : message.content,
-              read: false,
-              data: {
-                message_id: message.id,
-                sender_id: message.sender_id,
-                conversation_id: message.conversation_id
-              }
-            });
+        if (data.type === 'resume_complete' || data.type === 'resume_failed') {
+          finishSocketResume(data);
+          return;
+        }
+        if (data.event_id) {
+          // Replayed events can overlap ones that arrived just before the drop
+          const eventId = String(data.event_id);
+          if (seenSocketEventIdsRef.current.has(eventId)) return;
+          rememberSocketEvent(eventId, data.sent_at);
+        }
+        if (ISSUE_SOCKET_EVENTS.includes(data.type)) {
+          issueSocketEventRef.current(data);
+          return;
+        }
+        if (CHAT_SOCKET_EVENTS.includes(data.type)) {
+          chatSocketEventRef.current(data);
+          return;
+        }
+        if (PRESENCE_SOCKET_EVENTS.includes(data.type)) {
+          dataStore.setList('users', prev => applyPresenceEvent(prev, data));
+          return;
+        }
+        if (ISSUE_LINK_SOCKET_EVENTS.includes(data.type)) {
+          if (data.type === 'issue_link_created' && data.link?.id) dataStore.upsert('issueLinks', [data.link]);
+          if (data.type === 'issue_link_deleted') dataStore.setList('issueLinks', prev => prev.filter(link => link.id !== data.link_id));
+          return;
+        }
+        if (data.type === WORKFLOW_SOCKET_EVENT) {
+          // A new status has no issues yet, and removed ones had to be emptied first, so the loaded pages stay valid
+          if (Array.isArray(data.statuses)) dataStore.setList('workflowStatuses', data.statuses);
+          return;
+        }
+        if (CUSTOM_FIELD_SOCKET_EVENTS.includes(data.type)) {
+          // Values cleared by a change arrive separately as issue_updated events
+          if (data.type === 'custom_field_deleted') dataStore.setList('customFields', prev => prev.filter(field => field.id !== data.field_id));
+          else if (data.field?.id) dataStore.upsert('customFields', [data.field]);
+          return;
+        }
+        if (RECURRING_ISSUE_SOCKET_EVENTS.includes(data.type)) {
+          // The issues a run creates arrive on their own as issue_created events
+          if (data.type === 'recurring_issue_deleted') dataStore.setList('recurringIssues', prev => prev.filter(series => series.id !== data.recurring_issue_id));
+          else if (data.recurring_issue?.id) dataStore.upsert('recurringIssues', [data.recurring_issue]);
+          return;
+        }
+        if (ISSUE_TEMPLATE_SOCKET_EVENTS.includes(data.type)) {
+          // A new default arrives with a separate update for the template that lost the flag
+          if (data.type === 'issue_template_deleted') dataStore.setList('issueTemplates', prev => prev.filter(template => template.id !== data.template_id));
+          else if (data.template?.id) dataStore.upsert('issueTemplates', [data.template]);
+          return;
+        }
+        if (ATTACHMENT_SOCKET_EVENTS.includes(data.type)) {
+          attachmentSocketEventRef.current(data);
+          return;
+        }
+        if (WORK_LOG_SOCKET_EVENTS.includes(data.type)) {
+          workLogSocketEventRef.current(data);
+          return;
+        }
+        if (data.type === ISSUE_HISTORY_SOCKET_EVENT) {
+          if (data.entry?.id) {
+            setIssueHistory(prev => (prev[data.issue_id] ? { ...prev, [data.issue_id]: appendHistoryEntry(prev[data.issue_id], data.entry) } : prev));
           }
+          return;
         }
+        if (data.type === 'issue_viewers') {
+          if (data.issue_id && Array.isArray(data.viewers)) setIssueViewers({ issueId: data.issue_id, viewers: data.viewers });
+          return;
+        }
+        console.log('ð¨ WebSocket message:', data);
       } catch (error) {
         console.error('â WebSocket message parse error:', error);
       }
     };
   };
+  connectWebSocketRef.current = connectWebSocket;
 
   // Enhanced auth functions with logging
   const login = async (email: string, password: string): Promise<boolean> => {
@@ -1141,33 +2088,30 @@ const App: React.FC = () => {
     setAuthError('');
 
     try {
-      const data = await apiCall('/api/auth/login', {
-        method: 'POST',
-        body: JSON.stringify({ email, password }),
-      });
+      const data = await api.auth.login(email, password);
 
       console.log('✅ Login successful!');
       console.log('👤 User data:', data.user);
       console.log('🏢 Organization:', data.organization);
       console.log('🔑 Access token received:', data.access_token.substring(0, 10) + '...');
 
+      userIdRef.current = data.user.id;
       setUser(data.user);
       setOrganization(data.organization);
-      setAccessToken(data.access_token);
+      applySessionTokens(data.access_token, data.refresh_token);
       setIsAuthenticated(true);
       
       // Store session
-      localStorage.setItem('accessToken', data.access_token);
       localStorage.setItem('user', JSON.stringify(data.user));
       localStorage.setItem('organization', JSON.stringify(data.organization));
       
       console.log('💾 Session saved to localStorage');
       
-      navigateToView('dashboard');
+      restoreRequestedLocation();
       
       // Load data
-      await loadIssues(data.access_token);
-      await loadUsers(data.access_token);
+      await loadIssues({ force: true });
+      await loadUsers({ force: true });
       
       // Connect WebSocket
       connectWebSocket();
@@ -1204,7 +2148,7 @@ const App: React.FC = () => {
           name: signupForm.name,
           organization_name: signupForm.organization_name
         };
-        await apiCall('/api/auth/signup', { method: 'POST', body: JSON.stringify(requestBody) });
+        await api.auth.signup(requestBody);
         setOtpForm({ ...otpForm, email: signupForm.email });
         setAuthMode('verify-otp');
         showToast('info', 'Verification Required', 'Check backend console for the OTP code');
@@ -1221,7 +2165,7 @@ const App: React.FC = () => {
           password: signupForm.password,
           name: signupForm.name
         };
-        await apiCall('/api/auth/signup-member', { method: 'POST', body: JSON.stringify(requestBody) });
+        await api.auth.signupMember(requestBody);
         setOtpForm({ ...otpForm, email: signupForm.email });
         setAuthMode('verify-otp');
         showToast('info', 'Verification Required', 'Check backend console for the OTP code');
@@ -1239,16 +2183,16 @@ const App: React.FC = () => {
     setAuthError('');
     try {
       const body = { email: otpForm.email, otp: otpForm.otp };
-      const endpoint = signupMode === 'create_org' ? '/api/auth/verify-otp' : '/api/auth/verify-otp-member';
-      const data = await apiCall(endpoint, { method: 'POST', body: JSON.stringify(body) });
+      const data = await api.auth.verifyOtp(body, signupMode !== 'create_org');
 
-      setAccessToken(data.access_token);
+      applySessionTokens(data.access_token, data.refresh_token);
+      userIdRef.current = data.user.id;
       setUser(data.user);
       setOrganization(data.organization);
       setIsAuthenticated(true);
-      navigateToView('dashboard');
-      loadUsers(data.access_token);
-      loadIssues(data.access_token);
+      restoreRequestedLocation();
+      loadUsers({ force: true });
+      loadIssues({ force: true });
       connectWebSocket();
     } catch (error: any) {
       setAuthError(error.message || 'Verification failed');
@@ -1262,16 +2206,10 @@ const App: React.FC = () => {
     console.log('👋 Logging out...');
     
     // Close WebSocket connection
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
+    disconnectWebSocket();
     
     try {
-      await apiCall('/api/auth/logout', {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
+      await api.auth.logout(localStorage.getItem('refreshToken'));
       console.log('✅ Logout API call successful');
     } catch (error) {
       console.error('❌ Logout error:', error);
@@ -1284,20 +2222,121 @@ const App: React.FC = () => {
     setIsAuthenticated(false);
     navigateToView('auth', { replace: true });
     setAuthMode('login');
-    setIssues([]);
-    setUsers([]);
+    dataStore.reset();
+    setHasLoadedIssues(false);
     setNotifications([]);
     setToasts([]);
     
     // Clear storage
     localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     localStorage.removeItem('organization');
+    sessionStorage.removeItem(STASHED_ISSUE_DRAFT_KEY);
     
     showToast('info', 'Logged Out', 'See you next time!');
     console.log('✅ Logout complete - all data cleared');
   };
 
+  // Fills the create form from `template`; with none, clears what the previous template filled in
+  const fillNewIssueFromTemplate = (draft: typeof NEW_ISSUE_DEFAULTS, template: IssueTemplate | null) => {
+    const next = template
+      ? { ...applyIssueTemplate(draft, template, new Date()), parent_id: parentIdForType(template.issue_type, draft.parent_id) }
+      : {
+        ...draft,
+        title: '',
+        description: '',
+        priority: NEW_ISSUE_DEFAULTS.priority,
+        labels: NEW_ISSUE_DEFAULTS.labels,
+        story_points: NEW_ISSUE_DEFAULTS.story_points
+      };
+    setNewIssue(next);
+    setNewIssueTemplate(template ? { id: template.id, title: next.title, description: next.description } : null);
+  };
+
+  // The type's default template goes in only while nothing has been typed, replacing the previous template's text
+  const setNewIssueWithDefaultTemplate = (draft: typeof NEW_ISSUE_DEFAULTS) => {
+    const template = defaultTemplateFor(issueTemplates, draft.issue_type);
+    if (hasTypedText(draft, newIssueTemplate) || (!template && !newIssueTemplate)) {
+      setNewIssue(draft);
+      return;
+    }
+    fillNewIssueFromTemplate(draft, template ?? null);
+  };
+
+  const pickIssueTemplate = (templateId: string) => {
+    if (templateId === newIssueTemplate?.id) return;
+    if (hasTypedText(newIssue, newIssueTemplate) && !window.confirm('Replace the title and description you have written?')) return;
+    fillNewIssueFromTemplate(newIssue, issueTemplates.find(template => template.id === templateId) ?? null);
+  };
+
+  const openCreateIssueModal = () => {
+    setNewIssueWithDefaultTemplate({ ...newIssue, parent_id: '' });
+    setNewIssueRecurrence(null);
+    setEditingRecurringIssueId(null);
+    setShowCreateModal(true);
+  };
+
+  // Opens the create form already filed under `parent`, with the type its children usually have
+  const openCreateChildIssue = (parent: Issue) => {
+    const [childType] = childTypesOf(parent.issue_type);
+    if (!childType) return;
+    setNewIssueWithDefaultTemplate({ ...newIssue, issue_type: childType, parent_id: parent.id });
+    setNewIssueRecurrence(null);
+    setEditingRecurringIssueId(null);
+    setShowCreateModal(true);
+  };
+
+  const openCreateRecurringIssue = () => {
+    setNewIssue(NEW_ISSUE_DEFAULTS);
+    setNewIssueTemplate(null);
+    setNewIssueRecurrence({ schedule: DEFAULT_SCHEDULE, deadlineOffsetDays: '' });
+    setEditingRecurringIssueId(null);
+    setShowCreateModal(true);
+  };
+
+  // Series are edited in the create form, filled in from their template
+  const openEditRecurringIssue = (series: RecurringIssue) => {
+    const { template } = series;
+    setNewIssue({
+      title: template.title,
+      description: template.description,
+      issue_type: template.issue_type,
+      priority: template.priority,
+      status: template.status,
+      assignee_id: template.assignee_id ?? '',
+      story_points: template.story_points ?? 1,
+      labels: template.labels,
+      deadline: '',
+      parent_id: template.parent_id ?? '',
+      custom_fields: template.custom_fields,
+      original_estimate: template.original_estimate_minutes == null ? '' : formatDuration(template.original_estimate_minutes)
+    });
+    setNewIssueTemplate(null);
+    setNewIssueRecurrence({
+      schedule: series.schedule,
+      deadlineOffsetDays: template.deadline_offset_days == null ? '' : String(template.deadline_offset_days)
+    });
+    setEditingRecurringIssueId(series.id);
+    setShowCreateModal(true);
+  };
+
+  // Checks shared by a single issue and a recurring series' template
+  const newIssueProblem = (): string | null => {
+    if (newIssue.parent_id) {
+      const problem = parentProblem(newIssue.issue_type, getIssueById(newIssue.parent_id));
+      if (problem) return problem;
+    } else if (newIssue.issue_type === 'SUBTASK') {
+      return 'Choose the issue this subtask belongs to';
+    }
+    const customFieldProblem = fieldValuesProblem(customFields, compactFieldValues(newIssue.custom_fields), isOrgUser);
+    if (customFieldProblem) return customFieldProblem;
+    if (newIssue.original_estimate.trim() && parseDuration(newIssue.original_estimate) === null) {
+      return 'Write the estimate like 3h, 1d 4h or 90m';
+    }
+    return null;
+  };
+
   const createIssue = async () => {
     if (!newIssue.title.trim()) {
       console.error('[issues] Cannot create issue: Title is empty');
@@ -1305,6 +2344,13 @@ const App: React.FC = () => {
       return;
     }
 
+    const problem = newIssueProblem();
+    if (problem) {
+      showToast('error', 'Validation Error', problem);
+      return;
+    }
+    const originalEstimate = newIssue.original_estimate.trim() ? parseDuration(newIssue.original_estimate) : null;
+
     if (!accessToken) {
       showToast('error', 'Not Authenticated', 'Please sign in again to create issues.');
       return;
@@ -1319,35 +2365,47 @@ const App: React.FC = () => {
         description: newIssue.description.trim(),
         issue_type: newIssue.issue_type.toUpperCase(),
         priority: newIssue.priority.toUpperCase(),
-        status: newIssue.status.toUpperCase(),
+        status: newIssue.status || workflow.initialStatus,
         assignee_id: newIssue.assignee_id || null,
         story_points: Number(newIssue.story_points) || 0,
         labels: sanitizeLabels(newIssue.labels),
-        deadline: normalizeDeadline(newIssue.deadline) ?? null
+        deadline: normalizeDeadline(newIssue.deadline) ?? null,
+        parent_id: newIssue.parent_id || null,
+        custom_fields: compactFieldValues(newIssue.custom_fields),
+        original_estimate_minutes: originalEstimate
       };
 
       console.log('[issues] Sending issue payload:', payload);
 
-      const issueData = await apiCall('/api/issues', {
-        method: 'POST',
-        body: JSON.stringify(payload),
-        headers: { 'Authorization': `Bearer ${accessToken}` }
+      const tempId = createTempId('issue');
+      const offlineIssue = buildOfflineIssue(tempId, payload);
+      const outcome = await runOrQueue(() => api.issues.create(payload), {
+        kind: 'issue.create',
+        tempId,
+        payload,
+        placeholder: offlineIssue
       });
 
-      console.log('[issues] Issue created successfully:', issueData.key);
-      await loadIssues(accessToken);
-      setNewIssue({
-        title: '',
-        description: '',
-        issue_type: 'STORY',
-        priority: 'MEDIUM',
-        status: 'TODO',
-        assignee_id: '',
-        story_points: 1,
-        labels: [],
-        deadline: ''
-      });
+      if (outcome.queued) {
+        console.log('[issues] Issue queued for sync:', tempId);
+        setIssues(prev => [...prev, offlineIssue]);
+      } else {
+        console.log('[issues] Issue created successfully:', outcome.result!.key);
+        dataStore.upsert('issues', [outcome.result!]);
+      }
+      setNewIssue(NEW_ISSUE_DEFAULTS);
+      setNewIssueTemplate(null);
       setShowCreateModal(false);
+      const files = newIssueFiles;
+      setNewIssueFiles([]);
+
+      if (outcome.queued) {
+        showToast('info', 'Saved Offline', `"${offlineIssue.title}" will be created once you are back online`);
+        if (files.length > 0) showToast('warning', 'Attachments Not Added', 'Attach the files again once the issue has synced');
+        return;
+      }
+      const issueData = outcome.result!;
+      if (files.length > 0) uploadAttachments(issueData.id, files);
       
       showToast('success', 'Issue Created', `${issueData.key}: ${issueData.title}`);
       
@@ -1369,7 +2427,136 @@ const App: React.FC = () => {
     }
   };
 
-  const updateIssue = async (issueId: string, updates: Partial<Issue> & { visibility?: string }): Promise<boolean> => {
+  const saveRecurringIssue = async () => {
+    if (!newIssueRecurrence) return;
+    const problem = newIssueProblem() ?? scheduleProblem(newIssueRecurrence.schedule);
+    if (problem) {
+      showToast('error', 'Validation Error', problem);
+      return;
+    }
+    const offsetText = newIssueRecurrence.deadlineOffsetDays.trim();
+    const deadlineOffsetDays = offsetText ? Number(offsetText) : null;
+    if (deadlineOffsetDays !== null && !(Number.isInteger(deadlineOffsetDays) && deadlineOffsetDays >= 0)) {
+      showToast('error', 'Validation Error', 'The deadline is a whole number of days after each run');
+      return;
+    }
+
+    const payload = {
+      template: {
+        title: newIssue.title.trim(),
+        description: newIssue.description.trim(),
+        issue_type: newIssue.issue_type,
+        priority: newIssue.priority,
+        status: newIssue.status || workflow.initialStatus,
+        assignee_id: newIssue.assignee_id || null,
+        story_points: Number(newIssue.story_points) || 0,
+        labels: sanitizeLabels(newIssue.labels),
+        parent_id: newIssue.parent_id || null,
+        custom_fields: compactFieldValues(newIssue.custom_fields),
+        original_estimate_minutes: newIssue.original_estimate.trim() ? parseDuration(newIssue.original_estimate) : null,
+        deadline_offset_days: deadlineOffsetDays
+      },
+      schedule: newIssueRecurrence.schedule
+    };
+    try {
+      const series = editingRecurringIssueId
+        ? await api.recurringIssues.update(editingRecurringIssueId, payload)
+        : await api.recurringIssues.create(payload);
+      dataStore.upsert('recurringIssues', [series]);
+      setNewIssue(NEW_ISSUE_DEFAULTS);
+      setNewIssueTemplate(null);
+      setNewIssueRecurrence(null);
+      setEditingRecurringIssueId(null);
+      setShowCreateModal(false);
+      showToast(
+        'success',
+        editingRecurringIssueId ? 'Recurring Issue Saved' : 'Recurring Issue Created',
+        series.next_run_at ? `The next one is created ${new Date(series.next_run_at).toLocaleString()}` : series.template.title
+      );
+    } catch (error) {
+      console.error('[recurring] Failed to save recurring issue:', error);
+      showToast('error', 'Could Not Save', isApiError(error) ? error.message : 'Something went wrong');
+    }
+  };
+
+  const setRecurringIssuePaused = async (series: RecurringIssue, paused: boolean) => {
+    try {
+      dataStore.upsert('recurringIssues', [await api.recurringIssues.update(series.id, { paused })]);
+    } catch (error) {
+      console.error('[recurring] Failed to pause or resume:', error);
+      showToast('error', paused ? 'Could Not Pause' : 'Could Not Resume', isApiError(error) ? error.message : 'Something went wrong');
+    }
+  };
+
+  const runRecurringIssueNow = async (series: RecurringIssue) => {
+    try {
+      const issue = await api.recurringIssues.run(series.id);
+      dataStore.upsert('issues', [issue]);
+      showToast('success', 'Issue Created', `${issue.key}: ${issue.title}`);
+    } catch (error) {
+      console.error('[recurring] Failed to run recurring issue:', error);
+      showToast('error', 'Could Not Create Issue', isApiError(error) ? error.message : 'Something went wrong');
+    }
+  };
+
+  const deleteRecurringIssue = async (series: RecurringIssue) => {
+    if (!window.confirm(`Stop and delete the "${series.template.title}" series? Issues it already created are kept.`)) return;
+    try {
+      await api.recurringIssues.remove(series.id);
+      dataStore.setList('recurringIssues', prev => prev.filter(candidate => candidate.id !== series.id));
+    } catch (error) {
+      console.error('[recurring] Failed to delete recurring issue:', error);
+      showToast('error', 'Could Not Delete', isApiError(error) ? error.message : 'Something went wrong');
+    }
+  };
+
+  // Writes to the same issue are chained so the server applies them in the order they were made,
+  // and only the latest one's response replaces the optimistic state
+  const issueWriteChainsRef = useRef(new Map<string, Promise<unknown>>());
+  const issueWriteVersionsRef = useRef(new Map<string, number>());
+
+  const trackIssueWrite = (issueId: string, delta: 1 | -1) => {
+    setInFlightIssueWrites(prev => {
+      const count = (prev[issueId] || 0) + delta;
+      const next = { ...prev };
+      if (count > 0) {
+        next[issueId] = count;
+      } else {
+        delete next[issueId];
+      }
+      return next;
+    });
+  };
+
+  // Each issue as the server last confirmed it, kept while writes to it are in flight. A rejected write rolls
+  // back to this rather than to the state it was made on, which may still hold earlier unconfirmed writes
+  const confirmedIssuesRef = useRef(new Map<string, Issue>());
+
+  // Puts back the fields a rejected write changed, unless a later write has changed them again since
+  const rollbackIssueFields = (issue: Issue, confirmed: Issue, payload: IssuePayload): Issue => {
+    const restored: Record<string, unknown> = { ...issue };
+    Object.entries(payload).forEach(([key, value]) => {
+      if (JSON.stringify(restored[key]) === JSON.stringify(value)) {
+        restored[key] = (confirmed as unknown as Record<string, unknown>)[key];
+      }
+    });
+    return restored as unknown as Issue;
+  };
+
+  // Versions before and after our last confirmed conditional save of each issue, so an edit started on top
+  // of our own save that was still in flight isn't mistaken for someone else's change
+  const confirmedIssueVersionsRef = useRef(new Map<string, { from: string; to: string }>());
+
+  const currentVersionFor = (issueId: string, expectedUpdatedAt?: string) => {
+    const confirmed = confirmedIssueVersionsRef.current.get(issueId);
+    return confirmed && confirmed.from === expectedUpdatedAt ? confirmed.to : expectedUpdatedAt;
+  };
+
+  const updateIssue = async (
+    issueId: string,
+    updates: Partial<Issue> & { visibility?: string },
+    options: { expectedUpdatedAt?: string; onConflict?: (current: Issue | null) => void } = {}
+  ): Promise<boolean> => {
     const payload = buildIssueUpdatePayload(updates);
     if (!payload || Object.keys(payload).length === 0) {
       console.log('[issues] No changes detected for issue update:', issueId, updates);
@@ -1381,20 +2568,44 @@ const App: React.FC = () => {
       return false;
     }
 
+    const snapshot = issuesRef.current.find(issue => issue.id === issueId)
+      || (selectedIssue?.id === issueId ? selectedIssue : null);
+    if (snapshot && !issueWriteChainsRef.current.has(issueId)) {
+      confirmedIssuesRef.current.set(issueId, snapshot);
+    }
+    const version = (issueWriteVersionsRef.current.get(issueId) || 0) + 1;
+    issueWriteVersionsRef.current.set(issueId, version);
+    updateIssueInState([issueId], issue => ({ ...issue, ...(payload as Partial<Issue>) }));
+    trackIssueWrite(issueId, 1);
+
+    const previousWrite = issueWriteChainsRef.current.get(issueId) || Promise.resolve();
+    const write = previousWrite
+      .catch(() => undefined)
+      .then(() => {
+        const expectedUpdatedAt = currentVersionFor(issueId, options.expectedUpdatedAt);
+        return runOrQueue(
+          () => api.issues.update(issueId, payload, { expectedUpdatedAt }),
+          { kind: 'issue.update', issueId, payload, expectedUpdatedAt }
+        );
+      });
+    issueWriteChainsRef.current.set(issueId, write);
+
     console.log('[issues] Updating issue:', issueId, payload);
     try {
-      const updatedIssue = await apiCall(`/api/issues/${issueId}`, {
-        method: 'PUT',
-        body: JSON.stringify(payload),
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
+      const outcome = await write;
+      if (outcome.queued) {
+        showToast('info', 'Saved Offline', 'Your changes will sync once you are back online');
+        return true;
+      }
+      const updatedIssue = outcome.result!;
       
       console.log('[issues] Issue updated successfully');
-      setIssues(prev => prev.map(issue => 
-        issue.id === issueId ? updatedIssue : issue
-      ));
-      if (selectedIssue?.id === issueId) {
-        setSelectedIssue(updatedIssue);
+      confirmedIssuesRef.current.set(issueId, updatedIssue);
+      if (issueWriteVersionsRef.current.get(issueId) === version) {
+        updateIssueInState([issueId], () => updatedIssue);
+      }
+      if (options.expectedUpdatedAt) {
+        confirmedIssueVersionsRef.current.set(issueId, { from: options.expectedUpdatedAt, to: updatedIssue.updated_at });
       }
       
       showToast('success', 'Issue Updated', `${updatedIssue.key} has been updated`);
@@ -1409,9 +2620,37 @@ const App: React.FC = () => {
       return true;
     } catch (error: any) {
       console.error('[issues] Failed to update issue:', error);
+      // Earlier writes in the chain have settled by now, so this is the server's state just before this one
+      const confirmed = confirmedIssuesRef.current.get(issueId);
+      if (confirmed) {
+        updateIssueInState([issueId], issue => rollbackIssueFields(issue, confirmed, payload));
+      }
+      if (isApiError(error) && error.kind === 'conflict' && options.onConflict) {
+        const current = (error.body as { issue?: Issue } | null)?.issue ?? null;
+        if (current) {
+          confirmedIssuesRef.current.set(issueId, current);
+          updateIssueInState([issueId], issue => ({ ...current, comments: current.comments ?? issue.comments }));
+        }
+        showToast('warning', 'Edit Conflict', `${snapshot?.key || 'This issue'} was changed by someone else while you were editing`);
+        options.onConflict(current);
+        return false;
+      }
       setAuthError(error.message || 'Failed to update issue');
-      showToast('error', 'Update Failed', error.message || 'Could not update issue');
+      const reason = error.message || 'The server rejected the change';
+      showToast(
+        'error',
+        'Change Reverted',
+        payload.status && confirmed
+          ? `${confirmed.key} was moved back to ${workflow.nameOf(confirmed.status)}: ${reason}`
+          : `${snapshot?.key || 'The issue'} was restored to its previous state: ${reason}`
+      );
       return false;
+    } finally {
+      trackIssueWrite(issueId, -1);
+      if (issueWriteChainsRef.current.get(issueId) === write) {
+        issueWriteChainsRef.current.delete(issueId);
+        confirmedIssuesRef.current.delete(issueId);
+      }
     }
   };
 
@@ -1425,17 +2664,30 @@ const App: React.FC = () => {
 
     console.log('[issues] Deleting issue:', issueId);
     try {
-      await apiCall(`/api/issues/${issueId}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
+      // An issue that never reached the server is deleted by dropping its queued writes
+      if (isTempId(issueId)) {
+        await Promise.all(pendingMutations
+          .filter(mutation => (mutation.kind === 'issue.create' ? mutation.tempId : mutation.issueId) === issueId)
+          .map(mutation => offlineQueue.remove(mutation.seq)));
+        await refreshPendingMutations();
+      } else {
+        const outcome = await runOrQueue(() => api.issues.remove(issueId), { kind: 'issue.delete', issueId });
+        if (outcome.queued) {
+          setSelectedIssue(null);
+          closeIssueModal({ replace: true });
+          showToast('info', 'Saved Offline', `${issueToRemove?.key || 'The issue'} will be deleted once you are back online`);
+          return;
+        }
+      }
 
       setIssues(prev => prev.filter(issue => issue.id !== issueId));
       if (selectedIssue?.id === issueId) {
         setSelectedIssue(null);
-        setShowIssueModal(false);
+        closeIssueModal({ replace: true });
       }
 
+      // The server drops the issue's links and cascades to its subtasks
+      dataStore.invalidate('issues', 'issueLinks');
       const issueLabel = issueToRemove?.key ? `${issueToRemove.key}` : issueId;
 
       showToast('success', 'Issue Deleted', `${issueLabel} was removed successfully`);
@@ -1462,6 +2714,8 @@ const App: React.FC = () => {
     if (!selectedIssue || !issueEditDraft) {
       return;
     }
+    // Changes are measured against the version editing started from, not whatever has arrived since
+    const base = issueEditBase?.id === selectedIssue.id ? issueEditBase : selectedIssue;
 
     const trimmedTitle = issueEditDraft.title.trim();
     if (!trimmedTitle) {
@@ -1471,30 +2725,42 @@ const App: React.FC = () => {
 
     const updates: Partial<Issue> & { visibility?: string } = {};
 
-    if (trimmedTitle !== selectedIssue.title) {
+    if (trimmedTitle !== base.title) {
       updates.title = trimmedTitle;
     }
 
     const trimmedDescription = issueEditDraft.description.trim();
-    const originalDescription = (selectedIssue.description || '').trim();
+    const originalDescription = (base.description || '').trim();
     if (trimmedDescription !== originalDescription) {
       updates.description = trimmedDescription;
     }
 
-    if (issueEditDraft.status !== selectedIssue.status) {
+    if (issueEditDraft.status !== base.status) {
       updates.status = issueEditDraft.status;
     }
 
-    if (issueEditDraft.priority !== selectedIssue.priority) {
+    if (issueEditDraft.priority !== base.priority) {
       updates.priority = issueEditDraft.priority;
     }
 
-    if (issueEditDraft.issue_type !== selectedIssue.issue_type) {
+    if (issueEditDraft.issue_type !== base.issue_type) {
       updates.issue_type = issueEditDraft.issue_type;
     }
 
+    const nextParentId = issueEditDraft.parent_id || null;
+    if (nextParentId) {
+      const problem = parentProblem(issueEditDraft.issue_type, getIssueById(nextParentId), base.id);
+      if (problem) {
+        showToast('error', 'Validation Error', problem);
+        return;
+      }
+    }
+    if ((base.parent_id || null) !== nextParentId) {
+      updates.parent_id = nextParentId;
+    }
+
     const nextAssigneeId = issueEditDraft.assignee_id ? issueEditDraft.assignee_id : null;
-    if ((selectedIssue.assignee_id || null) !== nextAssigneeId) {
+    if ((base.assignee_id || null) !== nextAssigneeId) {
       updates.assignee_id = nextAssigneeId;
     }
 
@@ -1509,31 +2775,78 @@ const App: React.FC = () => {
       }
       storyPointsUpdate = parsedStoryPoints;
     }
-    const originalStoryPoints = selectedIssue.story_points ?? null;
+    const originalStoryPoints = base.story_points ?? null;
     if (storyPointsUpdate !== originalStoryPoints) {
       updates.story_points = storyPointsUpdate;
     }
 
     const nextLabels = sanitizeLabels(issueEditDraft.labels ? issueEditDraft.labels.split(',') : []);
-    const currentLabels = sanitizeLabels(selectedIssue.labels || []);
+    const currentLabels = sanitizeLabels(base.labels || []);
     if (!arraysEqual(nextLabels, currentLabels)) {
       updates.labels = nextLabels;
     }
 
     const nextDeadline = issueEditDraft.deadline.trim();
-    const currentDeadline = formatDateForInput(selectedIssue.deadline);
+    const currentDeadline = formatDateForInput(base.deadline);
     if ((nextDeadline || '') !== (currentDeadline || '')) {
       updates.deadline = nextDeadline ? nextDeadline : null;
     }
 
+    // Values for fields an admin has since deleted are dropped rather than rejected
+    const nextCustomFields = compactFieldValues(
+      Object.fromEntries(Object.entries(issueEditDraft.custom_fields).filter(([fieldId]) => customFields.some(field => field.id === fieldId)))
+    );
+    const customFieldProblem = fieldValuesProblem(customFields, nextCustomFields, isOrgUser);
+    if (customFieldProblem) {
+      showToast('error', 'Validation Error', customFieldProblem);
+      return;
+    }
+    if (JSON.stringify(nextCustomFields) !== JSON.stringify(compactFieldValues(base.custom_fields))) {
+      updates.custom_fields = nextCustomFields;
+    }
+
+    const estimates = [
+      ['original_estimate_minutes', issueEditDraft.original_estimate, 'Original estimate'],
+      ['remaining_estimate_minutes', issueEditDraft.remaining_estimate, 'Remaining estimate']
+    ] as const;
+    for (const [field, text, label] of estimates) {
+      const minutes = text.trim() ? parseDuration(text) : null;
+      if (text.trim() && minutes === null) {
+        showToast('error', 'Validation Error', `${label}: write it like 3h, 1d 4h or 90m`);
+        return;
+      }
+      if (minutes !== (base[field] ?? null)) {
+        updates[field] = minutes;
+      }
+    }
+
     if (Object.keys(updates).length === 0) {
       showToast('info', 'No Changes', 'You have not made any changes.');
       setIsEditingIssue(false);
       return;
     }
 
+    // Someone else saved since editing began: nothing is sent until the two versions are merged
+    if (selectedIssue.updated_at !== currentVersionFor(base.id, base.updated_at)) {
+      setIssueMerge({ base, theirs: selectedIssue, mine: updates, choices: {} });
+      return;
+    }
+
+    await saveIssueEdit(base, updates);
+  };
+
+  const saveIssueEdit = async (base: Issue, updates: Partial<Issue>) => {
     setIsSavingIssue(true);
-    const success = await updateIssue(selectedIssue.id, updates);
+    const success = await updateIssue(base.id, updates, {
+      expectedUpdatedAt: base.updated_at,
+      onConflict: async current => {
+        // Servers that don't send the current version back with the 412 are asked for it
+        const theirs = current ?? (await api.issues.listPage({ key: base.key, limit: 1 }).catch(() => null))?.items[0];
+        if (theirs) {
+          setIssueMerge({ base, theirs, mine: updates, choices: {} });
+        }
+      }
+    });
     setIsSavingIssue(false);
 
     if (success) {
@@ -1541,20 +2854,53 @@ const App: React.FC = () => {
     }
   };
 
+  const applyIssueMerge = async () => {
+    if (!issueMerge) return;
+    const { theirs, mine, choices } = issueMerge;
+    const resolved: Partial<Issue> = {};
+    diffIssueEdit(issueMerge).forEach(row => {
+      const keepMine = row.conflict ? choices[row.field] === 'mine' : row.mineChanged;
+      if (keepMine && !sameIssueFieldValue(row.field, mine[row.field], theirs[row.field])) {
+        (resolved as Record<string, unknown>)[row.field] = mine[row.field];
+      }
+    });
+    setIssueMerge(null);
+
+    if (Object.keys(resolved).length === 0) {
+      discardIssueEditForLatest(theirs);
+      return;
+    }
+    // The merge was made against their version, so that is what the save now expects to replace
+    await saveIssueEdit(theirs, resolved);
+  };
+
+  const discardIssueEditForLatest = (theirs: Issue) => {
+    setIssueMerge(null);
+    hydrateIssueEditDraft(dataStore.getById('issues', theirs.id) ?? theirs);
+    setIsEditingIssue(false);
+    showToast('info', 'Changes Discarded', `${theirs.key} was left as it is on the server`);
+  };
+
   const addComment = async (issueId: string, content: string) => {
     try {
-      const comment = await apiCall(`/api/issues/${issueId}/comments`, {
-        method: 'POST',
-        body: JSON.stringify({ content }),
-        headers: { 'Authorization': `Bearer ${accessToken}` }
+      const tempId = createTempId('comment');
+      const now = new Date().toISOString();
+      const offlineComment: Comment = { id: tempId, content, author_id: user?.id || '', issue_id: issueId, created_at: now, updated_at: now };
+      const outcome = await runOrQueue(() => api.comments.create(issueId, content), {
+        kind: 'comment.create',
+        issueId,
+        tempId,
+        content,
+        placeholder: offlineComment
       });
-      
-      setIssues(prev => prev.map(issue => 
-        issue.id === issueId 
-          ? { ...issue, comments: [...(issue.comments || []), comment] }
-          : issue
-      ));
-      
+      const comment = outcome.queued ? offlineComment : outcome.result!;
+
+      updateIssueInState([issueId], issue => withComment(issue, comment));
+
+      if (outcome.queued) {
+        showToast('info', 'Saved Offline', 'Your comment will be posted once you are back online');
+        return;
+      }
       showToast('success', 'Comment Added', 'Your comment has been posted');
     } catch (error: any) {
       console.error('❌ Failed to add comment:', error.message);
@@ -1563,32 +2909,60 @@ const App: React.FC = () => {
   };
 
   // Import/Export Functions
-  const exportToCSV = () => {
-    try {
-      const csvData = issues.map(issue => ({
-        Key: issue.key,
-        Title: issue.title,
-        Type: issue.issue_type,
-        Status: issue.status,
-        Priority: issue.priority,
-        Assignee: users.find(u => u.id === issue.assignee_id)?.name || 'Unassigned',
-        'Story Points': issue.story_points || 0,
-        Created: new Date(issue.created_at).toLocaleDateString(),
-        Deadline: issue.deadline ? new Date(issue.deadline).toLocaleDateString() : '',
-        Description: issue.description || ''
-      }));
+  // One extra column per custom field, named after it; dates stay ISO so the file imports back unchanged
+  const customFieldColumns = (issue: Issue) => Object.fromEntries(customFields.map(field => {
+    const value = issue.custom_fields?.[field.id];
+    return [field.name, field.type === 'date' && typeof value === 'string' ? value : formatFieldValue(field, value, userId => getUserById(userId)?.name)];
+  }));
+
+  const issueExportRows = (exported: Issue[]) => exported.map(issue => ({
+    Key: issue.key,
+    Title: issue.title,
+    Type: issue.issue_type,
+    Parent: (issue.parent_id && dataStore.getById('issues', issue.parent_id)?.key) || '',
+    Status: workflow.nameOf(issue.status),
+    Priority: issue.priority,
+    Assignee: users.find(u => u.id === issue.assignee_id)?.name || 'Unassigned',
+    'Story Points': issue.story_points || 0,
+    Created: new Date(issue.created_at).toLocaleDateString(),
+    Deadline: issue.deadline ? new Date(issue.deadline).toLocaleDateString() : '',
+    Description: issue.description || '',
+    ...customFieldColumns(issue)
+  }));
+
+  const downloadCSV = (rows: Array<Record<string, unknown>>, fileName: string) => {
+    const csv = Papa.unparse(rows);
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const downloadExcel = (rows: Array<Record<string, unknown>>, sheetName: string, fileName: string) => {
+    const ws = XLSX.utils.json_to_sheet(rows);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, sheetName);
+    XLSX.writeFile(wb, fileName);
+  };
 
-      const csv = Papa.unparse(csvData);
-      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', `issues_${new Date().toISOString().split('T')[0]}.csv`);
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  // Exports cover the whole backlog, so columns not scrolled to the end are loaded first
+  const loadIssuesForExport = async () => {
+    if (!allIssuesLoaded) showToast('info', 'Preparing Export', 'Loading every issue first...');
+    if (await loadAllIssues()) return dataStore.getList('issues');
+    showToast('error', 'Export Failed', 'Could not load every issue, so nothing was exported');
+    return null;
+  };
 
+  const exportToCSV = async () => {
+    const exported = await loadIssuesForExport();
+    if (!exported) return;
+    try {
+      downloadCSV(issueExportRows(exported), `issues_${new Date().toISOString().split('T')[0]}.csv`);
       showToast('success', 'Export Successful', 'Issues exported to CSV');
     } catch (error: any) {
       console.error('❌ Failed to export CSV:', error);
@@ -1596,25 +2970,11 @@ const App: React.FC = () => {
     }
   };
 
-  const exportToExcel = () => {
+  const exportToExcel = async () => {
+    const exported = await loadIssuesForExport();
+    if (!exported) return;
     try {
-      const excelData = issues.map(issue => ({
-        Key: issue.key,
-        Title: issue.title,
-        Type: issue.issue_type,
-        Status: issue.status,
-        Priority: issue.priority,
-        Assignee: users.find(u => u.id === issue.assignee_id)?.name || 'Unassigned',
-        'Story Points': issue.story_points || 0,
-        Created: new Date(issue.created_at).toLocaleDateString(),
-        Deadline: issue.deadline ? new Date(issue.deadline).toLocaleDateString() : '',
-        Description: issue.description || ''
-      }));
-
-      const ws = XLSX.utils.json_to_sheet(excelData);
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, 'Issues');
-      XLSX.writeFile(wb, `issues_${new Date().toISOString().split('T')[0]}.xlsx`);
+      downloadExcel(issueExportRows(exported), 'Issues', `issues_${new Date().toISOString().split('T')[0]}.xlsx`);
 
       showToast('success', 'Export Successful', 'Issues exported to Excel');
     } catch (error: any) {
@@ -1669,37 +3029,57 @@ const App: React.FC = () => {
     try {
       let successCount = 0;
       let failCount = 0;
-
-      for (const row of data) {
-        if (!row.Title || row.Title.toString().trim() === '') continue;
-
+      let unparentedCount = 0;
+      // Parent keys may point at rows of the same file, which get new keys once created
+      const importedByKey = new Map<string, Issue>();
+      const findParent = (key: string) => importedByKey.get(key)
+        ?? dataStore.getList('issues').find(candidate => candidate.key.toUpperCase() === key);
+
+      const rows = data
+        .filter(row => row.Title && row.Title.toString().trim() !== '')
+        .map(row => {
+          const type = row.Type?.toString().toUpperCase();
+          return { row, issueType: (Object.keys(ISSUE_TYPE_LABELS).includes(type) ? type : 'TASK') as Issue['issue_type'] };
+        })
+        // Parents sit higher in the hierarchy, so creating epics first and subtasks last creates each before its children
+        .sort((a, b) => hierarchyDepth(a.issueType) - hierarchyDepth(b.issueType));
+
+      for (const { row, issueType } of rows) {
         try {
           const assignee = users.find(u =>
             u.name.toLowerCase() === (row.Assignee || '').toString().toLowerCase()
           );
+          const parentKey = normalizeIssueKey(row.Parent?.toString() || '');
+          const parent = parentKey ? findParent(parentKey) : undefined;
+          const parentId = parent && !parentProblem(issueType, parent) ? parent.id : null;
+          if (parentKey && !parentId) unparentedCount++;
 
           const issuePayload = {
             title: row.Title?.toString() || '',
             description: row.Description?.toString() || '',
-            issue_type: ['STORY', 'TASK', 'BUG', 'EPIC'].includes(row.Type?.toString().toUpperCase())
-              ? row.Type.toString().toUpperCase()
-              : 'TASK',
+            issue_type: issueType,
+            parent_id: parentId,
             priority: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'].includes(row.Priority?.toString().toUpperCase())
               ? row.Priority.toString().toUpperCase()
               : 'MEDIUM',
+            // Exports write the status name; keys and names from other tools that match ours are accepted too
+            status: resolveStatus(row.Status?.toString() || '', workflow) ?? workflow.initialStatus,
             assignee_id: assignee?.id || null,
             story_points: parseInt(row['Story Points']?.toString() || '1') || 1,
             labels: [],
-            deadline: row.Deadline ? new Date(row.Deadline).toISOString() : null
+            deadline: row.Deadline ? new Date(row.Deadline).toISOString() : null,
+            custom_fields: Object.fromEntries(customFields.flatMap(field => {
+              const value = parseFieldValue(field, row[field.name], text => users.find(candidate =>
+                candidate.name.toLowerCase() === text.toLowerCase() || candidate.email.toLowerCase() === text.toLowerCase()
+              )?.id);
+              return value === undefined ? [] : [[field.id, value]];
+            }))
           };
 
-          const issueData = await apiCall('/api/issues', {
-            method: 'POST',
-            body: JSON.stringify(issuePayload),
-            headers: { 'Authorization': `Bearer ${accessToken}` }
-          });
+          const issueData = await api.issues.create(issuePayload);
 
           setIssues(prev => [...prev, issueData]);
+          if (row.Key) importedByKey.set(normalizeIssueKey(row.Key.toString()), issueData);
           successCount++;
         } catch (error) {
           console.error('❌ Failed to import issue:', row.Title, error);
@@ -1709,11 +3089,14 @@ const App: React.FC = () => {
 
       if (successCount > 0) {
         showToast('success', 'Import Successful', `${successCount} issue(s) imported successfully`);
-        loadIssues(accessToken); // Reload all issues to ensure consistency
+        dataStore.invalidate('issues'); // Reload all issues to ensure consistency
       }
       if (failCount > 0) {
         showToast('warning', 'Partial Import', `${failCount} issue(s) failed to import`);
       }
+      if (unparentedCount > 0) {
+        showToast('warning', 'Parents Not Linked', `${unparentedCount} issue(s) were imported without their parent, which was missing or can't hold them`);
+      }
 
       setShowImportExportModal(false);
     } catch (error: any) {
@@ -1729,6 +3112,7 @@ const App: React.FC = () => {
       case 'TASK': return '✅';
       case 'BUG': return '🐛';
       case 'EPIC': return '⚡';
+      case 'SUBTASK': return '🔹';
     }
   };
 
@@ -1742,96 +3126,748 @@ const App: React.FC = () => {
     }
   };
 
-  const getStatusColor = (status: Issue['status']) => {
-    switch (status) {
-      case 'DONE': return '#36b37e';
-      case 'IN_PROGRESS': return '#0052cc';
-      case 'REVIEW': return '#ffa500';
-      default: return '#42526e';
+  const getStatusColor = (status: Issue['status']) => workflow.colorOf(status);
+
+  // Chip background for a status, tinted by category so custom statuses still read at a glance
+  const getStatusBackground = (status: Issue['status']) => {
+    switch (workflow.categoryOf(status)) {
+      case 'done': return '#e3fcef';
+      case 'in_progress': return '#deebff';
+      default: return '#f4f5f7';
     }
   };
 
+  const isOrgUser = (userId: string) => users.some(candidate => candidate.id === userId);
+
   const getUserById = (userId: string | null) => {
     if (!userId) return null;
     return users.find(u => u.id === userId);
   };
 
-  // Drag and Drop
-  const handleDragStart = (e: React.DragEvent, issue: Issue) => {
-    e.dataTransfer.setData('issueId', issue.id);
-    e.dataTransfer.effectAllowed = 'move';
+  const getIssueById = (issueId: string) => dataStore.getById('issues', issueId);
+
+  // Loaded issues that can hold an issue of `issueType`. Offline-created ones are left out until they
+  // have a real id, since a queued child couldn't point at them.
+  const parentCandidatesFor = (issueType: Issue['issue_type'], childId?: string) => {
+    const parentTypes = allowedParentTypes(issueType);
+    return issues
+      .filter(issue => parentTypes.includes(issue.issue_type) && issue.id !== childId && !isTempId(issue.id))
+      .sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
+  // Keeps the chosen parent only while the (new) type still allows it
+  const parentIdForType = (issueType: Issue['issue_type'], parentId: string) => {
+    const parent = parentId ? getIssueById(parentId) : undefined;
+    return parent && !parentProblem(issueType, parent) ? parentId : '';
   };
 
-  const handleDrop = (e: React.DragEvent, newStatus: Issue['status']) => {
-    e.preventDefault();
-    const issueId = e.dataTransfer.getData('issueId');
-    if (issueId) {
-      updateIssue(issueId, { status: newStatus });
-    }
+  // Admins, super admins and project managers manage every issue; everyone else sees their assignments and what they watch
+  const canCreateIssues = !!user && ['super_admin', 'admin', 'project_manager'].includes(user.role);
+
+  const canViewIssue = useCallback(
+    (issue: Issue) => canCreateIssues || issue.assignee_id === user?.id || isWatching(issue, user?.id),
+    [canCreateIssues, user?.id]
+  );
+
+  // The dashboard's totals and a filtered board (board filters, or the narrower view of non-managers) are
+  // worked out here over the loaded issues, so those views bring in the rest of the backlog first
+  const isBoardFiltered = !canCreateIssues || hasActiveBoardFilters(boardFilters);
+  const needsAllIssues = currentView === 'dashboard' || (currentView === 'board' && isBoardFiltered);
+  useEffect(() => {
+    if (needsAllIssues && hasLoadedIssues && !allIssuesLoaded) loadAllIssuesRef.current();
+  }, [needsAllIssues, hasLoadedIssues, allIssuesLoaded]);
+
+  const openIssue = (issue: Issue) => {
+    setSelectedIssue(issue);
+    setShowIssueModal(true);
+    navigateToIssue(issue.key);
   };
 
-  // Calculate metrics
-  const metrics = {
-    totalIssues: issues.length,
-    completedIssues: issues.filter(i => i.status === 'DONE').length,
-    inProgressIssues: issues.filter(i => i.status === 'IN_PROGRESS').length,
-    totalPoints: issues.reduce((sum, i) => sum + (i.story_points || 0), 0),
-    completedPoints: issues.filter(i => i.status === 'DONE').reduce((sum, i) => sum + (i.story_points || 0), 0),
+  const closeIssueModal = (options: { replace?: boolean } = {}) => {
+    setShowIssueModal(false);
+    navigateToView(currentView, options);
   };
 
-  // Render functions
-  const renderAuth = () => (
-    <div style={{
-      minHeight: '100vh',
-      background: '#0d1b2a',
-      display: 'flex',
-      alignItems: 'center',
-      justifyContent: 'center',
-      padding: '20px'
-    }}>
-      <div style={{
-        background: '#1b2838',
-        border: '1px solid #2d3e50',
-        borderRadius: '12px',
-        padding: '48px',
-        width: '100%',
-        maxWidth: '480px',
-        boxShadow: '0 8px 32px rgba(0,0,0,0.4)'
-      }}>
-        <div style={{ textAlign: 'center', marginBottom: '40px' }}>
-          <div style={{
-            width: '100px',
-            height: '100px',
-            margin: '0 auto 20px',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center'
-          }}>
-            <img
-              src="/logo.png"
-              alt="MissedTask Logo"
-              style={{
-                width: '100%',
-                height: '100%',
-                objectFit: 'contain'
-             }}
-           />
-          </div>
-          <h1 style={{ margin: 0, fontSize: '32px', fontWeight: '700', color: '#e0e7ff' }}>
-            MissedTask
-          </h1>
-        </div>
+  // Applies issue and comment events pushed by the server. Our own writes echo back too, so every
+  // case is idempotent, and only teammates' changes produce notifications. Edits and comments
+  // notify through the separate watcher event, which only the issue's watchers receive.
+  const handleIssueSocketEvent = (data: any) => {
+    const actorId: string | undefined = data.actor_id ?? data.user_id;
+    const isOwnEvent = !!actorId && actorId === user?.id;
+    const actorName = users.find(candidate => candidate.id === actorId)?.name || 'A teammate';
+    const notify = (notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => {
+      if (!isOwnEvent) addNotification({ ...notification, read: false });
+    };
 
-        {authMode === 'login' && (
-          <div>
-            <h2 style={{ margin: '0 0 32px 0', fontSize: '26px', fontWeight: '700', color: '#e0e7ff' }}>
-              Welcome Back
-            </h2>
+    switch (data.type) {
+      case 'issue_created': {
+        const issue: Issue | undefined = data.issue;
+        if (!issue?.id) return;
+        const queuedEdits = pendingMutations.filter(mutation => mutation.kind !== 'issue.create');
+        dataStore.upsert('issues', applyQueuedMutations([issue], queuedEdits));
+        notify({ type: 'issue_created', title: 'Issue Created', message: `${actorName} created ${issue.key}: ${issue.title}`, data: issue });
+        return;
+      }
+      case 'issue_updated': {
+        const issue: Issue | undefined = data.issue;
+        if (!issue?.id) return;
+        // A write of ours still in flight will bring back the server copy itself
+        if (issueWriteChainsRef.current.has(issue.id)) return;
+        const previous = dataStore.getById('issues', issue.id);
+        const queuedEdits = pendingMutations.filter(mutation => mutation.kind === 'issue.update' && mutation.issueId === issue.id);
+        const [merged] = applyQueuedMutations([issue], queuedEdits);
+        if (previous && !pinnedIssueIdsRef.current.has(issue.id)) {
+          updateIssueInState([issue.id], current => ({ ...merged, comments: merged.comments ?? current.comments }));
+          return;
+        }
+
+        // Issues the column counts don't include yet: moving one leaves its old column a card short, and
+        // it joins the new one as a loaded card if that column is loaded past it, or as a count otherwise
+        const previousStatus: Issue['status'] | undefined = previous?.status ?? data.previous_status;
+        const moved = !!previousStatus && previousStatus !== issue.status;
+        const inLoadedWindow = isInLoadedWindow(issue);
+        if (moved) shiftColumnTotal(previousStatus, -1);
+        if (inLoadedWindow) {
+          pinnedIssueIdsRef.current.delete(issue.id);
+        } else if (moved) {
+          shiftColumnTotal(issue.status, 1);
+        }
+        if (previous) {
+          updateIssueInState([issue.id], current => ({ ...merged, comments: merged.comments ?? current.comments }));
+        } else if (inLoadedWindow) {
+          dataStore.upsert('issues', [merged]);
+        }
+        return;
+      }
+      case 'issue_deleted': {
+        const issueId: string | undefined = data.issue_id ?? data.issue?.id;
+        if (!issueId) return;
+        const issueKey = data.key || dataStore.getById('issues', issueId)?.key || 'An issue';
+        if (!isOwnEvent && selectedIssue?.id === issueId) {
+          closeIssueModal({ replace: true });
+          showToast('warning', 'Issue Deleted', `${issueKey} was deleted by ${actorName}`);
+        }
+        pinnedIssueIdsRef.current.delete(issueId);
+        updateIssueInState([issueId], () => null);
+        notify({ type: 'issue_deleted', title: 'Issue Deleted', message: `${actorName} deleted ${issueKey}`, data: { issueId, key: issueKey } });
+        return;
+      }
+      case 'comment_added': {
+        const comment: Comment | undefined = data.comment;
+        const issueId: string | undefined = data.issue_id ?? comment?.issue_id;
+        if (!comment?.id || !issueId) return;
+        updateIssueInState([issueId], issue => withComment(issue, comment));
+        return;
+      }
+      case WATCHER_NOTIFICATION_EVENT: {
+        const issue: Issue | undefined = data.issue;
+        const issueKey: string = data.issue_key || dataStore.getById('issues', data.issue_id)?.key || 'an issue';
+        const fields: string[] = Array.isArray(data.fields) ? data.fields : [];
+        if (issue && fields.includes('assignee_id') && issue.assignee_id === user?.id) {
+          notify({ type: 'issue_assigned', title: 'Issue Assigned', message: `${actorName} assigned ${issueKey} to you`, data: issue });
+        } else if (data.kind === 'status_changed') {
+          notify({
+            type: 'status_changed',
+            title: 'Status Changed',
+            message: `${actorName} moved ${issueKey} from ${workflow.nameOf(data.from_status)} to ${workflow.nameOf(data.to_status)}`,
+            data: issue
+          });
+        } else if (data.kind === 'comment_added' && data.comment?.content) {
+          const content: string = data.comment.content;
+          notify({
+            type: 'comment_added',
+            title: 'New Comment',
+            message: `${actorName} commented on ${issueKey}: ${content.length > 100 ? content.substring(0, 100) + '...' : content}`,
+            data: { issueId: data.issue_id, comment_id: data.comment.id }
+          });
+        } else if (data.kind === 'issue_updated') {
+          notify({ type: 'issue_updated', title: 'Issue Updated', message: `${actorName} updated ${issueKey}`, data: issue });
+        }
+        return;
+      }
+    }
+  };
+  issueSocketEventRef.current = handleIssueSocketEvent;
+
+  // Linked issues can be outside the loaded pages; the deep link route looks those up by key
+  const openIssueByKey = (issueKey: string) => {
+    const issue = issues.find(candidate => candidate.key === issueKey);
+    if (issue) {
+      openIssue(issue);
+    } else {
+      navigateToIssue(issueKey);
+    }
+  };
+
+  const addIssueLink = async (issue: Issue) => {
+    const choice = LINK_CHOICES.find(candidate => candidate.value === issueLinkDraft.choice);
+    if (!choice || !issueLinkDraft.targetId) return;
+    const [sourceId, targetId] = choice.inward ? [issueLinkDraft.targetId, issue.id] : [issue.id, issueLinkDraft.targetId];
+
+    setIsSavingIssueLink(true);
+    try {
+      const link = await api.issueLinks.create({ type: choice.type, source_id: sourceId, target_id: targetId });
+      dataStore.upsert('issueLinks', [link]);
+      setIssueLinkDraft(prev => ({ ...prev, targetId: '' }));
+      if (findDependencyCycles(dataStore.getList('issueLinks')).linkIds.has(link.id)) {
+        showToast('warning', 'Dependency Cycle', `${link.source_key} and ${link.target_key} now block each other through a loop`);
+      }
+    } catch (error: any) {
+      console.error('[issues] Failed to link issues:', error);
+      showToast('error', 'Link Failed', error.message || 'Could not link the issues');
+    } finally {
+      setIsSavingIssueLink(false);
+    }
+  };
+
+  const removeIssueLink = async (link: IssueLink) => {
+    dataStore.setList('issueLinks', prev => prev.filter(candidate => candidate.id !== link.id));
+    try {
+      await api.issueLinks.remove(link.id);
+    } catch (error: any) {
+      console.error('[issues] Failed to remove issue link:', error);
+      dataStore.upsert('issueLinks', [link]);
+      showToast('error', 'Unlink Failed', error.message || 'Could not remove the link');
+    }
+  };
+
+  // Watching isn't an edit, so it skips the offline queue and the issue's version check
+  const changeWatchers = async (issue: Issue, change: () => Promise<Issue>) => {
+    try {
+      const updated = await change();
+      updateIssueInState([issue.id], current => ({ ...current, watcher_ids: updated.watcher_ids }));
+    } catch (error) {
+      console.error('[issues] Failed to update watchers:', error);
+      showToast('error', 'Could Not Update Watchers', isApiError(error) ? error.message : 'Something went wrong');
+    }
+  };
+
+  const addWatcher = (issue: Issue, userId: string) => changeWatchers(issue, () => api.issues.watch(issue.id, userId));
+
+  const removeWatcher = (issue: Issue, userId: string) => changeWatchers(issue, () => api.issues.unwatch(issue.id, userId));
+
+  const copyIssueLink = async (issue: Issue) => {
+    const link = `${window.location.origin}${buildIssuePath(currentView, issue.key)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      showToast('success', 'Link Copied', `${issue.key} link copied to clipboard`);
+    } catch (error) {
+      console.error('Failed to copy issue link:', error);
+      showToast('error', 'Copy Failed', link);
+    }
+  };
+
+  const routeIssue = routeIssueKey
+    ? issues.find(issue => normalizeIssueKey(issue.key) === routeIssueKey) ?? null
+    : null;
+  // Deep links can point past the loaded pages, so look the key up before calling it unavailable
+  const [issueKeyLookup, setIssueKeyLookup] = useState<{ key: string; done: boolean } | null>(null);
+  useEffect(() => {
+    if (!routeIssueKey || !hasLoadedIssues || routeIssue || issueKeyLookup?.key === routeIssueKey) return;
+    setIssueKeyLookup({ key: routeIssueKey, done: false });
+    api.issues.listPage({ key: routeIssueKey, limit: 1 })
+      .then(page => {
+        page.items.forEach(issue => pinnedIssueIdsRef.current.add(issue.id));
+        dataStore.upsert('issues', page.items);
+      })
+      .catch(error => console.warn('[issues] Could not look up linked issue:', routeIssueKey, error))
+      .finally(() => setIssueKeyLookup({ key: routeIssueKey, done: true }));
+  }, [api, dataStore, routeIssueKey, hasLoadedIssues, routeIssue, issueKeyLookup]);
+
+  // Issues fetched outside the column pages are pinned so a refresh doesn't drop them again
+  const pinAndUpsertIssues = useCallback((fetched: Issue[]) => {
+    fetched
+      .filter(issue => !dataStore.getById('issues', issue.id))
+      .forEach(issue => pinnedIssueIdsRef.current.add(issue.id));
+    dataStore.upsert('issues', fetched);
+  }, [dataStore]);
+
+  // Every card can show its epic, whichever column the epic itself sits in
+  useEffect(() => {
+    if (!hasLoadedIssues) return;
+    api.issues.listPage({ issue_type: 'EPIC', limit: 200 })
+      .then(page => pinAndUpsertIssues(page.items))
+      .catch(error => console.warn('[issues] Could not load epics:', error));
+  }, [api, hasLoadedIssues, pinAndUpsertIssues]);
+
+  // Children of the open issue may be in columns that haven't been scrolled to yet
+  const selectedIssueType = selectedIssue?.issue_type;
+  useEffect(() => {
+    if (!viewingIssueId || !selectedIssueType || childTypesOf(selectedIssueType).length === 0) return;
+    api.issues.listPage({ parent_id: viewingIssueId, limit: 200 })
+      .then(page => pinAndUpsertIssues(page.items))
+      .catch(error => console.warn('[issues] Could not load child issues:', viewingIssueId, error));
+  }, [api, viewingIssueId, selectedIssueType, pinAndUpsertIssues]);
+
+  useEffect(() => {
+    setIssueLinkDraft(prev => ({ ...prev, targetId: '' }));
+  }, [viewingIssueId]);
+
+  // Fetched again each time the tab opens; entries that came in over the socket meanwhile are kept
+  useEffect(() => {
+    if (!viewingIssueId || issueModalTab !== 'activity') return;
+    let cancelled = false;
+    setIssueHistoryError(null);
+    api.issues.history(viewingIssueId)
+      .then(entries => {
+        if (cancelled) return;
+        setIssueHistory(prev => ({ ...prev, [viewingIssueId]: (prev[viewingIssueId] ?? []).reduce(appendHistoryEntry, entries) }));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.warn('[issues] Could not load history:', viewingIssueId, error);
+        setIssueHistoryError(isApiError(error) ? error.message : 'Something went wrong');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, viewingIssueId, issueModalTab]);
+
+  useEffect(() => {
+    if (!viewingIssueId) return;
+    let cancelled = false;
+    api.workLogs.list(viewingIssueId)
+      .then(logs => {
+        if (!cancelled) setIssueWorkLogs(prev => ({ ...prev, [viewingIssueId]: logs }));
+      })
+      .catch(error => console.warn('[issues] Could not load work logs:', viewingIssueId, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [api, viewingIssueId]);
+
+  const timesheetUserId = timesheet.userId || user?.id || '';
+  const timesheetDates = weekDates(timesheet.weekStart);
+
+  useEffect(() => {
+    if (currentView !== 'timesheet' || !timesheetUserId) return;
+    let cancelled = false;
+    const dates = weekDates(timesheet.weekStart);
+    setTimesheet(prev => ({ ...prev, logs: null, error: null }));
+    api.workLogs.timesheet({ user_id: timesheetUserId, from: dates[0], to: dates[6] })
+      .then(logs => {
+        if (!cancelled) setTimesheet(prev => ({ ...prev, logs }));
+      })
+      .catch(error => {
+        if (!cancelled) setTimesheet(prev => ({ ...prev, error: isApiError(error) ? error.message : 'Something went wrong' }));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, currentView, timesheetUserId, timesheet.weekStart]);
+
+  // Time spent and the remaining estimate arrive separately, as issue_updated
+  const handleWorkLogSocketEvent = (data: any) => {
+    if (data.type === 'work_logged' && data.log?.id) {
+      const log: WorkLog = data.log;
+      setIssueWorkLogs(prev => (prev[log.issue_id] ? { ...prev, [log.issue_id]: addWorkLog(prev[log.issue_id], log) } : prev));
+      if (log.author_id === timesheetUserId && timesheetDates.includes(log.date)) {
+        setTimesheet(prev => (prev.logs ? { ...prev, logs: addWorkLog(prev.logs, log) } : prev));
+      }
+    }
+    if (data.type === 'work_log_deleted' && data.log_id) {
+      const withoutLog = (logs: WorkLog[]) => logs.filter(log => log.id !== data.log_id);
+      setIssueWorkLogs(prev => (prev[data.issue_id] ? { ...prev, [data.issue_id]: withoutLog(prev[data.issue_id]) } : prev));
+      setTimesheet(prev => (prev.logs ? { ...prev, logs: withoutLog(prev.logs) } : prev));
+    }
+  };
+  workLogSocketEventRef.current = handleWorkLogSocketEvent;
+
+  // The socket brings the new totals too; asking directly keeps the modal right while it reconnects
+  const reloadIssueByKey = (issueKey: string) => {
+    api.issues.listPage({ key: issueKey, limit: 1 })
+      .then(page => dataStore.upsert('issues', page.items))
+      .catch(error => console.warn('[issues] Could not reload issue:', issueKey, error));
+  };
+
+  useEffect(() => {
+    if (!viewingIssueId) return;
+    let cancelled = false;
+    api.attachments.list(viewingIssueId)
+      .then(attachments => {
+        if (!cancelled) setIssueAttachments(prev => ({ ...prev, [viewingIssueId]: attachments }));
+      })
+      .catch(error => console.warn('[issues] Could not load attachments:', viewingIssueId, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [api, viewingIssueId]);
+
+  // The new attachment count arrives separately, as issue_updated
+  const handleAttachmentSocketEvent = (data: any) => {
+    if (data.type === 'attachment_added' && data.attachment?.id) {
+      const attachment: Attachment = data.attachment;
+      setIssueAttachments(prev => (prev[attachment.issue_id] ? { ...prev, [attachment.issue_id]: addAttachment(prev[attachment.issue_id], attachment) } : prev));
+    }
+    if (data.type === 'attachment_deleted' && data.attachment_id) {
+      setIssueAttachments(prev => (prev[data.issue_id]
+        ? { ...prev, [data.issue_id]: prev[data.issue_id].filter(attachment => attachment.id !== data.attachment_id) }
+        : prev));
+      setPreviewAttachment(prev => (prev?.id === data.attachment_id ? null : prev));
+    }
+  };
+  attachmentSocketEventRef.current = handleAttachmentSocketEvent;
+
+  // Files that break the size or type limits are turned away up front with a toast each
+  const acceptAttachments = (files: File[]) => files.filter(file => {
+    const problem = attachmentProblem(file);
+    if (problem) showToast('error', 'Cannot Attach File', problem);
+    return !problem;
+  });
+
+  // One file at a time, so a large batch doesn't starve the rest of the app's requests
+  const uploadAttachments = async (issueId: string, files: File[]) => {
+    let uploaded = 0;
+    for (const file of acceptAttachments(files)) {
+      const uploadId = `${issueId}-${Date.now()}-${file.name}`;
+      const setUpload = (changes: { sent?: number; error?: string }) =>
+        setAttachmentUploads(prev => prev.map(upload => (upload.id === uploadId ? { ...upload, ...changes } : upload)));
+      setAttachmentUploads(prev => [...prev, { id: uploadId, issueId, fileName: file.name, size: file.size, sent: 0 }]);
+      try {
+        const attachment = await api.attachments.upload(issueId, file, { onProgress: sent => setUpload({ sent }) });
+        setIssueAttachments(prev => ({ ...prev, [issueId]: addAttachment(prev[issueId] ?? [], attachment) }));
+        setAttachmentUploads(prev => prev.filter(upload => upload.id !== uploadId));
+        uploaded += 1;
+      } catch (error) {
+        setUpload({ error: isApiError(error) ? error.message : 'Upload failed' });
+      }
+    }
+    const issueKey = getIssueById(issueId)?.key;
+    if (uploaded > 0 && issueKey) reloadIssueByKey(issueKey);
+  };
+
+  const deleteAttachment = async (attachment: Attachment) => {
+    if (!window.confirm(`Delete ${attachment.file_name}?`)) return;
+    try {
+      await api.attachments.remove(attachment.id);
+      setIssueAttachments(prev => ({
+        ...prev,
+        [attachment.issue_id]: (prev[attachment.issue_id] ?? []).filter(candidate => candidate.id !== attachment.id)
+      }));
+      setPreviewAttachment(prev => (prev?.id === attachment.id ? null : prev));
+      const issueKey = getIssueById(attachment.issue_id)?.key;
+      if (issueKey) reloadIssueByKey(issueKey);
+    } catch (error) {
+      showToast('error', 'Could Not Delete Attachment', isApiError(error) ? error.message : 'Something went wrong');
+    }
+  };
+
+  // Drop or paste files anywhere on a modal. Dragged board cards carry no files, so they're left alone.
+  const fileDropHandlers = (target: 'issue' | 'create', onFiles: (files: File[]) => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setFileDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFileDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (e.dataTransfer.files.length === 0) return;
+      e.preventDefault();
+      setFileDropTarget(null);
+      onFiles(Array.from(e.dataTransfer.files));
+    },
+    onPaste: (e: React.ClipboardEvent) => {
+      const files = Array.from(e.clipboardData.files);
+      if (files.length === 0) return;
+      e.preventDefault();
+      // Pasted screenshots all arrive as "image.png"
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+      onFiles(files.map((file, index) => (file.type.startsWith('image/')
+        ? new File([file], `pasted-${stamp}${files.length > 1 ? `-${index + 1}` : ''}.${file.type.split('/')[1]}`, { type: file.type })
+        : file)));
+    }
+  });
+
+  const openLogWork = (issue: Issue) => {
+    setLogWorkDraft({ issueId: issue.id, duration: '', date: toDateOnly(new Date()), note: '', remaining: '' });
+  };
+
+  const submitLogWork = async () => {
+    if (!logWorkDraft || isLoggingWork) return;
+    const minutes = parseDuration(logWorkDraft.duration);
+    const remaining = logWorkDraft.remaining.trim() ? parseDuration(logWorkDraft.remaining) : undefined;
+    const problem = minutes === null
+      ? 'Write the time spent like 3h, 1d 4h or 90m'
+      : remaining === null
+        ? 'Write the remaining estimate like 3h, 1d 4h or 90m'
+        : workLogProblem({ minutes, date: logWorkDraft.date });
+    if (problem) {
+      showToast('error', 'Validation Error', problem);
+      return;
+    }
+
+    setIsLoggingWork(true);
+    try {
+      const log = await api.workLogs.create(logWorkDraft.issueId, {
+        minutes: minutes!,
+        date: logWorkDraft.date,
+        note: logWorkDraft.note.trim(),
+        ...(remaining !== undefined ? { remaining_estimate_minutes: remaining } : {})
+      });
+      setIssueWorkLogs(prev => ({ ...prev, [log.issue_id]: addWorkLog(prev[log.issue_id] ?? [], log) }));
+      reloadIssueByKey(log.issue_key);
+      setLogWorkDraft(null);
+      showToast('success', 'Work Logged', `${formatDuration(log.minutes)} on ${log.issue_key}`);
+    } catch (error) {
+      showToast('error', 'Could Not Log Work', isApiError(error) ? error.message : 'Something went wrong');
+    } finally {
+      setIsLoggingWork(false);
+    }
+  };
+
+  const deleteWorkLog = async (log: WorkLog) => {
+    if (!window.confirm(`Delete ${formatDuration(log.minutes)} logged on ${log.date}?`)) return;
+    try {
+      await api.workLogs.remove(log.id);
+      setIssueWorkLogs(prev => ({ ...prev, [log.issue_id]: (prev[log.issue_id] ?? []).filter(candidate => candidate.id !== log.id) }));
+      reloadIssueByKey(log.issue_key);
+    } catch (error) {
+      showToast('error', 'Could Not Delete Work Log', isApiError(error) ? error.message : 'Something went wrong');
+    }
+  };
+
+  const isRouteIssueUnavailable = !!routeIssueKey && hasLoadedIssues
+    && (routeIssue ? !canViewIssue(routeIssue) : issueKeyLookup?.key === routeIssueKey && issueKeyLookup.done);
+
+  // Resolve /board/:issueKey and /issues/:issueKey into the open issue modal
+  useEffect(() => {
+    if (!routeIssueKey) {
+      setShowIssueModal(false);
+      return;
+    }
+
+    if (routeIssue && canViewIssue(routeIssue)) {
+      setSelectedIssue(prev => (prev?.id === routeIssue.id ? prev : routeIssue));
+      setShowIssueModal(true);
+    } else {
+      setShowIssueModal(false);
+    }
+  }, [routeIssueKey, routeIssue, canViewIssue]);
+
+  // Offline sync status per issue; a conflict outranks pending writes
+  const syncStateByIssueId = useMemo(() => {
+    const states = new Map<string, 'saving' | 'pending' | 'deleting' | 'conflict'>();
+    Object.keys(inFlightIssueWrites).forEach(issueId => states.set(issueId, 'saving'));
+    pendingMutations.forEach(mutation => {
+      const issueId = mutation.kind === 'issue.create' ? mutation.tempId : mutation.issueId;
+      if (mutation.state === 'conflict') {
+        states.set(issueId, 'conflict');
+      } else if (states.get(issueId) !== 'conflict') {
+        states.set(issueId, mutation.kind === 'issue.delete' ? 'deleting' : 'pending');
+      }
+    });
+    return states;
+  }, [pendingMutations, inFlightIssueWrites]);
+
+  const pendingCommentIds = useMemo(
+    () => new Set(pendingMutations.flatMap(mutation => (mutation.kind === 'comment.create' ? [mutation.tempId] : []))),
+    [pendingMutations]
+  );
+
+  const renderSyncBadge = (issueId: string) => {
+    const syncState = syncStateByIssueId.get(issueId);
+    if (!syncState) return null;
+    const styles = {
+      saving: { label: 'Saving...', color: '#1d4ed8', background: '#dbeafe' },
+      pending: { label: 'Pending sync', color: '#b45309', background: '#fef3c7' },
+      deleting: { label: 'Delete pending sync', color: '#b45309', background: '#fef3c7' },
+      conflict: { label: 'Sync conflict', color: '#b91c1c', background: '#fee2e2' }
+    }[syncState];
+    return (
+      <span style={{
+        fontSize: '10px',
+        fontWeight: '600',
+        color: styles.color,
+        background: styles.background,
+        padding: '2px 6px',
+        borderRadius: '4px',
+        whiteSpace: 'nowrap'
+      }}>
+        {styles.label}
+      </span>
+    );
+  };
+
+  const renderSocketStatusBadge = () => {
+    const styles = {
+      connected: { label: 'Live', color: '#22c55e', title: 'Receiving updates in real time' },
+      connecting: { label: 'Connecting...', color: '#facc15', title: 'Opening the live update connection' },
+      reconnecting: { label: 'Reconnecting...', color: '#f97316', title: 'Connection lost; missed updates will be caught up once it is back. Click to retry now.' },
+      disconnected: { label: 'Offline', color: '#94a3b8', title: 'Live updates are paused. Click to reconnect.' }
+    }[socketStatus];
+    const canRetry = socketStatus === 'reconnecting' || socketStatus === 'disconnected';
+    return (
+      <button
+        type="button"
+        title={styles.title}
+        disabled={!canRetry}
+        onClick={() => connectWebSocket()}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          background: 'rgba(255,255,255,0.1)',
+          border: 'none',
+          borderRadius: '12px',
+          padding: '4px 10px',
+          color: 'white',
+          fontSize: '12px',
+          fontWeight: '600',
+          cursor: canRetry ? 'pointer' : 'default'
+        }}
+      >
+        <span style={{ width: '8px', height: '8px', borderRadius: '50%', background: styles.color }} />
+        {styles.label}
+      </button>
+    );
+  };
+
+  const renderSyncStatusBanner = () => {
+    const waiting = pendingMutations.filter(mutation => mutation.state === 'pending');
+    const conflicts = pendingMutations.filter(mutation => mutation.state === 'conflict');
+    if (isOnline && waiting.length === 0 && conflicts.length === 0) return null;
+
+    const issueKeyFor = (mutation: QueuedMutation) => {
+      const issueId = mutation.kind === 'issue.create' ? mutation.tempId : mutation.issueId;
+      return issues.find(issue => issue.id === issueId)?.key;
+    };
+
+    let summary = `${waiting.length} change${waiting.length === 1 ? '' : 's'} waiting to sync`;
+    if (!isOnline) {
+      summary = `You are offline. ${waiting.length > 0 ? `${summary}; they` : 'New changes'} will be sent when you reconnect.`;
+    } else if (isSyncingOffline) {
+      summary = `Syncing ${waiting.length} offline change${waiting.length === 1 ? '' : 's'}...`;
+    }
+
+    return (
+      <div style={{
+        margin: '16px 32px 0',
+        padding: '12px 16px',
+        borderRadius: '8px',
+        border: `1px solid ${conflicts.length > 0 ? '#fecaca' : '#fde68a'}`,
+        background: conflicts.length > 0 ? '#fef2f2' : '#fffbeb',
+        fontSize: '13px',
+        color: '#172b4d'
+      }}>
+        {(waiting.length > 0 || !isOnline) && (
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+            <span>{summary}</span>
+            {isOnline && waiting.length > 0 && !isSyncingOffline && (
+              <button
+                onClick={() => syncOfflineQueue()}
+                style={{ background: 'white', border: '1px solid #dfe1e6', borderRadius: '6px', padding: '4px 10px', fontSize: '12px', cursor: 'pointer' }}
+              >
+                Sync now
+              </button>
+            )}
+          </div>
+        )}
+        {conflicts.map(mutation => (
+          <div
+            key={mutation.seq}
+            style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', marginTop: '8px' }}
+          >
+            <span>
+              <strong>{describeMutation(mutation, issueKeyFor(mutation))}</strong> could not be synced: {mutation.error}
+            </span>
+            <span style={{ display: 'flex', gap: '8px', flexShrink: 0 }}>
+              <button
+                onClick={() => retryQueuedMutation(mutation)}
+                style={{ background: 'white', border: '1px solid #dfe1e6', borderRadius: '6px', padding: '4px 10px', fontSize: '12px', cursor: 'pointer' }}
+              >
+                Retry
+              </button>
+              <button
+                onClick={() => discardQueuedMutation(mutation)}
+                style={{ background: '#b91c1c', color: 'white', border: 'none', borderRadius: '6px', padding: '4px 10px', fontSize: '12px', cursor: 'pointer' }}
+              >
+                Discard
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Drag and Drop
+  const handleDragStart = (e: React.DragEvent, issue: Issue) => {
+    e.dataTransfer.setData('issueId', issue.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, newStatus: Issue['status']) => {
+    e.preventDefault();
+    const issueId = e.dataTransfer.getData('issueId');
+    if (issueId) {
+      updateIssue(issueId, { status: newStatus });
+    }
+  };
+
+  // Calculate metrics
+  const metrics = {
+    totalIssues: workflow.statuses.reduce((sum, column) => sum + getColumnTotal(column.id), 0),
+    completedIssues: workflow.inCategory('done').reduce((sum, column) => sum + getColumnTotal(column.id), 0),
+    inProgressIssues: workflow.inCategory('in_progress').reduce((sum, column) => sum + getColumnTotal(column.id), 0),
+    totalPoints: issues.reduce((sum, i) => sum + (i.story_points || 0), 0),
+    completedPoints: issues.filter(i => workflow.isDone(i.status)).reduce((sum, i) => sum + (i.story_points || 0), 0),
+  };
+
+  // Render functions
+  const renderAuth = () => (
+    <div style={{
+      minHeight: '100vh',
+      background: '#0d1b2a',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        background: '#1b2838',
+        border: '1px solid #2d3e50',
+        borderRadius: '12px',
+        padding: '48px',
+        width: '100%',
+        maxWidth: '480px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.4)'
+      }}>
+        <div style={{ textAlign: 'center', marginBottom: '40px' }}>
+          <div style={{
+            width: '100px',
+            height: '100px',
+            margin: '0 auto 20px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}>
+            <img
+              src="/logo.png"
+              alt="MissedTask Logo"
+              style={{
+                width: '100%',
+                height: '100%',
+                objectFit: 'contain'
+             }}
+           />
+          </div>
+          <h1 style={{ margin: 0, fontSize: '32px', fontWeight: '700', color: '#e0e7ff' }}>
+            MissedTask
+          </h1>
+        </div>
+
+        {authMode === 'login' && (
+          <div>
+            <h2 style={{ margin: '0 0 32px 0', fontSize: '26px', fontWeight: '700', color: '#e0e7ff' }}>
+              Welcome Back
+            </h2>
 
             <div style={{ marginBottom: '20px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '14px' }}>
@@ -2313,6 +4349,7 @@ const App: React.FC = () => {
       </div>
 
       <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+        {renderSocketStatusBadge()}
         <div style={{ position: 'relative' }}>
           <button
             onClick={() => setShowNotificationsPanel(!showNotificationsPanel)}
@@ -2505,6 +4542,12 @@ const App: React.FC = () => {
               user?.name?.substring(0, 2).toUpperCase() || 'BH'
             )}
           </div>
+          <PresenceDot
+            status={ownPresence}
+            size={10}
+            borderColor="#1e3a8a"
+            style={{ position: 'absolute', bottom: '-3px', right: '-3px', pointerEvents: 'none' }}
+          />
 
           {/* Profile Dropdown Menu */}
           {showProfileMenu && (
@@ -2738,11 +4781,95 @@ const App: React.FC = () => {
           Board
         </button>
 
-        {/* Create Issue - Only for admin, super_admin, and project_manager */}
-        {canCreateIssues && (
-          <button
-            onClick={openCreateIssueModal}
-            style={{
+        <button
+          onClick={() => navigateToView('dependencies')}
+          style={{
+            width: '100%',
+            background: currentView === 'dependencies' ? '#1e40af' : 'transparent',
+            border: 'none',
+            borderRadius: '8px',
+            color: 'white',
+            padding: '12px 20px',
+            fontSize: '15px',
+            fontWeight: '500',
+            cursor: 'pointer',
+            textAlign: 'left',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            margin: '4px 12px'
+          }}
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="5" cy="6" r="2" />
+            <circle cx="5" cy="18" r="2" />
+            <circle cx="19" cy="12" r="2" />
+            <path d="M7 6h4a4 4 0 014 4v0M7 18h4a4 4 0 004-4v0M15 12h2" />
+          </svg>
+          Dependencies
+        </button>
+
+        <button
+          onClick={() => navigateToView('timesheet')}
+          style={{
+            width: '100%',
+            background: currentView === 'timesheet' ? '#1e40af' : 'transparent',
+            border: 'none',
+            borderRadius: '8px',
+            color: 'white',
+            padding: '12px 20px',
+            fontSize: '15px',
+            fontWeight: '500',
+            cursor: 'pointer',
+            textAlign: 'left',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            margin: '4px 12px'
+          }}
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <polyline points="12 6 12 12 16 14" />
+          </svg>
+          Timesheet
+        </button>
+
+        {canCreateIssues && (
+          <button
+            onClick={() => navigateToView('recurring')}
+            style={{
+              width: '100%',
+              background: currentView === 'recurring' ? '#1e40af' : 'transparent',
+              border: 'none',
+              borderRadius: '8px',
+              color: 'white',
+              padding: '12px 20px',
+              fontSize: '15px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              textAlign: 'left',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '12px',
+              margin: '4px 12px'
+            }}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="17 1 21 5 17 9" />
+              <path d="M3 11V9a4 4 0 014-4h14" />
+              <polyline points="7 23 3 19 7 15" />
+              <path d="M21 13v2a4 4 0 01-4 4H3" />
+            </svg>
+            Recurring
+          </button>
+        )}
+
+        {/* Create Issue - Only for admin, super_admin, and project_manager */}
+        {canCreateIssues && (
+          <button
+            onClick={openCreateIssueModal}
+            style={{
               width: '100%',
               background: 'transparent',
               border: 'none',
@@ -2910,6 +5037,11 @@ const App: React.FC = () => {
           </div>
         ))}
       </div>
+      {!allIssuesLoaded && (
+        <p style={{ color: '#94a3b8', fontSize: '13px', margin: '-20px 0 24px' }}>
+          Story points so far cover the {issues.length} issues loaded; loading the rest of the backlog...
+        </p>
+      )}
 
       <div style={{
         background: 'white',
@@ -2925,10 +5057,7 @@ const App: React.FC = () => {
             {filteredIssues.slice(0, 5).map((issue) => (
               <div 
                 key={issue.id} 
-                onClick={() => {
-                  setSelectedIssue(issue);
-                  setShowIssueModal(true);
-                }}
+                onClick={() => openIssue(issue)}
                 style={{ 
                   display: 'flex', 
                   alignItems: 'center', 
@@ -2953,10 +5082,10 @@ const App: React.FC = () => {
                   borderRadius: '12px',
                   fontSize: '11px',
                   fontWeight: '600',
-                  background: issue.status === 'DONE' ? '#e3fcef' : issue.status === 'IN_PROGRESS' ? '#deebff' : '#f4f5f7',
+                  background: getStatusBackground(issue.status),
                   color: getStatusColor(issue.status)
                 }}>
-                  {issue.status.replace('_', ' ')}
+                  {workflow.nameOf(issue.status)}
                 </div>
               </div>
             ))}
@@ -2996,214 +5125,746 @@ const App: React.FC = () => {
     );
   };
 
-  const renderBoard = () => {
-    // Filter issues based on user role
-    const filteredIssues = canCreateIssues
-      ? issues // Admins see all issues
-      : issues.filter(issue => issue.assignee_id === user?.id); // Employees only see their assigned tasks
+  const matchesDeadlineWindow = (issue: Issue, range: DeadlineWindow) => {
+    if (!range) return true;
+    if (range === 'none') return !issue.deadline;
+    if (!issue.deadline) return false;
+
+    const deadline = new Date(issue.deadline);
+    if (Number.isNaN(deadline.getTime())) return false;
+    const now = new Date();
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    switch (range) {
+      case 'overdue':
+        return deadline < now && !workflow.isDone(issue.status);
+      case 'today':
+        return deadline >= startOfToday && deadline.getTime() < startOfToday.getTime() + dayMs;
+      case 'week':
+        return deadline >= startOfToday && deadline.getTime() < startOfToday.getTime() + 7 * dayMs;
+      case 'month':
+        return deadline >= startOfToday && deadline.getTime() < startOfToday.getTime() + 30 * dayMs;
+      default:
+        return true;
+    }
+  };
 
-    // Local function to get filtered issues by status
-    const getFilteredIssuesByStatus = (status: Issue['status']) => {
-      return filteredIssues.filter(issue => issue.status === status);
+  const matchesBoardFilters = (issue: Issue, filters: BoardFilters) => {
+    if (filters.assignee === 'me' && issue.assignee_id !== user?.id) return false;
+    if (filters.assignee === 'unassigned' && issue.assignee_id) return false;
+    if (filters.assignee && !['me', 'unassigned'].includes(filters.assignee) && issue.assignee_id !== filters.assignee) {
+      return false;
+    }
+    if (filters.types.length && !filters.types.includes(issue.issue_type)) return false;
+    if (filters.priorities.length && !filters.priorities.includes(issue.priority)) return false;
+    if (filters.label) {
+      const wanted = filters.label.toLowerCase();
+      if (!(issue.labels || []).some(label => label.toLowerCase() === wanted)) return false;
+    }
+    if (filters.text.trim()) {
+      const needle = filters.text.trim().toLowerCase();
+      const haystack = `${issue.key} ${issue.title} ${issue.description || ''}`.toLowerCase();
+      if (!haystack.includes(needle)) return false;
+    }
+    if (!customFields.every(field => matchesFieldFilter(field, issue.custom_fields?.[field.id], filters.fields[field.id] || ''))) {
+      return false;
+    }
+    return matchesDeadlineWindow(issue, filters.deadline);
+  };
+
+  const copyBoardLink = async () => {
+    const link = `${window.location.origin}${VIEW_TO_PATH.board}${serializeBoardFilters(boardFilters)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      showToast('success', 'Link Copied', 'Filtered board link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy board link:', error);
+      showToast('error', 'Copy Failed', link);
+    }
+  };
+
+  const renderBoardFilters = (visibleCount: number, totalCount: number) => {
+    const boardLabels = Array.from(new Set(issues.flatMap(issue => issue.labels || []))).sort();
+    const chipStyle = (active: boolean): React.CSSProperties => ({
+      padding: '6px 10px',
+      borderRadius: '999px',
+      border: active ? '1px solid #3b82f6' : '1px solid #2d3e50',
+      background: active ? 'rgba(59, 130, 246, 0.2)' : 'transparent',
+      color: active ? '#93c5fd' : '#94a3b8',
+      fontSize: '12px',
+      fontWeight: '600',
+      cursor: 'pointer'
+    });
+    const toggle = <T,>(list: T[], value: T) =>
+      list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+    return (
+      <div style={{
+        background: '#1b2838',
+        border: '1px solid #2d3e50',
+        borderRadius: '12px',
+        padding: '16px',
+        marginBottom: '20px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px'
+      }}>
+        <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={boardFilters.text}
+            onChange={(e) => updateBoardFilters({ text: e.target.value })}
+            placeholder="Search key, title or description"
+            style={{ flex: '1 1 220px', minWidth: '200px' }}
+          />
+          <select
+            value={boardFilters.assignee}
+            onChange={(e) => updateBoardFilters({ assignee: e.target.value })}
+            style={{ flex: '0 1 180px' }}
+          >
+            <option value="">Any assignee</option>
+            <option value="me">Assigned to me</option>
+            <option value="unassigned">Unassigned</option>
+            {users.filter(u => u.organization_id === user?.organization_id).map(u => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+          <select
+            value={boardFilters.label}
+            onChange={(e) => updateBoardFilters({ label: e.target.value })}
+            style={{ flex: '0 1 160px' }}
+          >
+            <option value="">Any label</option>
+            {boardLabels.map(label => (
+              <option key={label} value={label}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={boardFilters.deadline}
+            onChange={(e) => updateBoardFilters({ deadline: e.target.value as DeadlineWindow })}
+            style={{ flex: '0 1 170px' }}
+          >
+            <option value="">Any deadline</option>
+            <option value="overdue">Overdue</option>
+            <option value="today">Due today</option>
+            <option value="week">Due in 7 days</option>
+            <option value="month">Due in 30 days</option>
+            <option value="none">No deadline</option>
+          </select>
+        </div>
+
+        {customFields.length > 0 && (
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', alignItems: 'center' }}>
+            {customFields.map(field => {
+              const value = boardFilters.fields[field.id] || '';
+              const setValue = (next: string) => updateBoardFilters({ fields: { ...boardFilters.fields, [field.id]: next } });
+              if (field.type === 'select' || field.type === 'multi_select' || field.type === 'user') {
+                return (
+                  <select key={field.id} value={value} onChange={(e) => setValue(e.target.value)} style={{ flex: '0 1 170px' }}>
+                    <option value="">Any {field.name}</option>
+                    {field.type === 'user'
+                      ? users.filter(u => u.organization_id === user?.organization_id).map(u => (
+                        <option key={u.id} value={u.id}>{u.name}</option>
+                      ))
+                      : field.options.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                  </select>
+                );
+              }
+              return (
+                <input
+                  key={field.id}
+                  type={field.type === 'text' ? 'text' : field.type}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={field.name}
+                  title={field.name}
+                  style={{ flex: '0 1 170px' }}
+                />
+              );
+            })}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center' }}>
+          {ISSUE_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => updateBoardFilters({ types: toggle(boardFilters.types, type) })}
+              style={chipStyle(boardFilters.types.includes(type))}
+            >
+              {getTypeIcon(type)} {type.charAt(0) + type.slice(1).toLowerCase()}
+            </button>
+          ))}
+          <span style={{ width: '1px', height: '20px', background: '#2d3e50', margin: '0 4px' }} />
+          {ISSUE_PRIORITIES.map(priority => (
+            <button
+              key={priority}
+              onClick={() => updateBoardFilters({ priorities: toggle(boardFilters.priorities, priority) })}
+              style={chipStyle(boardFilters.priorities.includes(priority))}
+            >
+              <span style={{
+                display: 'inline-block',
+                width: '6px',
+                height: '6px',
+                borderRadius: '50%',
+                background: getPriorityColor(priority),
+                marginRight: '6px',
+                verticalAlign: 'middle'
+              }} />
+              {priority.charAt(0) + priority.slice(1).toLowerCase()}
+            </button>
+          ))}
+
+          <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <span style={{ fontSize: '12px', color: '#94a3b8' }}>
+              Showing {visibleCount} of {totalCount}
+              {needsAllIssues && !allIssuesLoaded && ' (loading the rest of the backlog...)'}
+            </span>
+            {hasActiveBoardFilters(boardFilters) && (
+              <>
+                <button
+                  onClick={copyBoardLink}
+                  style={{ ...chipStyle(false), color: '#60a5fa' }}
+                >
+                  Copy link
+                </button>
+                <button
+                  onClick={() => updateBoardFilters(EMPTY_BOARD_FILTERS)}
+                  style={chipStyle(false)}
+                >
+                  Clear filters
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderDependencies = () => {
+    const cycles = findDependencyCycles(issueLinks);
+    const blockedCount = issues.filter(issue => !workflow.isDone(issue.status) && blockersOf(issue).length > 0).length;
+
+    return (
+      <div style={{ padding: '32px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', marginBottom: '24px' }}>
+          <div>
+            <h1 style={{ fontSize: '32px', fontWeight: '700', margin: 0, color: 'white' }}>Dependencies</h1>
+            <p style={{ color: '#94a3b8', margin: '4px 0 0 0', fontSize: '15px' }}>
+              Blockers sit to the left of the work they hold up · {blockedCount} open {blockedCount === 1 ? 'issue is' : 'issues are'} blocked
+            </p>
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#e2e8f0', fontSize: '14px', cursor: 'pointer' }}>
+            <input type="checkbox" checked={showAllIssueLinks} onChange={(e) => setShowAllIssueLinks(e.target.checked)} />
+            Show duplicates, clones and related issues
+          </label>
+        </div>
+
+        {cycles.issueIds.size > 0 && (
+          <div style={{
+            marginBottom: '16px',
+            padding: '12px 16px',
+            borderRadius: '8px',
+            background: 'rgba(222,53,11,0.12)',
+            border: '1px solid rgba(222,53,11,0.4)',
+            color: '#fca5a5',
+            fontSize: '14px'
+          }}>
+            {cycles.issueIds.size} issues block each other in a cycle (highlighted in red). Remove one of the links to break it.
+          </div>
+        )}
+
+        <DependencyGraph
+          links={issueLinks}
+          getIssue={getIssueById}
+          workflow={workflow}
+          onOpenIssue={openIssueByKey}
+          showAllLinks={showAllIssueLinks}
+        />
+      </div>
+    );
+  };
+
+  const exportTimesheet = (format: 'csv' | 'xlsx') => {
+    const sheet = buildTimesheet(timesheet.logs ?? [], timesheetDates);
+    const person = getUserById(timesheetUserId)?.name || 'Unknown User';
+    const dayColumn = (date: string) => `${new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short' })} ${date}`;
+    // Hours as numbers so the sheet can total them; the last row carries the daily totals
+    const rows = [
+      ...sheet.rows.map(row => ({
+        Person: person,
+        Key: row.issueKey,
+        Title: row.issueTitle,
+        ...Object.fromEntries(timesheetDates.map(date => [dayColumn(date), toHours(row.byDate[date] ?? 0)])),
+        'Total (h)': toHours(row.total)
+      })),
+      {
+        Person: person,
+        Key: '',
+        Title: 'Total',
+        ...Object.fromEntries(timesheetDates.map(date => [dayColumn(date), toHours(sheet.dayTotals[date])])),
+        'Total (h)': toHours(sheet.total)
+      }
+    ];
+    const fileName = `timesheet_${person.replace(/\s+/g, '_').toLowerCase()}_${timesheetDates[0]}`;
+    try {
+      if (format === 'csv') downloadCSV(rows, `${fileName}.csv`);
+      else downloadExcel(rows, 'Timesheet', `${fileName}.xlsx`);
+      showToast('success', 'Export Successful', `Timesheet exported to ${format === 'csv' ? 'CSV' : 'Excel'}`);
+    } catch (error: any) {
+      console.error('❌ Failed to export timesheet:', error);
+      showToast('error', 'Export Failed', 'Could not export the timesheet');
+    }
+  };
+
+  const renderTimesheet = () => {
+    const sheet = buildTimesheet(timesheet.logs ?? [], timesheetDates);
+    const today = toDateOnly(new Date());
+    const moveWeek = (weeks: number) =>
+      setTimesheet(prev => ({ ...prev, weekStart: weeks === 0 ? startOfWeek(new Date()) : addDays(prev.weekStart, weeks * 7) }));
+    const cellStyle: React.CSSProperties = { padding: '10px 12px', borderTop: '1px solid #ebecf0', fontSize: '13px', textAlign: 'right', whiteSpace: 'nowrap' };
+    const headerStyle: React.CSSProperties = { padding: '10px 12px', fontSize: '12px', fontWeight: 600, color: '#6b778c', textAlign: 'right', whiteSpace: 'nowrap' };
+    const buttonStyle: React.CSSProperties = {
+      background: 'rgba(255,255,255,0.1)',
+      color: 'white',
+      border: '1px solid rgba(255,255,255,0.2)',
+      padding: '8px 14px',
+      borderRadius: '8px',
+      fontSize: '13px',
+      fontWeight: 600,
+      cursor: 'pointer'
     };
 
     return (
-    <div style={{ padding: '32px' }}>
-      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
-        <div>
-          <h1 style={{ fontSize: '32px', fontWeight: '700', margin: 0, color: 'white' }}>Sprint Board</h1>
-          <p style={{ color: '#94a3b8', margin: '4px 0 0 0', fontSize: '15px' }}>
-            Drag and drop issues to update their status
-          </p>
+      <div style={{ padding: '32px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', marginBottom: '24px', gap: '16px', flexWrap: 'wrap' }}>
+          <div>
+            <h1 style={{ fontSize: '32px', fontWeight: '700', margin: 0, color: 'white' }}>Timesheet</h1>
+            <p style={{ color: '#94a3b8', margin: '4px 0 0 0', fontSize: '15px' }}>
+              Week of {timesheet.weekStart.toLocaleDateString()} · {formatDuration(sheet.total)} logged
+            </p>
+          </div>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+            {canCreateIssues && (
+              <select
+                value={timesheetUserId}
+                onChange={(e) => setTimesheet(prev => ({ ...prev, userId: e.target.value }))}
+                style={{ ...buttonStyle, background: '#1e293b' }}
+              >
+                {users.filter(u => u.organization_id === user?.organization_id).map(u => (
+                  <option key={u.id} value={u.id}>{u.name}</option>
+                ))}
+              </select>
+            )}
+            <button onClick={() => moveWeek(-1)} style={buttonStyle}>← Previous</button>
+            <button onClick={() => moveWeek(0)} style={buttonStyle}>This week</button>
+            <button onClick={() => moveWeek(1)} style={buttonStyle}>Next →</button>
+            <button onClick={() => exportTimesheet('csv')} disabled={!timesheet.logs} style={buttonStyle}>Export CSV</button>
+            <button onClick={() => exportTimesheet('xlsx')} disabled={!timesheet.logs} style={buttonStyle}>Export Excel</button>
+          </div>
         </div>
-        <div style={{ display: 'flex', gap: '12px' }}>
+
+        <div style={{ background: 'white', borderRadius: '12px', overflowX: 'auto' }}>
+          {timesheet.error ? (
+            <div style={{ padding: '32px', textAlign: 'center', color: '#bf2600' }}>Could not load the timesheet: {timesheet.error}</div>
+          ) : !timesheet.logs ? (
+            <div style={{ padding: '32px', textAlign: 'center', color: '#6b778c' }}>Loading timesheet...</div>
+          ) : sheet.rows.length === 0 ? (
+            <div style={{ padding: '32px', textAlign: 'center', color: '#6b778c' }}>No work logged this week.</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', color: '#172b4d' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headerStyle, textAlign: 'left' }}>Issue</th>
+                  {timesheetDates.map(date => (
+                    <th key={date} style={{ ...headerStyle, color: date === today ? '#0052cc' : headerStyle.color }}>
+                      {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                    </th>
+                  ))}
+                  <th style={headerStyle}>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.rows.map(row => (
+                  <tr key={row.issueId}>
+                    <td style={{ ...cellStyle, textAlign: 'left', whiteSpace: 'normal' }}>
+                      <button
+                        onClick={() => openIssueByKey(row.issueKey)}
+                        style={{ background: 'none', border: 'none', padding: 0, color: '#0052cc', fontWeight: 600, cursor: 'pointer', marginRight: '8px' }}
+                      >
+                        {row.issueKey}
+                      </button>
+                      {row.issueTitle}
+                    </td>
+                    {timesheetDates.map(date => (
+                      <td key={date} style={cellStyle}>{row.byDate[date] ? formatDuration(row.byDate[date]) : ''}</td>
+                    ))}
+                    <td style={{ ...cellStyle, fontWeight: 600 }}>{formatDuration(row.total)}</td>
+                  </tr>
+                ))}
+                <tr style={{ background: '#f4f5f7' }}>
+                  <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 600 }}>Total</td>
+                  {timesheetDates.map(date => (
+                    <td key={date} style={{ ...cellStyle, fontWeight: 600 }}>{sheet.dayTotals[date] ? formatDuration(sheet.dayTotals[date]) : ''}</td>
+                  ))}
+                  <td style={{ ...cellStyle, fontWeight: 700 }}>{formatDuration(sheet.total)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderRecurringIssues = () => {
+    const cellStyle: React.CSSProperties = { padding: '12px', borderTop: '1px solid #ebecf0', fontSize: '13px', verticalAlign: 'top' };
+    const headerStyle: React.CSSProperties = { padding: '10px 12px', fontSize: '12px', fontWeight: 600, color: '#6b778c', textAlign: 'left', whiteSpace: 'nowrap' };
+    const actionStyle: React.CSSProperties = { background: 'none', border: 'none', padding: 0, fontSize: '12px', fontWeight: 600, cursor: 'pointer', color: '#0052cc' };
+    const sorted = [...recurringIssues].sort((a, b) => a.template.title.localeCompare(b.template.title));
+
+    return (
+      <div style={{ padding: '32px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', marginBottom: '24px', gap: '16px', flexWrap: 'wrap' }}>
+          <div>
+            <h1 style={{ fontSize: '32px', fontWeight: '700', margin: 0, color: 'white' }}>Recurring Issues</h1>
+            <p style={{ color: '#94a3b8', margin: '4px 0 0 0', fontSize: '15px' }}>
+              Issues created on a schedule, each with a deadline counted from its run
+            </p>
+          </div>
           <button
-            onClick={() => setShowImportExportModal(true)}
+            onClick={openCreateRecurringIssue}
             style={{
-              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+              background: 'linear-gradient(135deg, #1d4ed8 0%, #2563eb 100%)',
               color: 'white',
               border: 'none',
-              padding: '10px 20px',
+              padding: '10px 16px',
               borderRadius: '8px',
               fontSize: '14px',
-              fontWeight: '600',
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '8px',
-              transition: 'transform 0.2s'
+              fontWeight: 600,
+              cursor: 'pointer'
             }}
-            onMouseEnter={(e) => e.currentTarget.style.transform = 'translateY(-2px)'}
-            onMouseLeave={(e) => e.currentTarget.style.transform = 'translateY(0)'}
           >
-            {Icons.upload(16)}
-            Import/Export
+            New recurring issue
           </button>
         </div>
+
+        <div style={{ background: 'white', borderRadius: '12px', overflowX: 'auto' }}>
+          {sorted.length === 0 ? (
+            <div style={{ padding: '32px', textAlign: 'center', color: '#6b778c' }}>No recurring issues yet.</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', color: '#172b4d' }}>
+              <thead>
+                <tr>
+                  <th style={headerStyle}>Issue</th>
+                  <th style={headerStyle}>Schedule</th>
+                  <th style={headerStyle}>Next run</th>
+                  <th style={headerStyle}>Created so far</th>
+                  <th style={headerStyle} />
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map(series => (
+                  <tr key={series.id} style={{ opacity: series.paused ? 0.7 : 1 }}>
+                    <td style={cellStyle}>
+                      <div style={{ fontWeight: 600 }}>{getTypeIcon(series.template.issue_type)} {series.template.title}</div>
+                      <div style={{ color: '#6b778c', fontSize: '12px', marginTop: '2px' }}>
+                        {series.template.assignee_id ? getUserById(series.template.assignee_id)?.name || 'Unknown User' : 'Unassigned'}
+                        {series.template.deadline_offset_days != null && ` · due ${series.template.deadline_offset_days} day${series.template.deadline_offset_days === 1 ? '' : 's'} after each run`}
+                      </div>
+                    </td>
+                    <td style={cellStyle}>{describeSchedule(series.schedule)}</td>
+                    <td style={cellStyle}>
+                      {series.paused ? (
+                        <span style={{ color: '#6b778c', fontWeight: 600 }}>Paused</span>
+                      ) : series.next_run_at ? (
+                        new Date(series.next_run_at).toLocaleString()
+                      ) : (
+                        <span style={{ color: '#6b778c' }}>Never</span>
+                      )}
+                      {series.last_error && <div style={{ color: '#bf2600', fontSize: '12px', marginTop: '4px' }}>{series.last_error}</div>}
+                    </td>
+                    <td style={cellStyle}>
+                      {series.issue_count}
+                      {series.last_issue_key && (
+                        <>
+                          {' · latest '}
+                          <button onClick={() => openIssueByKey(series.last_issue_key!)} style={actionStyle}>{series.last_issue_key}</button>
+                        </>
+                      )}
+                    </td>
+                    <td style={{ ...cellStyle, whiteSpace: 'nowrap', textAlign: 'right' }}>
+                      {canCreateIssues && (
+                        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+                          <button onClick={() => openEditRecurringIssue(series)} style={actionStyle}>Edit</button>
+                          <button onClick={() => setRecurringIssuePaused(series, !series.paused)} style={actionStyle}>
+                            {series.paused ? 'Resume' : 'Pause'}
+                          </button>
+                          <button onClick={() => runRecurringIssueNow(series)} style={actionStyle}>Create now</button>
+                          <button onClick={() => deleteRecurringIssue(series)} style={{ ...actionStyle, color: '#bf2600' }}>Delete</button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
       </div>
+    );
+  };
 
-      <div style={{
-        display: 'grid',
-        gridTemplateColumns: 'repeat(4, 1fr)',
-        gap: '20px',
-        height: 'calc(100vh - 250px)',
-        minHeight: '600px'
-      }}>
-        {[
-          { status: 'TODO' as const, title: 'To Do', color: '#42526e' },
-          { status: 'IN_PROGRESS' as const, title: 'In Progress', color: '#0052cc' },
-          { status: 'REVIEW' as const, title: 'In Review', color: '#ffa500' },
-          { status: 'DONE' as const, title: 'Done', color: '#36b37e' }
-        ].map((column) => (
-          <div
-            key={column.status}
-            style={{
-              background: '#f8f9fa',
-              borderRadius: '12px',
-              padding: '16px',
-              border: '2px dashed transparent'
-            }}
-            onDragOver={handleDragOver}
-            onDrop={(e) => handleDrop(e, column.status)}
-          >
-            <div style={{
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center',
-              marginBottom: '16px',
-              paddingBottom: '12px',
-              borderBottom: `2px solid ${column.color}`
-            }}>
-              <h3 style={{
-                fontSize: '14px',
-                fontWeight: '700',
-                color: column.color,
-                textTransform: 'uppercase',
-                margin: 0,
-                letterSpacing: '0.5px'
-              }}>
-                {column.title}
-              </h3>
-              <div style={{
-                background: column.color,
-                color: 'white',
-                borderRadius: '12px',
-                padding: '4px 8px',
-                fontSize: '12px',
-                fontWeight: '600',
-                minWidth: '20px',
-                textAlign: 'center'
-              }}>
-                {getFilteredIssuesByStatus(column.status).length}
-              </div>
-            </div>
+  const renderBoard = () => {
+    // Filter issues based on user role
+    const roleFilteredIssues = canCreateIssues
+      ? issues // Admins see all issues
+      : issues.filter(canViewIssue); // Employees see their assigned tasks and the issues they watch
+    const filteredIssues = roleFilteredIssues.filter(issue => matchesBoardFilters(issue, boardFilters));
+
+    // Local function to get filtered issues by status
+    const getFilteredIssuesByStatus = (status: Issue['status']) => {
+      return filteredIssues.filter(issue => issue.status === status);
+    };
+
+    const renderBoardCard = (issue: Issue) => (
+      <div
+        draggable
+        onDragStart={(e) => handleDragStart(e, issue)}
+        onClick={() => openIssue(issue)}
+        style={{
+          background: 'white',
+          border: '1px solid #e1e5e9',
+          borderLeft: blockersOf(issue).length > 0 ? '3px solid #de350b' : '1px solid #e1e5e9',
+          borderRadius: '8px',
+          padding: '16px',
+          cursor: 'grab',
+          boxShadow: '0 1px 3px rgba(0,0,0,0.04)',
+          transition: 'all 0.2s',
+          boxSizing: 'border-box',
+          display: 'flex',
+          flexDirection: 'column'
+        }}
+      >
+        <div style={{
+          fontSize: '14px',
+          fontWeight: '600',
+          color: '#172b4d',
+          marginBottom: '8px',
+          lineHeight: '1.4',
+          display: '-webkit-box',
+          WebkitLineClamp: 2,
+          WebkitBoxOrient: 'vertical',
+          overflow: 'hidden'
+        }}>
+          {issue.title}
+        </div>
+
+        <div style={{
+          fontSize: '12px',
+          color: '#6b778c',
+          marginBottom: '12px',
+          lineHeight: '1.3'
+        }}>
+          {issue.description.length > 60 ? issue.description.substring(0, 60) + '...' : issue.description}
+        </div>
+
+        {issue.deadline && (
+          <div style={{
+            fontSize: '11px',
+            color: new Date(issue.deadline) < new Date() ? '#dc2626' : new Date(issue.deadline) < new Date(Date.now() + 3 * 24 * 60 * 60 * 1000) ? '#f59e0b' : '#64748b',
+            marginBottom: '8px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            fontWeight: '500'
+          }}>
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10"/>
+              <polyline points="12 6 12 12 16 14"/>
+            </svg>
+            {new Date(issue.deadline).toLocaleDateString()}
+          </div>
+        )}
 
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginTop: 'auto'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '8px' }}>
+            <span style={{ fontSize: '11px', color: '#6b778c', fontWeight: '600' }}>{issue.key}</span>
+            {renderSyncBadge(issue.id)}
+            <span style={{ fontSize: '14px' }}>{getTypeIcon(issue.issue_type)}</span>
             <div style={{
-              display: 'flex',
-              flexDirection: 'column',
-              gap: '12px',
-              height: 'calc(100% - 60px)',
-              overflowY: 'auto'
+              width: '6px',
+              height: '6px',
+              borderRadius: '50%',
+              background: getPriorityColor(issue.priority)
+            }} />
+            <span style={{
+              fontSize: '10px',
+              background: '#f4f5f7',
+              padding: '2px 6px',
+              borderRadius: '4px',
+              fontWeight: '600',
+              color: '#6b778c'
             }}>
-              {getFilteredIssuesByStatus(column.status).length > 0 ? (
-                getFilteredIssuesByStatus(column.status).map((issue) => (
-                  <div
-                    key={issue.id}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, issue)}
-                    onClick={() => {
-                      setSelectedIssue(issue);
-                      setShowIssueModal(true);
-                    }}
-                    style={{
-                      background: 'white',
-                      border: '1px solid #e1e5e9',
-                      borderRadius: '8px',
-                      padding: '16px',
-                      cursor: 'grab',
-                      boxShadow: '0 1px 3px rgba(0,0,0,0.04)',
-                      transition: 'all 0.2s'
-                    }}
-                  >
-                    <div style={{
-                      fontSize: '14px',
-                      fontWeight: '600',
-                      color: '#172b4d',
-                      marginBottom: '8px',
-                      lineHeight: '1.4'
-                    }}>
-                      {issue.title}
-                    </div>
+              {issue.story_points}
+            </span>
+            {renderBlockedBadge(issue)}
+            {renderEpicBadge(issue)}
+            {(issue.attachment_count ?? 0) > 0 && (
+              <span
+                title={`${issue.attachment_count} attachment${issue.attachment_count === 1 ? '' : 's'}`}
+                style={{ fontSize: '10px', fontWeight: '600', color: '#6b778c', whiteSpace: 'nowrap' }}
+              >
+                📎 {issue.attachment_count}
+              </span>
+            )}
+          </div>
+          <div style={{
+            width: '28px',
+            height: '28px',
+            borderRadius: '50%',
+            background: !issue.assignee_id ? '#ccc' : 'linear-gradient(135deg, #6554c0, #9575cd)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontSize: '11px',
+            fontWeight: '600',
+            color: 'white'
+          }}>
+            {issue.assignee_id ? getUserById(issue.assignee_id)?.avatar || 'UN' : 'UN'}
+          </div>
+        </div>
 
-                    <div style={{
-                      fontSize: '12px',
-                      color: '#6b778c',
-                      marginBottom: '12px',
-                      lineHeight: '1.3'
-                    }}>
-                      {issue.description.length > 60 ? issue.description.substring(0, 60) + '...' : issue.description}
-                    </div>
+        {hasTimeTracking(issue) && <div style={{ marginTop: '8px' }}>{renderTimeBar(issue, 4)}</div>}
+      </div>
+    );
 
-                    {issue.deadline && (
-                      <div style={{
-                        fontSize: '11px',
-                        color: new Date(issue.deadline) < new Date() ? '#dc2626' : new Date(issue.deadline) < new Date(Date.now() + 3 * 24 * 60 * 60 * 1000) ? '#f59e0b' : '#64748b',
-                        marginBottom: '8px',
-                        display: 'flex',
-                        alignItems: 'center',
-                        gap: '4px',
-                        fontWeight: '500'
-                      }}>
-                        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                          <circle cx="12" cy="12" r="10"/>
-                          <polyline points="12 6 12 12 16 14"/>
-                        </svg>
-                        {new Date(issue.deadline).toLocaleDateString()}
-                      </div>
-                    )}
+    return (
+    <div style={{ padding: '32px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+        <div>
+          <h1 style={{ fontSize: '32px', fontWeight: '700', margin: 0, color: 'white' }}>Sprint Board</h1>
+          <p style={{ color: '#94a3b8', margin: '4px 0 0 0', fontSize: '15px' }}>
+            Drag and drop issues to update their status
+          </p>
+        </div>
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <button
+            onClick={() => setShowImportExportModal(true)}
+            style={{
+              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+              color: 'white',
+              border: 'none',
+              padding: '10px 20px',
+              borderRadius: '8px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              transition: 'transform 0.2s'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'translateY(-2px)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'translateY(0)'}
+          >
+            {Icons.upload(16)}
+            Import/Export
+          </button>
+        </div>
+      </div>
 
-                    <div style={{
-                      display: 'flex',
-                      justifyContent: 'space-between',
-                      alignItems: 'center'
-                    }}>
-                      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                        <span style={{ fontSize: '11px', color: '#6b778c', fontWeight: '600' }}>{issue.key}</span>
-                        <span style={{ fontSize: '14px' }}>{getTypeIcon(issue.issue_type)}</span>
-                        <div style={{
-                          width: '6px',
-                          height: '6px',
-                          borderRadius: '50%',
-                          background: getPriorityColor(issue.priority)
-                        }} />
-                        <span style={{
-                          fontSize: '10px',
-                          background: '#f4f5f7',
-                          padding: '2px 6px',
-                          borderRadius: '4px',
-                          fontWeight: '600',
-                          color: '#6b778c'
-                        }}>
-                          {issue.story_points}
-                        </span>
-                      </div>
-                      <div style={{
-                        width: '28px',
-                        height: '28px',
-                        borderRadius: '50%',
-                        background: !issue.assignee_id ? '#ccc' : 'linear-gradient(135deg, #6554c0, #9575cd)',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        fontSize: '11px',
-                        fontWeight: '600',
-                        color: 'white'
-                      }}>
-                        {issue.assignee_id ? getUserById(issue.assignee_id)?.avatar || 'UN' : 'UN'}
-                      </div>
+      {renderBoardFilters(filteredIssues.length, roleFilteredIssues.length)}
+
+      <div style={{
+        display: 'grid',
+        // Workflows with more than four statuses scroll sideways rather than squeezing the cards
+        gridTemplateColumns: `repeat(${workflow.statuses.length}, minmax(240px, 1fr))`,
+        gap: '20px',
+        overflowX: 'auto',
+        height: 'calc(100vh - 360px)',
+        minHeight: '600px'
+      }}>
+        {workflow.statuses.map((column) => {
+          const columnIssues = getFilteredIssuesByStatus(column.id);
+          const columnPage = issuePages[issuePageKey(column.id)];
+          const columnTotal = getColumnTotal(column.id);
+          return (
+            <div
+              key={column.id}
+              style={{
+                background: '#f8f9fa',
+                borderRadius: '12px',
+                padding: '16px',
+                border: '2px dashed transparent'
+              }}
+              onDragOver={handleDragOver}
+              onDrop={(e) => handleDrop(e, column.id)}
+            >
+              <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                marginBottom: '16px',
+                paddingBottom: '12px',
+                borderBottom: `2px solid ${column.color}`
+              }}>
+                <h3 style={{
+                  fontSize: '14px',
+                  fontWeight: '700',
+                  color: column.color,
+                  textTransform: 'uppercase',
+                  margin: 0,
+                  letterSpacing: '0.5px'
+                }}>
+                  {column.name}
+                </h3>
+                <div style={{
+                  background: column.color,
+                  color: 'white',
+                  borderRadius: '12px',
+                  padding: '4px 8px',
+                  fontSize: '12px',
+                  fontWeight: '600',
+                  minWidth: '20px',
+                  textAlign: 'center'
+                }}>
+                  {isBoardFiltered ? columnIssues.length : columnTotal}
+                </div>
+              </div>
+
+              {columnIssues.length > 0 || columnPage?.nextCursor ? (
+                <VirtualizedList
+                  items={columnIssues}
+                  estimatedItemHeight={BOARD_CARD_ESTIMATED_HEIGHT}
+                  gap={BOARD_CARD_GAP}
+                  getKey={boardCardKey}
+                  renderItem={renderBoardCard}
+                  onEndReached={columnPage?.nextCursor ? () => loadMoreIssues(column.id) : undefined}
+                  style={{ height: 'calc(100% - 60px)' }}
+                  footer={columnPage?.nextCursor && (
+                    <div style={{ padding: '8px 0 4px', textAlign: 'center', fontSize: '12px', color: '#6b778c' }}>
+                      {columnPage.loading ? 'Loading more issues...' : (
+                        // Filters can hide a whole page, so the list may not grow enough to scroll
+                        <button
+                          onClick={() => loadMoreIssues(column.id)}
+                          style={{ background: 'none', border: 'none', padding: 0, color: '#0052cc', fontSize: '12px', cursor: 'pointer' }}
+                        >
+                          Load more issues
+                        </button>
+                      )}
                     </div>
-                  </div>
-                ))
+                  )}
+                />
               ) : (
                 <div style={{
                   display: 'flex',
@@ -3217,8 +5878,8 @@ const App: React.FC = () => {
                   <div style={{ marginBottom: '8px', opacity: 0.5 }}>
                     {Icons.list(32)}
                   </div>
-                  <div>No issues in {column.title}</div>
-                  {column.status === 'TODO' && (
+                  <div>No issues in {column.name}</div>
+                  {column.id === workflow.initialStatus && (
                     <button
                       onClick={openCreateIssueModal}
                       style={{
@@ -3238,8 +5899,8 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
     );
@@ -3248,52 +5909,19 @@ const App: React.FC = () => {
   const renderAdminPanel = () => {
     const handleUserUpdate = (updatedUsers: User[]) => {
       setUsers(updatedUsers);
+      dataStore.invalidate('users');
     };
 
+    const handleWorkflowUpdate = (statuses: WorkflowStatus[]) => {
+      dataStore.setList('workflowStatuses', statuses);
+    };
 
-    const apiCall = async (endpoint: string, options?: RequestInit) => {
-      const token = localStorage.getItem('accessToken');
-      const headersFromOptions = options?.headers instanceof Headers
-        ? Object.fromEntries(options.headers.entries())
-        : (options?.headers as Record<string, string> | undefined) ?? {};
-
-      const buildHeaders = () => ({
-        'Content-Type': 'application/json',
-        Authorization: token ? `Bearer ${token}` : '',
-        ...headersFromOptions,
-      });
-
-      const { headers: _ignored, ...restOptions } = options || {};
-      const initialBase = devProxyActivated || !API_BASE_URL ? '' : API_BASE_URL;
-      const allowProxyFallback = !devProxyActivated && !devProxyDisabled && !!API_BASE_URL && isLocalhostEnv();
-
-      const attempt = async (base: string, enableProxyFallback: boolean): Promise<any> => {
-        const targetUrl = buildApiUrl(base, endpoint);
-        let response: Response;
-        try {
-          response = await fetch(targetUrl, {
-            ...restOptions,
-            headers: buildHeaders(),
-          });
-        } catch (networkError) {
-          if (enableProxyFallback) {
-            console.warn('Network error during admin API call, retrying via dev proxy fallback.', { endpoint, targetUrl, networkError });
-            devProxyActivated = true;
-            return attempt('', false);
-          }
-          throw networkError;
-        }
-
-        if (!response.ok) throw new Error('API call failed');
-        return response.json();
-      };
+    const handleCustomFieldsUpdate = (fields: CustomFieldDefinition[]) => {
+      dataStore.setList('customFields', fields);
+    };
 
-      try {
-        return await attempt(initialBase, allowProxyFallback);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        throw new Error(`Admin API call failed: ${message}`);
-      }
+    const handleIssueTemplatesUpdate = (templates: IssueTemplate[]) => {
+      dataStore.setList('issueTemplates', templates);
     };
 
     return (
@@ -3302,8 +5930,14 @@ const App: React.FC = () => {
         organization={organization!}
         users={users}
         issues={issues}
-        apiCall={apiCall}
+        api={api}
+        workflow={workflow}
+        customFields={customFields}
+        issueTemplates={issueTemplates}
         onUserUpdate={handleUserUpdate}
+        onWorkflowUpdate={handleWorkflowUpdate}
+        onCustomFieldsUpdate={handleCustomFieldsUpdate}
+        onIssueTemplatesUpdate={handleIssueTemplatesUpdate}
         showToast={showToast}
       />
     );
@@ -3345,29 +5979,8 @@ const App: React.FC = () => {
           console.log('Image converted to base64, length:', base64String.length);
 
           try {
-            const token = localStorage.getItem('accessToken');
             console.log('Uploading profile picture...');
-
-            const response = await fetch(`${API_BASE_URL}/user/profile-picture`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${token}`
-              },
-              body: JSON.stringify({
-                profile_picture: base64String
-              })
-            });
-
-            console.log('Response status:', response.status);
-
-            if (!response.ok) {
-              const errorText = await response.text();
-              console.error('Upload failed:', response.status, errorText);
-              throw new Error(`Failed to upload: ${response.status}`);
-            }
-
-            const updatedUser = await response.json();
+            const updatedUser = await api.users.uploadProfilePicture(base64String);
             console.log('Profile picture updated successfully');
             setUser(updatedUser);
             localStorage.setItem('user', JSON.stringify(updatedUser));
@@ -3390,23 +6003,12 @@ const App: React.FC = () => {
     const handleUpdateProfile = async () => {
       try {
         setIsLoading(true);
-        const token = localStorage.getItem('accessToken');
+        if (!user) return;
 
-        const response = await fetch(`${API_BASE_URL}/api/users/${user?.id}`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            name: profileForm.name,
-            email: profileForm.email
-          })
+        const updatedUser = await api.users.update(user.id, {
+          name: profileForm.name,
+          email: profileForm.email
         });
-
-        if (!response.ok) throw new Error('Failed to update profile');
-
-        const updatedUser = await response.json();
         setUser(updatedUser);
         localStorage.setItem('user', JSON.stringify(updatedUser));
         showToast('success', 'Profile Updated', 'Your profile has been updated successfully');
@@ -3694,13 +6296,13 @@ const App: React.FC = () => {
                 </div>
                 <div style={{ textAlign: 'center' }}>
                   <div style={{ fontSize: '28px', fontWeight: '700', color: '#059669', marginBottom: '4px' }}>
-                    {issues.filter(i => i.assignee_id === user?.id && i.status === 'DONE').length}
+                    {issues.filter(i => i.assignee_id === user?.id && workflow.isDone(i.status)).length}
                   </div>
                   <div style={{ fontSize: '12px', color: '#64748b' }}>Completed</div>
                 </div>
                 <div style={{ textAlign: 'center' }}>
                   <div style={{ fontSize: '28px', fontWeight: '700', color: '#f59e0b', marginBottom: '4px' }}>
-                    {issues.filter(i => i.assignee_id === user?.id && i.status === 'IN_PROGRESS').length}
+                    {issues.filter(i => i.assignee_id === user?.id && workflow.isInProgress(i.status)).length}
                   </div>
                   <div style={{ fontSize: '12px', color: '#64748b' }}>In Progress</div>
                 </div>
@@ -4074,14 +6676,8 @@ const App: React.FC = () => {
       if (!participantId) {
         // Team chat - get or create team conversation
         console.log('Fetching conversations for team chat...');
-        const response = await apiCall('/api/chat/conversations', {
-          headers: { 'Authorization': `Bearer ${accessToken}` }
-        });
-
-        console.log('Conversations response:', response);
-
-        // Response might be an array directly or wrapped in object
-        const conversations = Array.isArray(response) ? response : response.conversations || [];
+        const conversations = await api.chat.listConversations();
+        console.log('Conversations response:', conversations);
 
         const teamConv = conversations.find((c: any) => c.type === 'team');
         if (teamConv) {
@@ -4097,14 +6693,10 @@ const App: React.FC = () => {
           .filter(u => u.organization_id === user?.organization_id && u.is_active)
           .map(u => u.id);
 
-        const createResponse = await apiCall('/api/chat/conversations', {
-          method: 'POST',
-          body: JSON.stringify({
-            type: 'team',
-            name: 'Team Chat',
-            participants: orgUserIds
-          }),
-          headers: { 'Authorization': `Bearer ${accessToken}` }
+        const createResponse = await api.chat.createConversation({
+          type: 'team',
+          name: 'Team Chat',
+          participants: orgUserIds
         });
 
         console.log('Created team conversation:', createResponse);
@@ -4112,14 +6704,8 @@ const App: React.FC = () => {
       } else {
         // Direct message - check if conversation exists
         console.log('Fetching conversations for direct message with user:', participantId);
-        const response = await apiCall('/api/chat/conversations', {
-          headers: { 'Authorization': `Bearer ${accessToken}` }
-        });
-
-        console.log('Conversations response:', response);
-
-        // Response might be an array directly or wrapped in object
-        const conversations = Array.isArray(response) ? response : response.conversations || [];
+        const conversations = await api.chat.listConversations();
+        console.log('Conversations response:', conversations);
 
         const existingConv = conversations.find((c: any) => {
           if (c.type !== 'direct') return false;
@@ -4134,13 +6720,9 @@ const App: React.FC = () => {
 
         // Create new direct conversation
         console.log('Creating new direct conversation...');
-        const createResponse = await apiCall('/api/chat/conversations', {
-          method: 'POST',
-          body: JSON.stringify({
-            type: 'direct',
-            participants: [user?.id, participantId] // Must have exactly 2 participants
-          }),
-          headers: { 'Authorization': `Bearer ${accessToken}` }
+        const createResponse = await api.chat.createConversation({
+          type: 'direct',
+          participants: [user?.id, participantId] // Must have exactly 2 participants
         });
 
         console.log('Created direct conversation:', createResponse);
@@ -4151,38 +6733,17 @@ const App: React.FC = () => {
       showToast('error', 'Error', error.message || 'Failed to load conversation');
       return null;
     }
-  }, [accessToken, apiCall, showToast, user, users]);
+  }, [api, showToast, user, users]);
 
   // Load messages for conversation
   const loadConversationMessages = useCallback(async (conversationId: string) => {
     try {
       console.log('Loading messages for conversation:', conversationId);
-      const response = await apiCall(`/api/chat/conversations/${conversationId}/messages`, {
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
-
-      console.log('Messages response:', response);
-
-      // Response might be an array directly or wrapped in object
-      const messages = Array.isArray(response) ? response : response.messages || [];
+      const messages = await api.chat.listMessages(conversationId);
+      console.log('Messages response:', messages);
 
       // Convert API messages to local format
-      const formattedMessages = messages.map((msg: any) => {
-        console.log('Raw message from API:', msg);
-
-        const formatted = {
-          id: msg.id,
-          user: msg.sender_name || msg.author_name || msg.author?.name || 'Unknown',
-          userId: msg.sender_id || msg.author_id || msg.author?.id || '',
-          message: msg.content,
-          timestamp: msg.created_at,
-          avatar: msg.sender_avatar || msg.author_avatar || msg.author?.avatar || 'U',
-          recipientId: undefined // Backend handles this via conversation
-        };
-
-        console.log('Formatted message:', formatted);
-        return formatted;
-      });
+      const formattedMessages = messages.map(toChatLine);
 
       console.log('Formatted messages:', formattedMessages);
 
@@ -4268,20 +6829,13 @@ const App: React.FC = () => {
       console.error('Error loading messages:', error);
       showToast('error', 'Error', error.message || 'Failed to load messages');
     }
-  }, [accessToken, apiCall, showChatPopup, showToast, user]);
+  }, [api, showChatPopup, showToast, user]);
 
   // Send message via API
   const sendMessageAPI = async (content: string, conversationId: string) => {
     try {
       console.log('Sending message to conversation:', conversationId);
-      const response = await apiCall('/api/chat/messages', {
-        method: 'POST',
-        body: JSON.stringify({
-          content,
-          conversation_id: conversationId
-        }),
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
+      const response = await api.chat.sendMessage(conversationId, content);
 
       console.log('Message sent response:', response);
 
@@ -4326,19 +6880,114 @@ const App: React.FC = () => {
     }
   }, [handleChatSelectionInit, selectedConversationId, showChatPopup]);
 
-  // Poll for new messages
+  // Degraded mode: poll the open conversation only while the socket is down
   useEffect(() => {
-    if (!selectedConversationId || !accessToken) return;
+    if (!selectedConversationId || !accessToken || socketStatus === 'connected') return;
 
     const pollMessages = async () => {
       await loadConversationMessages(selectedConversationId);
     };
 
-    // Poll every 3 seconds
-    const interval = setInterval(pollMessages, 3000);
+    const interval = setInterval(pollMessages, CHAT_FALLBACK_POLL_MS);
 
     return () => clearInterval(interval);
-  }, [accessToken, loadConversationMessages, selectedConversationId]);
+  }, [accessToken, loadConversationMessages, selectedConversationId, socketStatus]);
+
+  chatResyncRef.current = () => {
+    if (selectedConversationId) loadConversationMessages(selectedConversationId);
+  };
+
+  // Throttled, so a burst of keystrokes sends one user_typing frame every couple of seconds
+  const notifyChatTyping = useMemo(() => createTypingThrottle(conversationId => {
+    const socket = wsRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'user_typing', conversation_id: conversationId }));
+    }
+  }), []);
+
+  useEffect(() => {
+    const timers = typingTimersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  const clearTypingUser = (conversationId: string, typingUserId: string) => {
+    const timerKey = `${conversationId}:${typingUserId}`;
+    const timer = typingTimersRef.current.get(timerKey);
+    if (timer) clearTimeout(timer);
+    typingTimersRef.current.delete(timerKey);
+    setTypingByConversation(prev => {
+      const typing = prev[conversationId];
+      if (!typing?.includes(typingUserId)) return prev;
+      return { ...prev, [conversationId]: typing.filter(id => id !== typingUserId) };
+    });
+  };
+
+  // Chat messages, deletions and typing frames pushed over the socket
+  const handleChatSocketEvent = (data: any) => {
+    switch (data.type) {
+      case 'user_typing': {
+        const conversationId: string | undefined = data.conversation_id;
+        const typingUserId: string | undefined = data.user_id;
+        if (!conversationId || !typingUserId || typingUserId === user?.id) return;
+        const timerKey = `${conversationId}:${typingUserId}`;
+        const timer = typingTimersRef.current.get(timerKey);
+        if (timer) clearTimeout(timer);
+        // Frames stop when they stop typing, so the indicator expires on its own
+        typingTimersRef.current.set(timerKey, setTimeout(() => clearTypingUser(conversationId, typingUserId), TYPING_TIMEOUT_MS));
+        setTypingByConversation(prev => {
+          const typing = prev[conversationId] || [];
+          return typing.includes(typingUserId) ? prev : { ...prev, [conversationId]: [...typing, typingUserId] };
+        });
+        return;
+      }
+      case 'chat_message': {
+        if (!data.message?.id) return;
+        const line = toChatLine(data.message);
+        const conversationId: string = data.message.conversation_id;
+        // Our own messages come back over the socket after the REST response has added them
+        const withLine = (lines: ChatLine[]) => (lines.some(existing => existing.id === line.id) ? lines : [...lines, line]);
+        clearTypingUser(conversationId, line.userId);
+        if (conversationId === selectedConversationId) {
+          setChatMessages(withLine);
+        }
+        setConversations(prev => (prev[conversationId] ? { ...prev, [conversationId]: withLine(prev[conversationId]) } : prev));
+
+        if (line.userId === user?.id) return;
+        if (showChatPopup && conversationId === selectedConversationId) {
+          localStorage.setItem(`lastSeenMessage_${conversationId}`, line.id);
+          return;
+        }
+        const notificationId = `msg_${line.id}`;
+        if (notifications.some(n => n.id === notificationId)) return;
+        const senderName = users.find(u => u.id === line.userId)?.name || data.message.sender_name || 'Someone';
+        showToast(
+          'info',
+          `New Message from ${senderName}`,
+          line.message.length > 50 ? line.message.substring(0, 50) + '...' : line.message
+        );
+        setNotifications(prev => [{
+          id: notificationId,
+          type: 'new_message',
+          title: `New message from ${senderName}`,
+          message: line.message.length > 40 ? line.message.substring(0, 40) + '...' : line.message,
+          read: false,
+          timestamp: line.timestamp || new Date().toISOString(),
+          data: { conversationId, messageId: line.id }
+        }, ...prev]);
+        setUnreadMessagesCount(prev => prev + 1);
+        return;
+      }
+      case 'message_deleted': {
+        const withoutLine = (lines: ChatLine[]) => lines.filter(existing => existing.id !== data.message_id);
+        setChatMessages(withoutLine);
+        if (data.conversation_id) {
+          setConversations(prev => (prev[data.conversation_id] ? { ...prev, [data.conversation_id]: withoutLine(prev[data.conversation_id]) } : prev));
+        }
+        return;
+      }
+    }
+  };
+  chatSocketEventRef.current = handleChatSocketEvent;
 
   const renderFloatingChat = () => {
     if (!showChatPopup) return null;
@@ -4349,6 +6998,7 @@ const App: React.FC = () => {
       try {
         await sendMessageAPI(chatMessage, selectedConversationId);
         setChatMessage('');
+        notifyChatTyping.reset();
       } catch (error) {
         console.error('Failed to send message:', error);
       }
@@ -4368,6 +7018,8 @@ const App: React.FC = () => {
 
     const selectedUser = selectedChatUser ? users.find(u => u.id === selectedChatUser) : null;
     const orgUsers = users.filter(u => u.organization_id === user?.organization_id && u.id !== user?.id);
+    const typingNames = (selectedConversationId ? typingByConversation[selectedConversationId] || [] : [])
+      .map(id => users.find(u => u.id === id)?.name.split(' ')[0] || 'Someone');
 
     return (
       <div style={{
@@ -4485,18 +7137,7 @@ const App: React.FC = () => {
                   position: 'relative'
                 }}>
                   {u.avatar}
-                  {u.is_online && (
-                    <div style={{
-                      position: 'absolute',
-                      bottom: '0',
-                      right: '0',
-                      width: '8px',
-                      height: '8px',
-                      borderRadius: '50%',
-                      background: '#22c55e',
-                      border: '2px solid #0f1729'
-                    }} />
-                  )}
+                  <PresenceDot user={u} style={{ position: 'absolute', bottom: '-2px', right: '-2px' }} />
                 </div>
                 <div style={{ flex: 1, textAlign: 'left', overflow: 'hidden' }}>
                   <div style={{
@@ -4510,7 +7151,7 @@ const App: React.FC = () => {
                     {u.name}
                   </div>
                   <div style={{ fontSize: '10px', color: '#64748b' }}>
-                    {u.is_online ? 'Online' : 'Offline'}
+                    {describeLastSeen(u)}
                   </div>
                 </div>
               </button>
@@ -4538,7 +7179,7 @@ const App: React.FC = () => {
               </h3>
               <p style={{ color: '#94a3b8', margin: '2px 0 0 0', fontSize: '11px' }}>
                 {selectedUser
-                  ? (selectedUser.is_online ? 'Online' : 'Offline')
+                  ? describeLastSeen(selectedUser)
                   : `${orgUsers.length} team members`}
               </p>
             </div>
@@ -4638,6 +7279,17 @@ const App: React.FC = () => {
             )}
           </div>
 
+          {/* Typing Indicator */}
+          <div style={{
+            height: '18px',
+            padding: '0 16px',
+            fontSize: '11px',
+            fontStyle: 'italic',
+            color: '#64748b'
+          }}>
+            {describeTypingUsers(typingNames)}
+          </div>
+
           {/* Message Input */}
           <div style={{
             padding: '16px',
@@ -4651,7 +7303,10 @@ const App: React.FC = () => {
               <input
                 type="text"
                 value={chatMessage}
-                onChange={(e) => setChatMessage(e.target.value)}
+                onChange={(e) => {
+                  setChatMessage(e.target.value);
+                  if (selectedConversationId && e.target.value.trim()) notifyChatTyping(selectedConversationId);
+                }}
                 onKeyPress={(e) => {
                   if (e.key === 'Enter' && !e.shiftKey) {
                     e.preventDefault();
@@ -4910,31 +7565,329 @@ const App: React.FC = () => {
     );
   };
 
-  const renderCreateModal = () => (
-    showCreateModal && (
-      <div style={{
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        right: 0,
-        bottom: 0,
-        background: 'rgba(0,0,0,0.5)',
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-        zIndex: 2000
-      }}>
-        <div style={{
-          background: 'linear-gradient(135deg, #0f172a 0%, #1e293b 100%)',
-          borderRadius: '12px',
-          padding: '24px',
-          width: '500px',
-          maxHeight: '80vh',
-          overflow: 'auto',
-          border: '1px solid rgba(255,255,255,0.1)',
-          boxShadow: '0 20px 60px rgba(0,0,0,0.5)'
-        }}>
-          <h2 style={{ marginBottom: '20px', color: '#e2e8f0', fontWeight: '600' }}>Create New Issue</h2>
+  // One input per custom field, shared by the create modal (dark) and the issue edit form (light)
+  const renderCustomFieldInputs = (
+    values: Record<string, CustomFieldValue>,
+    onChange: (fieldId: string, value: CustomFieldValue | null) => void,
+    theme: 'dark' | 'light'
+  ) => {
+    if (customFields.length === 0) return null;
+    const dark = theme === 'dark';
+    const labelStyle: React.CSSProperties = dark
+      ? { display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }
+      : { display: 'block', fontSize: '13px', fontWeight: 600, color: '#374151', marginBottom: '6px' };
+    const inputStyle: React.CSSProperties = dark
+      ? {
+        width: '100%',
+        padding: '12px',
+        border: '1px solid rgba(255,255,255,0.1)',
+        borderRadius: '6px',
+        fontSize: '14px',
+        outline: 'none',
+        background: 'rgba(15,23,42,0.5)',
+        color: '#e2e8f0',
+        colorScheme: 'dark'
+      }
+      : { width: '100%', padding: '10px 12px', border: '1px solid #cbd5f5', borderRadius: '6px', fontSize: '14px' };
+
+    const renderInput = (field: CustomFieldDefinition) => {
+      const value = values[field.id];
+      switch (field.type) {
+        case 'number':
+          return (
+            <input
+              type="number"
+              value={typeof value === 'number' ? value : ''}
+              onChange={(e) => onChange(field.id, e.target.value === '' ? null : Number(e.target.value))}
+              style={inputStyle}
+            />
+          );
+        case 'date':
+          return (
+            <input
+              type="date"
+              value={typeof value === 'string' ? value : ''}
+              onChange={(e) => onChange(field.id, e.target.value || null)}
+              style={{ ...inputStyle, cursor: 'pointer' }}
+            />
+          );
+        case 'select':
+          return (
+            <select value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(field.id, e.target.value || null)} style={{ ...inputStyle, cursor: 'pointer' }}>
+              <option value="">None</option>
+              {field.options.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          );
+        case 'user':
+          return (
+            <select value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(field.id, e.target.value || null)} style={{ ...inputStyle, cursor: 'pointer' }}>
+              <option value="">Nobody</option>
+              {users.filter(u => u.organization_id === user?.organization_id && u.is_active).map(u => (
+                <option key={u.id} value={u.id}>{u.name}</option>
+              ))}
+            </select>
+          );
+        case 'multi_select': {
+          const selected = Array.isArray(value) ? value : [];
+          return (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {field.options.map(option => {
+                const isSelected = selected.includes(option);
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => onChange(field.id, isSelected ? selected.filter(item => item !== option) : [...selected, option])}
+                    style={{
+                      padding: '6px 10px',
+                      borderRadius: '999px',
+                      fontSize: '12px',
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                      border: isSelected ? '1px solid #3b82f6' : dark ? '1px solid rgba(255,255,255,0.1)' : '1px solid #cbd5f5',
+                      background: isSelected ? (dark ? 'rgba(59, 130, 246, 0.2)' : '#deebff') : 'transparent',
+                      color: isSelected ? (dark ? '#93c5fd' : '#0052cc') : dark ? '#94a3b8' : '#42526e'
+                    }}
+                  >
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+          );
+        }
+        default:
+          return (
+            <input
+              type="text"
+              value={typeof value === 'string' ? value : ''}
+              onChange={(e) => onChange(field.id, e.target.value)}
+              style={inputStyle}
+            />
+          );
+      }
+    };
+
+    return (
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', ...(dark ? { marginBottom: '24px' } : { marginTop: '16px' }) }}>
+        {customFields.map(field => (
+          <div key={field.id} style={field.type === 'multi_select' ? { gridColumn: '1 / -1' } : undefined}>
+            <label style={labelStyle}>
+              {field.name}{field.required && <span style={{ color: '#ef4444' }}> *</span>}
+            </label>
+            {renderInput(field)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderCustomFieldValues = (issue: Issue) => {
+    const values = issue.custom_fields ?? {};
+    const shown = customFields.filter(field => !isEmptyFieldValue(values[field.id]));
+    if (shown.length === 0) return null;
+    return (
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px', marginBottom: '20px' }}>
+        {shown.map(field => (
+          <div key={field.id}>
+            <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#172b4d' }}>{field.name}</h4>
+            <span style={{ fontSize: '14px', color: '#172b4d' }}>
+              {formatFieldValue(field, values[field.id], userId => getUserById(userId)?.name)}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Schedule, deadline offset and a preview of the next runs, shown while the create form makes a series
+  const renderScheduleEditor = () => {
+    if (!newIssueRecurrence) return null;
+    const { schedule } = newIssueRecurrence;
+    const setSchedule = (changes: Partial<RecurrenceSchedule>) =>
+      setNewIssueRecurrence(prev => (prev ? { ...prev, schedule: { ...prev.schedule, ...changes } } : prev));
+    const problem = scheduleProblem(schedule);
+    const labelStyle: React.CSSProperties = { display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' };
+    const inputStyle: React.CSSProperties = {
+      width: '100%',
+      padding: '12px',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '6px',
+      fontSize: '14px',
+      outline: 'none',
+      background: 'rgba(15,23,42,0.5)',
+      color: '#e2e8f0',
+      colorScheme: 'dark'
+    };
+
+    return (
+      <div style={{ marginBottom: '24px', padding: '16px', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.1)', background: 'rgba(15,23,42,0.3)' }}>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
+          <div>
+            <label style={labelStyle}>Repeats</label>
+            <select
+              value={schedule.frequency}
+              onChange={(e) => setSchedule({ frequency: e.target.value as RecurrenceSchedule['frequency'] })}
+              style={{ ...inputStyle, cursor: 'pointer' }}
+            >
+              {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceSchedule['frequency'][]).map(frequency => (
+                <option key={frequency} value={frequency}>{RECURRENCE_FREQUENCY_LABELS[frequency]}</option>
+              ))}
+            </select>
+          </div>
+          {schedule.frequency === 'cron' ? (
+            <div>
+              <label style={labelStyle}>Cron expression</label>
+              <input
+                type="text"
+                value={schedule.cron}
+                onChange={(e) => setSchedule({ cron: e.target.value })}
+                placeholder="minute hour day month weekday"
+                style={{ ...inputStyle, fontFamily: 'monospace' }}
+              />
+            </div>
+          ) : (
+            <div>
+              <label style={labelStyle}>At</label>
+              <input type="time" value={schedule.time} onChange={(e) => setSchedule({ time: e.target.value })} style={inputStyle} />
+            </div>
+          )}
+        </div>
+
+        {schedule.frequency === 'weekly' && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={labelStyle}>On</label>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {WEEKDAY_LABELS.map((label, day) => {
+                const isSelected = schedule.weekdays.includes(day);
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => setSchedule({ weekdays: isSelected ? schedule.weekdays.filter(candidate => candidate !== day) : [...schedule.weekdays, day] })}
+                    style={{
+                      padding: '6px 10px',
+                      borderRadius: '999px',
+                      fontSize: '12px',
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                      border: isSelected ? '1px solid #3b82f6' : '1px solid rgba(255,255,255,0.1)',
+                      background: isSelected ? 'rgba(59, 130, 246, 0.2)' : 'transparent',
+                      color: isSelected ? '#93c5fd' : '#94a3b8'
+                    }}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {schedule.frequency === 'monthly' && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={labelStyle}>Day of the month (shorter months use their last day)</label>
+            <input
+              type="number"
+              min="1"
+              max="31"
+              value={schedule.day_of_month}
+              onChange={(e) => setSchedule({ day_of_month: parseInt(e.target.value) || 1 })}
+              style={inputStyle}
+            />
+          </div>
+        )}
+
+        <div style={{ marginBottom: '16px' }}>
+          <label style={labelStyle}>Due (days after each run)</label>
+          <input
+            type="number"
+            min="0"
+            value={newIssueRecurrence.deadlineOffsetDays}
+            onChange={(e) => setNewIssueRecurrence(prev => (prev ? { ...prev, deadlineOffsetDays: e.target.value } : prev))}
+            placeholder="No deadline"
+            style={inputStyle}
+          />
+        </div>
+
+        {problem ? (
+          <div style={{ fontSize: '13px', color: '#f87171' }}>{problem}</div>
+        ) : (
+          <div style={{ fontSize: '13px', color: '#94a3b8' }}>
+            <div style={{ marginBottom: '4px', color: '#e2e8f0', fontWeight: 500 }}>Next runs</div>
+            {upcomingRuns(schedule, new Date(), 5).map(run => (
+              <div key={run.toISOString()}>{run.toLocaleString([], { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderCreateModal = () => (
+    showCreateModal && (
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000
+      }}>
+        <div
+          {...fileDropHandlers('create', files => setNewIssueFiles(prev => [...prev, ...acceptAttachments(files)]))}
+          style={{
+            background: 'linear-gradient(135deg, #0f172a 0%, #1e293b 100%)',
+            borderRadius: '12px',
+            padding: '24px',
+            width: '500px',
+            maxHeight: '80vh',
+            overflow: 'auto',
+            border: fileDropTarget === 'create' ? '1px dashed #60a5fa' : '1px solid rgba(255,255,255,0.1)',
+            boxShadow: '0 20px 60px rgba(0,0,0,0.5)'
+          }}
+        >
+          <h2 style={{ marginBottom: '20px', color: '#e2e8f0', fontWeight: '600' }}>
+            {editingRecurringIssueId ? 'Edit Recurring Issue' : newIssueRecurrence ? 'Create Recurring Issue' : 'Create New Issue'}
+          </h2>
+
+          {issueTemplates.length > 0 && (
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>Template</label>
+              <select
+                value={newIssueTemplate?.id ?? ''}
+                onChange={(e) => pickIssueTemplate(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '12px',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  outline: 'none',
+                  background: 'rgba(15,23,42,0.5)',
+                  color: '#e2e8f0',
+                  cursor: 'pointer'
+                }}
+              >
+                <option value="">No template</option>
+                {ISSUE_TYPES.filter(type => issueTemplates.some(template => template.issue_type === type)).map(type => (
+                  <optgroup key={type} label={ISSUE_TYPE_LABELS[type]}>
+                    {sortTemplates(issueTemplates).filter(template => template.issue_type === type).map(template => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}{template.is_default ? ' (default)' : ''}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+          )}
 
           <div style={{ marginBottom: '16px' }}>
             <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>Title *</label>
@@ -4983,7 +7936,10 @@ const App: React.FC = () => {
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>Type</label>
               <select
                 value={newIssue.issue_type}
-                onChange={(e) => setNewIssue({...newIssue, issue_type: e.target.value as Issue['issue_type']})}
+                onChange={(e) => {
+                  const issueType = e.target.value as Issue['issue_type'];
+                  setNewIssueWithDefaultTemplate({ ...newIssue, issue_type: issueType, parent_id: parentIdForType(issueType, newIssue.parent_id) });
+                }}
                 style={{
                   width: '100%',
                   padding: '12px',
@@ -5000,6 +7956,7 @@ const App: React.FC = () => {
                 <option value="TASK">Task</option>
                 <option value="BUG">Bug</option>
                 <option value="EPIC">Epic</option>
+                <option value="SUBTASK">Subtask</option>
               </select>
             </div>
 
@@ -5029,10 +7986,40 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {allowedParentTypes(newIssue.issue_type).length > 0 && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>
+              {newIssue.issue_type === 'SUBTASK' ? 'Parent Issue *' : 'Epic'}
+            </label>
+            <select
+              value={newIssue.parent_id}
+              onChange={(e) => setNewIssue({ ...newIssue, parent_id: e.target.value })}
+              style={{
+                width: '100%',
+                padding: '12px',
+                border: '1px solid rgba(255,255,255,0.1)',
+                borderRadius: '6px',
+                fontSize: '14px',
+                outline: 'none',
+                background: 'rgba(15,23,42,0.5)',
+                color: '#e2e8f0',
+                cursor: 'pointer'
+              }}
+            >
+              <option value="">{newIssue.issue_type === 'SUBTASK' ? 'Choose an issue…' : 'No epic'}</option>
+              {parentCandidatesFor(newIssue.issue_type).map(candidate => (
+                <option key={candidate.id} value={candidate.id}>
+                  {getTypeIcon(candidate.issue_type)} {candidate.key}: {candidate.title}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div style={{ marginBottom: '16px' }}>
           <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>Initial Status</label>
           <select
-            value={newIssue.status}
+            value={newIssue.status || workflow.initialStatus}
             onChange={(e) => setNewIssue({ ...newIssue, status: e.target.value as Issue['status'] })}
             style={{
               width: '100%',
@@ -5046,10 +8033,9 @@ const App: React.FC = () => {
               cursor: 'pointer'
             }}
           >
-            <option value="TODO">To Do</option>
-            <option value="IN_PROGRESS">In Progress</option>
-            <option value="REVIEW">In Review</option>
-            <option value="DONE">Done</option>
+            {workflow.statuses.map(status => (
+              <option key={status.id} value={status.id}>{status.name}</option>
+            ))}
           </select>
         </div>
 
@@ -5073,7 +8059,7 @@ const App: React.FC = () => {
               >
                 <option value="">Unassigned</option>
                 {users.filter(u => u.organization_id === user?.organization_id && u.is_active).map(u => (
-                  <option key={u.id} value={u.id}>{u.name}</option>
+                  <option key={u.id} value={u.id}>{u.name} · {PRESENCE_LABELS[presenceOf(u)]}</option>
                 ))}
               </select>
             </div>
@@ -5100,15 +8086,40 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* A series' deadlines are set relative to each run, in the schedule below */}
+          {!newIssueRecurrence && (
+            <div style={{ marginBottom: '24px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>
+                Deadline
+              </label>
+              <input
+                type="date"
+                value={newIssue.deadline}
+                onChange={(e) => setNewIssue({...newIssue, deadline: e.target.value})}
+                min={new Date().toISOString().split('T')[0]}
+                style={{
+                  width: '100%',
+                  padding: '12px',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  outline: 'none',
+                  cursor: 'pointer',
+                  background: 'rgba(15,23,42,0.5)',
+                  color: '#e2e8f0',
+                  colorScheme: 'dark'
+                }}
+              />
+            </div>
+          )}
+
           <div style={{ marginBottom: '24px' }}>
-            <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>
-              Deadline
-            </label>
+            <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>Original Estimate</label>
             <input
-              type="date"
-              value={newIssue.deadline}
-              onChange={(e) => setNewIssue({...newIssue, deadline: e.target.value})}
-              min={new Date().toISOString().split('T')[0]}
+              type="text"
+              value={newIssue.original_estimate}
+              onChange={(e) => setNewIssue({ ...newIssue, original_estimate: e.target.value })}
+              placeholder="e.g. 1d 4h (a day is 8h)"
               style={{
                 width: '100%',
                 padding: '12px',
@@ -5116,10 +8127,8 @@ const App: React.FC = () => {
                 borderRadius: '6px',
                 fontSize: '14px',
                 outline: 'none',
-                cursor: 'pointer',
                 background: 'rgba(15,23,42,0.5)',
-                color: '#e2e8f0',
-                colorScheme: 'dark'
+                color: '#e2e8f0'
               }}
             />
           </div>
@@ -5144,6 +8153,45 @@ const App: React.FC = () => {
             />
           </div>
 
+          {renderCustomFieldInputs(
+            newIssue.custom_fields,
+            (fieldId, value) => setNewIssue(prev => ({ ...prev, custom_fields: { ...prev.custom_fields, [fieldId]: value ?? '' } })),
+            'dark'
+          )}
+
+          {!editingRecurringIssueId && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '16px', color: '#e2e8f0', fontSize: '14px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={!!newIssueRecurrence}
+                onChange={(e) => setNewIssueRecurrence(e.target.checked ? { schedule: DEFAULT_SCHEDULE, deadlineOffsetDays: '' } : null)}
+              />
+              Repeat on a schedule
+            </label>
+          )}
+          {renderScheduleEditor()}
+
+          {/* Files belong to one issue, so a series can't carry them */}
+          {!newIssueRecurrence && (
+            <div style={{ marginBottom: '24px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: '500', color: '#94a3b8', fontSize: '13px' }}>Attachments</label>
+              {newIssueFiles.map((file, index) => (
+                <div key={`${file.name}-${index}`} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px', fontSize: '13px', color: '#e2e8f0' }}>
+                  <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{file.name}</span>
+                  <span style={{ color: '#94a3b8' }}>{formatFileSize(file.size)}</span>
+                  <button
+                    onClick={() => setNewIssueFiles(prev => prev.filter((_, candidate) => candidate !== index))}
+                    title="Remove"
+                    style={{ background: 'none', border: 'none', color: '#94a3b8', cursor: 'pointer', fontSize: '16px', lineHeight: 1 }}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {renderAttachmentPicker(files => setNewIssueFiles(prev => [...prev, ...acceptAttachments(files)]), 'Drop, paste or click to add files', 'dark')}
+            </div>
+          )}
+
           <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
             <button
               onClick={() => setShowCreateModal(false)}
@@ -5162,7 +8210,7 @@ const App: React.FC = () => {
               Cancel
             </button>
             <button
-              onClick={createIssue}
+              onClick={newIssueRecurrence ? saveRecurringIssue : createIssue}
               disabled={!newIssue.title.trim()}
               style={{
                 padding: '12px 24px',
@@ -5177,7 +8225,7 @@ const App: React.FC = () => {
                 transition: 'all 0.2s'
               }}
             >
-              Create Issue
+              {editingRecurringIssueId ? 'Save Series' : newIssueRecurrence ? 'Create Series' : 'Create Issue'}
             </button>
           </div>
         </div>
@@ -5185,37 +8233,688 @@ const App: React.FC = () => {
     )
   );
 
-  const renderIssueModal = () => (
-    showIssueModal && selectedIssue && (
+  // Viewer lists go stale the moment the socket drops; the reconnect brings a fresh one
+  const otherIssueViewers = (issueId: string) =>
+    socketStatus === 'connected' && issueViewers?.issueId === issueId
+      ? issueViewers.viewers
+          .filter(viewer => viewer.user_id !== user?.id)
+          .map(viewer => ({ ...viewer, user: getUserById(viewer.user_id) }))
+          .filter((viewer): viewer is IssueViewer & { user: User } => !!viewer.user)
+      : [];
+
+  const renderIssueViewers = (viewers: ReturnType<typeof otherIssueViewers>) => (
+    viewers.length > 0 && (
+      <div style={{ display: 'flex', alignItems: 'center', marginRight: '4px' }}>
+        {viewers.slice(0, 4).map((viewer, index) => (
+          <div
+            key={viewer.user_id}
+            title={`${viewer.user.name} is ${viewer.editing ? 'editing' : 'viewing'}`}
+            style={{
+              position: 'relative',
+              width: '28px',
+              height: '28px',
+              marginLeft: index === 0 ? 0 : '-8px',
+              borderRadius: '50%',
+              background: 'linear-gradient(135deg, #6554c0, #9575cd)',
+              border: `2px solid ${viewer.editing ? '#f59e0b' : 'white'}`,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '10px',
+              fontWeight: '600',
+              color: 'white'
+            }}
+          >
+            {viewer.user.avatar}
+            <PresenceDot user={viewer.user} size={6} borderColor="white" style={{ position: 'absolute', bottom: '-2px', right: '-2px' }} />
+          </div>
+        ))}
+        {viewers.length > 4 && (
+          <span style={{ marginLeft: '6px', fontSize: '12px', color: '#6b778c' }}>+{viewers.length - 4}</span>
+        )}
+      </div>
+    )
+  );
+
+  const renderIssueEditLockBanner = (viewers: ReturnType<typeof otherIssueViewers>) => {
+    const editors = viewers.filter(viewer => viewer.editing).map(viewer => viewer.user.name.split(' ')[0]);
+    if (editors.length === 0) return null;
+    return (
       <div style={{
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        right: 0,
-        bottom: 0,
-        background: 'rgba(0,0,0,0.5)',
         display: 'flex',
         alignItems: 'center',
-        justifyContent: 'center',
-        zIndex: 2000
+        gap: '8px',
+        padding: '10px 12px',
+        marginBottom: '16px',
+        borderRadius: '8px',
+        background: '#fffbeb',
+        border: '1px solid #fcd34d',
+        color: '#92400e',
+        fontSize: '13px'
       }}>
-        <div style={{
-          background: 'white',
-          borderRadius: '12px',
-          padding: '24px',
-          width: '600px',
-          maxHeight: '80vh',
-          overflow: 'auto'
-        }}>
-          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '20px' }}>
-            <div>
-              <h2 style={{ margin: '0 0 8px 0', color: '#172b4d' }}>{selectedIssue.key}: {selectedIssue.title}</h2>
-              <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '16px' }}>
-                <span style={{ fontSize: '16px' }}>{getTypeIcon(selectedIssue.issue_type)}</span>
-                <span style={{ fontSize: '12px', color: '#6b778c' }}>{selectedIssue.issue_type}</span>
-                <div style={{
-                  width: '8px',
-                  height: '8px',
+        <span>✏️</span>
+        <span>
+          <strong>{describeIssueEditors(editors)}</strong>
+          {isEditingIssue
+            ? ' this issue too. Whoever saves second will be asked to merge.'
+            : ' this issue. Changes you make now may conflict with theirs.'}
+        </span>
+      </div>
+    );
+  };
+
+  const blockersOf = (issue: Issue) => openBlockersOf(issue.id, issueLinks, getIssueById, workflow.isDone);
+
+  const renderBlockedBadge = (issue: Issue) => {
+    const blockers = blockersOf(issue);
+    if (blockers.length === 0) return null;
+    return (
+      <span
+        title={`Blocked by ${blockers.map(link => link.source_key).join(', ')}`}
+        style={{
+          flexShrink: 0,
+          fontSize: '10px',
+          fontWeight: '700',
+          padding: '2px 6px',
+          borderRadius: '4px',
+          background: '#ffebe6',
+          color: '#de350b'
+        }}
+      >
+        Blocked
+      </span>
+    );
+  };
+
+  const renderEpicBadge = (issue: Issue) => {
+    const epic = findEpic(issue, getIssueById);
+    if (!epic) return null;
+    return (
+      <span
+        title={`${epic.key}: ${epic.title}`}
+        style={{
+          maxWidth: '96px',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          fontSize: '10px',
+          fontWeight: '600',
+          padding: '2px 6px',
+          borderRadius: '4px',
+          background: '#eae6ff',
+          color: '#403294'
+        }}
+      >
+        {getTypeIcon('EPIC')} {epic.title}
+      </span>
+    );
+  };
+
+  const renderParentBreadcrumb = (issue: Issue) => {
+    const parent = issue.parent_id ? getIssueById(issue.parent_id) : undefined;
+    if (!parent) return null;
+    const grandparent = parent.parent_id ? getIssueById(parent.parent_id) : undefined;
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px', fontSize: '12px', color: '#6b778c' }}>
+        {[grandparent, parent].filter((ancestor): ancestor is Issue => !!ancestor).map((ancestor, index) => (
+          <React.Fragment key={ancestor.id}>
+            {index > 0 && <span>›</span>}
+            <button
+              onClick={() => openIssue(ancestor)}
+              title={ancestor.title}
+              style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: '#0052cc', fontSize: '12px', fontWeight: 600 }}
+            >
+              {getTypeIcon(ancestor.issue_type)} {ancestor.key}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  };
+
+  const renderIssueChildren = (issue: Issue) => {
+    const childTypes = childTypesOf(issue.issue_type);
+    if (childTypes.length === 0) return null;
+    const children = issues
+      .filter(child => child.parent_id === issue.id)
+      .sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+    const rollup = rollupChildren(children, workflow.isDone);
+    const percentDone = rollup.points > 0
+      ? Math.round((rollup.pointsDone / rollup.points) * 100)
+      : rollup.total > 0 ? Math.round((rollup.done / rollup.total) * 100) : 0;
+
+    return (
+      <div style={{ marginBottom: '20px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h4 style={{ margin: 0, fontSize: '14px', color: '#172b4d' }}>
+            {issue.issue_type === 'EPIC' ? 'Issues in this epic' : 'Subtasks'}
+          </h4>
+          {canCreateIssues && !isTempId(issue.id) && (
+            <button
+              onClick={() => openCreateChildIssue(issue)}
+              style={{
+                background: '#f4f5f7',
+                border: 'none',
+                borderRadius: '6px',
+                padding: '4px 10px',
+                fontSize: '12px',
+                fontWeight: '600',
+                cursor: 'pointer',
+                color: '#42526e'
+              }}
+            >
+              + Add {ISSUE_TYPE_LABELS[childTypes[0]].toLowerCase()}
+            </button>
+          )}
+        </div>
+        {children.length === 0 ? (
+          <p style={{ margin: 0, fontSize: '13px', color: '#6b778c' }}>Nothing here yet.</p>
+        ) : (
+          <>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '8px' }}>
+              <div style={{ flex: 1, height: '6px', borderRadius: '3px', background: '#ebecf0', overflow: 'hidden' }}>
+                <div style={{ width: `${percentDone}%`, height: '100%', background: '#36b37e' }} />
+              </div>
+              <span style={{ fontSize: '12px', color: '#6b778c', whiteSpace: 'nowrap' }}>
+                {rollup.done} of {rollup.total} done · {rollup.pointsDone} of {rollup.points} points
+              </span>
+            </div>
+            <div style={{ border: '1px solid #ebecf0', borderRadius: '8px', overflow: 'hidden' }}>
+              {children.map((child, index) => (
+                <div
+                  key={child.id}
+                  onClick={() => openIssue(child)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '8px 12px',
+                    borderTop: index === 0 ? 'none' : '1px solid #ebecf0',
+                    cursor: 'pointer',
+                    fontSize: '13px'
+                  }}
+                >
+                  <span>{getTypeIcon(child.issue_type)}</span>
+                  <span style={{ color: '#6b778c', fontWeight: 600, fontSize: '12px' }}>{child.key}</span>
+                  <span style={{
+                    flex: 1,
+                    color: '#172b4d',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    textDecoration: workflow.isDone(child.status) ? 'line-through' : 'none'
+                  }}>
+                    {child.title}
+                  </span>
+                  <span style={{ fontSize: '11px', fontWeight: 600, color: getStatusColor(child.status) }}>
+                    {workflow.nameOf(child.status)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderTimeBar = (issue: Issue, height: number) => {
+    const progress = timeProgress(issue);
+    return (
+      <div
+        title={`Logged ${formatDuration(progress.spent)} · Remaining ${formatDuration(issue.remaining_estimate_minutes)} · Estimate ${formatDuration(issue.original_estimate_minutes)}`}
+        style={{ display: 'flex', height: `${height}px`, borderRadius: `${height / 2}px`, background: '#ebecf0', overflow: 'hidden' }}
+      >
+        <div style={{ width: `${progress.spentPercent}%`, background: progress.overEstimate ? '#ff8b00' : '#0052cc' }} />
+        <div style={{ width: `${progress.remainingPercent}%`, background: '#b3d4ff' }} />
+      </div>
+    );
+  };
+
+  const renderTimeTracking = (issue: Issue) => {
+    const logs = [...(issueWorkLogs[issue.id] ?? [])].sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+    const progress = timeProgress(issue);
+
+    return (
+      <div style={{ marginBottom: '20px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h4 style={{ margin: 0, fontSize: '14px', color: '#172b4d' }}>Time Tracking</h4>
+          {!isTempId(issue.id) && (
+            <button
+              onClick={() => openLogWork(issue)}
+              style={{
+                background: '#f4f5f7',
+                border: 'none',
+                borderRadius: '6px',
+                padding: '4px 10px',
+                fontSize: '12px',
+                fontWeight: '600',
+                cursor: 'pointer',
+                color: '#42526e'
+              }}
+            >
+              Log work
+            </button>
+          )}
+        </div>
+        {hasTimeTracking(issue) ? (
+          <>
+            {renderTimeBar(issue, 6)}
+            <div style={{ display: 'flex', gap: '16px', marginTop: '6px', fontSize: '12px', color: '#6b778c' }}>
+              <span>Logged <strong style={{ color: '#172b4d' }}>{formatDuration(progress.spent)}</strong></span>
+              <span>Remaining <strong style={{ color: '#172b4d' }}>{formatDuration(issue.remaining_estimate_minutes)}</strong></span>
+              <span>Estimate <strong style={{ color: '#172b4d' }}>{formatDuration(issue.original_estimate_minutes)}</strong></span>
+              {progress.overEstimate && <span style={{ color: '#b65c02', fontWeight: 600 }}>Over estimate</span>}
+            </div>
+          </>
+        ) : (
+          <p style={{ margin: 0, fontSize: '13px', color: '#6b778c' }}>No estimate or logged work yet.</p>
+        )}
+        {logs.length > 0 && (
+          <div style={{ marginTop: '10px', border: '1px solid #ebecf0', borderRadius: '8px', overflow: 'hidden' }}>
+            {logs.map((log, index) => (
+              <div
+                key={log.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '10px',
+                  padding: '8px 12px',
+                  borderTop: index === 0 ? 'none' : '1px solid #ebecf0',
+                  fontSize: '13px'
+                }}
+              >
+                <span style={{ fontWeight: 600, color: '#172b4d', whiteSpace: 'nowrap' }}>{formatDuration(log.minutes)}</span>
+                <span style={{ color: '#6b778c', whiteSpace: 'nowrap' }}>
+                  {getUserById(log.author_id)?.name || 'Unknown User'} · {new Date(`${log.date}T00:00:00`).toLocaleDateString()}
+                </span>
+                <span style={{ flex: 1, color: '#172b4d', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={log.note}>
+                  {log.note}
+                </span>
+                {(log.author_id === user?.id || canCreateIssues) && (
+                  <button
+                    onClick={() => deleteWorkLog(log)}
+                    title="Delete this entry"
+                    style={{ background: 'none', border: 'none', color: '#6b778c', cursor: 'pointer', fontSize: '16px', lineHeight: 1 }}
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderAttachmentPicker = (onFiles: (files: File[]) => void, label: string, theme: 'dark' | 'light') => (
+    <label style={{
+      display: 'block',
+      padding: '14px',
+      border: `1px dashed ${theme === 'dark' ? 'rgba(255,255,255,0.25)' : '#c1c7d0'}`,
+      borderRadius: '8px',
+      textAlign: 'center',
+      fontSize: '13px',
+      color: theme === 'dark' ? '#94a3b8' : '#6b778c',
+      cursor: 'pointer'
+    }}>
+      <input
+        type="file"
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+        style={{ display: 'none' }}
+      />
+      {label} · images, PDFs, text, CSV, JSON or zip up to {formatFileSize(MAX_ATTACHMENT_BYTES)}
+    </label>
+  );
+
+  const renderAttachments = (issue: Issue) => {
+    const attachments = issueAttachments[issue.id] ?? [];
+    const uploads = attachmentUploads.filter(upload => upload.issueId === issue.id);
+    const canUpload = !isTempId(issue.id);
+
+    return (
+      <div style={{ marginBottom: '20px' }}>
+        <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#172b4d' }}>Attachments ({attachments.length})</h4>
+
+        {attachments.length > 0 && (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))', gap: '8px', marginBottom: '8px' }}>
+            {attachments.map(attachment => {
+              const kind = previewKind(attachment.content_type);
+              return (
+                <div key={attachment.id} style={{ border: '1px solid #ebecf0', borderRadius: '8px', overflow: 'hidden', background: '#fafbfc' }}>
+                  <div
+                    onClick={kind ? () => setPreviewAttachment(attachment) : undefined}
+                    title={kind ? 'Preview' : undefined}
+                    style={{
+                      height: '90px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      background: '#f4f5f7',
+                      cursor: kind ? 'zoom-in' : 'default',
+                      fontSize: '12px',
+                      fontWeight: 700,
+                      color: '#6b778c'
+                    }}
+                  >
+                    {kind === 'image'
+                      ? <img src={attachment.url} alt={attachment.file_name} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                      : (attachment.file_name.split('.').pop() || 'file').toUpperCase()}
+                  </div>
+                  <div style={{ padding: '6px 8px' }}>
+                    <div style={{ fontSize: '12px', fontWeight: 600, color: '#172b4d', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={attachment.file_name}>
+                      {attachment.file_name}
+                    </div>
+                    <div style={{ fontSize: '11px', color: '#6b778c', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {formatFileSize(attachment.size)} · {getUserById(attachment.uploaded_by)?.name || 'Unknown User'}
+                    </div>
+                    <div style={{ display: 'flex', gap: '10px', marginTop: '4px', fontSize: '12px' }}>
+                      <a href={attachment.url} download={attachment.file_name} style={{ color: '#0052cc', fontWeight: 600, textDecoration: 'none' }}>
+                        Download
+                      </a>
+                      {(attachment.uploaded_by === user?.id || ['super_admin', 'admin'].includes(user?.role || '')) && (
+                        <button
+                          onClick={() => deleteAttachment(attachment)}
+                          style={{ background: 'none', border: 'none', padding: 0, color: '#bf2600', fontWeight: 600, fontSize: '12px', cursor: 'pointer' }}
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {uploads.map(upload => (
+          <div key={upload.id} style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '6px', fontSize: '12px', color: '#172b4d' }}>
+            <span style={{ width: '160px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{upload.fileName}</span>
+            {upload.error ? (
+              <>
+                <span style={{ flex: 1, color: '#bf2600' }}>{upload.error}</span>
+                <button
+                  onClick={() => setAttachmentUploads(prev => prev.filter(candidate => candidate.id !== upload.id))}
+                  style={{ background: 'none', border: 'none', color: '#6b778c', cursor: 'pointer', fontSize: '12px' }}
+                >
+                  Dismiss
+                </button>
+              </>
+            ) : (
+              <>
+                <div style={{ flex: 1, height: '6px', borderRadius: '3px', background: '#ebecf0', overflow: 'hidden' }}>
+                  <div style={{ width: `${Math.round((upload.sent / upload.size) * 100)}%`, height: '100%', background: '#0052cc', transition: 'width 0.2s' }} />
+                </div>
+                <span style={{ color: '#6b778c', whiteSpace: 'nowrap' }}>{formatFileSize(upload.sent)} of {formatFileSize(upload.size)}</span>
+              </>
+            )}
+          </div>
+        ))}
+
+        {canUpload && renderAttachmentPicker(files => uploadAttachments(issue.id, files), 'Drop, paste or click to attach files', 'light')}
+      </div>
+    );
+  };
+
+  // Issues a series created point back at it, even after the series is deleted
+  const renderRecurringOrigin = (issue: Issue) => {
+    if (!issue.recurring_issue_id) return null;
+    const series = recurringIssues.find(candidate => candidate.id === issue.recurring_issue_id);
+    return (
+      <div style={{ marginBottom: '20px', fontSize: '13px', color: '#6b778c' }}>
+        🔁 {!series ? 'Created by a recurring issue that has since been deleted' : (
+          <>
+            Created by the recurring issue{' '}
+            {canCreateIssues ? (
+              <button
+                onClick={() => {
+                  setShowIssueModal(false);
+                  navigateToView('recurring');
+                }}
+                style={{ background: 'none', border: 'none', padding: 0, color: '#0052cc', fontWeight: 600, fontSize: '13px', cursor: 'pointer' }}
+              >
+                {series.template.title}
+              </button>
+            ) : (
+              <span style={{ fontWeight: 600, color: '#172b4d' }}>{series.template.title}</span>
+            )}
+            {` · ${describeSchedule(series.schedule)}`}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderWatchers = (issue: Issue) => {
+    const watcherIds = issue.watcher_ids ?? [];
+    const candidates = canCreateIssues
+      ? users.filter(u => u.organization_id === user?.organization_id && u.is_active && !watcherIds.includes(u.id))
+      : [];
+
+    return (
+      <div style={{ marginBottom: '20px' }}>
+        <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#172b4d' }}>Watchers ({watcherIds.length})</h4>
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px' }}>
+          {watcherIds.length === 0 && <span style={{ fontSize: '13px', color: '#6b778c' }}>Nobody is watching this issue.</span>}
+          {watcherIds.map(watcherId => {
+            const watcher = getUserById(watcherId);
+            return (
+              <span
+                key={watcherId}
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  background: '#f4f5f7',
+                  borderRadius: '12px',
+                  padding: '3px 8px 3px 3px',
+                  fontSize: '12px',
+                  color: '#172b4d'
+                }}
+              >
+                <span style={{
+                  width: '20px',
+                  height: '20px',
+                  borderRadius: '50%',
+                  background: 'linear-gradient(135deg, #6554c0, #9575cd)',
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontSize: '9px',
+                  fontWeight: '600',
+                  color: 'white'
+                }}>
+                  {watcher?.avatar || 'UN'}
+                </span>
+                {watcherId === user?.id ? 'You' : watcher?.name || 'Unknown User'}
+                {!isTempId(issue.id) && (watcherId === user?.id || canCreateIssues) && (
+                  <button
+                    onClick={() => removeWatcher(issue, watcherId)}
+                    title="Stop watching"
+                    style={{ background: 'none', border: 'none', padding: 0, color: '#6b778c', cursor: 'pointer', fontSize: '14px', lineHeight: 1 }}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            );
+          })}
+          {!isTempId(issue.id) && candidates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && addWatcher(issue, e.target.value)}
+              style={{ padding: '4px 8px', border: '1px solid #dfe1e6', borderRadius: '6px', fontSize: '12px', color: '#42526e' }}
+            >
+              <option value="">Add watcher...</option>
+              {candidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderIssueLinks = (issue: Issue) => {
+    const linked = linksOf(issue.id, issueLinks);
+    const cycles = findDependencyCycles(issueLinks);
+    const canLink = canCreateIssues && !isTempId(issue.id);
+    if (linked.length === 0 && !canLink) return null;
+    const linkTargets = issues
+      .filter(candidate => candidate.id !== issue.id && !isTempId(candidate.id))
+      .sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+
+    return (
+      <div style={{ marginBottom: '20px' }}>
+        <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#172b4d' }}>Linked issues</h4>
+        {cycles.issueIds.has(issue.id) && (
+          <div style={{ marginBottom: '8px', fontSize: '12px', color: '#de350b' }}>
+            This issue is part of a blocking cycle, so none of the issues in it can finish first.
+          </div>
+        )}
+        {linked.length > 0 && (
+          <div style={{ border: '1px solid #ebecf0', borderRadius: '8px', overflow: 'hidden', marginBottom: '8px' }}>
+            {linked.map(({ link, label, otherId, otherKey }, index) => {
+              const other = getIssueById(otherId);
+              return (
+                <div
+                  key={link.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '8px 12px',
+                    borderTop: index === 0 ? 'none' : '1px solid #ebecf0',
+                    fontSize: '13px',
+                    background: cycles.linkIds.has(link.id) ? '#ffebe6' : 'white'
+                  }}
+                >
+                  <span style={{ width: '110px', flexShrink: 0, color: '#6b778c', fontSize: '12px' }}>{label}</span>
+                  <button
+                    onClick={() => openIssueByKey(otherKey)}
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      textAlign: 'left',
+                      cursor: 'pointer',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                      color: '#172b4d',
+                      fontSize: '13px',
+                      textDecoration: other && workflow.isDone(other.status) ? 'line-through' : 'none'
+                    }}
+                  >
+                    <strong style={{ color: '#0052cc' }}>{otherKey}</strong> {other?.title ?? ''}
+                  </button>
+                  {canLink && (
+                    <button
+                      onClick={() => removeIssueLink(link)}
+                      title="Remove link"
+                      style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#6b778c', fontSize: '16px' }}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {canLink && (
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <select
+              value={issueLinkDraft.choice}
+              onChange={(e) => setIssueLinkDraft(prev => ({ ...prev, choice: e.target.value }))}
+              style={{ padding: '6px 8px', border: '1px solid #dfe1e6', borderRadius: '6px', fontSize: '13px' }}
+            >
+              {LINK_CHOICES.map(choice => (
+                <option key={choice.value} value={choice.value}>{choice.label}</option>
+              ))}
+            </select>
+            <select
+              value={issueLinkDraft.targetId}
+              onChange={(e) => setIssueLinkDraft(prev => ({ ...prev, targetId: e.target.value }))}
+              style={{ flex: 1, minWidth: 0, padding: '6px 8px', border: '1px solid #dfe1e6', borderRadius: '6px', fontSize: '13px' }}
+            >
+              <option value="">Choose an issue…</option>
+              {linkTargets.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.key}: {candidate.title}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => addIssueLink(issue)}
+              disabled={!issueLinkDraft.targetId || isSavingIssueLink}
+              style={{
+                background: !issueLinkDraft.targetId || isSavingIssueLink ? '#9ca3af' : '#2563eb',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                padding: '6px 12px',
+                fontSize: '13px',
+                fontWeight: '600',
+                cursor: !issueLinkDraft.targetId || isSavingIssueLink ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isSavingIssueLink ? 'Linking...' : 'Link'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderIssueModal = () => (
+    showIssueModal && selectedIssue && (
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000
+      }}>
+        <div
+          {...fileDropHandlers('issue', files => {
+            if (!isTempId(selectedIssue.id)) uploadAttachments(selectedIssue.id, files);
+          })}
+          style={{
+            background: 'white',
+            borderRadius: '12px',
+            padding: '24px',
+            width: '600px',
+            maxHeight: '80vh',
+            overflow: 'auto',
+            outline: fileDropTarget === 'issue' ? '3px dashed #0052cc' : 'none',
+            outlineOffset: '-6px'
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '20px' }}>
+            <div>
+              {renderParentBreadcrumb(selectedIssue)}
+              <h2 style={{ margin: '0 0 8px 0', color: '#172b4d' }}>{selectedIssue.key}: {selectedIssue.title}</h2>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '16px' }}>
+                <span style={{ fontSize: '16px' }}>{getTypeIcon(selectedIssue.issue_type)}</span>
+                <span style={{ fontSize: '12px', color: '#6b778c' }}>{selectedIssue.issue_type}</span>
+                {renderSyncBadge(selectedIssue.id)}
+                <div style={{
+                  width: '8px',
+                  height: '8px',
                   borderRadius: '50%',
                   background: getPriorityColor(selectedIssue.priority)
                 }} />
@@ -5225,27 +8924,66 @@ const App: React.FC = () => {
                   borderRadius: '12px',
                   fontSize: '11px',
                   fontWeight: '600',
-                  background: selectedIssue.status === 'DONE' ? '#e3fcef' : selectedIssue.status === 'IN_PROGRESS' ? '#deebff' : '#f4f5f7',
+                  background: getStatusBackground(selectedIssue.status),
                   color: getStatusColor(selectedIssue.status)
                 }}>
-                  {selectedIssue.status.replace('_', ' ')}
+                  {workflow.nameOf(selectedIssue.status)}
                 </div>
               </div>
             </div>
-            <button
-              onClick={() => setShowIssueModal(false)}
-              style={{
-                background: 'none',
-                border: 'none',
-                fontSize: '20px',
-                cursor: 'pointer',
-                color: '#6b778c'
-              }}
-            >
-              ×
-            </button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              {renderIssueViewers(otherIssueViewers(selectedIssue.id))}
+              {!isTempId(selectedIssue.id) && user && (
+                <button
+                  onClick={() => (isWatching(selectedIssue, user.id) ? removeWatcher : addWatcher)(selectedIssue, user.id)}
+                  title={isWatching(selectedIssue, user.id) ? 'Stop getting notifications about this issue' : 'Get notified about changes and comments'}
+                  style={{
+                    background: isWatching(selectedIssue, user.id) ? '#deebff' : '#f4f5f7',
+                    border: 'none',
+                    borderRadius: '6px',
+                    padding: '6px 10px',
+                    fontSize: '12px',
+                    fontWeight: '600',
+                    cursor: 'pointer',
+                    color: isWatching(selectedIssue, user.id) ? '#0052cc' : '#42526e'
+                  }}
+                >
+                  {isWatching(selectedIssue, user.id) ? 'Watching' : 'Watch'} · {(selectedIssue.watcher_ids ?? []).length}
+                </button>
+              )}
+              <button
+                onClick={() => copyIssueLink(selectedIssue)}
+                title="Copy a link to this issue"
+                style={{
+                  background: '#f4f5f7',
+                  border: 'none',
+                  borderRadius: '6px',
+                  padding: '6px 10px',
+                  fontSize: '12px',
+                  fontWeight: '600',
+                  cursor: 'pointer',
+                  color: '#42526e'
+                }}
+              >
+                Copy link
+              </button>
+              <button
+                onClick={() => closeIssueModal()}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  fontSize: '20px',
+                  cursor: 'pointer',
+                  color: '#6b778c'
+                }}
+              >
+                ×
+              </button>
+            </div>
           </div>
 
+          {renderIssueEditLockBanner(otherIssueViewers(selectedIssue.id))}
+
           {!isEditingIssue && (
             <>
               <div style={{ marginBottom: '20px' }}>
@@ -5260,6 +8998,7 @@ const App: React.FC = () => {
                   <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#172b4d' }}>Assignee</h4>
                   <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                     <div style={{
+                      position: 'relative',
                       width: '24px',
                       height: '24px',
                       borderRadius: '50%',
@@ -5272,6 +9011,14 @@ const App: React.FC = () => {
                       color: 'white'
                     }}>
                       {selectedIssue.assignee_id ? getUserById(selectedIssue.assignee_id)?.avatar || 'UN' : 'UN'}
+                      {selectedIssue.assignee_id && getUserById(selectedIssue.assignee_id) && (
+                        <PresenceDot
+                          user={getUserById(selectedIssue.assignee_id)}
+                          size={6}
+                          borderColor="white"
+                          style={{ position: 'absolute', bottom: '-2px', right: '-2px' }}
+                        />
+                      )}
                     </div>
                     <span style={{ fontSize: '14px', color: '#172b4d' }}>
                       {selectedIssue.assignee_id ? getUserById(selectedIssue.assignee_id)?.name || 'Unknown User' : 'Unassigned'}
@@ -5306,6 +9053,14 @@ const App: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {renderRecurringOrigin(selectedIssue)}
+              {renderCustomFieldValues(selectedIssue)}
+              {renderTimeTracking(selectedIssue)}
+              {renderAttachments(selectedIssue)}
+              {renderWatchers(selectedIssue)}
+              {renderIssueChildren(selectedIssue)}
+              {renderIssueLinks(selectedIssue)}
             </>
           )}
 
@@ -5363,7 +9118,10 @@ const App: React.FC = () => {
                   <label style={{ display: 'block', fontSize: '13px', fontWeight: 600, color: '#374151', marginBottom: '6px' }}>Type</label>
                   <select
                     value={issueEditDraft.issue_type}
-                    onChange={(e) => setIssueEditDraft(prev => prev ? { ...prev, issue_type: e.target.value as Issue['issue_type'] } : prev)}
+                    onChange={(e) => {
+                      const issueType = e.target.value as Issue['issue_type'];
+                      setIssueEditDraft(prev => prev ? { ...prev, issue_type: issueType, parent_id: parentIdForType(issueType, prev.parent_id) } : prev);
+                    }}
                     style={{
                       width: '100%',
                       padding: '10px 12px',
@@ -5376,6 +9134,7 @@ const App: React.FC = () => {
                     <option value="TASK">Task</option>
                     <option value="BUG">Bug</option>
                     <option value="EPIC">Epic</option>
+                    <option value="SUBTASK">Subtask</option>
                   </select>
                 </div>
                 <div>
@@ -5411,14 +9170,39 @@ const App: React.FC = () => {
                       fontSize: '14px'
                     }}
                   >
-                    <option value="TODO">To Do</option>
-                    <option value="IN_PROGRESS">In Progress</option>
-                    <option value="REVIEW">In Review</option>
-                    <option value="DONE">Done</option>
+                    {workflow.statuses.map(status => (
+                      <option key={status.id} value={status.id}>{status.name}</option>
+                    ))}
                   </select>
                 </div>
               </div>
 
+              {allowedParentTypes(issueEditDraft.issue_type).length > 0 && (
+                <div style={{ marginBottom: '16px' }}>
+                  <label style={{ display: 'block', fontSize: '13px', fontWeight: 600, color: '#374151', marginBottom: '6px' }}>
+                    {issueEditDraft.issue_type === 'SUBTASK' ? 'Parent Issue' : 'Epic'}
+                  </label>
+                  <select
+                    value={issueEditDraft.parent_id}
+                    onChange={(e) => setIssueEditDraft(prev => prev ? { ...prev, parent_id: e.target.value } : prev)}
+                    style={{
+                      width: '100%',
+                      padding: '10px 12px',
+                      border: '1px solid #cbd5f5',
+                      borderRadius: '6px',
+                      fontSize: '14px'
+                    }}
+                  >
+                    <option value="">{issueEditDraft.issue_type === 'SUBTASK' ? 'Choose an issue…' : 'No epic'}</option>
+                    {parentCandidatesFor(issueEditDraft.issue_type, selectedIssue.id).map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {getTypeIcon(candidate.issue_type)} {candidate.key}: {candidate.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
                 <div>
                   <label style={{ display: 'block', fontSize: '13px', fontWeight: 600, color: '#374151', marginBottom: '6px' }}>Assignee</label>
@@ -5437,7 +9221,7 @@ const App: React.FC = () => {
                     {users
                       .filter(u => u.organization_id === user?.organization_id && u.is_active)
                       .map(u => (
-                        <option key={u.id} value={u.id}>{u.name}</option>
+                        <option key={u.id} value={u.id}>{u.name} · {PRESENCE_LABELS[presenceOf(u)]}</option>
                       ))}
                   </select>
                 </div>
@@ -5493,16 +9277,83 @@ const App: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginTop: '16px' }}>
+                {([
+                  ['original_estimate', 'Original Estimate'],
+                  ['remaining_estimate', 'Remaining Estimate']
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <label style={{ display: 'block', fontSize: '13px', fontWeight: 600, color: '#374151', marginBottom: '6px' }}>{label}</label>
+                    <input
+                      type="text"
+                      value={issueEditDraft[field]}
+                      onChange={(e) => setIssueEditDraft(prev => prev ? { ...prev, [field]: e.target.value } : prev)}
+                      style={{
+                        width: '100%',
+                        padding: '10px 12px',
+                        border: '1px solid #cbd5f5',
+                        borderRadius: '6px',
+                        fontSize: '14px'
+                      }}
+                      placeholder="e.g. 1d 4h"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {renderCustomFieldInputs(
+                issueEditDraft.custom_fields,
+                (fieldId, value) => setIssueEditDraft(prev => prev ? { ...prev, custom_fields: { ...prev.custom_fields, [fieldId]: value ?? '' } } : prev),
+                'light'
+              )}
             </div>
           )}
 
           {!isEditingIssue && (
-            <CommentSection
-              comments={selectedIssue.comments || []}
-              users={users}
-              onAddComment={(content) => addComment(selectedIssue.id, content)}
-              currentUserId={user?.id || ''}
-            />
+            <div style={{ marginTop: '24px' }}>
+              <div style={{ display: 'flex', gap: '4px', borderBottom: '1px solid #e1e5e9' }}>
+                {(['comments', 'activity'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setIssueModalTab(tab)}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      borderBottom: `2px solid ${issueModalTab === tab ? '#0052cc' : 'transparent'}`,
+                      padding: '8px 12px',
+                      marginBottom: '-1px',
+                      fontSize: '13px',
+                      fontWeight: 600,
+                      color: issueModalTab === tab ? '#0052cc' : '#6b778c',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    {tab === 'comments' ? 'Comments' : 'Activity'}
+                  </button>
+                ))}
+              </div>
+              {issueModalTab === 'comments' ? (
+                <CommentSection
+                  comments={selectedIssue.comments || []}
+                  users={users}
+                  onAddComment={(content) => addComment(selectedIssue.id, content)}
+                  currentUserId={user?.id || ''}
+                  pendingCommentIds={pendingCommentIds}
+                />
+              ) : (
+                <div style={{ marginTop: '12px' }}>
+                  <IssueActivity
+                    timeline={buildActivityTimeline(issueHistory[selectedIssue.id] ?? [], selectedIssue.comments || [])}
+                    users={users}
+                    fieldLabel={historyFieldLabel}
+                    formatValue={formatHistoryValue}
+                    isLoading={!issueHistory[selectedIssue.id] && !issueHistoryError}
+                    error={issueHistoryError}
+                  />
+                </div>
+              )}
+            </div>
           )}
 
           {canCreateIssues && (
@@ -5562,7 +9413,7 @@ const App: React.FC = () => {
                       opacity: issueEditDraft ? 1 : 0.6
                     }}
                   >
-                    Edit Issue
+                    {otherIssueViewers(selectedIssue.id).some(viewer => viewer.editing) ? 'Edit Anyway' : 'Edit Issue'}
                   </button>
                   <button
                     onClick={() => {
@@ -5593,6 +9444,409 @@ const App: React.FC = () => {
 )
   );
 
+  const formatIssueFieldValue = (field: MergeableIssueField, value: unknown) => {
+    if (value === null || value === undefined || value === '') {
+      return field === 'assignee_id' ? 'Unassigned' : '—';
+    }
+    switch (field) {
+      case 'status':
+        return workflow.nameOf(String(value));
+      case 'assignee_id':
+        return getUserById(String(value))?.name || 'Unknown User';
+      case 'parent_id': {
+        const parent = getIssueById(String(value));
+        return parent ? `${parent.key}: ${parent.title}` : 'Another issue';
+      }
+      case 'labels':
+        return Array.isArray(value) && value.length > 0 ? value.join(', ') : '—';
+      case 'deadline':
+        return String(value).slice(0, 10);
+      case 'original_estimate_minutes':
+      case 'remaining_estimate_minutes':
+        return formatDuration(Number(value));
+      case 'custom_fields': {
+        const values = value as NonNullable<Issue['custom_fields']>;
+        const shown = customFields
+          .filter(field => !isEmptyFieldValue(values[field.id]))
+          .map(field => `${field.name}: ${formatFieldValue(field, values[field.id], userId => getUserById(userId)?.name)}`);
+        return shown.length > 0 ? shown.join('; ') : '—';
+      }
+      case 'description': {
+        const text = String(value).trim();
+        return text.length > 120 ? `${text.substring(0, 120)}...` : text || '—';
+      }
+      default:
+        return String(value);
+    }
+  };
+
+  const historyFieldLabel = (row: ChangeRow) => {
+    if (!row.customFieldId) return ISSUE_FIELD_LABELS[row.field as MergeableIssueField] ?? row.field;
+    return customFields.find(field => field.id === row.customFieldId)?.name ?? 'Deleted field';
+  };
+
+  const formatHistoryValue = (row: ChangeRow, value: unknown) => {
+    if (!row.customFieldId) return formatIssueFieldValue(row.field as MergeableIssueField, value);
+    const field = customFields.find(candidate => candidate.id === row.customFieldId);
+    if (isEmptyFieldValue(value as CustomFieldValue | null)) return '—';
+    return field ? formatFieldValue(field, value as CustomFieldValue, userId => getUserById(userId)?.name) : String(value);
+  };
+
+  // Three-way merge shown when a save started from a version someone else has since replaced
+  const renderIssueMergeDialog = () => {
+    if (!issueMerge) return null;
+    const { base, theirs, mine, choices } = issueMerge;
+    const rows = diffIssueEdit(issueMerge);
+    const unresolved = rows.filter(row => row.conflict && !choices[row.field]).length;
+    const choose = (field: MergeableIssueField, side: 'mine' | 'theirs') =>
+      setIssueMerge(prev => (prev ? { ...prev, choices: { ...prev.choices, [field]: side } } : prev));
+
+    const cellStyle = (selected: boolean, selectable: boolean): React.CSSProperties => ({
+      padding: '10px 12px',
+      borderRadius: '6px',
+      border: selected ? '2px solid #2563eb' : '1px solid #e5e7eb',
+      background: selected ? '#eff6ff' : 'white',
+      color: '#172b4d',
+      fontSize: '13px',
+      cursor: selectable ? 'pointer' : 'default',
+      wordBreak: 'break-word'
+    });
+
+    return (
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2100
+      }}>
+        <div style={{
+          background: 'white',
+          borderRadius: '12px',
+          padding: '28px',
+          width: '760px',
+          maxWidth: 'calc(100vw - 40px)',
+          maxHeight: 'calc(100vh - 80px)',
+          overflowY: 'auto'
+        }}>
+          <h2 style={{ margin: '0 0 8px 0', color: '#172b4d', fontSize: '20px' }}>
+            {theirs.key} changed while you were editing
+          </h2>
+          <p style={{ margin: '0 0 20px 0', color: '#6b778c', fontSize: '14px', lineHeight: '1.5' }}>
+            Nothing has been saved yet. Fields only one side changed keep that change;
+            {unresolved > 0 ? ` pick a version for the ${unresolved} field${unresolved === 1 ? '' : 's'} you both changed.` : ' review the result below.'}
+          </p>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '120px 1fr 1fr 1fr', gap: '8px', alignItems: 'stretch' }}>
+            <div />
+            <div style={{ fontSize: '12px', fontWeight: 600, color: '#6b778c', textTransform: 'uppercase' }}>Original</div>
+            <div style={{ fontSize: '12px', fontWeight: 600, color: '#6b778c', textTransform: 'uppercase' }}>Theirs (current)</div>
+            <div style={{ fontSize: '12px', fontWeight: 600, color: '#6b778c', textTransform: 'uppercase' }}>Yours</div>
+
+            {rows.map(row => {
+              const keepsMine = row.conflict ? choices[row.field] === 'mine' : row.mineChanged;
+              const keepsTheirs = row.conflict ? choices[row.field] === 'theirs' : !row.mineChanged;
+              return (
+                <React.Fragment key={row.field}>
+                  <div style={{ fontSize: '13px', fontWeight: 600, color: row.conflict ? '#b91c1c' : '#172b4d', paddingTop: '10px' }}>
+                    {ISSUE_FIELD_LABELS[row.field]}
+                    {row.conflict && <div style={{ fontSize: '11px', fontWeight: 500 }}>Both changed</div>}
+                  </div>
+                  <div style={{ ...cellStyle(false, false), color: '#6b778c', background: '#f9fafb' }}>
+                    {formatIssueFieldValue(row.field, base[row.field])}
+                  </div>
+                  <div
+                    onClick={row.conflict ? () => choose(row.field, 'theirs') : undefined}
+                    style={cellStyle(keepsTheirs, row.conflict)}
+                  >
+                    {row.conflict && (
+                      <input type="radio" readOnly checked={choices[row.field] === 'theirs'} style={{ marginRight: '6px' }} />
+                    )}
+                    {formatIssueFieldValue(row.field, theirs[row.field])}
+                  </div>
+                  <div
+                    onClick={row.conflict ? () => choose(row.field, 'mine') : undefined}
+                    style={cellStyle(keepsMine, row.conflict)}
+                  >
+                    {row.conflict && (
+                      <input type="radio" readOnly checked={choices[row.field] === 'mine'} style={{ marginRight: '6px' }} />
+                    )}
+                    {row.mineChanged ? formatIssueFieldValue(row.field, mine[row.field]) : <span style={{ color: '#9ca3af' }}>Unchanged</span>}
+                  </div>
+                </React.Fragment>
+              );
+            })}
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px', marginTop: '24px' }}>
+            <button
+              onClick={() => setIssueMerge(null)}
+              style={{
+                background: 'white',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                padding: '10px 16px',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer'
+              }}
+            >
+              Back to Editing
+            </button>
+            <button
+              onClick={() => discardIssueEditForLatest(theirs)}
+              style={{
+                background: 'white',
+                color: '#b91c1c',
+                border: '1px solid #b91c1c',
+                padding: '10px 16px',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer'
+              }}
+            >
+              Discard My Changes
+            </button>
+            <button
+              onClick={applyIssueMerge}
+              disabled={unresolved > 0 || isSavingIssue}
+              style={{
+                background: unresolved > 0 || isSavingIssue ? '#9ca3af' : '#2563eb',
+                color: 'white',
+                border: 'none',
+                padding: '10px 20px',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: unresolved > 0 || isSavingIssue ? 'not-allowed' : 'pointer'
+              }}
+            >
+              Save Merged Version
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderAttachmentPreview = () => {
+    if (!previewAttachment) return null;
+    return (
+      <div
+        onClick={() => setPreviewAttachment(null)}
+        style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          background: 'rgba(0,0,0,0.8)',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '12px',
+          zIndex: 2200
+        }}
+      >
+        <div style={{ color: 'white', fontSize: '14px', fontWeight: 600 }}>
+          {previewAttachment.file_name} · {formatFileSize(previewAttachment.size)} · click outside to close
+        </div>
+        <div onClick={(e) => e.stopPropagation()}>
+          {previewKind(previewAttachment.content_type) === 'pdf' ? (
+            <iframe
+              src={previewAttachment.url}
+              title={previewAttachment.file_name}
+              style={{ width: '80vw', height: '80vh', border: 'none', borderRadius: '8px', background: 'white' }}
+            />
+          ) : (
+            <img
+              src={previewAttachment.url}
+              alt={previewAttachment.file_name}
+              style={{ maxWidth: '90vw', maxHeight: '80vh', borderRadius: '8px', background: 'white' }}
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderLogWorkDialog = () => {
+    if (!logWorkDraft) return null;
+    const issue = getIssueById(logWorkDraft.issueId);
+    const inputStyle: React.CSSProperties = {
+      width: '100%',
+      padding: '10px 12px',
+      border: '1px solid #cbd5f5',
+      borderRadius: '6px',
+      fontSize: '14px',
+      boxSizing: 'border-box'
+    };
+    const labelStyle: React.CSSProperties = { display: 'block', fontSize: '13px', fontWeight: 600, color: '#374151', marginBottom: '6px' };
+
+    return (
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2100
+      }}>
+        <div style={{ background: 'white', borderRadius: '12px', padding: '28px', width: '440px', maxWidth: 'calc(100vw - 40px)' }}>
+          <h2 style={{ margin: '0 0 4px 0', color: '#172b4d', fontSize: '20px' }}>Log work</h2>
+          <p style={{ margin: '0 0 20px 0', color: '#6b778c', fontSize: '14px' }}>
+            {issue ? `${issue.key}: ${issue.title}` : 'This issue'}
+          </p>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
+            <div>
+              <label style={labelStyle}>Time spent *</label>
+              <input
+                type="text"
+                autoFocus
+                value={logWorkDraft.duration}
+                onChange={(e) => setLogWorkDraft(prev => prev ? { ...prev, duration: e.target.value } : prev)}
+                placeholder="e.g. 2h 30m"
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Date *</label>
+              <input
+                type="date"
+                value={logWorkDraft.date}
+                max={toDateOnly(new Date())}
+                onChange={(e) => setLogWorkDraft(prev => prev ? { ...prev, date: e.target.value } : prev)}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '16px' }}>
+            <label style={labelStyle}>Remaining estimate</label>
+            <input
+              type="text"
+              value={logWorkDraft.remaining}
+              onChange={(e) => setLogWorkDraft(prev => prev ? { ...prev, remaining: e.target.value } : prev)}
+              placeholder={issue?.remaining_estimate_minutes != null
+                ? `Leave empty to take it down from ${formatDuration(issue.remaining_estimate_minutes)}`
+                : 'Leave empty to keep it unset'}
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ marginBottom: '24px' }}>
+            <label style={labelStyle}>What did you work on?</label>
+            <textarea
+              value={logWorkDraft.note}
+              onChange={(e) => setLogWorkDraft(prev => prev ? { ...prev, note: e.target.value } : prev)}
+              rows={3}
+              style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+            />
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+            <button
+              onClick={() => setLogWorkDraft(null)}
+              style={{
+                background: 'white',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                padding: '10px 16px',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submitLogWork}
+              disabled={isLoggingWork || !logWorkDraft.duration.trim()}
+              style={{
+                background: isLoggingWork || !logWorkDraft.duration.trim() ? '#9ca3af' : '#2563eb',
+                color: 'white',
+                border: 'none',
+                padding: '10px 20px',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: isLoggingWork || !logWorkDraft.duration.trim() ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isLoggingWork ? 'Saving...' : 'Log Work'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Shown when a deep link points at an issue that does not exist or is not visible to this user
+  const renderIssueNotFoundModal = () => (
+    isRouteIssueUnavailable && (
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000
+      }}>
+        <div style={{
+          background: 'white',
+          borderRadius: '12px',
+          padding: '32px',
+          width: '440px',
+          textAlign: 'center'
+        }}>
+          <div style={{ marginBottom: '16px', color: '#6b778c', opacity: 0.6 }}>
+            {Icons.clipboard(48)}
+          </div>
+          <h2 style={{ margin: '0 0 8px 0', color: '#172b4d', fontSize: '20px' }}>
+            {routeIssueKey} is not available
+          </h2>
+          <p style={{ margin: '0 0 24px 0', color: '#6b778c', fontSize: '14px', lineHeight: '1.5' }}>
+            This issue doesn't exist, was deleted, or you don't have access to it.
+            Ask the person who shared the link to check the issue key or your permissions.
+          </p>
+          <button
+            onClick={() => closeIssueModal({ replace: true })}
+            style={{
+              background: '#0052cc',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              padding: '10px 20px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: 'pointer'
+            }}
+          >
+            Back to {currentView === 'board' ? 'Board' : currentView === 'dependencies' ? 'Dependencies' : 'Dashboard'}
+          </button>
+        </div>
+      </div>
+    )
+  );
+
   // Import/Export Modal
   const renderImportExportModal = () => (
     showImportExportModal && (
@@ -5755,7 +10009,7 @@ const App: React.FC = () => {
             <div style={{ display: 'flex', alignItems: 'start', gap: '8px' }}>
               {Icons.info(16)}
               <p style={{ color: '#93c5fd', fontSize: '13px', margin: 0, lineHeight: '1.5' }}>
-                <strong>Format:</strong> Your file should include columns: Title, Type, Status, Priority, Assignee, Story Points, Description, Deadline
+                <strong>Format:</strong> Your file should include columns: Title, Type, Status, Priority, Assignee, Story Points, Description, Deadline. A Parent column links each row to its parent's key, either an existing issue or another row's Key
               </p>
             </div>
           </div>
@@ -5940,14 +10194,22 @@ const App: React.FC = () => {
         minHeight: 'calc(100vh - 60px)',
         transition: 'margin-left 0.3s ease-in-out'
       }}>
+        {renderSyncStatusBanner()}
         {currentView === 'dashboard' && renderDashboard()}
         {currentView === 'board' && renderBoard()}
+        {currentView === 'dependencies' && renderDependencies()}
+        {currentView === 'timesheet' && renderTimesheet()}
+        {currentView === 'recurring' && canCreateIssues && renderRecurringIssues()}
         {currentView === 'admin' && renderAdminPanel()}
         {currentView === 'profile' && renderProfile()}
         {currentView === 'settings' && renderSettings()}
       </main>
       {renderCreateModal()}
       {renderIssueModal()}
+      {renderIssueMergeDialog()}
+      {renderLogWorkDialog()}
+      {renderAttachmentPreview()}
+      {renderIssueNotFoundModal()}
       {renderInviteModal()}
       {renderImportExportModal()}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
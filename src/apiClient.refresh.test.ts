@@ -0,0 +1,119 @@
+import { ApiClientConfig, createApiClient } from './apiClient.ts';
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// jsdom has no Response constructor, so only the parts the client reads are provided
+const toResponse = ({ status, body, headers = {} }: FakeResponse) => {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  const allHeaders = new Map(Object.entries({ 'content-type': 'application/json', ...headers }).map(([name, value]) => [name.toLowerCase(), value]));
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => allHeaders.get(name.toLowerCase()) ?? null },
+    text: async () => text
+  } as unknown as Response;
+};
+
+/** A fetch that answers each call with the next response in `responses` and records what was sent. */
+const scriptedFetch = (responses: FakeResponse[]) => {
+  const calls: Array<{ url: string; method: string; authorization?: string }> = [];
+  const fetchImpl = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    calls.push({ url: String(input), method: init?.method ?? 'GET', authorization: headers.Authorization });
+    const next = responses.shift();
+    if (!next) throw new Error(`Unexpected request to ${String(input)}`);
+    return toResponse(next);
+  });
+  return { fetchImpl: fetchImpl as unknown as typeof fetch, calls };
+};
+
+const clientFor = (responses: FakeResponse[], config: Partial<ApiClientConfig> = {}) => {
+  const { fetchImpl, calls } = scriptedFetch(responses);
+  const api = createApiClient({ baseUrl: 'http://api.test', getAccessToken: () => 'token-1', fetchImpl, retryBaseDelayMs: 1, ...config });
+  return { api, calls };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('session refresh', () => {
+  it('refreshes once on a 401 and replays the request with the new token', async () => {
+    let accessToken = 'expired';
+    const onTokenRefreshed = jest.fn((tokens: { access_token: string }) => {
+      accessToken = tokens.access_token;
+    });
+    const { api, calls } = clientFor(
+      [{ status: 401 }, { status: 200, body: { access_token: 'fresh' } }, { status: 200, body: { id: 'issue-1' } }],
+      { getAccessToken: () => accessToken, getRefreshToken: () => 'refresh-1', onTokenRefreshed }
+    );
+
+    await expect(api.request('/api/issues/issue-1')).resolves.toEqual({ id: 'issue-1' });
+    expect(calls.map(call => call.url)).toEqual([
+      'http://api.test/api/issues/issue-1',
+      'http://api.test/api/auth/refresh',
+      'http://api.test/api/issues/issue-1'
+    ]);
+    expect(calls[2].authorization).toBe('Bearer fresh');
+    expect(onTokenRefreshed).toHaveBeenCalledWith({ access_token: 'fresh' });
+  });
+
+  it('shares one refresh between requests that hit a 401 together', async () => {
+    let accessToken = 'expired';
+    const { api, calls } = clientFor(
+      [
+        { status: 401 },
+        { status: 401 },
+        { status: 200, body: { access_token: 'fresh' } },
+        { status: 200, body: 'a' },
+        { status: 200, body: 'b' }
+      ],
+      {
+        getAccessToken: () => accessToken,
+        getRefreshToken: () => 'refresh-1',
+        onTokenRefreshed: tokens => {
+          accessToken = tokens.access_token;
+        }
+      }
+    );
+
+    await Promise.all([api.request('/api/a'), api.request('/api/b')]);
+    expect(calls.filter(call => call.url.endsWith('/api/auth/refresh'))).toHaveLength(1);
+    expect(calls.slice(3).every(call => call.authorization === 'Bearer fresh')).toBe(true);
+  });
+
+  it('ends the session when the refresh fails', async () => {
+    const onUnauthorized = jest.fn();
+    const { api } = clientFor([{ status: 401 }, { status: 401 }], { getRefreshToken: () => 'revoked', onUnauthorized });
+    await expect(api.request('/api/issues')).rejects.toMatchObject({ kind: 'unauthorized' });
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not replay a second time when the renewed token is also refused', async () => {
+    let accessToken = 'expired';
+    const onUnauthorized = jest.fn();
+    const { api, calls } = clientFor(
+      [{ status: 401 }, { status: 200, body: { access_token: 'fresh' } }, { status: 401 }],
+      {
+        getAccessToken: () => accessToken,
+        getRefreshToken: () => 'refresh-1',
+        onTokenRefreshed: tokens => {
+          accessToken = tokens.access_token;
+        },
+        onUnauthorized
+      }
+    );
+    await expect(api.request('/api/issues')).rejects.toMatchObject({ kind: 'unauthorized' });
+    expect(calls).toHaveLength(3);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { ApiError, ApiClientConfig, createApiClient } from './apiClient.ts';
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// jsdom has no Response constructor, so only the parts the client reads are provided
+const toResponse = ({ status, body, headers = {} }: FakeResponse) => {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  const allHeaders = new Map(Object.entries({ 'content-type': 'application/json', ...headers }).map(([name, value]) => [name.toLowerCase(), value]));
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => allHeaders.get(name.toLowerCase()) ?? null },
+    text: async () => text
+  } as unknown as Response;
+};
+
+/** A fetch that answers each call with the next response in `responses` and records what was sent. */
+const scriptedFetch = (responses: FakeResponse[]) => {
+  const calls: Array<{ url: string; method: string; authorization?: string }> = [];
+  const fetchImpl = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    calls.push({ url: String(input), method: init?.method ?? 'GET', authorization: headers.Authorization });
+    const next = responses.shift();
+    if (!next) throw new Error(`Unexpected request to ${String(input)}`);
+    return toResponse(next);
+  });
+  return { fetchImpl: fetchImpl as unknown as typeof fetch, calls };
+};
+
+const clientFor = (responses: FakeResponse[], config: Partial<ApiClientConfig> = {}) => {
+  const { fetchImpl, calls } = scriptedFetch(responses);
+  const api = createApiClient({ baseUrl: 'http://api.test', getAccessToken: () => 'token-1', fetchImpl, retryBaseDelayMs: 1, ...config });
+  return { api, calls };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('retries', () => {
+  it('retries a GET that fails with a 5xx', async () => {
+    const { api, calls } = clientFor([{ status: 503 }, { status: 200, body: { ok: true } }]);
+    await expect(api.request('/api/issues')).resolves.toEqual({ ok: true });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('gives up once the budget is spent', async () => {
+    const { api, calls } = clientFor([{ status: 500 }, { status: 500 }], { maxRetries: 1 });
+    await expect(api.request('/api/issues')).rejects.toMatchObject({ kind: 'server', status: 500 });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not retry a POST unless the call asks for it', async () => {
+    const failing = clientFor([{ status: 503 }]);
+    await expect(failing.api.request('/api/issues', { method: 'POST' })).rejects.toMatchObject({ kind: 'server' });
+    expect(failing.calls).toHaveLength(1);
+
+    const retried = clientFor([{ status: 503 }, { status: 201, body: { id: 'issue-1' } }]);
+    await expect(retried.api.request('/api/issues', { method: 'POST', retries: 1 })).resolves.toEqual({ id: 'issue-1' });
+    expect(retried.calls).toHaveLength(2);
+  });
+
+  it('retries network failures on idempotent methods', async () => {
+    const fetchImpl = jest.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(toResponse({ status: 200, body: [] }));
+    const api = createApiClient({ baseUrl: 'http://api.test', getAccessToken: () => null, fetchImpl, retryBaseDelayMs: 1 });
+    await expect(api.request('/api/users')).resolves.toEqual([]);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Retry-After', () => {
+  it('waits as long as a 429 asks before retrying', async () => {
+    const { api, calls } = clientFor([{ status: 429, headers: { 'Retry-After': '0.05' } }, { status: 200, body: [] }]);
+    const started = Date.now();
+    await api.request('/api/issues');
+    expect(calls).toHaveLength(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it('does not retry when the wait is longer than the client accepts', async () => {
+    const { api, calls } = clientFor([{ status: 429, headers: { 'Retry-After': '120' } }], { maxRetryAfterMs: 1000 });
+    const error = await api.request('/api/issues').catch((caught: ApiError) => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: 'rate_limited', retryAfterMs: 120000 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('counts a 429 against the per-call budget', async () => {
+    const explicit = clientFor([{ status: 429, headers: { 'Retry-After': '0' } }]);
+    await expect(explicit.api.request('/api/issues', { retries: 0 })).rejects.toMatchObject({ kind: 'rate_limited' });
+    expect(explicit.calls).toHaveLength(1);
+
+    const post = clientFor([{ status: 429, headers: { 'Retry-After': '0' } }]);
+    await expect(post.api.request('/api/issues', { method: 'POST' })).rejects.toMatchObject({ kind: 'rate_limited' });
+    expect(post.calls).toHaveLength(1);
+  });
+});
+
+describe('issue pages', () => {
+  it('filters an unpaginated list on the client and keeps the whole of it', async () => {
+    const all = [{ id: 'a', key: 'MT-1', status: 'todo' }, { id: 'b', key: 'MT-2', status: 'done' }];
+    const { api, calls } = clientFor([{ status: 200, body: all }]);
+    const page = await api.issues.listPage({ status: 'done' });
+    expect(page).toMatchObject({ items: [all[1]], next_cursor: null, total: 1, allIssues: all });
+    expect(calls[0].url).toBe('http://api.test/api/issues?status=done&limit=50');
+  });
+
+  it('passes a paginated answer through as it is', async () => {
+    const body = { items: [{ id: 'a', key: 'MT-1', status: 'todo' }], next_cursor: 'c2', total: 80 };
+    const { api } = clientFor([{ status: 200, body }]);
+    const page = await api.issues.listPage({ status: 'todo' });
+    expect(page).toEqual(body);
+    expect(page.allIssues).toBeUndefined();
+  });
+});
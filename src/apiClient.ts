@@ -0,0 +1,648 @@
+// src/apiClient.ts
+// Single HTTP client for the MissedTask backend. Every view talks to the API
+// through the typed endpoint groups returned by createApiClient().
+import { blobToBase64, contentTypeOf, UPLOAD_CHUNK_BYTES } from './attachments.ts';
+import {
+  Attachment,
+  AuthResponse,
+  ChatConversation,
+  ChatMessage,
+  Comment,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  Issue,
+  IssueHistoryEntry,
+  IssueLink,
+  IssueLinkType,
+  IssueTemplate,
+  RecurrenceSchedule,
+  RecurringIssue,
+  RecurringIssueTemplate,
+  User,
+  WorkflowStatus,
+  WorkLog
+} from './types.ts';
+
+export type ApiErrorKind =
+  | 'network'           // the request never reached the server (offline, DNS, CORS)
+  | 'aborted'           // cancelled through an AbortSignal
+  | 'unauthorized'      // 401
+  | 'forbidden'         // 403
+  | 'not_found'         // 404
+  | 'conflict'          // 409 / 412
+  | 'validation'        // 400 / 422
+  | 'rate_limited'      // 429 once retries are exhausted
+  | 'server'            // 5xx once retries are exhausted
+  | 'invalid_response'  // 2xx with a body that could not be parsed
+  | 'http';             // any other non-2xx status
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly endpoint: string;
+  readonly body: unknown;
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    details: { endpoint: string; status?: number | null; body?: unknown; retryAfterMs?: number | null }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.endpoint = details.endpoint;
+    this.body = details.body ?? null;
+    this.retryAfterMs = details.retryAfterMs ?? null;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+export interface ApiRequestOptions extends Omit<RequestInit, 'headers'> {
+  headers?: HeadersInit;
+  /** Overrides the client's token, e.g. right after login before state has caught up. */
+  accessToken?: string;
+  /** Overrides the retry budget. Non-idempotent methods are not retried unless this is set. */
+  retries?: number;
+  /** Auth endpoints answer 401 for bad credentials; that must not end the current session. */
+  skipUnauthorizedHandler?: boolean;
+}
+
+export interface ApiClientConfig {
+  baseUrl: string;
+  getAccessToken: () => string | null | undefined;
+  /** Enables silent renewal: a 401 is answered by one refresh, then the request is replayed. */
+  getRefreshToken?: () => string | null | undefined;
+  onTokenRefreshed?: (tokens: RefreshResponse) => void;
+  /** Called when a 401 cannot be recovered (no refresh token, or the refresh itself failed). */
+  onUnauthorized?: (error: ApiError) => void;
+  /** Retry through the CRA dev proxy ('' base) when the remote API is unreachable from localhost. */
+  allowDevProxyFallback?: boolean;
+  fetchImpl?: typeof fetch;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  maxRetryAfterMs?: number;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+const MAX_BACKOFF_MS = 10000;
+
+// Shared across clients so the WebSocket URL can follow the same proxy decision
+let devProxyActivated = false;
+
+export const isDevProxyActive = () => devProxyActivated;
+
+export const buildApiUrl = (base: string, endpoint: string) => {
+  const trimmedBase = base.replace(/\/$/, '');
+  const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+  if (!trimmedBase) {
+    return normalizedEndpoint;
+  }
+  return `${trimmedBase}${normalizedEndpoint}`;
+};
+
+const kindForStatus = (status: number): ApiErrorKind => {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'http';
+};
+
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+};
+
+const isAbortError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+const sleep = (ms: number, signal: AbortSignal | null | undefined, endpoint: string) =>
+  new Promise<void>((resolve, reject) => {
+    const abortError = () => new ApiError('aborted', 'Request was cancelled', { endpoint });
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const normalizeHeaders = (headers: HeadersInit | undefined): Record<string, string> => {
+  if (!headers) return {};
+  if (headers instanceof Headers) return Object.fromEntries(headers.entries());
+  if (Array.isArray(headers)) return Object.fromEntries(headers);
+  return { ...headers };
+};
+
+const extractErrorMessage = (status: number, parsedBody: unknown, bodyText: string) => {
+  if (parsedBody && typeof parsedBody === 'object') {
+    const { detail, message } = parsedBody as { detail?: unknown; message?: unknown };
+    if (typeof detail === 'string') return detail;
+    if (detail && typeof detail === 'object') return JSON.stringify(detail);
+    if (typeof message === 'string' && message) return message;
+  } else if (bodyText.trim()) {
+    const trimmed = bodyText.trim();
+    return trimmed.length > 200 ? `${trimmed.slice(0, 200)}...` : trimmed;
+  }
+  return `HTTP ${status}`;
+};
+
+// Some list endpoints answer with a bare array, others wrap it ({ users: [...] })
+const unwrapList = <T,>(data: unknown, key: string): T[] => {
+  if (Array.isArray(data)) return data as T[];
+  if (data && typeof data === 'object' && Array.isArray((data as Record<string, unknown>)[key])) {
+    return (data as Record<string, unknown>)[key] as T[];
+  }
+  return [];
+};
+
+const jsonBody = (body: unknown): Pick<RequestInit, 'body'> => ({ body: JSON.stringify(body) });
+
+export interface RefreshResponse {
+  access_token: string;
+  refresh_token?: string;
+}
+
+export interface IssuePayload {
+  title?: string;
+  description?: string;
+  issue_type?: string;
+  priority?: string;
+  status?: string;
+  assignee_id?: string | null;
+  story_points?: number | null;
+  labels?: string[];
+  deadline?: string | null;
+  visibility?: string;
+  parent_id?: string | null;
+  /** Replaces all custom field values; fields left out are cleared. */
+  custom_fields?: Record<string, CustomFieldValue>;
+  original_estimate_minutes?: number | null;
+  remaining_estimate_minutes?: number | null;
+}
+
+export interface AttachmentUploadOptions extends ApiRequestOptions {
+  /** Called after each chunk with the bytes sent so far. */
+  onProgress?: (sentBytes: number) => void;
+}
+
+export interface WorkLogPayload {
+  minutes: number;
+  /** `YYYY-MM-DD`. */
+  date: string;
+  note?: string;
+  /** New remaining estimate; left out, the server takes the logged time off the current one. */
+  remaining_estimate_minutes?: number | null;
+}
+
+/** Parts of a series to change; anything left out stays as it is. */
+export interface RecurringIssuePayload {
+  template?: RecurringIssueTemplate;
+  schedule?: RecurrenceSchedule;
+  paused?: boolean;
+}
+
+export type IssueTemplatePayload = Omit<IssueTemplate, 'id' | 'organization_id' | 'created_by' | 'updated_at'>;
+
+export interface IssueUpdateOptions extends ApiRequestOptions {
+  /** updated_at of the version the edit started from; a newer version on the server is answered with 412. */
+  expectedUpdatedAt?: string;
+}
+
+export interface IssuePageParams {
+  status?: Issue['status'];
+  /** Exact issue key, used to resolve deep links to issues not loaded yet. */
+  key?: string;
+  /** Children of one issue, e.g. the stories in an epic. */
+  parent_id?: string;
+  issue_type?: Issue['issue_type'];
+  /** Opaque cursor from the previous page's next_cursor. */
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface IssuePage {
+  items: Issue[];
+  next_cursor: string | null;
+  /** Number of issues matching the filters across all pages. */
+  total: number;
+  /** Every issue, when the server doesn't paginate and sent its whole list; other queries can be answered from it. */
+  allIssues?: Issue[];
+}
+
+/** A page cut from a full, unpaginated issue list, filtered the way the server would. */
+export const toIssuePage = (data: unknown, params: IssuePageParams): IssuePage => {
+  if (!Array.isArray(data)) return data as IssuePage;
+  // Backends without pagination answer with the whole list; filter it here so callers see the same shape
+  const items = (data as Issue[]).filter(issue =>
+    (!params.status || issue.status === params.status) && (!params.key || issue.key.toUpperCase() === params.key.toUpperCase()) &&
+    (!params.parent_id || issue.parent_id === params.parent_id) && (!params.issue_type || issue.issue_type === params.issue_type)
+  );
+  return { items, next_cursor: null, total: items.length, allIssues: data as Issue[] };
+};
+
+export interface SignupPayload {
+  email: string;
+  password: string;
+  name: string;
+  organization_name?: string;
+}
+
+export interface CreateConversationPayload {
+  type: ChatConversation['type'];
+  name?: string;
+  participants: Array<string | undefined>;
+}
+
+export interface InvitePayload {
+  email: string;
+  name: string;
+  role: string;
+  organization_id: string;
+}
+
+export const createApiClient = (config: ApiClientConfig) => {
+  const fetchImpl: typeof fetch = config.fetchImpl ?? ((input, init) => fetch(input, init));
+  const maxRetries = config.maxRetries ?? 2;
+  const retryBaseDelayMs = config.retryBaseDelayMs ?? 500;
+  const maxRetryAfterMs = config.maxRetryAfterMs ?? 30000;
+
+  const backoffDelay = (attempt: number) =>
+    Math.min(MAX_BACKOFF_MS, retryBaseDelayMs * 2 ** attempt) + Math.random() * retryBaseDelayMs;
+
+  const send = async (endpoint: string, init: RequestInit): Promise<Response> => {
+    const base = devProxyActivated || !config.baseUrl ? '' : config.baseUrl;
+    const requestUrl = buildApiUrl(base, endpoint);
+    try {
+      return await fetchImpl(requestUrl, init);
+    } catch (networkError) {
+      if (base && config.allowDevProxyFallback && !isAbortError(networkError)) {
+        console.warn('Network error while calling API, retrying via dev proxy fallback.', { endpoint, requestUrl, networkError });
+        devProxyActivated = true;
+        return fetchImpl(buildApiUrl('', endpoint), init);
+      }
+      throw networkError;
+    }
+  };
+
+  const readBody = async (response: Response, endpoint: string) => {
+    const contentType = response.headers.get('content-type') || '';
+    const isJsonResponse = contentType.includes('application/json');
+    const statusHasBody = ![204, 205].includes(response.status);
+    const bodyText = statusHasBody ? await response.text() : '';
+    let parsedBody: unknown = null;
+
+    if (bodyText && isJsonResponse) {
+      try {
+        parsedBody = JSON.parse(bodyText);
+      } catch (parseError) {
+        console.error('Received malformed JSON from API:', parseError);
+        console.debug('Malformed payload preview:', bodyText.slice(0, 200));
+        if (response.ok) {
+          throw new ApiError('invalid_response', 'Received malformed JSON response from server.', {
+            endpoint,
+            status: response.status,
+            body: bodyText
+          });
+        }
+      }
+    } else if (bodyText) {
+      parsedBody = bodyText;
+    }
+
+    return { parsedBody, bodyText };
+  };
+
+  // Every 401 that arrives while a refresh is running waits on this same promise
+  let refreshInFlight: Promise<string | null> | null = null;
+
+  const refreshAccessToken = (): Promise<string | null> => {
+    if (!refreshInFlight) {
+      const refreshToken = config.getRefreshToken?.();
+      refreshInFlight = (async () => {
+        if (!refreshToken) return null;
+        try {
+          const tokens = await auth.refresh(refreshToken);
+          if (!tokens?.access_token) return null;
+          config.onTokenRefreshed?.(tokens);
+          return tokens.access_token;
+        } catch (refreshError) {
+          console.warn('Session refresh failed:', refreshError);
+          return null;
+        }
+      })().finally(() => {
+        refreshInFlight = null;
+      });
+    }
+    return refreshInFlight;
+  };
+
+  const request = async <T = unknown,>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> => {
+    const { headers: optionHeaders, accessToken, retries, skipUnauthorizedHandler, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    const retryBudget = retries ?? (IDEMPOTENT_METHODS.includes(method) ? maxRetries : 0);
+
+    // Requests issued mid-refresh are held back so they go out with the renewed token
+    if (refreshInFlight && !skipUnauthorizedHandler) {
+      await refreshInFlight;
+    }
+    let token = accessToken ?? config.getAccessToken();
+    let replayedAfterRefresh = false;
+
+    const headers: Record<string, string> = {
+      ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      ...normalizeHeaders(optionHeaders)
+    };
+    const explicitAuthorization = headers.Authorization;
+    const applyToken = () => {
+      if (explicitAuthorization) return;
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      } else {
+        delete headers.Authorization;
+      }
+    };
+    applyToken();
+
+    for (let attempt = 0; ; attempt += 1) {
+      let response: Response;
+      try {
+        response = await send(endpoint, { ...init, headers });
+      } catch (networkError) {
+        if (init.signal?.aborted || isAbortError(networkError)) {
+          throw new ApiError('aborted', 'Request was cancelled', { endpoint });
+        }
+        if (attempt < retryBudget) {
+          await sleep(backoffDelay(attempt), init.signal, endpoint);
+          continue;
+        }
+        const message = networkError instanceof Error ? networkError.message : String(networkError);
+        throw new ApiError('network', `Network request failed: ${message}. Check server availability and CORS configuration.`, {
+          endpoint,
+          body: networkError
+        });
+      }
+
+      const { parsedBody, bodyText } = await readBody(response, endpoint);
+      if (response.ok) {
+        return (bodyText ? parsedBody : null) as T;
+      }
+
+      const kind = kindForStatus(response.status);
+      const retryAfterMs = kind === 'rate_limited' ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+
+      // A 429 spends the same budget as any other retry; Retry-After only decides how long to wait
+      if (kind === 'rate_limited' && attempt < retryBudget && (retryAfterMs ?? 0) <= maxRetryAfterMs) {
+        await sleep(retryAfterMs ?? backoffDelay(attempt), init.signal, endpoint);
+        continue;
+      }
+      if (RETRYABLE_SERVER_STATUSES.includes(response.status) && attempt < retryBudget) {
+        await sleep(backoffDelay(attempt), init.signal, endpoint);
+        continue;
+      }
+      if (kind === 'unauthorized' && !skipUnauthorizedHandler && !replayedAfterRefresh && config.getRefreshToken) {
+        // Another request may already have renewed the token while this one was in flight
+        const currentToken = config.getAccessToken();
+        const renewedToken = currentToken && currentToken !== token ? currentToken : await refreshAccessToken();
+        if (renewedToken) {
+          token = renewedToken;
+          replayedAfterRefresh = true;
+          applyToken();
+          continue;
+        }
+      }
+
+      console.error('API Error Response:', parsedBody ?? bodyText);
+      const error = new ApiError(kind, extractErrorMessage(response.status, parsedBody, bodyText), {
+        endpoint,
+        status: response.status,
+        body: parsedBody,
+        retryAfterMs
+      });
+      if (kind === 'unauthorized' && !skipUnauthorizedHandler) {
+        config.onUnauthorized?.(error);
+      }
+      throw error;
+    }
+  };
+
+  const auth = {
+    login: (email: string, password: string, options?: ApiRequestOptions) =>
+      request<AuthResponse>('/api/auth/login', {
+        ...options,
+        method: 'POST',
+        skipUnauthorizedHandler: true,
+        ...jsonBody({ email, password })
+      }),
+    signup: (payload: SignupPayload, options?: ApiRequestOptions) =>
+      request<unknown>('/api/auth/signup', { ...options, method: 'POST', skipUnauthorizedHandler: true, ...jsonBody(payload) }),
+    signupMember: (payload: SignupPayload, options?: ApiRequestOptions) =>
+      request<unknown>('/api/auth/signup-member', { ...options, method: 'POST', skipUnauthorizedHandler: true, ...jsonBody(payload) }),
+    verifyOtp: (payload: { email: string; otp: string }, member: boolean, options?: ApiRequestOptions) =>
+      request<AuthResponse>(member ? '/api/auth/verify-otp-member' : '/api/auth/verify-otp', {
+        ...options,
+        method: 'POST',
+        skipUnauthorizedHandler: true,
+        ...jsonBody(payload)
+      }),
+    refresh: (refreshToken: string, options?: ApiRequestOptions) =>
+      request<RefreshResponse>('/api/auth/refresh', {
+        ...options,
+        method: 'POST',
+        accessToken: '',
+        skipUnauthorizedHandler: true,
+        ...jsonBody({ refresh_token: refreshToken })
+      }),
+    logout: (refreshToken?: string | null, options?: ApiRequestOptions) =>
+      request<unknown>('/api/auth/logout', {
+        ...options,
+        method: 'POST',
+        skipUnauthorizedHandler: true,
+        ...(refreshToken ? jsonBody({ refresh_token: refreshToken }) : {})
+      })
+  };
+
+  const issues = {
+    list: (options?: ApiRequestOptions) => request<Issue[]>('/api/issues', options),
+    listPage: async (params: IssuePageParams, options?: ApiRequestOptions) => {
+      const query = new URLSearchParams();
+      if (params.status) query.set('status', params.status);
+      if (params.key) query.set('key', params.key);
+      if (params.parent_id) query.set('parent_id', params.parent_id);
+      if (params.issue_type) query.set('issue_type', params.issue_type);
+      if (params.cursor) query.set('cursor', params.cursor);
+      query.set('limit', String(params.limit ?? 50));
+      return toIssuePage(await request<unknown>(`/api/issues?${query.toString()}`, options), params);
+    },
+    create: (payload: IssuePayload, options?: ApiRequestOptions) =>
+      request<Issue>('/api/issues', { ...options, method: 'POST', ...jsonBody(payload) }),
+    update: (issueId: string, payload: IssuePayload, { expectedUpdatedAt, ...options }: IssueUpdateOptions = {}) =>
+      request<Issue>(`/api/issues/${issueId}`, {
+        ...options,
+        method: 'PUT',
+        headers: expectedUpdatedAt
+          ? { ...normalizeHeaders(options.headers), 'If-Match': `"${expectedUpdatedAt}"` }
+          : options.headers,
+        ...jsonBody(payload)
+      }),
+    remove: (issueId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/issues/${issueId}`, { ...options, method: 'DELETE' }),
+    history: async (issueId: string, options?: ApiRequestOptions) =>
+      unwrapList<IssueHistoryEntry>(await request<unknown>(`/api/issues/${issueId}/history`, options), 'entries'),
+    /** Starts someone watching the issue; managers can add anyone, everyone else only themselves. */
+    watch: (issueId: string, userId: string, options?: ApiRequestOptions) =>
+      request<Issue>(`/api/issues/${issueId}/watchers`, { ...options, method: 'POST', ...jsonBody({ user_id: userId }) }),
+    unwatch: (issueId: string, userId: string, options?: ApiRequestOptions) =>
+      request<Issue>(`/api/issues/${issueId}/watchers/${userId}`, { ...options, method: 'DELETE' })
+  };
+
+  const comments = {
+    create: (issueId: string, content: string, options?: ApiRequestOptions) =>
+      request<Comment>(`/api/issues/${issueId}/comments`, { ...options, method: 'POST', ...jsonBody({ content }) })
+  };
+
+  const issueLinks = {
+    list: async (options?: ApiRequestOptions) => unwrapList<IssueLink>(await request<unknown>('/api/issue-links', options), 'links'),
+    create: (payload: { type: IssueLinkType; source_id: string; target_id: string }, options?: ApiRequestOptions) =>
+      request<IssueLink>('/api/issue-links', { ...options, method: 'POST', ...jsonBody(payload) }),
+    remove: (linkId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/issue-links/${linkId}`, { ...options, method: 'DELETE' })
+  };
+
+  const workflow = {
+    list: async (options?: ApiRequestOptions) => unwrapList<WorkflowStatus>(await request<unknown>('/api/workflow', options), 'statuses'),
+    /** Replaces the whole workflow; order is column order. */
+    update: async (statuses: WorkflowStatus[], options?: ApiRequestOptions) =>
+      unwrapList<WorkflowStatus>(await request<unknown>('/api/workflow', { ...options, method: 'PUT', ...jsonBody({ statuses }) }), 'statuses')
+  };
+
+  const customFields = {
+    list: async (options?: ApiRequestOptions) =>
+      unwrapList<CustomFieldDefinition>(await request<unknown>('/api/custom-fields', options), 'fields'),
+    create: (payload: Omit<CustomFieldDefinition, 'id'>, options?: ApiRequestOptions) =>
+      request<CustomFieldDefinition>('/api/custom-fields', { ...options, method: 'POST', ...jsonBody(payload) }),
+    update: (fieldId: string, payload: Omit<CustomFieldDefinition, 'id'>, options?: ApiRequestOptions) =>
+      request<CustomFieldDefinition>(`/api/custom-fields/${fieldId}`, { ...options, method: 'PUT', ...jsonBody(payload) }),
+    remove: (fieldId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/custom-fields/${fieldId}`, { ...options, method: 'DELETE' })
+  };
+
+  const workLogs = {
+    list: async (issueId: string, options?: ApiRequestOptions) =>
+      unwrapList<WorkLog>(await request<unknown>(`/api/issues/${issueId}/worklogs`, options), 'logs'),
+    create: (issueId: string, payload: WorkLogPayload, options?: ApiRequestOptions) =>
+      request<WorkLog>(`/api/issues/${issueId}/worklogs`, { ...options, method: 'POST', ...jsonBody(payload) }),
+    remove: (logId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/worklogs/${logId}`, { ...options, method: 'DELETE' }),
+    /** One person's logs between two dates, inclusive, for their timesheet. */
+    timesheet: async (params: { user_id: string; from: string; to: string }, options?: ApiRequestOptions) =>
+      unwrapList<WorkLog>(await request<unknown>(`/api/worklogs?${new URLSearchParams(params).toString()}`, options), 'logs')
+  };
+
+  const recurringIssues = {
+    list: async (options?: ApiRequestOptions) =>
+      unwrapList<RecurringIssue>(await request<unknown>('/api/recurring-issues', options), 'recurring_issues'),
+    create: (payload: RecurringIssuePayload, options?: ApiRequestOptions) =>
+      request<RecurringIssue>('/api/recurring-issues', { ...options, method: 'POST', ...jsonBody(payload) }),
+    update: (seriesId: string, payload: RecurringIssuePayload, options?: ApiRequestOptions) =>
+      request<RecurringIssue>(`/api/recurring-issues/${seriesId}`, { ...options, method: 'PUT', ...jsonBody(payload) }),
+    remove: (seriesId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/recurring-issues/${seriesId}`, { ...options, method: 'DELETE' }),
+    /** Creates the series' next issue straight away; the schedule carries on unchanged. */
+    run: (seriesId: string, options?: ApiRequestOptions) =>
+      request<Issue>(`/api/recurring-issues/${seriesId}/run`, { ...options, method: 'POST' })
+  };
+
+  const issueTemplates = {
+    list: async (options?: ApiRequestOptions) =>
+      unwrapList<IssueTemplate>(await request<unknown>('/api/issue-templates', options), 'templates'),
+    create: (payload: IssueTemplatePayload, options?: ApiRequestOptions) =>
+      request<IssueTemplate>('/api/issue-templates', { ...options, method: 'POST', ...jsonBody(payload) }),
+    /** Saving a default takes the flag from the type's previous default. */
+    update: (templateId: string, payload: IssueTemplatePayload, options?: ApiRequestOptions) =>
+      request<IssueTemplate>(`/api/issue-templates/${templateId}`, { ...options, method: 'PUT', ...jsonBody(payload) }),
+    remove: (templateId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/issue-templates/${templateId}`, { ...options, method: 'DELETE' })
+  };
+
+  const attachments = {
+    list: async (issueId: string, options?: ApiRequestOptions) =>
+      unwrapList<Attachment>(await request<unknown>(`/api/issues/${issueId}/attachments`, options), 'attachments'),
+    // Start an upload, send the file a chunk at a time, then ask the server to put it together
+    upload: async (issueId: string, file: File, { onProgress, ...options }: AttachmentUploadOptions = {}) => {
+      const { upload_id: uploadId } = await request<{ upload_id: string }>(`/api/issues/${issueId}/attachments/uploads`, {
+        ...options,
+        method: 'POST',
+        ...jsonBody({ file_name: file.name, content_type: contentTypeOf(file), size: file.size })
+      });
+      for (let offset = 0; offset < file.size; offset += UPLOAD_CHUNK_BYTES) {
+        const data = await blobToBase64(file.slice(offset, offset + UPLOAD_CHUNK_BYTES));
+        await request<null>(`/api/attachment-uploads/${uploadId}`, { ...options, method: 'PUT', ...jsonBody({ offset, data }) });
+        onProgress?.(Math.min(offset + UPLOAD_CHUNK_BYTES, file.size));
+      }
+      return request<Attachment>(`/api/attachment-uploads/${uploadId}/complete`, { ...options, method: 'POST' });
+    },
+    remove: (attachmentId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/attachments/${attachmentId}`, { ...options, method: 'DELETE' })
+  };
+
+  const users = {
+    list: async (options?: ApiRequestOptions) => unwrapList<User>(await request<unknown>('/api/users', options), 'users'),
+    update: (userId: string, payload: { name: string; email: string }, options?: ApiRequestOptions) =>
+      request<User>(`/api/users/${userId}`, { ...options, method: 'PUT', ...jsonBody(payload) }),
+    updateRole: (userId: string, payload: { role: string; is_active: boolean }, options?: ApiRequestOptions) =>
+      request<unknown>(`/api/users/${userId}/role`, { ...options, method: 'PUT', ...jsonBody(payload) }),
+    invite: (payload: InvitePayload, options?: ApiRequestOptions) =>
+      request<{ user_id?: string } | null>('/api/users/invite', { ...options, method: 'POST', ...jsonBody(payload) }),
+    uploadProfilePicture: (profilePicture: string, options?: ApiRequestOptions) =>
+      request<User>('/user/profile-picture', { ...options, method: 'POST', ...jsonBody({ profile_picture: profilePicture }) })
+  };
+
+  // Chat payloads differ between backend versions, so callers may narrow the message shape
+  const chat = {
+    listConversations: async <T = ChatConversation,>(options?: ApiRequestOptions) =>
+      unwrapList<T>(await request<unknown>('/api/chat/conversations', options), 'conversations'),
+    createConversation: <T = ChatConversation,>(payload: CreateConversationPayload, options?: ApiRequestOptions) =>
+      request<T>('/api/chat/conversations', { ...options, method: 'POST', ...jsonBody(payload) }),
+    listMessages: async <T = ChatMessage,>(conversationId: string, options?: ApiRequestOptions) =>
+      unwrapList<T>(await request<unknown>(`/api/chat/conversations/${conversationId}/messages`, options), 'messages'),
+    sendMessage: <T = ChatMessage,>(conversationId: string, content: string, options?: ApiRequestOptions) =>
+      request<T>('/api/chat/messages', {
+        ...options,
+        method: 'POST',
+        ...jsonBody({ content, conversation_id: conversationId })
+      }),
+    deleteMessage: (messageId: string, options?: ApiRequestOptions) =>
+      request<null>(`/api/chat/messages/${messageId}`, { ...options, method: 'DELETE' }),
+    listTeamMessages: <T = ChatMessage,>(options?: ApiRequestOptions) => request<T[]>('/api/chat/team', options),
+    sendTeamMessage: <T = ChatMessage,>(content: string, options?: ApiRequestOptions) =>
+      request<T>('/api/chat/team', { ...options, method: 'POST', ...jsonBody({ content }) }),
+    listPersonalChats: <T = ChatMessage,>(options?: ApiRequestOptions) =>
+      request<Record<string, T[]>>('/api/chat/personal', options),
+    sendPersonalMessage: <T = ChatMessage,>(userId: string, content: string, options?: ApiRequestOptions) =>
+      request<T>(`/api/chat/personal/${userId}`, { ...options, method: 'POST', ...jsonBody({ content }) })
+  };
+
+  return { request, auth, issues, comments, issueLinks, workflow, customFields, workLogs, recurringIssues, issueTemplates, attachments, users, chat };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
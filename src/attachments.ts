@@ -0,0 +1,68 @@
+// src/attachments.ts
+// Files attached to issues. Uploads go up in chunks, so the modal can show real progress
+// and a dropped connection only costs the chunk in flight.
+export const ATTACHMENT_SOCKET_EVENTS = ['attachment_added', 'attachment_deleted'];
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// A multiple of three, so each chunk's base64 joins onto the last without padding in between
+export const UPLOAD_CHUNK_BYTES = 3 * 256 * 1024;
+
+// Browsers leave the type empty for files they don't recognise, like .log
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  log: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip'
+};
+
+export const ALLOWED_ATTACHMENT_TYPES = Array.from(new Set(Object.values(EXTENSION_TYPES)));
+
+/** Value for a file input's `accept`. */
+export const ATTACHMENT_ACCEPT = [...ALLOWED_ATTACHMENT_TYPES, ...Object.keys(EXTENSION_TYPES).map(extension => `.${extension}`)].join(',');
+
+export const contentTypeOf = (file: { name: string; type: string }) =>
+  file.type || EXTENSION_TYPES[file.name.split('.').pop()?.toLowerCase() ?? ''] || 'application/octet-stream';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Why a file can't be attached, or null when it can. */
+export const attachmentProblem = (file: { name: string; type: string; size: number }): string | null => {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(contentTypeOf(file))) return `${file.name}: only images, PDFs, text, CSV, JSON and zip files can be attached`;
+  return null;
+};
+
+/** Adds an attachment from our own upload or the socket, whichever came first. */
+export const addAttachment = <T extends { id: string }>(attachments: T[], attachment: T) =>
+  attachments.some(existing => existing.id === attachment.id) ? attachments : [...attachments, attachment];
+
+export const previewKind = (contentType: string): 'image' | 'pdf' | null => {
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType === 'application/pdf') return 'pdf';
+  return null;
+};
+
+/** The base64 payload of a blob, without the `data:` prefix. */
+export const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).slice(String(reader.result).indexOf(',') + 1));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Bytes a base64 string decodes to. */
+export const base64Size = (data: string) => Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
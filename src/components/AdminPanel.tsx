@@ -10,6 +10,12 @@ import {
   BurndownChart
 } from './Charts.tsx';
 import AnalyticsControls, { AnalyticsFilters } from './AnalyticsControls.tsx';
+import { ApiClient } from '../apiClient.ts';
+import { CustomFieldDefinition, CustomFieldType, IssueTemplate, StatusCategory, WorkflowStatus } from '../types.ts';
+import { CUSTOM_FIELD_TYPE_LABELS, CUSTOM_FIELD_TYPES, fieldDefinitionProblem, hasFieldOptions } from '../customFields.ts';
+import { ISSUE_TYPE_LABELS } from '../issueHierarchy.ts';
+import { sortTemplates, templateProblem, withSavedTemplate } from '../issueTemplates.ts';
+import { STATUS_CATEGORIES, STATUS_CATEGORY_LABELS, statusKeyFromName, validateWorkflow, Workflow } from '../workflow.ts';
 
 interface User {
   id: string;
@@ -47,8 +53,14 @@ interface AdminPanelProps {
   organization: Organization;
   users: User[];
   issues: Issue[];
-  apiCall: (endpoint: string, options?: RequestInit) => Promise<any>;
+  api: ApiClient;
+  workflow: Workflow;
+  customFields: CustomFieldDefinition[];
+  issueTemplates: IssueTemplate[];
   onUserUpdate: (users: User[]) => void;
+  onWorkflowUpdate: (statuses: WorkflowStatus[]) => void;
+  onCustomFieldsUpdate: (fields: CustomFieldDefinition[]) => void;
+  onIssueTemplatesUpdate: (templates: IssueTemplate[]) => void;
   showToast: (type: 'success' | 'error' | 'warning' | 'info', title: string, message: string) => void;
 }
 
@@ -57,11 +69,17 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
   organization,
   users,
   issues,
-  apiCall,
+  api,
+  workflow,
+  customFields,
+  issueTemplates,
   onUserUpdate,
+  onWorkflowUpdate,
+  onCustomFieldsUpdate,
+  onIssueTemplatesUpdate,
   showToast
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'settings' | 'analytics'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'settings' | 'workflow' | 'fields' | 'templates' | 'analytics'>('overview');
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showInviteModal, setShowInviteModal] = useState(false);
@@ -82,18 +100,42 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
     inProgressIssues: 0,
     storageUsed: 0
   });
+  const [workflowDraft, setWorkflowDraft] = useState<WorkflowStatus[]>(workflow.statuses);
+  const [isSavingWorkflow, setIsSavingWorkflow] = useState(false);
+  // The field being added (no id) or edited; options are edited one per line
+  const [fieldForm, setFieldForm] = useState<{ id?: string; name: string; type: CustomFieldType; options: string; required: boolean } | null>(null);
+  const [isSavingField, setIsSavingField] = useState(false);
+  // The template being added (no id) or edited; labels are typed comma-separated and story points may be left blank
+  const [templateForm, setTemplateForm] = useState<{
+    id?: string;
+    name: string;
+    issue_type: IssueTemplate['issue_type'];
+    title_pattern: string;
+    description: string;
+    priority: IssueTemplate['priority'];
+    labels: string;
+    story_points: string;
+    is_default: boolean;
+  } | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const isSuperAdmin = currentUser.role === 'super_admin';
+  const isOrgAdmin = ['super_admin', 'admin'].includes(currentUser.role);
+
+  // Someone else saving the workflow replaces the draft; unsaved edits here are lost, as with any other live update
+  useEffect(() => {
+    setWorkflowDraft(workflow.statuses);
+  }, [workflow]);
 
   const calculateStats = useCallback(() => {
     setStats({
       totalUsers: users.length,
       activeUsers: users.filter(u => u.is_active).length,
       totalIssues: issues.length,
-      completedIssues: issues.filter(i => i.status === 'DONE').length,
-      inProgressIssues: issues.filter(i => i.status === 'IN_PROGRESS').length,
+      completedIssues: issues.filter(i => workflow.isDone(i.status)).length,
+      inProgressIssues: issues.filter(i => workflow.isInProgress(i.status)).length,
       storageUsed: Math.round((users.length * 0.5 + issues.length * 0.1) * 100) / 100
     });
-  }, [issues, users]);
+  }, [issues, users, workflow]);
 
   useEffect(() => {
     calculateStats();
@@ -106,12 +148,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
     }
 
     try {
-      await apiCall(`/api/users/${selectedUser.id}/role`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          role: editForm.role,
-          is_active: editForm.is_active
-        })
+      await api.users.updateRole(selectedUser.id, {
+        role: editForm.role,
+        is_active: editForm.is_active
       });
 
       const updatedUsers = users.map(u =>
@@ -158,19 +197,16 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
     }
 
     try {
-      await apiCall('/api/users/invite', {
-        method: 'POST',
-        body: JSON.stringify({
-          email: inviteForm.email,
-          name: inviteForm.name,
-          role: inviteForm.role,
-          organization_id: organization.id
-        })
+      const response = await api.users.invite({
+        email: inviteForm.email,
+        name: inviteForm.name,
+        role: inviteForm.role,
+        organization_id: organization.id
       });
 
       // Create new user object
       const newUser: User = {
-        id: response.user_id || `user-${Date.now()}`,
+        id: response?.user_id || `user-${Date.now()}`,
         name: inviteForm.name,
         email: inviteForm.email,
         avatar: inviteForm.name.charAt(0).toUpperCase(),
@@ -189,6 +225,142 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
     }
   };
 
+  const updateWorkflowStatus = (index: number, changes: Partial<WorkflowStatus>) => {
+    setWorkflowDraft(prev => prev.map((status, i) => {
+      if (i !== index) return status;
+      const next = { ...status, ...changes };
+      // Saved statuses keep their key so issues in them stay put; new ones take theirs from the name
+      if (changes.name !== undefined && !workflow.has(status.id)) next.id = statusKeyFromName(changes.name);
+      return next;
+    }));
+  };
+
+  const moveWorkflowStatus = (index: number, offset: number) => {
+    setWorkflowDraft(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeWorkflowStatus = (index: number) => {
+    const status = workflowDraft[index];
+    const inUse = issues.filter(issue => issue.status === status.id).length;
+    if (inUse > 0) {
+      showToast('warning', 'Status In Use', `Move the ${inUse} issue${inUse === 1 ? '' : 's'} in ${status.name} to another status first`);
+      return;
+    }
+    setWorkflowDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleWorkflowSave = async () => {
+    const problems = validateWorkflow(workflowDraft);
+    if (problems.length > 0) {
+      showToast('warning', 'Validation Error', problems[0]);
+      return;
+    }
+
+    setIsSavingWorkflow(true);
+    try {
+      const saved = await api.workflow.update(workflowDraft.map(status => ({ ...status, name: status.name.trim() })));
+      onWorkflowUpdate(saved);
+      showToast('success', 'Workflow Saved', `The board now has ${saved.length} columns`);
+    } catch (error: any) {
+      showToast('error', 'Save Failed', error.message || 'Could not save the workflow');
+    } finally {
+      setIsSavingWorkflow(false);
+    }
+  };
+
+  const handleFieldSave = async () => {
+    if (!fieldForm) return;
+    const definition = {
+      name: fieldForm.name.trim(),
+      type: fieldForm.type,
+      options: hasFieldOptions(fieldForm.type) ? fieldForm.options.split('\n').map(option => option.trim()).filter(Boolean) : [],
+      required: fieldForm.required
+    };
+    const problem = fieldDefinitionProblem({ ...definition, id: fieldForm.id }, customFields);
+    if (problem) {
+      showToast('warning', 'Validation Error', problem);
+      return;
+    }
+
+    setIsSavingField(true);
+    try {
+      if (fieldForm.id) {
+        const saved = await api.customFields.update(fieldForm.id, definition);
+        onCustomFieldsUpdate(customFields.map(field => (field.id === saved.id ? saved : field)));
+      } else {
+        const saved = await api.customFields.create(definition);
+        onCustomFieldsUpdate([...customFields, saved]);
+      }
+      setFieldForm(null);
+      showToast('success', 'Field Saved', `${definition.name} is available on every issue`);
+    } catch (error: any) {
+      showToast('error', 'Save Failed', error.message || 'Could not save the field');
+    } finally {
+      setIsSavingField(false);
+    }
+  };
+
+  const handleFieldDelete = async (field: CustomFieldDefinition) => {
+    if (!window.confirm(`Delete "${field.name}"? Its value is removed from every issue.`)) return;
+    try {
+      await api.customFields.remove(field.id);
+      onCustomFieldsUpdate(customFields.filter(candidate => candidate.id !== field.id));
+      showToast('success', 'Field Deleted', `${field.name} has been removed`);
+    } catch (error: any) {
+      showToast('error', 'Delete Failed', error.message || 'Could not delete the field');
+    }
+  };
+
+  const handleTemplateSave = async () => {
+    if (!templateForm) return;
+    const template = {
+      name: templateForm.name.trim(),
+      issue_type: templateForm.issue_type,
+      title_pattern: templateForm.title_pattern,
+      description: templateForm.description,
+      priority: templateForm.priority,
+      labels: templateForm.labels.split(',').map(label => label.trim()).filter(Boolean),
+      story_points: templateForm.story_points.trim() ? Number(templateForm.story_points) : null,
+      is_default: templateForm.is_default
+    };
+    const problem = templateProblem({ ...template, id: templateForm.id }, issueTemplates);
+    if (problem) {
+      showToast('warning', 'Validation Error', problem);
+      return;
+    }
+
+    setIsSavingTemplate(true);
+    try {
+      const saved = templateForm.id
+        ? await api.issueTemplates.update(templateForm.id, template)
+        : await api.issueTemplates.create(template);
+      onIssueTemplatesUpdate(withSavedTemplate(issueTemplates, saved));
+      setTemplateForm(null);
+      showToast('success', 'Template Saved', `${template.name} is available when creating ${ISSUE_TYPE_LABELS[template.issue_type].toLowerCase()}s`);
+    } catch (error: any) {
+      showToast('error', 'Save Failed', error.message || 'Could not save the template');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleTemplateDelete = async (template: IssueTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template? Issues already created from it are not changed.`)) return;
+    try {
+      await api.issueTemplates.remove(template.id);
+      onIssueTemplatesUpdate(issueTemplates.filter(candidate => candidate.id !== template.id));
+      showToast('success', 'Template Deleted', `${template.name} has been removed`);
+    } catch (error: any) {
+      showToast('error', 'Delete Failed', error.message || 'Could not delete the template');
+    }
+  };
+
   const handleExportCSV = () => {
     const csvData = [
       ['Metric', 'Value'],
@@ -677,6 +849,625 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
     </div>
   );
 
+  const renderWorkflow = () => {
+    const isDirty = JSON.stringify(workflowDraft) !== JSON.stringify(workflow.statuses);
+    const inputStyle: React.CSSProperties = {
+      padding: '8px 10px',
+      background: '#0f172a',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '6px',
+      color: '#e2e8f0',
+      fontSize: '14px',
+      outline: 'none'
+    };
+    const iconButtonStyle: React.CSSProperties = {
+      background: 'transparent',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '6px',
+      color: '#94a3b8',
+      padding: '6px 10px',
+      cursor: 'pointer',
+      fontSize: '13px'
+    };
+
+    return (
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+          <div>
+            <h2 style={{ fontSize: '24px', fontWeight: '600', marginBottom: '8px', color: '#fff' }}>
+              Workflow
+            </h2>
+            <p style={{ color: '#94a3b8', fontSize: '14px', margin: 0 }}>
+              Each status is a board column, in this order. Its category decides whether issues in it count as open, in progress or done.
+            </p>
+          </div>
+          {isOrgAdmin && (
+            <div style={{ display: 'flex', gap: '12px' }}>
+              <button
+                onClick={() => setWorkflowDraft(workflow.statuses)}
+                disabled={!isDirty || isSavingWorkflow}
+                style={{ ...iconButtonStyle, padding: '10px 20px', fontSize: '14px', opacity: isDirty ? 1 : 0.5 }}
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleWorkflowSave}
+                disabled={!isDirty || isSavingWorkflow}
+                style={{
+                  background: 'linear-gradient(135deg, #667eea, #764ba2)',
+                  border: 'none',
+                  borderRadius: '8px',
+                  color: 'white',
+                  padding: '10px 20px',
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  cursor: isDirty && !isSavingWorkflow ? 'pointer' : 'not-allowed',
+                  opacity: isDirty && !isSavingWorkflow ? 1 : 0.5
+                }}
+              >
+                {isSavingWorkflow ? 'Saving...' : 'Save Workflow'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div style={{
+          background: 'rgba(255,255,255,0.05)',
+          border: '1px solid rgba(255,255,255,0.1)',
+          borderRadius: '12px',
+          padding: '24px',
+          display: 'grid',
+          gap: '12px'
+        }}>
+          {workflowDraft.map((status, index) => {
+            const issueCount = issues.filter(issue => issue.status === status.id).length;
+            return (
+              <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                <input
+                  type="color"
+                  value={status.color}
+                  disabled={!isOrgAdmin}
+                  onChange={(e) => updateWorkflowStatus(index, { color: e.target.value })}
+                  style={{ width: '36px', height: '36px', padding: 0, border: 'none', background: 'transparent', cursor: 'pointer' }}
+                />
+                <input
+                  type="text"
+                  value={status.name}
+                  disabled={!isOrgAdmin}
+                  placeholder="Status name"
+                  onChange={(e) => updateWorkflowStatus(index, { name: e.target.value })}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <span style={{ fontSize: '12px', color: '#64748b', fontFamily: 'monospace', minWidth: '120px' }}>
+                  {status.id || '—'}
+                </span>
+                <select
+                  value={status.category}
+                  disabled={!isOrgAdmin}
+                  onChange={(e) => updateWorkflowStatus(index, { category: e.target.value as StatusCategory })}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                >
+                  {STATUS_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{STATUS_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+                <span style={{ fontSize: '12px', color: '#94a3b8', minWidth: '70px', textAlign: 'right' }}>
+                  {issueCount} issue{issueCount === 1 ? '' : 's'}
+                </span>
+                {isOrgAdmin && (
+                  <>
+                    <button onClick={() => moveWorkflowStatus(index, -1)} disabled={index === 0} style={iconButtonStyle} title="Move left">
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveWorkflowStatus(index, 1)}
+                      disabled={index === workflowDraft.length - 1}
+                      style={iconButtonStyle}
+                      title="Move right"
+                    >
+                      ↓
+                    </button>
+                    <button onClick={() => removeWorkflowStatus(index)} style={{ ...iconButtonStyle, color: '#e74c3c' }} title="Remove status">
+                      {Icons.close(14)}
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {isOrgAdmin ? (
+            <button
+              onClick={() => setWorkflowDraft(prev => [...prev, { id: '', name: '', color: '#6554c0', category: 'in_progress' }])}
+              style={{ ...iconButtonStyle, borderStyle: 'dashed', padding: '10px', marginTop: '4px' }}
+            >
+              + Add Status
+            </button>
+          ) : (
+            <p style={{ fontSize: '13px', color: '#94a3b8', margin: '4px 0 0' }}>
+              Only admins can change the workflow.
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderFields = () => {
+    const inputStyle: React.CSSProperties = {
+      width: '100%',
+      padding: '10px 12px',
+      background: '#0f172a',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '6px',
+      color: '#e2e8f0',
+      fontSize: '14px',
+      outline: 'none'
+    };
+    const secondaryButtonStyle: React.CSSProperties = {
+      background: 'transparent',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '6px',
+      color: '#94a3b8',
+      padding: '6px 12px',
+      cursor: 'pointer',
+      fontSize: '13px'
+    };
+
+    return (
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+          <div>
+            <h2 style={{ fontSize: '24px', fontWeight: '600', marginBottom: '8px', color: '#fff' }}>
+              Custom Fields
+            </h2>
+            <p style={{ color: '#94a3b8', fontSize: '14px', margin: 0 }}>
+              Extra fields shown on every issue, filterable on the board and included in imports and exports.
+            </p>
+          </div>
+          {isOrgAdmin && !fieldForm && (
+            <button
+              onClick={() => setFieldForm({ name: '', type: 'text', options: '', required: false })}
+              style={{
+                background: 'linear-gradient(135deg, #667eea, #764ba2)',
+                border: 'none',
+                borderRadius: '8px',
+                color: 'white',
+                padding: '10px 20px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer'
+              }}
+            >
+              + Add Field
+            </button>
+          )}
+        </div>
+
+        {fieldForm && (
+          <div style={{
+            background: 'rgba(255,255,255,0.05)',
+            border: '1px solid rgba(102, 126, 234, 0.4)',
+            borderRadius: '12px',
+            padding: '24px',
+            marginBottom: '24px',
+            display: 'grid',
+            gap: '16px'
+          }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '16px' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '8px', fontSize: '14px', color: '#94a3b8', fontWeight: '500' }}>Name</label>
+                <input
+                  type="text"
+                  value={fieldForm.name}
+                  onChange={(e) => setFieldForm({ ...fieldForm, name: e.target.value })}
+                  placeholder="e.g. Customer"
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '8px', fontSize: '14px', color: '#94a3b8', fontWeight: '500' }}>Type</label>
+                <select
+                  value={fieldForm.type}
+                  onChange={(e) => setFieldForm({ ...fieldForm, type: e.target.value as CustomFieldType })}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                >
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {hasFieldOptions(fieldForm.type) && (
+              <div>
+                <label style={{ display: 'block', marginBottom: '8px', fontSize: '14px', color: '#94a3b8', fontWeight: '500' }}>
+                  Options (one per line)
+                </label>
+                <textarea
+                  value={fieldForm.options}
+                  onChange={(e) => setFieldForm({ ...fieldForm, options: e.target.value })}
+                  rows={4}
+                  placeholder={'Production\nStaging\nDevelopment'}
+                  style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+                />
+                {fieldForm.id && (
+                  <div style={{ fontSize: '12px', color: '#94a3b8', marginTop: '6px' }}>
+                    Issues set to an option you remove lose that value.
+                  </div>
+                )}
+              </div>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#e2e8f0', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={fieldForm.required}
+                onChange={(e) => setFieldForm({ ...fieldForm, required: e.target.checked })}
+                style={{ width: '16px', height: '16px' }}
+              />
+              Required when creating an issue
+            </label>
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+              <button onClick={() => setFieldForm(null)} disabled={isSavingField} style={{ ...secondaryButtonStyle, padding: '10px 20px', fontSize: '14px' }}>
+                Cancel
+              </button>
+              <button
+                onClick={handleFieldSave}
+                disabled={isSavingField}
+                style={{
+                  background: 'linear-gradient(135deg, #667eea, #764ba2)',
+                  border: 'none',
+                  borderRadius: '8px',
+                  color: 'white',
+                  padding: '10px 20px',
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  cursor: isSavingField ? 'not-allowed' : 'pointer',
+                  opacity: isSavingField ? 0.6 : 1
+                }}
+              >
+                {isSavingField ? 'Saving...' : fieldForm.id ? 'Save Field' : 'Add Field'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div style={{
+          background: 'rgba(255,255,255,0.05)',
+          border: '1px solid rgba(255,255,255,0.1)',
+          borderRadius: '12px',
+          overflow: 'hidden'
+        }}>
+          {customFields.length === 0 ? (
+            <div style={{ padding: '32px', textAlign: 'center', color: '#94a3b8', fontSize: '14px' }}>
+              No custom fields yet.
+            </div>
+          ) : customFields.map((field, index) => (
+            <div
+              key={field.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '16px',
+                padding: '16px 24px',
+                borderTop: index === 0 ? 'none' : '1px solid rgba(255,255,255,0.05)'
+              }}
+            >
+              <div style={{ flex: 1 }}>
+                <div style={{ fontSize: '15px', fontWeight: '600', color: '#e2e8f0' }}>
+                  {field.name}
+                  {field.required && <span style={{ color: '#e74c3c', fontSize: '12px', marginLeft: '8px' }}>Required</span>}
+                </div>
+                {field.options.length > 0 && (
+                  <div style={{ fontSize: '12px', color: '#94a3b8', marginTop: '4px' }}>{field.options.join(' · ')}</div>
+                )}
+              </div>
+              <span style={{
+                background: 'rgba(52, 152, 219, 0.15)',
+                color: '#3498db',
+                padding: '4px 10px',
+                borderRadius: '12px',
+                fontSize: '12px',
+                fontWeight: '600'
+              }}>
+                {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+              </span>
+              {isOrgAdmin && (
+                <>
+                  <button
+                    onClick={() => setFieldForm({ id: field.id, name: field.name, type: field.type, options: field.options.join('\n'), required: field.required })}
+                    style={secondaryButtonStyle}
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => handleFieldDelete(field)} style={{ ...secondaryButtonStyle, color: '#e74c3c' }}>
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!isOrgAdmin && (
+          <p style={{ fontSize: '13px', color: '#94a3b8', marginTop: '12px' }}>
+            Only admins can change custom fields.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderTemplates = () => {
+    const inputStyle: React.CSSProperties = {
+      width: '100%',
+      padding: '10px 12px',
+      background: '#0f172a',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '6px',
+      color: '#e2e8f0',
+      fontSize: '14px',
+      outline: 'none'
+    };
+    const secondaryButtonStyle: React.CSSProperties = {
+      background: 'transparent',
+      border: '1px solid rgba(255,255,255,0.1)',
+      borderRadius: '6px',
+      color: '#94a3b8',
+      padding: '6px 12px',
+      cursor: 'pointer',
+      fontSize: '13px'
+    };
+    const labelStyle: React.CSSProperties = { display: 'block', marginBottom: '8px', fontSize: '14px', color: '#94a3b8', fontWeight: '500' };
+
+    return (
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+          <div>
+            <h2 style={{ fontSize: '24px', fontWeight: '600', marginBottom: '8px', color: '#fff' }}>
+              Issue Templates
+            </h2>
+            <p style={{ color: '#94a3b8', fontSize: '14px', margin: 0 }}>
+              Starting points for new issues. A type's default fills in the create form on its own; the rest are picked from it.
+            </p>
+          </div>
+          {isOrgAdmin && !templateForm && (
+            <button
+              onClick={() => setTemplateForm({
+                name: '',
+                issue_type: 'BUG',
+                title_pattern: '',
+                description: '',
+                priority: 'MEDIUM',
+                labels: '',
+                story_points: '',
+                is_default: false
+              })}
+              style={{
+                background: 'linear-gradient(135deg, #667eea, #764ba2)',
+                border: 'none',
+                borderRadius: '8px',
+                color: 'white',
+                padding: '10px 20px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer'
+              }}
+            >
+              + Add Template
+            </button>
+          )}
+        </div>
+
+        {templateForm && (
+          <div style={{
+            background: 'rgba(255,255,255,0.05)',
+            border: '1px solid rgba(102, 126, 234, 0.4)',
+            borderRadius: '12px',
+            padding: '24px',
+            marginBottom: '24px',
+            display: 'grid',
+            gap: '16px'
+          }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '16px' }}>
+              <div>
+                <label style={labelStyle}>Name</label>
+                <input
+                  type="text"
+                  value={templateForm.name}
+                  onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                  placeholder="e.g. Bug report"
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Issue type</label>
+                <select
+                  value={templateForm.issue_type}
+                  onChange={(e) => setTemplateForm({ ...templateForm, issue_type: e.target.value as IssueTemplate['issue_type'] })}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                >
+                  {(Object.keys(ISSUE_TYPE_LABELS) as IssueTemplate['issue_type'][]).map(type => (
+                    <option key={type} value={type}>{ISSUE_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label style={labelStyle}>Title pattern</label>
+              <input
+                type="text"
+                value={templateForm.title_pattern}
+                onChange={(e) => setTemplateForm({ ...templateForm, title_pattern: e.target.value })}
+                placeholder="e.g. [Bug] or [Incident {date}]"
+                style={inputStyle}
+              />
+              <div style={{ fontSize: '12px', color: '#94a3b8', marginTop: '6px' }}>
+                {'{date}'} becomes the day the issue is filed.
+              </div>
+            </div>
+            <div>
+              <label style={labelStyle}>Description</label>
+              <textarea
+                value={templateForm.description}
+                onChange={(e) => setTemplateForm({ ...templateForm, description: e.target.value })}
+                rows={8}
+                placeholder={'## Steps to reproduce\n\n## Expected\n\n## Actual\n\n## Environment'}
+                style={{ ...inputStyle, resize: 'vertical', fontFamily: 'monospace' }}
+              />
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr 1fr', gap: '16px' }}>
+              <div>
+                <label style={labelStyle}>Priority</label>
+                <select
+                  value={templateForm.priority}
+                  onChange={(e) => setTemplateForm({ ...templateForm, priority: e.target.value as IssueTemplate['priority'] })}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                >
+                  <option value="LOWEST">Lowest</option>
+                  <option value="LOW">Low</option>
+                  <option value="MEDIUM">Medium</option>
+                  <option value="HIGH">High</option>
+                  <option value="HIGHEST">Highest</option>
+                </select>
+              </div>
+              <div>
+                <label style={labelStyle}>Labels (comma separated)</label>
+                <input
+                  type="text"
+                  value={templateForm.labels}
+                  onChange={(e) => setTemplateForm({ ...templateForm, labels: e.target.value })}
+                  placeholder="bug, customer"
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Story points</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="21"
+                  value={templateForm.story_points}
+                  onChange={(e) => setTemplateForm({ ...templateForm, story_points: e.target.value })}
+                  placeholder="Unset"
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#e2e8f0', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={templateForm.is_default}
+                onChange={(e) => setTemplateForm({ ...templateForm, is_default: e.target.checked })}
+                style={{ width: '16px', height: '16px' }}
+              />
+              Default for new {ISSUE_TYPE_LABELS[templateForm.issue_type].toLowerCase()}s
+            </label>
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+              <button onClick={() => setTemplateForm(null)} disabled={isSavingTemplate} style={{ ...secondaryButtonStyle, padding: '10px 20px', fontSize: '14px' }}>
+                Cancel
+              </button>
+              <button
+                onClick={handleTemplateSave}
+                disabled={isSavingTemplate}
+                style={{
+                  background: 'linear-gradient(135deg, #667eea, #764ba2)',
+                  border: 'none',
+                  borderRadius: '8px',
+                  color: 'white',
+                  padding: '10px 20px',
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  cursor: isSavingTemplate ? 'not-allowed' : 'pointer',
+                  opacity: isSavingTemplate ? 0.6 : 1
+                }}
+              >
+                {isSavingTemplate ? 'Saving...' : templateForm.id ? 'Save Template' : 'Add Template'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div style={{
+          background: 'rgba(255,255,255,0.05)',
+          border: '1px solid rgba(255,255,255,0.1)',
+          borderRadius: '12px',
+          overflow: 'hidden'
+        }}>
+          {issueTemplates.length === 0 ? (
+            <div style={{ padding: '32px', textAlign: 'center', color: '#94a3b8', fontSize: '14px' }}>
+              No issue templates yet.
+            </div>
+          ) : sortTemplates(issueTemplates).map((template, index) => (
+            <div
+              key={template.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '16px',
+                padding: '16px 24px',
+                borderTop: index === 0 ? 'none' : '1px solid rgba(255,255,255,0.05)'
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: '15px', fontWeight: '600', color: '#e2e8f0' }}>
+                  {template.name}
+                  {template.is_default && <span style={{ color: '#2ecc71', fontSize: '12px', marginLeft: '8px' }}>Default</span>}
+                </div>
+                <div style={{ fontSize: '12px', color: '#94a3b8', marginTop: '4px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {[
+                    template.title_pattern && `Title: ${template.title_pattern}`,
+                    `Priority: ${template.priority.charAt(0)}${template.priority.slice(1).toLowerCase()}`,
+                    template.labels.length > 0 && `Labels: ${template.labels.join(', ')}`,
+                    template.story_points !== null && `${template.story_points} pts`
+                  ].filter(Boolean).join(' · ')}
+                </div>
+              </div>
+              <span style={{
+                background: 'rgba(52, 152, 219, 0.15)',
+                color: '#3498db',
+                padding: '4px 10px',
+                borderRadius: '12px',
+                fontSize: '12px',
+                fontWeight: '600'
+              }}>
+                {ISSUE_TYPE_LABELS[template.issue_type]}
+              </span>
+              {isOrgAdmin && (
+                <>
+                  <button
+                    onClick={() => setTemplateForm({
+                      id: template.id,
+                      name: template.name,
+                      issue_type: template.issue_type,
+                      title_pattern: template.title_pattern,
+                      description: template.description,
+                      priority: template.priority,
+                      labels: template.labels.join(', '),
+                      story_points: template.story_points === null ? '' : String(template.story_points),
+                      is_default: template.is_default
+                    })}
+                    style={secondaryButtonStyle}
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => handleTemplateDelete(template)} style={{ ...secondaryButtonStyle, color: '#e74c3c' }}>
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {!isOrgAdmin && (
+          <p style={{ fontSize: '13px', color: '#94a3b8', marginTop: '12px' }}>
+            Only admins can change issue templates.
+          </p>
+        )}
+      </div>
+    );
+  };
+
   const renderAnalytics = () => {
     // Calculate data from issues for charts
     const issuesByStatus = issues.reduce((acc, issue) => {
@@ -689,12 +1480,13 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
       return acc;
     }, {} as Record<string, number>);
 
-    const statusDistributionData = [
-      { name: 'TODO', value: issuesByStatus['TODO'] || 0, color: '#94a3b8' },
-      { name: 'IN PROGRESS', value: issuesByStatus['IN_PROGRESS'] || 0, color: '#f39c12' },
-      { name: 'REVIEW', value: issuesByStatus['REVIEW'] || 0, color: '#3498db' },
-      { name: 'DONE', value: issuesByStatus['DONE'] || 0, color: '#2ecc71' }
-    ];
+    const statusDistributionData = workflow.statuses.map(status => ({
+      name: status.name.toUpperCase(),
+      value: issuesByStatus[status.id] || 0,
+      color: status.color
+    }));
+    const countInCategory = (category: StatusCategory) =>
+      workflow.inCategory(category).reduce((sum, status) => sum + (issuesByStatus[status.id] || 0), 0);
 
     const priorityData = [
       { priority: 'HIGHEST', count: issuesByPriority['HIGHEST'] || 0 },
@@ -720,7 +1512,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
 
       const completedIssues = issues.filter(issue => {
         const issueDate = new Date(issue.updated_at || issue.created_at).toISOString().split('T')[0];
-        return issueDate === dateStr && issue.status === 'DONE';
+        return issueDate === dateStr && workflow.isDone(issue.status);
       });
 
       last7Days.push({
@@ -744,7 +1536,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
       });
 
       const assignedCount = weekIssues.length;
-      const completedCount = weekIssues.filter(i => i.status === 'DONE').length;
+      const completedCount = weekIssues.filter(i => workflow.isDone(i.status)).length;
       const velocity = Math.round((completedCount / (assignedCount || 1)) * 100);
 
       weeklyData.push({
@@ -757,12 +1549,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
 
     // Calculate user activity metrics (average across all users)
     const totalIssues = issues.length || 1;
-    const completedIssues = issues.filter(i => i.status === 'DONE').length;
+    const completedIssues = countInCategory('done');
     const userActivityData = [
       { metric: 'Issues Created', value: Math.min(100, Math.round((totalIssues / 50) * 100)), fullMark: 100 },
       { metric: 'Completion Rate', value: Math.round((completedIssues / totalIssues) * 100), fullMark: 100 },
-      { metric: 'In Progress', value: Math.round((issuesByStatus['IN_PROGRESS'] || 0) / totalIssues * 100), fullMark: 100 },
-      { metric: 'Review', value: Math.round((issuesByStatus['REVIEW'] || 0) / totalIssues * 100), fullMark: 100 },
+      { metric: 'In Progress', value: Math.round(countInCategory('in_progress') / totalIssues * 100), fullMark: 100 },
+      { metric: 'Not Started', value: Math.round(countInCategory('todo') / totalIssues * 100), fullMark: 100 },
       { metric: 'Collaboration', value: users.length > 1 ? 75 : 30, fullMark: 100 }
     ];
 
@@ -793,6 +1585,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
           onExportPDF={handleExportPDF}
           onExportCSV={handleExportCSV}
           onFilterChange={handleFilterChange}
+          statuses={workflow.statuses}
         />
 
         {/* First Row - Activity and Distribution */}
@@ -841,7 +1634,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
           <div style={{ display: 'grid', gap: '16px' }}>
             {users.slice(0, 5).map(user => {
               const userIssues = issues.filter(i => i.assignee_id === user.id);
-              const completed = userIssues.filter(i => i.status === 'DONE').length;
+              const completed = userIssues.filter(i => workflow.isDone(i.status)).length;
               const total = userIssues.length || 1;
               const percentage = Math.round((completed / total) * 100);
 
@@ -919,6 +1712,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
           { id: 'overview', label: 'Overview', icon: '📊' },
           { id: 'users', label: 'Users', icon: '👥' },
           { id: 'settings', label: 'Settings', icon: '⚙️' },
+          { id: 'workflow', label: 'Workflow', icon: '🔀' },
+          { id: 'fields', label: 'Fields', icon: '🧩' },
+          { id: 'templates', label: 'Templates', icon: '📝' },
           { id: 'analytics', label: 'Analytics', icon: '📈' }
         ].map(tab => (
           <button
@@ -951,6 +1747,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
         {activeTab === 'overview' && renderOverview()}
         {activeTab === 'users' && renderUsers()}
         {activeTab === 'settings' && renderSettings()}
+        {activeTab === 'workflow' && renderWorkflow()}
+        {activeTab === 'fields' && renderFields()}
+        {activeTab === 'templates' && renderTemplates()}
         {activeTab === 'analytics' && renderAnalytics()}
       </div>
 
@@ -7,6 +7,8 @@ interface AnalyticsControlsProps {
   onExportPDF?: () => void;
   onExportCSV?: () => void;
   onFilterChange?: (filters: AnalyticsFilters) => void;
+  /** The organization's workflow statuses, in board order. */
+  statuses: Array<{ id: string; name: string }>;
 }
 
 export interface AnalyticsFilters {
@@ -19,7 +21,8 @@ export interface AnalyticsFilters {
 const AnalyticsControls: React.FC<AnalyticsControlsProps> = ({
   onExportPDF,
   onExportCSV,
-  onFilterChange
+  onFilterChange,
+  statuses
 }) => {
   const [filters, setFilters] = useState<AnalyticsFilters>({
     dateRange: '7days'
@@ -210,7 +213,7 @@ const AnalyticsControls: React.FC<AnalyticsControlsProps> = ({
                 Issue Status
               </label>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                {['TODO', 'IN_PROGRESS', 'REVIEW', 'DONE'].map(status => (
+                {statuses.map(({ id: status, name }) => (
                   <label key={status} style={{
                     display: 'flex',
                     alignItems: 'center',
@@ -229,7 +232,7 @@ const AnalyticsControls: React.FC<AnalyticsControlsProps> = ({
                       }}
                     />
                     <span style={{ fontSize: '13px', color: '#e2e8f0' }}>
-                      {status.replace('_', ' ')}
+                      {name}
                     </span>
                   </label>
                 ))}
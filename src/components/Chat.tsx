@@ -1,5 +1,11 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Icons from './icons';
+import { ApiClient } from '../apiClient.ts';
+import { DataStore, useResourceList } from '../dataStore.ts';
+import { applyPresenceEvent, describeLastSeen, PRESENCE_COLORS, presenceOf } from '../presence.ts';
+import { PresenceStatus } from '../types.ts';
+import PresenceDot from './PresenceDot.tsx';
+import { createTypingThrottle, describeTypingUsers, TYPING_TIMEOUT_MS } from '../typingIndicator.ts';
 
 // Type definitions for Chat
 interface Message {
@@ -33,13 +39,16 @@ interface User {
   email: string;
   avatar: string;
   is_online?: boolean;
+  presence?: PresenceStatus;
+  last_seen?: string;
   organization_id: string;
 }
 
 interface ChatProps {
   visible: boolean;
   onClose: () => void;
-  apiCall: (endpoint: string, options?: RequestInit) => Promise<any>;
+  api: ApiClient;
+  dataStore: DataStore;
   wsRef: React.MutableRefObject<WebSocket | null>;
   currentUser?: {
     id: string;
@@ -51,22 +60,26 @@ interface ChatProps {
   showToast?: (type: 'success' | 'error' | 'warning' | 'info', title: string, message: string) => void;
 }
 
-const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUser, showToast }) => {
+const Chat: React.FC<ChatProps> = ({ visible, onClose, api, dataStore, wsRef, currentUser, showToast }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
-  const [users, setUsers] = useState<User[]>([]);
+  const organizationUsers = useResourceList(dataStore, 'users');
+  const users: User[] = useMemo(
+    () => organizationUsers.filter(u => u.id !== currentUser?.id),
+    [organizationUsers, currentUser?.id]
+  );
   const [view, setView] = useState<'conversations' | 'chat' | 'users' | 'participants'>('conversations');
-  const [typingUsers, setTypingUsers] = useState<string[]>([]);
-  const [isTyping, setIsTyping] = useState(false);
+  // Who is typing in each conversation, by user id
+  const [typingByConversation, setTypingByConversation] = useState<Record<string, string[]>>({});
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'connecting'>('disconnected');
   const [error, setError] = useState<string | null>(null);
   const [hoveredMessageId, setHoveredMessageId] = useState<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const typingTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
   const messageInputRef = useRef<HTMLTextAreaElement>(null);
 
   // Scroll to bottom of messages
@@ -90,19 +103,13 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
       console.log('Chat: Loading data for user:', currentUser.name);
 
       // Load conversations
-      const conversationsData = await apiCall('/api/chat/conversations');
-      console.log('Chat: Loaded conversations:', conversationsData);
-      const conversationsArray = Array.isArray(conversationsData) ? conversationsData : (conversationsData?.conversations || []);
+      const conversationsArray = await api.chat.listConversations<Conversation>();
+      console.log('Chat: Loaded conversations:', conversationsArray);
       setConversations(conversationsArray);
 
-      // Load users for creating conversations
-      const usersData = await apiCall('/api/users');
-      console.log('Chat: Loaded users from API:', usersData);
-      const usersArray = Array.isArray(usersData) ? usersData : (usersData?.users || []);
-      console.log('Chat: Users array:', usersArray);
-      const filteredUsers = usersArray.filter((u: User) => u.id !== currentUser.id);
-      console.log('Chat: Filtered users (excluding current user):', filteredUsers);
-      setUsers(filteredUsers);
+      // Load users for creating conversations (shared with the rest of the app, so usually cached)
+      const usersArray = await dataStore.read('users');
+      console.log('Chat: Loaded users:', usersArray.length);
 
       // Set default general conversation if exists
       const generalConv = conversationsArray.find((c: Conversation) => c.type === 'general');
@@ -117,15 +124,12 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
     } finally {
       setIsLoading(false);
     }
-  }, [apiCall, currentUser, activeConversation]);
+  }, [api, dataStore, currentUser, activeConversation]);
 
   // Load messages for active conversation
   const loadMessages = useCallback(async (conversationId: string) => {
     try {
-      const messagesData = await apiCall(`/api/chat/conversations/${conversationId}/messages`);
-      console.log('Chat: Loaded messages data:', messagesData);
-      // Ensure we always set an array
-      const messagesArray = Array.isArray(messagesData) ? messagesData : (messagesData?.messages || []);
+      const messagesArray = await api.chat.listMessages<Message>(conversationId);
       console.log('Chat: Messages array:', messagesArray);
       setMessages(messagesArray);
     } catch (error) {
@@ -133,7 +137,24 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
       setError('Failed to load messages: ' + (error instanceof Error ? error.message : String(error)));
       setMessages([]); // Set empty array on error
     }
-  }, [apiCall]);
+  }, [api]);
+
+  const clearTypingUser = useCallback((conversationId: string, userId: string) => {
+    const timerKey = `${conversationId}:${userId}`;
+    const timer = typingTimersRef.current.get(timerKey);
+    if (timer) clearTimeout(timer);
+    typingTimersRef.current.delete(timerKey);
+    setTypingByConversation(prev => {
+      const typing = prev[conversationId];
+      if (!typing?.includes(userId)) return prev;
+      return { ...prev, [conversationId]: typing.filter(id => id !== userId) };
+    });
+  }, []);
+
+  useEffect(() => {
+    const timers = typingTimersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }, []);
 
   // WebSocket connection setup
   const connectSocket = useCallback(() => {
@@ -151,6 +172,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
 
           switch (data.type) {
             case 'chat_message':
+              clearTypingUser(data.message.conversation_id, data.message.sender_id);
               // Prevent duplicate messages
               setMessages(prev => {
                 if (prev.some(m => m.id === data.message.id)) {
@@ -179,25 +201,24 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
               }
               break;
               
-            case 'user_typing':
-              if (data.user_id !== currentUser?.id) {
-                setTypingUsers(prev => [...prev.filter(id => id !== data.user_id), data.user_id]);
-                setTimeout(() => {
-                  setTypingUsers(prev => prev.filter(id => id !== data.user_id));
-                }, 3000);
-              }
+            case 'user_typing': {
+              const { conversation_id: conversationId, user_id: typingUserId } = data;
+              if (!conversationId || !typingUserId || typingUserId === currentUser?.id) break;
+              const timerKey = `${conversationId}:${typingUserId}`;
+              const timer = typingTimersRef.current.get(timerKey);
+              if (timer) clearTimeout(timer);
+              typingTimersRef.current.set(timerKey, setTimeout(() => clearTypingUser(conversationId, typingUserId), TYPING_TIMEOUT_MS));
+              setTypingByConversation(prev => {
+                const typing: string[] = prev[conversationId] || [];
+                return typing.includes(typingUserId) ? prev : { ...prev, [conversationId]: [...typing, typingUserId] };
+              });
               break;
+            }
               
             case 'user_online':
-              setUsers(prev => prev.map(u => 
-                u.id === data.user_id ? { ...u, is_online: true } : u
-              ));
-              break;
-              
             case 'user_offline':
-              setUsers(prev => prev.map(u =>
-                u.id === data.user_id ? { ...u, is_online: false } : u
-              ));
+            case 'presence_changed':
+              dataStore.setList('users', prev => applyPresenceEvent(prev, data));
               break;
 
             case 'message_deleted':
@@ -211,7 +232,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
         }
       };
     }
-  }, [wsRef, currentUser?.id]);
+  }, [wsRef, dataStore, currentUser?.id, clearTypingUser]);
 
   // Initialize chat when visible
   useEffect(() => {
@@ -228,25 +249,20 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
     }
   }, [activeConversation, loadMessages]);
 
-  // Handle typing indicator
-  const handleTyping = useCallback(() => {
-    if (!isTyping && activeConversation && wsRef.current) {
-      setIsTyping(true);
+  // Handle typing indicator (throttled, so a burst of keystrokes sends one frame every couple of seconds)
+  const notifyTyping = useMemo(() => createTypingThrottle(conversationId => {
+    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({
         type: 'user_typing',
-        conversation_id: activeConversation.id,
+        conversation_id: conversationId,
         user_id: currentUser?.id
       }));
     }
+  }), [wsRef, currentUser?.id]);
 
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
-    }
-
-    typingTimeoutRef.current = setTimeout(() => {
-      setIsTyping(false);
-    }, 1000);
-  }, [isTyping, activeConversation, wsRef, currentUser?.id]);
+  const handleTyping = useCallback(() => {
+    if (activeConversation) notifyTyping(activeConversation.id);
+  }, [activeConversation, notifyTyping]);
 
   // Send message
   const sendMessage = useCallback(async () => {
@@ -254,16 +270,10 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
 
     const messageContent = newMessage.trim();
     setNewMessage('');
-    setIsTyping(false);
+    notifyTyping.reset();
 
     try {
-      const message = await apiCall('/api/chat/messages', {
-        method: 'POST',
-        body: JSON.stringify({
-          content: messageContent,
-          conversation_id: activeConversation.id
-        })
-      });
+      const message = await api.chat.sendMessage<Message>(activeConversation.id, messageContent);
 
       // Add message optimistically (will be filtered if duplicate comes via WebSocket)
       setMessages(prev => {
@@ -289,16 +299,14 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
       setError('Failed to send message');
       setNewMessage(messageContent);
     }
-  }, [newMessage, activeConversation, currentUser, apiCall, wsRef]);
+  }, [newMessage, activeConversation, currentUser, api, wsRef, notifyTyping]);
 
   // Delete message
   const deleteMessage = useCallback(async (messageId: string) => {
     if (!currentUser) return;
 
     try {
-      await apiCall(`/api/chat/messages/${messageId}`, {
-        method: 'DELETE'
-      });
+      await api.chat.deleteMessage(messageId);
 
       // Optimistically remove from UI
       setMessages(prev => prev.filter(m => m.id !== messageId));
@@ -308,7 +316,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
       console.error('Failed to delete message:', error);
       setError('Failed to delete message');
     }
-  }, [currentUser, apiCall]);
+  }, [currentUser, api]);
 
   // Create new conversation
 
@@ -324,19 +332,13 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
 
     try {
 
-      const conversation = await apiCall('/api/chat/conversations', {
-
-        method: 'POST',
+      const conversation = await api.chat.createConversation<Conversation>({
 
-        body: JSON.stringify({
+        participants,
 
-          participants,
+        name,
 
-          name,
-
-          type: participants.length > 2 ? 'group' : (participants.length === 2 ? 'direct' : 'team')
-
-        })
+        type: participants.length > 2 ? 'group' : (participants.length === 2 ? 'direct' : 'team')
 
       });
 
@@ -356,7 +358,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
 
     }
 
-  }, [apiCall, currentUser]);
+  }, [api, currentUser]);
 
   // Format timestamp
   const formatTime = useCallback((timestamp: string) => {
@@ -466,23 +468,12 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
                 fontWeight: '600'
               }}>
                 {user.avatar}
-                {user.is_online && (
-                  <div style={{
-                    position: 'absolute',
-                    bottom: 0,
-                    right: 0,
-                    width: '12px',
-                    height: '12px',
-                    background: '#36b37e',
-                    borderRadius: '50%',
-                    border: '2px solid white'
-                  }} />
-                )}
+                <PresenceDot user={user} size={10} borderColor="white" style={{ position: 'absolute', bottom: 0, right: 0 }} />
               </div>
               <div>
                 <div style={{ fontWeight: '600', color: '#172b4d' }}>{user.name}</div>
                 <div style={{ fontSize: '12px', color: '#6b778c' }}>
-                  {user.is_online ? 'Online' : 'Offline'}
+                  {describeLastSeen(user)}
                 </div>
               </div>
             </div>
@@ -492,6 +483,10 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
     </div>
   );
 
+  // Conversation participants are a snapshot from when the conversation loaded; presence comes from the shared users list
+  const withLivePresence = (participant: User): User =>
+    organizationUsers.find(u => u.id === participant.id) ?? participant;
+
   // Render participants list
   const renderParticipantsList = () => (
     <div style={{ padding: '20px', height: '100%', overflowY: 'auto' }}>
@@ -539,18 +534,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
               fontWeight: '600'
             }}>
               {participant.avatar}
-              {participant.is_online && (
-                <div style={{
-                  position: 'absolute',
-                  bottom: 0,
-                  right: 0,
-                  width: '12px',
-                  height: '12px',
-                  background: '#36b37e',
-                  borderRadius: '50%',
-                  border: '2px solid white'
-                }} />
-              )}
+              <PresenceDot user={withLivePresence(participant)} size={10} borderColor="white" style={{ position: 'absolute', bottom: 0, right: 0 }} />
             </div>
             <div style={{ flex: 1 }}>
               <div style={{ fontWeight: '600', color: '#172b4d' }}>
@@ -563,8 +547,11 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
                 {participant.email}
               </div>
             </div>
-            <div style={{ fontSize: '11px', color: participant.is_online ? '#36b37e' : '#6b778c' }}>
-              {participant.is_online ? 'Online' : 'Offline'}
+            <div style={{
+              fontSize: '11px',
+              color: presenceOf(withLivePresence(participant)) === 'offline' ? '#6b778c' : PRESENCE_COLORS[presenceOf(withLivePresence(participant))]
+            }}>
+              {describeLastSeen(withLivePresence(participant))}
             </div>
           </div>
         ))}
@@ -682,6 +669,9 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
     </div>
   );
 
+  const typingNames = (activeConversation ? typingByConversation[activeConversation.id] || [] : [])
+    .map(id => users.find(u => u.id === id)?.name.split(' ')[0] || 'Someone');
+
   // Render chat messages
   const renderChat = () => (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
@@ -887,7 +877,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
         })}
         
         {/* Typing indicators */}
-        {typingUsers.length > 0 && (
+        {typingNames.length > 0 && (
           <div style={{
             display: 'flex',
             alignItems: 'center',
@@ -922,7 +912,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
                 animation: 'typing 1.4s infinite ease-in-out 0.4s'
               }} />
             </div>
-            {typingUsers.length === 1 ? 'Someone is' : 'Multiple people are'} typing...
+            {describeTypingUsers(typingNames)}
           </div>
         )}
         
@@ -945,7 +935,7 @@ const Chat: React.FC<ChatProps> = ({ visible, onClose, apiCall, wsRef, currentUs
             value={newMessage}
             onChange={(e) => {
               setNewMessage(e.target.value);
-              handleTyping();
+              if (e.target.value.trim()) handleTyping();
             }}
             onKeyPress={(e) => {
               if (e.key === 'Enter' && !e.shiftKey) {
@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import { findDependencyCycles } from '../issueLinks.ts';
+import { Issue, IssueLink } from '../types.ts';
+import { Workflow } from '../workflow.ts';
+
+interface DependencyGraphProps {
+  links: IssueLink[];
+  getIssue: (issueId: string) => Issue | undefined;
+  workflow: Workflow;
+  onOpenIssue: (issueKey: string) => void;
+  /** Also draw duplicates, clones and relates-to links; only blocking links decide the layout. */
+  showAllLinks?: boolean;
+}
+
+interface GraphNode {
+  id: string;
+  key: string;
+  x: number;
+  y: number;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 90;
+const ROW_GAP = 20;
+const PADDING = 24;
+
+const byKeyNumber = (a: { key: string }, b: { key: string }) => a.key.localeCompare(b.key, undefined, { numeric: true });
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Blockers sit left of what they block: each issue's column is the longest chain of blockers in front of it.
+// Issues caught in a cycle share a column, since no order between them is right.
+const layoutNodes = (links: IssueLink[], componentOf: Map<string, number>): GraphNode[] => {
+  const keys = new Map<string, string>();
+  links.forEach(link => {
+    keys.set(link.source_id, link.source_key);
+    keys.set(link.target_id, link.target_key);
+  });
+
+  const blockersOf = new Map<number, Set<number>>();
+  links.forEach(link => {
+    if (link.type !== 'blocks') return;
+    const from = componentOf.get(link.source_id)!;
+    const to = componentOf.get(link.target_id)!;
+    if (from === to) return;
+    blockersOf.set(to, (blockersOf.get(to) ?? new Set()).add(from));
+  });
+  const columns = new Map<number, number>();
+  const columnOf = (component: number): number => {
+    if (!columns.has(component)) {
+      const blockers = Array.from(blockersOf.get(component) ?? []);
+      columns.set(component, blockers.length === 0 ? 0 : Math.max(...blockers.map(columnOf)) + 1);
+    }
+    return columns.get(component)!;
+  };
+
+  const byColumn = new Map<number, Array<{ id: string; key: string }>>();
+  keys.forEach((key, id) => {
+    const component = componentOf.get(id);
+    const column = component === undefined ? 0 : columnOf(component);
+    byColumn.set(column, [...(byColumn.get(column) ?? []), { id, key }]);
+  });
+
+  return Array.from(byColumn.entries()).flatMap(([column, members]) =>
+    members.sort(byKeyNumber).map((member, row) => ({
+      ...member,
+      x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP)
+    }))
+  );
+};
+
+const DependencyGraph: React.FC<DependencyGraphProps> = ({ links, getIssue, workflow, onOpenIssue, showAllLinks = false }) => {
+  const visibleLinks = useMemo(
+    () => (showAllLinks ? links : links.filter(link => link.type === 'blocks')),
+    [links, showAllLinks]
+  );
+  const cycles = useMemo(() => findDependencyCycles(links), [links]);
+  const nodes = useMemo(() => layoutNodes(visibleLinks, cycles.componentOf), [visibleLinks, cycles]);
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+  if (nodes.length === 0) {
+    return (
+      <div style={{ padding: '48px', textAlign: 'center', color: '#6b778c' }}>
+        No {showAllLinks ? 'linked' : 'blocking'} issues yet. Add links from an issue to see how work depends on each other.
+      </div>
+    );
+  }
+
+  const width = Math.max(...nodes.map(node => node.x)) + NODE_WIDTH + PADDING;
+  const height = Math.max(...nodes.map(node => node.y)) + NODE_HEIGHT + PADDING;
+
+  return (
+    <div style={{ overflow: 'auto', background: '#fafbfc', border: '1px solid #e1e5e9', borderRadius: '8px' }}>
+      <svg width={width} height={height} style={{ display: 'block' }}>
+        <defs>
+          <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b778c" />
+          </marker>
+          <marker id="dependency-arrow-cycle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#de350b" />
+          </marker>
+        </defs>
+
+        {visibleLinks.map(link => {
+          const source = nodesById.get(link.source_id);
+          const target = nodesById.get(link.target_id);
+          if (!source || !target) return null;
+          const inCycle = cycles.linkIds.has(link.id);
+          const x1 = source.x + NODE_WIDTH;
+          const y1 = source.y + NODE_HEIGHT / 2;
+          const x2 = target.x;
+          const y2 = target.y + NODE_HEIGHT / 2;
+          // Links back into the same or an earlier column bow out so they don't run under the cards
+          const bend = x2 > x1 ? (x2 - x1) / 2 : NODE_WIDTH / 2 + COLUMN_GAP;
+          return (
+            <path
+              key={link.id}
+              d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+              fill="none"
+              stroke={inCycle ? '#de350b' : link.type === 'blocks' ? '#6b778c' : '#b3bac5'}
+              strokeWidth={inCycle ? 2.5 : 1.5}
+              strokeDasharray={link.type === 'blocks' ? undefined : '5 4'}
+              markerEnd={link.type === 'relates_to' ? undefined : `url(#${inCycle ? 'dependency-arrow-cycle' : 'dependency-arrow'})`}
+            >
+              <title>{`${link.source_key} ${link.type.replace('_', ' ')} ${link.target_key}`}</title>
+            </path>
+          );
+        })}
+
+        {nodes.map(node => {
+          const issue = getIssue(node.id);
+          const inCycle = cycles.issueIds.has(node.id);
+          return (
+            <g key={node.id} transform={`translate(${node.x}, ${node.y})`} onClick={() => onOpenIssue(node.key)} style={{ cursor: 'pointer' }}>
+              <title>{issue ? `${node.key}: ${issue.title}` : node.key}</title>
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={8}
+                fill={inCycle ? '#ffebe6' : 'white'}
+                stroke={inCycle ? '#de350b' : '#dfe1e6'}
+                strokeWidth={inCycle ? 2 : 1}
+              />
+              <rect width={4} height={NODE_HEIGHT - 16} x={8} y={8} rx={2} fill={issue ? workflow.colorOf(issue.status) : '#dfe1e6'} />
+              <text x={20} y={21} fontSize={11} fontWeight={600} fill="#6b778c">
+                {node.key}{issue ? ` · ${workflow.nameOf(issue.status)}` : ''}
+              </text>
+              <text x={20} y={38} fontSize={12} fill="#172b4d">
+                {issue ? truncate(issue.title, 26) : 'Not loaded'}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default DependencyGraph;
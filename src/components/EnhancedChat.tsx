@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { ApiClient } from '../apiClient.ts';
 
 interface Message {
   id: string;
@@ -23,7 +24,7 @@ interface ChatProps {
   onClose: () => void;
   currentUser: User;
   users: User[];
-  apiCall: (endpoint: string, options?: RequestInit) => Promise<any>;
+  api: ApiClient;
   wsRef: React.MutableRefObject<WebSocket | null>;
 }
 
@@ -32,7 +33,7 @@ const EnhancedChat: React.FC<ChatProps> = ({
   onClose, 
   currentUser,
   users,
-  apiCall,
+  api,
   wsRef 
 }) => {
   const [activeTab, setActiveTab] = useState<'team' | 'personal'>('team');
@@ -87,7 +88,7 @@ const EnhancedChat: React.FC<ChatProps> = ({
 
   const loadTeamMessages = async () => {
     try {
-      const messages = await apiCall('/api/chat/team');
+      const messages = await api.chat.listTeamMessages<Message>();
       setTeamMessages(messages);
     } catch (error) {
       console.error('Failed to load team messages:', error);
@@ -96,7 +97,7 @@ const EnhancedChat: React.FC<ChatProps> = ({
 
   const loadPersonalChats = async () => {
     try {
-      const chats = await apiCall('/api/chat/personal');
+      const chats = await api.chat.listPersonalChats<Message>();
       setPersonalChats(chats);
     } catch (error) {
       console.error('Failed to load personal chats:', error);
@@ -107,14 +108,11 @@ const EnhancedChat: React.FC<ChatProps> = ({
     if (!messageInput.trim()) return;
 
     try {
-      const endpoint = activeTab === 'team' 
-        ? '/api/chat/team' 
-        : `/api/chat/personal/${selectedUser?.id}`;
-      
-      const message = await apiCall(endpoint, {
-        method: 'POST',
-        body: JSON.stringify({ content: messageInput })
-      });
+      if (activeTab === 'personal' && !selectedUser) return;
+
+      const message = activeTab === 'team'
+        ? await api.chat.sendTeamMessage<Message>(messageInput)
+        : await api.chat.sendPersonalMessage<Message>(selectedUser!.id, messageInput);
 
       if (activeTab === 'team') {
         setTeamMessages(prev => [...prev, message]);
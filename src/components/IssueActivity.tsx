@@ -0,0 +1,101 @@
+import React from 'react';
+import { ActivityItem, ChangeRow, changeRows, diffWords } from '../issueHistory.ts';
+import { User } from '../types.ts';
+
+interface IssueActivityProps {
+  timeline: ActivityItem[];
+  users: User[];
+  fieldLabel: (row: ChangeRow) => string;
+  formatValue: (row: ChangeRow, value: unknown) => string;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const DIFF_STYLES = {
+  same: {},
+  added: { background: '#e3fcef', color: '#006644' },
+  removed: { background: '#ffebe6', color: '#bf2600', textDecoration: 'line-through' }
+};
+
+const DescriptionDiff: React.FC<{ from: unknown; to: unknown }> = ({ from, to }) => (
+  <div style={{
+    marginTop: '4px',
+    padding: '8px 10px',
+    background: 'white',
+    border: '1px solid #e1e5e9',
+    borderRadius: '6px',
+    fontSize: '12px',
+    lineHeight: '1.5',
+    whiteSpace: 'pre-wrap',
+    maxHeight: '160px',
+    overflowY: 'auto'
+  }}>
+    {diffWords(String(from ?? ''), String(to ?? '')).map((part, index) => (
+      <span key={index} style={DIFF_STYLES[part.type]}>{part.text}</span>
+    ))}
+  </div>
+);
+
+const IssueActivity: React.FC<IssueActivityProps> = ({ timeline, users, fieldLabel, formatValue, isLoading, error }) => {
+  const userName = (userId: string) => users.find(u => u.id === userId)?.name || 'Unknown User';
+
+  if (error) {
+    return <div style={{ padding: '16px', fontSize: '13px', color: '#bf2600' }}>Could not load the activity: {error}</div>;
+  }
+  if (isLoading) {
+    return <div style={{ padding: '16px', fontSize: '13px', color: '#6b778c' }}>Loading activity...</div>;
+  }
+  if (timeline.length === 0) {
+    return <div style={{ padding: '16px', fontSize: '13px', color: '#6b778c' }}>No activity yet.</div>;
+  }
+
+  return (
+    <div style={{ maxHeight: '360px', overflowY: 'auto' }}>
+      {timeline.map(item => {
+        const authorId = item.kind === 'history' ? item.entry.actor_id : item.comment.author_id;
+        return (
+          <div
+            key={item.kind === 'history' ? item.entry.id : item.comment.id}
+            style={{
+              padding: '10px 12px',
+              marginBottom: '8px',
+              borderLeft: `3px solid ${item.kind === 'history' ? '#dfe1e6' : '#6554c0'}`,
+              background: item.kind === 'history' ? '#fafbfc' : '#f4f5f7',
+              borderRadius: '0 6px 6px 0'
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'baseline', gap: '8px', fontSize: '12px', color: '#6b778c' }}>
+              <span style={{ fontWeight: 600, color: '#172b4d' }}>{userName(authorId)}</span>
+              <span>
+                {item.kind === 'comment' ? 'commented' : item.entry.kind === 'created' ? 'created the issue' : 'changed'}
+              </span>
+              <span style={{ marginLeft: 'auto', whiteSpace: 'nowrap' }}>{new Date(item.at).toLocaleString()}</span>
+            </div>
+
+            {item.kind === 'comment' && (
+              <div style={{ marginTop: '4px', fontSize: '13px', color: '#172b4d', lineHeight: '1.4' }}>{item.comment.content}</div>
+            )}
+
+            {item.kind === 'history' && changeRows(item.entry.changes).map(row => (
+              <div key={row.customFieldId ?? row.field} style={{ marginTop: '6px', fontSize: '13px', color: '#172b4d' }}>
+                <span style={{ fontWeight: 600 }}>{fieldLabel(row)}</span>
+                {row.field === 'description' ? (
+                  <DescriptionDiff from={row.from} to={row.to} />
+                ) : (
+                  <span>
+                    {': '}
+                    <span style={{ color: '#6b778c', textDecoration: 'line-through' }}>{formatValue(row, row.from)}</span>
+                    {' → '}
+                    <span>{formatValue(row, row.to)}</span>
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IssueActivity;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { describeLastSeen, PRESENCE_COLORS, presenceOf } from '../presence.ts';
+import { PresenceStatus } from '../types.ts';
+
+interface PresenceDotProps {
+  user?: { presence?: PresenceStatus; is_online?: boolean; last_seen?: string } | null;
+  /** Overrides the user's status, e.g. for the signed-in user's own tracker. */
+  status?: PresenceStatus;
+  size?: number;
+  /** Colour of the ring separating the dot from the avatar behind it. */
+  borderColor?: string;
+  style?: React.CSSProperties;
+}
+
+// Same dot everywhere a person is shown, so "idle" means the same thing in the header, chat and pickers
+const PresenceDot: React.FC<PresenceDotProps> = ({ user, status, size = 8, borderColor = '#0f1729', style }) => {
+  const presence = status ?? presenceOf(user);
+  const title = status ? describeLastSeen({ presence: status }) : describeLastSeen(user || {});
+
+  return (
+    <span
+      title={title}
+      style={{
+        display: 'inline-block',
+        width: `${size}px`,
+        height: `${size}px`,
+        borderRadius: '50%',
+        background: PRESENCE_COLORS[presence],
+        border: presence === 'offline' ? '1.5px solid #64748b' : `2px solid ${borderColor}`,
+        boxSizing: 'content-box',
+        flexShrink: 0,
+        ...style
+      }}
+    />
+  );
+};
+
+export default PresenceDot;
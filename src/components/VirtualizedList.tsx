@@ -0,0 +1,160 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualizedListProps<T> {
+  items: T[];
+  /** Expected height of a row before it has been measured; rows take their own height once rendered. */
+  estimatedItemHeight: number;
+  /** Space left below each row. */
+  gap?: number;
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  /** Rows rendered above and below the visible window. */
+  overscan?: number;
+  /**
+   * Called when the user scrolls within endThreshold px of the bottom, or the rows don't fill the list.
+   * Not called again until a returned promise settles.
+   */
+  onEndReached?: () => void | Promise<unknown>;
+  endThreshold?: number;
+  footer?: React.ReactNode;
+  style?: React.CSSProperties;
+}
+
+// Index of the row that contains `position`, given each row's top offset
+const rowAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+// Only the rows in view are mounted, so a column with thousands of cards scrolls like one with ten
+const VirtualizedList = <T,>({
+  items,
+  estimatedItemHeight,
+  gap = 0,
+  getKey,
+  renderItem,
+  overscan = 4,
+  onEndReached,
+  endThreshold = 300,
+  footer,
+  style
+}: VirtualizedListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Measured row heights (gap included) by key
+  const [rowHeights, setRowHeights] = useState<Map<string, number>>(() => new Map());
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+  // The latest callback, so a new closure on every parent render doesn't re-run the end check
+  const onEndReachedRef = useRef(onEndReached);
+  onEndReachedRef.current = onEndReached;
+  const isLoadingMoreRef = useRef(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const recordRowHeight = useCallback((row: HTMLElement) => {
+    const key = row.dataset.rowKey;
+    const height = row.offsetHeight;
+    if (!key || height === 0) return;
+    setRowHeights(previous => (previous.get(key) === height ? previous : new Map(previous).set(key, height)));
+  }, []);
+
+  useEffect(() => () => rowObserverRef.current?.disconnect(), []);
+
+  // Rows are measured as they mount and again whenever their content changes size
+  const measureRow = useCallback((row: HTMLDivElement) => {
+    recordRowHeight(row);
+    if (typeof ResizeObserver === 'undefined') return;
+    if (!rowObserverRef.current) {
+      rowObserverRef.current = new ResizeObserver(entries => entries.forEach(entry => recordRowHeight(entry.target as HTMLElement)));
+    }
+    const observer = rowObserverRef.current;
+    observer.observe(row);
+    return () => observer.unobserve(row);
+  }, [recordRowHeight]);
+
+  const offsets = useMemo(() => {
+    const tops: number[] = [];
+    let top = 0;
+    items.forEach(item => {
+      tops.push(top);
+      top += rowHeights.get(getKey(item)) ?? estimatedItemHeight + gap;
+    });
+    return { tops, totalHeight: top };
+  }, [items, getKey, estimatedItemHeight, gap, rowHeights]);
+
+  const checkEndReached = useCallback(() => {
+    const container = containerRef.current;
+    const onEnd = onEndReachedRef.current;
+    if (!container || !onEnd || isLoadingMoreRef.current) return;
+    if (container.scrollTop + container.clientHeight < container.scrollHeight - endThreshold) return;
+    const pending = onEnd();
+    if (pending) {
+      isLoadingMoreRef.current = true;
+      pending.finally(() => {
+        isLoadingMoreRef.current = false;
+      });
+    }
+  }, [endThreshold]);
+
+  // A short list never scrolls, so ask for more as soon as it renders without filling the viewport
+  useEffect(() => {
+    checkEndReached();
+  }, [items.length, viewportHeight, offsets.totalHeight, checkEndReached]);
+
+  const firstIndex = items.length === 0 ? 0 : Math.max(0, rowAt(offsets.tops, scrollTop) - overscan);
+  const lastIndex = items.length === 0 ? 0 : Math.min(items.length, rowAt(offsets.tops, scrollTop + viewportHeight) + 1 + overscan);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => {
+        setScrollTop(e.currentTarget.scrollTop);
+        checkEndReached();
+      }}
+      style={{ overflowY: 'auto', ...style }}
+    >
+      <div style={{ height: offsets.totalHeight, position: 'relative' }}>
+        {items.slice(firstIndex, lastIndex).map((item, offset) => {
+          const key = getKey(item);
+          return (
+            <div
+              key={key}
+              ref={measureRow}
+              data-row-key={key}
+              style={{
+                position: 'absolute',
+                top: offsets.tops[firstIndex + offset],
+                left: 0,
+                right: 0,
+                paddingBottom: gap
+              }}
+            >
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+      {footer}
+    </div>
+  );
+};
+
+export default VirtualizedList;
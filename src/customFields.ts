@@ -0,0 +1,167 @@
+// src/customFields.ts
+// Admins define extra fields per organization; issues carry their values in
+// `custom_fields`, keyed by field id so a field can be renamed without touching issues.
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue } from './types.ts';
+
+export const CUSTOM_FIELD_SOCKET_EVENTS = ['custom_field_created', 'custom_field_updated', 'custom_field_deleted'];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Single select',
+  multi_select: 'Multi select',
+  date: 'Date',
+  user: 'User'
+};
+
+export const CUSTOM_FIELD_TYPES = Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Local calendar date, so "3/4/2026" doesn't become the 3rd for anyone east of UTC
+const toDateOnly = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const hasFieldOptions = (type: CustomFieldType) => type === 'select' || type === 'multi_select';
+
+export const isEmptyFieldValue = (value: CustomFieldValue | null | undefined): value is null | undefined =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/** Drops empty values and sorts by field id, so two sets of values compare equal as JSON. */
+export const compactFieldValues = (values: Record<string, CustomFieldValue | null> | undefined): Record<string, CustomFieldValue> =>
+  Object.fromEntries(
+    Object.entries(values ?? {})
+      .filter((entry): entry is [string, CustomFieldValue] => !isEmptyFieldValue(entry[1]))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+/** Why `value` doesn't fit `field`, or null when it does. */
+export const fieldValueProblem = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | null | undefined,
+  isUser: (userId: string) => boolean
+): string | null => {
+  if (isEmptyFieldValue(value)) return field.required ? `${field.name} is required` : null;
+  switch (field.type) {
+    case 'text':
+      return typeof value === 'string' ? null : `${field.name} must be text`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${field.name} must be a number`;
+    case 'select':
+      return typeof value === 'string' && field.options.includes(value) ? null : `${field.name} must be one of ${field.options.join(', ')}`;
+    case 'multi_select':
+      return Array.isArray(value) && value.every(option => field.options.includes(option))
+        ? null
+        : `${field.name} can only contain ${field.options.join(', ')}`;
+    case 'date':
+      return typeof value === 'string' && DATE_ONLY.test(value) && !Number.isNaN(Date.parse(value)) ? null : `${field.name} must be a date`;
+    case 'user':
+      return typeof value === 'string' && isUser(value) ? null : `${field.name} must be a member of the organization`;
+    default:
+      return `${field.name} has an unknown type`;
+  }
+};
+
+/** The first problem with an issue's values: a missing required field, a bad value or a field that doesn't exist. */
+export const fieldValuesProblem = (
+  fields: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue | null> | undefined,
+  isUser: (userId: string) => boolean
+): string | null => {
+  const unknown = Object.keys(values ?? {}).find(fieldId => !fields.some(field => field.id === fieldId));
+  if (unknown) return `Unknown custom field "${unknown}"`;
+  for (const field of fields) {
+    const problem = fieldValueProblem(field, values?.[field.id], isUser);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+/** Why a field definition can't be saved alongside `others`, or null when it can. */
+export const fieldDefinitionProblem = (
+  field: Pick<CustomFieldDefinition, 'name' | 'type' | 'options'> & { id?: string },
+  others: CustomFieldDefinition[]
+): string | null => {
+  const name = field.name.trim();
+  if (!name) return 'Field name is required';
+  if (others.some(other => other.id !== field.id && other.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `There is already a field called "${name}"`;
+  }
+  if (!CUSTOM_FIELD_TYPES.includes(field.type)) return 'Unknown field type';
+  if (hasFieldOptions(field.type)) {
+    const options = field.options.map(option => option.trim());
+    if (options.length === 0 || options.some(option => !option)) return `${name} needs at least one option, and none can be blank`;
+    if (new Set(options.map(option => option.toLowerCase())).size !== options.length) return `${name} lists the same option twice`;
+  }
+  return null;
+};
+
+/** Whether a value set before a definition changed still fits it; ones that don't are cleared. */
+export const fieldValueStillFits = (field: CustomFieldDefinition, value: CustomFieldValue) =>
+  fieldValueProblem({ ...field, required: false }, value, () => true) === null;
+
+export const formatFieldValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | null | undefined,
+  userName: (userId: string) => string | undefined
+): string => {
+  if (isEmptyFieldValue(value)) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.type === 'user') return userName(String(value)) ?? 'Unknown User';
+  if (field.type === 'date') return new Date(`${value}T00:00:00`).toLocaleDateString();
+  return String(value);
+};
+
+/**
+ * Reads a value from an imported spreadsheet cell. Users can be given by name or email and
+ * multi-select options separated by commas or semicolons; anything unreadable is left empty.
+ */
+export const parseFieldValue = (
+  field: CustomFieldDefinition,
+  raw: unknown,
+  findUser: (nameOrEmail: string) => string | undefined
+): CustomFieldValue | undefined => {
+  if (raw === null || raw === undefined) return undefined;
+  if (raw instanceof Date) return field.type === 'date' && !Number.isNaN(raw.getTime()) ? toDateOnly(raw) : undefined;
+  const text = String(raw).trim();
+  if (!text) return undefined;
+  const matchOption = (candidate: string) => field.options.find(option => option.toLowerCase() === candidate.trim().toLowerCase());
+  switch (field.type) {
+    case 'text':
+      return text;
+    case 'number': {
+      const numeric = Number(text);
+      return Number.isFinite(numeric) ? numeric : undefined;
+    }
+    case 'select':
+      return matchOption(text);
+    case 'multi_select': {
+      const options = text.split(/[,;]/).map(matchOption).filter((option): option is string => !!option);
+      return options.length > 0 ? Array.from(new Set(options)) : undefined;
+    }
+    case 'date': {
+      const parsed = new Date(text);
+      return Number.isNaN(parsed.getTime()) ? undefined : (DATE_ONLY.test(text) ? text : toDateOnly(parsed));
+    }
+    case 'user':
+      return findUser(text);
+    default:
+      return undefined;
+  }
+};
+
+/** Board filter match: text fields match on a substring, everything else on the exact value. */
+export const matchesFieldFilter = (field: CustomFieldDefinition, value: CustomFieldValue | undefined, filter: string) => {
+  if (!filter) return true;
+  if (isEmptyFieldValue(value)) return false;
+  switch (field.type) {
+    case 'text':
+      return String(value).toLowerCase().includes(filter.toLowerCase());
+    case 'number':
+      return Number(filter) === value;
+    case 'multi_select':
+      return Array.isArray(value) && value.includes(filter);
+    default:
+      return value === filter;
+  }
+};
@@ -0,0 +1,134 @@
+import { createDataStore, ResourceLoaders } from './dataStore.ts';
+import { User } from './types.ts';
+
+const user = (id: string, name = id) => ({ id, name } as User);
+
+/** A loader whose responses the test releases one at a time. */
+const deferredLoader = () => {
+  const pending: Array<(items: User[]) => void> = [];
+  const load = jest.fn(() => new Promise<User[]>(resolve => pending.push(resolve)));
+  const respond = (items: User[]) => pending.shift()!(items);
+  return { load, respond };
+};
+
+const storeWithUsers = (load: () => Promise<User[]>) => {
+  const empty = async () => [];
+  const loaders = {
+    issues: empty,
+    users: load,
+    issueLinks: empty,
+    workflowStatuses: empty,
+    customFields: empty,
+    recurringIssues: empty,
+    issueTemplates: empty
+  } as unknown as ResourceLoaders;
+  return createDataStore({ loaders, staleTimeMs: 60_000 });
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('read', () => {
+  it('shares one request between concurrent reads', async () => {
+    const { load, respond } = deferredLoader();
+    const store = storeWithUsers(load);
+
+    const first = store.read('users');
+    const second = store.read('users');
+    respond([user('u1')]);
+
+    expect(await first).toEqual([user('u1')]);
+    expect(await second).toEqual([user('u1')]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves cached data while fresh', async () => {
+    const load = jest.fn(async () => [user('u1')]);
+    const store = storeWithUsers(load);
+
+    await store.read('users');
+    await store.read('users');
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('invalidate', () => {
+  it('loads again when invalidated mid-request instead of writing the older response', async () => {
+    const { load, respond } = deferredLoader();
+    const store = storeWithUsers(load);
+    store.prime('users', [user('u1')]);
+
+    const reading = store.read('users', { force: true });
+    store.invalidate('users');
+    respond([user('u1', 'Before the change')]);
+    await flush();
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(store.getById('users', 'u1')?.name).toBe('u1');
+
+    respond([user('u1', 'After the change')]);
+    expect(await reading).toEqual([user('u1', 'After the change')]);
+    expect(store.getById('users', 'u1')?.name).toBe('After the change');
+  });
+
+  it('keeps entities upserted while a stale request was in flight', async () => {
+    const { load, respond } = deferredLoader();
+    const store = storeWithUsers(load);
+    store.prime('users', [user('u1')]);
+
+    const reading = store.read('users', { force: true });
+    store.upsert('users', [user('u2')]);
+    store.invalidate('users');
+    respond([user('u1')]);
+    await flush();
+
+    expect(store.getList('users').map(candidate => candidate.id)).toEqual(['u1', 'u2']);
+
+    respond([user('u1'), user('u2')]);
+    await reading;
+    expect(store.getList('users').map(candidate => candidate.id)).toEqual(['u1', 'u2']);
+  });
+
+  it('refreshes a loaded resource in the background', async () => {
+    const load = jest.fn(async () => [user('u1')]);
+    const store = storeWithUsers(load);
+    await store.read('users');
+
+    store.invalidate('users');
+    await flush();
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves resources that were never loaded alone', async () => {
+    const load = jest.fn(async () => [user('u1')]);
+    const store = storeWithUsers(load);
+
+    store.invalidate('users');
+    await flush();
+
+    expect(load).not.toHaveBeenCalled();
+  });
+});
+
+describe('reset', () => {
+  it('ignores a request that lands after the store was reset', async () => {
+    const { load, respond } = deferredLoader();
+    const store = storeWithUsers(load);
+
+    const reading = store.read('users');
+    store.reset();
+    respond([user('u1')]);
+    await reading;
+
+    expect(store.getList('users')).toEqual([]);
+  });
+});
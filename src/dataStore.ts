@@ -0,0 +1,239 @@
+// src/dataStore.ts
+// Normalized cache for the lists every view shares. Each resource has one loader
+// (its endpoint); reads are served stale-while-revalidate and concurrent reads
+// share a single request.
+import { useSyncExternalStore } from 'react';
+import { CustomFieldDefinition, Issue, IssueLink, IssueTemplate, RecurringIssue, User, WorkflowStatus } from './types.ts';
+
+export interface DataStoreResources {
+  issues: Issue;
+  users: User;
+  issueLinks: IssueLink;
+  workflowStatuses: WorkflowStatus;
+  customFields: CustomFieldDefinition;
+  recurringIssues: RecurringIssue;
+  issueTemplates: IssueTemplate;
+}
+
+export type ResourceKey = keyof DataStoreResources;
+
+/** Cursor state for a list loaded a page at a time (e.g. one board column). */
+export interface PageInfo {
+  nextCursor: string | null;
+  /** Everything the query matches on the server, not just what has been loaded. */
+  total: number;
+  /** How many items the server has returned for the query so far. */
+  fetched: number;
+  loading: boolean;
+}
+
+export interface LoaderContext {
+  /** Records cursor state for paged queries; applied together with the loaded items. */
+  setPageInfo: (queryKey: string, info: PageInfo) => void;
+}
+
+export type ResourceLoaders = { [K in ResourceKey]: (context: LoaderContext) => Promise<DataStoreResources[K][]> };
+
+export interface DataStoreConfig {
+  loaders: ResourceLoaders;
+  /** How long a loaded list counts as fresh before reads refresh it in the background. */
+  staleTimeMs?: number;
+}
+
+export interface ReadOptions {
+  /** Wait for a fresh copy from the server instead of returning cached data. */
+  force?: boolean;
+}
+
+interface ResourceState<T> {
+  byId: Map<string, T>;
+  ids: string[];
+  /** Snapshot handed to React; replaced (never mutated) on every change. */
+  list: T[];
+  loaded: boolean;
+  fetchedAt: number;
+  /** Bumped by invalidate(); a request already in flight then loads again instead of replacing the list. */
+  generation: number;
+  inFlight: Promise<T[]> | null;
+}
+
+type Updater<T> = T[] | ((previous: T[]) => T[]);
+
+const createResourceState = <T,>(): ResourceState<T> => ({
+  byId: new Map(),
+  ids: [],
+  list: [],
+  loaded: false,
+  fetchedAt: 0,
+  generation: 0,
+  inFlight: null
+});
+
+export const createDataStore = ({ loaders, staleTimeMs = 30_000 }: DataStoreConfig) => {
+  let resources: { [K in ResourceKey]: ResourceState<DataStoreResources[K]> } = {
+    issues: createResourceState(),
+    users: createResourceState(),
+    issueLinks: createResourceState(),
+    workflowStatuses: createResourceState(),
+    customFields: createResourceState(),
+    recurringIssues: createResourceState(),
+    issueTemplates: createResourceState()
+  };
+  let pages: Record<string, PageInfo> = {};
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const writeList = <K extends ResourceKey>(key: K, items: DataStoreResources[K][]) => {
+    const state = resources[key];
+    state.byId = new Map(items.map(item => [item.id, item]));
+    state.ids = items.map(item => item.id);
+    state.list = state.ids.map(id => state.byId.get(id)!);
+    notify();
+  };
+
+  const getList = <K extends ResourceKey>(key: K): DataStoreResources[K][] => resources[key].list;
+
+  const getById = <K extends ResourceKey>(key: K, id: string): DataStoreResources[K] | undefined =>
+    resources[key].byId.get(id);
+
+  const getPages = () => pages;
+
+  const setPageInfo = (queryKey: string, info: PageInfo) => {
+    pages = { ...pages, [queryKey]: info };
+    notify();
+  };
+
+  /** Local write with React setState semantics; used for optimistic updates and socket events. */
+  const setList = <K extends ResourceKey>(key: K, next: Updater<DataStoreResources[K]>) => {
+    const previous = resources[key].list;
+    const items = typeof next === 'function' ? next(previous) : next;
+    if (items !== previous) writeList(key, items);
+  };
+
+  /** Merges entities by id, appending ones the list doesn't have yet. */
+  const upsert = <K extends ResourceKey>(key: K, items: DataStoreResources[K][]) => {
+    const incoming = new Map(items.map(item => [item.id, item]));
+    const merged = resources[key].list.map(item => {
+      const update = incoming.get(item.id);
+      incoming.delete(item.id);
+      return update ? { ...item, ...update } : item;
+    });
+    writeList(key, [...merged, ...Array.from(incoming.values())]);
+  };
+
+  /** Seeds a resource with data fetched elsewhere, counting it as fresh. */
+  const prime = <K extends ResourceKey>(key: K, items: DataStoreResources[K][]) => {
+    const state = resources[key];
+    state.loaded = true;
+    state.fetchedAt = Date.now();
+    writeList(key, items);
+  };
+
+  const fetchResource = <K extends ResourceKey>(key: K): Promise<DataStoreResources[K][]> => {
+    const state = resources[key];
+    if (state.inFlight) return state.inFlight;
+    const generation = state.generation;
+    const discoveredPages: Record<string, PageInfo> = {};
+    const request: Promise<DataStoreResources[K][]> = loaders[key]({ setPageInfo: (queryKey, info) => { discoveredPages[queryKey] = info; } })
+      .then(items => {
+        // Dropped by reset() while loading
+        if (resources[key] !== state) return items;
+        // Invalidated while loading: the response may predate the change, and writing it would also
+        // discard anything upserted meanwhile, so callers wait for a request made after it instead
+        if (state.generation !== generation) {
+          state.inFlight = null;
+          return fetchResource(key);
+        }
+        pages = { ...pages, ...discoveredPages };
+        state.loaded = true;
+        state.fetchedAt = Date.now();
+        writeList(key, items);
+        return state.list;
+      })
+      .finally(() => {
+        if (state.inFlight === request) state.inFlight = null;
+      });
+    state.inFlight = request;
+    return request;
+  };
+
+  const refreshInBackground = (key: ResourceKey) => {
+    fetchResource(key).catch(error => console.warn(`[dataStore] Background refresh of ${key} failed:`, error));
+  };
+
+  const isStale = (key: ResourceKey) => Date.now() - resources[key].fetchedAt > staleTimeMs;
+
+  /**
+   * Returns cached data straight away when there is any, refreshing it in the
+   * background once stale. Only the first load (or a forced read) waits on the network.
+   */
+  const read = async <K extends ResourceKey>(key: K, { force = false }: ReadOptions = {}): Promise<DataStoreResources[K][]> => {
+    const state = resources[key];
+    if (force || !state.loaded) return fetchResource(key);
+    if (isStale(key)) refreshInBackground(key);
+    return state.list;
+  };
+
+  /** Marks resources stale after a mutation and refreshes the ones already on screen. */
+  const invalidate = (...keys: ResourceKey[]) => {
+    const targets = keys.length > 0 ? keys : (Object.keys(resources) as ResourceKey[]);
+    targets.forEach(key => {
+      const state = resources[key];
+      state.generation += 1;
+      state.fetchedAt = 0;
+      if (state.loaded) refreshInBackground(key);
+    });
+  };
+
+  /** Refreshes every loaded resource that has gone stale, e.g. when the window regains focus. */
+  const revalidateStale = () => {
+    (Object.keys(resources) as ResourceKey[]).forEach(key => {
+      if (resources[key].loaded && isStale(key)) refreshInBackground(key);
+    });
+  };
+
+  /** Drops everything, e.g. on sign-out; requests still in flight are ignored when they land. */
+  const reset = () => {
+    resources = {
+      issues: createResourceState(),
+      users: createResourceState(),
+      issueLinks: createResourceState(),
+      workflowStatuses: createResourceState(),
+      customFields: createResourceState(),
+      recurringIssues: createResourceState(),
+      issueTemplates: createResourceState()
+    };
+    pages = {};
+    notify();
+  };
+
+  return {
+    subscribe,
+    getList,
+    getById,
+    getPages,
+    setPageInfo,
+    setList,
+    upsert,
+    prime,
+    read,
+    invalidate,
+    revalidateStale,
+    reset
+  };
+};
+
+export type DataStore = ReturnType<typeof createDataStore>;
+
+export const useResourceList = <K extends ResourceKey>(store: DataStore, key: K) =>
+  useSyncExternalStore(store.subscribe, () => store.getList(key));
+
+export const usePageInfo = (store: DataStore) => useSyncExternalStore(store.subscribe, store.getPages);
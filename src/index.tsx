@@ -3,11 +3,28 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
 
+// REACT_APP_MOCK_BACKEND=true swaps the remote API and WebSocket for an in-memory stand-in. It is
+// imported on demand, so builds without the flag don't ship it
+const mockBackendReady = process.env.REACT_APP_MOCK_BACKEND === 'true'
+  ? import('./mockBackend.ts').then(({ createMockBackend }) => createMockBackend({
+    accessTokenTtlMs: Number(process.env.REACT_APP_MOCK_TOKEN_TTL_MS) || undefined,
+    bulkIssueCount: Number(process.env.REACT_APP_MOCK_ISSUE_COUNT) || undefined
+  }))
+  : Promise.resolve(null);
+
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+mockBackendReady
+  .catch(error => {
+    // A chunk that failed to load shouldn't leave a blank page; the app starts against the remote API instead
+    console.error('[mock] Could not start the mock backend, using the remote API:', error);
+    return null;
+  })
+  .then(mockBackend => {
+    root.render(
+      <React.StrictMode>
+        <App mockBackend={mockBackend} />
+      </React.StrictMode>
+    );
+  });
@@ -0,0 +1,80 @@
+// src/issueHierarchy.ts
+// Epics group stories, tasks and bugs, and those can be split into subtasks. Each type
+// only accepts parents from the level above, so the tree can't be deeper than three or loop.
+import { Issue } from './types.ts';
+
+type IssueType = Issue['issue_type'];
+
+const PARENT_TYPES: Record<IssueType, IssueType[]> = {
+  EPIC: [],
+  STORY: ['EPIC'],
+  TASK: ['EPIC'],
+  BUG: ['EPIC'],
+  SUBTASK: ['STORY', 'TASK', 'BUG']
+};
+
+export const ISSUE_TYPE_LABELS: Record<IssueType, string> = {
+  STORY: 'Story',
+  TASK: 'Task',
+  BUG: 'Bug',
+  EPIC: 'Epic',
+  SUBTASK: 'Subtask'
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const withArticle = (type: IssueType) => `${type === 'EPIC' ? 'an' : 'a'} ${ISSUE_TYPE_LABELS[type].toLowerCase()}`;
+
+// "a story, task or bug"
+const listTypes = ([first, ...rest]: IssueType[]) => {
+  const labels = [withArticle(first), ...rest.map(type => ISSUE_TYPE_LABELS[type].toLowerCase())];
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels[0];
+};
+
+export const allowedParentTypes = (type: IssueType) => PARENT_TYPES[type];
+
+export const childTypesOf = (type: IssueType) =>
+  (Object.keys(PARENT_TYPES) as IssueType[]).filter(child => PARENT_TYPES[child].includes(type));
+
+/** Why `parent` can't hold an issue of `childType`, or null when it can. */
+export const parentProblem = (
+  childType: IssueType,
+  parent: Pick<Issue, 'id' | 'issue_type'> | undefined,
+  childId?: string
+): string | null => {
+  const allowed = PARENT_TYPES[childType];
+  if (!parent) return 'Parent issue not found';
+  if (parent.id === childId) return 'An issue cannot be its own parent';
+  if (allowed.length === 0) return `${ISSUE_TYPE_LABELS[childType]}s cannot have a parent`;
+  if (!allowed.includes(parent.issue_type)) return `${capitalize(withArticle(childType))} can only belong to ${listTypes(allowed)}`;
+  return null;
+};
+
+export interface ChildRollup {
+  total: number;
+  done: number;
+  points: number;
+  pointsDone: number;
+}
+
+/** `isDone` comes from the organization's workflow, since any status in the done category counts. */
+export const rollupChildren = (children: Issue[], isDone: (status: string) => boolean): ChildRollup =>
+  children.reduce<ChildRollup>((rollup, child) => {
+    const points = child.story_points ?? 0;
+    const childDone = isDone(child.status);
+    return {
+      total: rollup.total + 1,
+      done: rollup.done + (childDone ? 1 : 0),
+      points: rollup.points + points,
+      pointsDone: rollup.pointsDone + (childDone ? points : 0)
+    };
+  }, { total: 0, done: 0, points: 0, pointsDone: 0 });
+
+/** The epic an issue belongs to, directly or through its parent story; undefined when it isn't loaded. */
+export const findEpic = (issue: Issue, lookup: (issueId: string) => Issue | undefined): Issue | undefined => {
+  let current = issue.parent_id ? lookup(issue.parent_id) : undefined;
+  while (current && current.issue_type !== 'EPIC') {
+    current = current.parent_id ? lookup(current.parent_id) : undefined;
+  }
+  return current;
+};
@@ -0,0 +1,45 @@
+import { diffWords } from './issueHistory.ts';
+
+describe('diffWords', () => {
+  it('marks the words that changed and keeps the rest', () => {
+    expect(diffWords('Fix the login bug', 'Fix the signup bug')).toEqual([
+      { type: 'same', text: 'Fix the ' },
+      { type: 'removed', text: 'login ' },
+      { type: 'added', text: 'signup ' },
+      { type: 'same', text: 'bug' }
+    ]);
+  });
+
+  it('returns a single unchanged part for identical texts', () => {
+    expect(diffWords('Steps to reproduce', 'Steps to reproduce')).toEqual([{ type: 'same', text: 'Steps to reproduce' }]);
+  });
+
+  it('handles text added to or cleared from an empty field', () => {
+    expect(diffWords('', 'New description')).toEqual([{ type: 'added', text: 'New description' }]);
+    expect(diffWords('Old description', '')).toEqual([{ type: 'removed', text: 'Old description' }]);
+  });
+
+  it('does not count a change in spacing alone as an edit', () => {
+    const parts = diffWords('one two', 'one  two');
+    expect(parts.every(part => part.type === 'same')).toBe(true);
+    expect(parts.map(part => part.text).join('')).toBe('one  two');
+  });
+
+  it('rebuilds the new text exactly and the old one word for word', () => {
+    const before = 'The export drops rows\nwhen a filter is set';
+    const after = 'The CSV export drops the last rows\nwhen any filter is set';
+    const parts = diffWords(before, after);
+    const wordsOf = (text: string) => text.split(/\s+/).filter(Boolean);
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after);
+    expect(wordsOf(parts.filter(part => part.type !== 'added').map(part => part.text).join(''))).toEqual(wordsOf(before));
+  });
+
+  it('shows a plain replacement for texts too long to diff word by word', () => {
+    const before = 'word '.repeat(1500);
+    const after = 'term '.repeat(1500);
+    expect(diffWords(before, after)).toEqual([
+      { type: 'removed', text: before },
+      { type: 'added', text: after }
+    ]);
+  });
+});
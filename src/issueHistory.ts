@@ -0,0 +1,99 @@
+// src/issueHistory.ts
+// Every create and edit of an issue leaves a history entry listing the fields it changed.
+// The modal's activity tab loads them once per issue and then follows the socket.
+import { Comment, CustomFieldValue, IssueFieldChange, IssueHistoryEntry } from './types.ts';
+
+export const ISSUE_HISTORY_SOCKET_EVENT = 'issue_history_added';
+
+/** Fields recorded in history, in the order an entry lists them. */
+export const HISTORY_FIELDS = [
+  'title', 'description', 'status', 'priority', 'issue_type', 'parent_id', 'assignee_id', 'story_points', 'labels', 'deadline', 'custom_fields',
+  'original_estimate_minutes', 'remaining_estimate_minutes'
+] as const;
+
+export type ActivityItem =
+  | { kind: 'history'; at: string; entry: IssueHistoryEntry }
+  | { kind: 'comment'; at: string; comment: Comment };
+
+/** History and comments in one list, oldest first; ties keep history ahead of the comment it preceded. */
+export const buildActivityTimeline = (entries: IssueHistoryEntry[], comments: Comment[]): ActivityItem[] =>
+  [
+    ...entries.map(entry => ({ kind: 'history' as const, at: entry.created_at, entry })),
+    ...comments.map(comment => ({ kind: 'comment' as const, at: comment.created_at, comment }))
+  ].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+/** Adds an entry pushed over the socket, ignoring one already loaded with the history. */
+export const appendHistoryEntry = (entries: IssueHistoryEntry[], entry: IssueHistoryEntry) =>
+  entries.some(existing => existing.id === entry.id) ? entries : [...entries, entry];
+
+/** One line of an entry; a custom field change becomes one row per field it touched. */
+export interface ChangeRow {
+  field: string;
+  customFieldId?: string;
+  from: unknown;
+  to: unknown;
+}
+
+export const changeRows = (changes: IssueFieldChange[]): ChangeRow[] =>
+  changes.flatMap(change => {
+    if (change.field !== 'custom_fields') return [change];
+    const from = (change.from ?? {}) as Record<string, CustomFieldValue>;
+    const to = (change.to ?? {}) as Record<string, CustomFieldValue>;
+    return Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+      .filter(fieldId => JSON.stringify(from[fieldId] ?? null) !== JSON.stringify(to[fieldId] ?? null))
+      .map(fieldId => ({ field: change.field, customFieldId: fieldId, from: from[fieldId] ?? null, to: to[fieldId] ?? null }));
+  });
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many words on both sides the full table gets expensive; show a plain replacement instead
+const MAX_DIFF_WORDS = 2000;
+
+/** Word-level diff of two texts (longest common subsequence); whitespace is kept with the word before it. */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length + b.length > MAX_DIFF_WORDS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : [])
+    ];
+  }
+
+  // common[i][j]: length of the longest common run of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      common[i][j] = a[i].trim() === b[j].trim() ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('same', b[j]);
+      i += 1;
+      j += 1;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      push('removed', a[i]);
+      i += 1;
+    } else {
+      push('added', b[j]);
+      j += 1;
+    }
+  }
+  a.slice(i).forEach(token => push('removed', token));
+  b.slice(j).forEach(token => push('added', token));
+  return parts;
+};
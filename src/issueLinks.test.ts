@@ -0,0 +1,60 @@
+import { findDependencyCycles } from './issueLinks.ts';
+import { IssueLink, IssueLinkType } from './types.ts';
+
+const link = (id: string, source: string, target: string, type: IssueLinkType = 'blocks'): IssueLink => ({
+  id,
+  type,
+  source_id: source,
+  source_key: source.toUpperCase(),
+  target_id: target,
+  target_key: target.toUpperCase(),
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00Z'
+});
+
+const sorted = (values: Set<string>) => Array.from(values).sort();
+
+describe('findDependencyCycles', () => {
+  it('finds nothing in a chain of blockers', () => {
+    const cycles = findDependencyCycles([link('l1', 'a', 'b'), link('l2', 'b', 'c'), link('l3', 'a', 'c')]);
+    expect(cycles.issueIds.size).toBe(0);
+    expect(cycles.linkIds.size).toBe(0);
+  });
+
+  it('finds two issues that block each other', () => {
+    const cycles = findDependencyCycles([link('l1', 'a', 'b'), link('l2', 'b', 'a')]);
+    expect(sorted(cycles.issueIds)).toEqual(['a', 'b']);
+    expect(sorted(cycles.linkIds)).toEqual(['l1', 'l2']);
+  });
+
+  it('leaves out issues and links that only lead into or out of a loop', () => {
+    const cycles = findDependencyCycles([
+      link('in', 'start', 'a'),
+      link('l1', 'a', 'b'),
+      link('l2', 'b', 'c'),
+      link('l3', 'c', 'a'),
+      link('out', 'c', 'end')
+    ]);
+    expect(sorted(cycles.issueIds)).toEqual(['a', 'b', 'c']);
+    expect(sorted(cycles.linkIds)).toEqual(['l1', 'l2', 'l3']);
+  });
+
+  it('keeps separate loops in separate components', () => {
+    const cycles = findDependencyCycles([
+      link('l1', 'a', 'b'),
+      link('l2', 'b', 'a'),
+      link('l3', 'c', 'd'),
+      link('l4', 'd', 'c'),
+      link('bridge', 'b', 'c')
+    ]);
+    expect(cycles.componentOf.get('a')).toBe(cycles.componentOf.get('b'));
+    expect(cycles.componentOf.get('c')).toBe(cycles.componentOf.get('d'));
+    expect(cycles.componentOf.get('a')).not.toBe(cycles.componentOf.get('c'));
+    expect(cycles.linkIds.has('bridge')).toBe(false);
+  });
+
+  it('only follows blocks links', () => {
+    const cycles = findDependencyCycles([link('l1', 'a', 'b'), link('l2', 'b', 'a', 'relates_to'), link('l3', 'b', 'a', 'duplicates')]);
+    expect(cycles.issueIds.size).toBe(0);
+  });
+});
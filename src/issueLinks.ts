@@ -0,0 +1,123 @@
+// src/issueLinks.ts
+// Typed links between issues. Each link is stored once, from its source; the issue
+// at the other end reads it with the inverse label ("is blocked by").
+import { Issue, IssueLink, IssueLinkType } from './types.ts';
+
+export const ISSUE_LINK_SOCKET_EVENTS = ['issue_link_created', 'issue_link_deleted'];
+
+const LINK_LABELS: Record<IssueLinkType, { outward: string; inward: string }> = {
+  blocks: { outward: 'blocks', inward: 'is blocked by' },
+  duplicates: { outward: 'duplicates', inward: 'is duplicated by' },
+  relates_to: { outward: 'relates to', inward: 'relates to' },
+  clones: { outward: 'clones', inward: 'is cloned by' }
+};
+
+export interface LinkChoice {
+  value: string;
+  type: IssueLinkType;
+  /** The open issue is the target, so "is blocked by X" is stored as "X blocks this". */
+  inward: boolean;
+  label: string;
+}
+
+// "relates to" reads the same both ways, so it's only offered once
+export const LINK_CHOICES: LinkChoice[] = (Object.keys(LINK_LABELS) as IssueLinkType[]).flatMap(type => [
+  { value: type, type, inward: false, label: LINK_LABELS[type].outward },
+  ...(type === 'relates_to' ? [] : [{ value: `${type}:inward`, type, inward: true, label: LINK_LABELS[type].inward }])
+]);
+
+export interface IssueLinkView {
+  link: IssueLink;
+  label: string;
+  otherId: string;
+  otherKey: string;
+}
+
+/** Every link touching an issue, labelled from that issue's side. */
+export const linksOf = (issueId: string, links: IssueLink[]): IssueLinkView[] =>
+  links.flatMap(link => {
+    if (link.source_id === issueId) {
+      return [{ link, label: LINK_LABELS[link.type].outward, otherId: link.target_id, otherKey: link.target_key }];
+    }
+    if (link.target_id === issueId) {
+      return [{ link, label: LINK_LABELS[link.type].inward, otherId: link.source_id, otherKey: link.source_key }];
+    }
+    return [];
+  });
+
+/** Blockers that aren't done yet. One we haven't loaded counts as open, since we can't tell. */
+export const openBlockersOf = (
+  issueId: string,
+  links: IssueLink[],
+  lookup: (issueId: string) => Issue | undefined,
+  isDone: (status: string) => boolean
+) =>
+  links.filter(link => {
+    if (link.type !== 'blocks' || link.target_id !== issueId) return false;
+    const blocker = lookup(link.source_id);
+    return !blocker || !isDone(blocker.status);
+  });
+
+export interface DependencyCycles {
+  /** Strongly connected component of every issue with a blocks link; issues in one component block each other in a loop. */
+  componentOf: Map<string, number>;
+  issueIds: Set<string>;
+  linkIds: Set<string>;
+}
+
+// Tarjan's algorithm over "blocks" links: any component with more than one issue is a cycle
+export const findDependencyCycles = (links: IssueLink[]): DependencyCycles => {
+  const blocking = links.filter(link => link.type === 'blocks');
+  const outgoing = new Map<string, string[]>();
+  blocking.forEach(link => {
+    outgoing.set(link.source_id, [...(outgoing.get(link.source_id) ?? []), link.target_id]);
+    if (!outgoing.has(link.target_id)) outgoing.set(link.target_id, []);
+  });
+
+  const componentOf = new Map<string, number>();
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const componentSizes: number[] = [];
+  let nextIndex = 0;
+
+  const visit = (node: string) => {
+    index.set(node, nextIndex);
+    lowLink.set(node, nextIndex);
+    nextIndex += 1;
+    stack.push(node);
+    onStack.add(node);
+    (outgoing.get(node) ?? []).forEach(next => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    });
+    if (lowLink.get(node) !== index.get(node)) return;
+    const component = componentSizes.length;
+    let member: string;
+    let size = 0;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      componentOf.set(member, component);
+      size += 1;
+    } while (member !== node);
+    componentSizes.push(size);
+  };
+  outgoing.forEach((_, node) => {
+    if (!index.has(node)) visit(node);
+  });
+
+  const inCycle = (issueId: string) => componentSizes[componentOf.get(issueId)!] > 1;
+  const linkIds = new Set(
+    blocking
+      .filter(link => inCycle(link.source_id) && componentOf.get(link.source_id) === componentOf.get(link.target_id))
+      .map(link => link.id)
+  );
+  const issueIds = new Set(Array.from(componentOf.keys()).filter(inCycle));
+  return { componentOf, issueIds, linkIds };
+};
@@ -0,0 +1,78 @@
+// src/issueTemplates.ts
+// Admins keep templates per issue type so new issues start from the same skeleton (a bug's
+// steps to reproduce, a story's acceptance criteria). A type's default template fills in the
+// create form on its own; any other one is picked from the form.
+import { ISSUE_TYPE_LABELS } from './issueHierarchy.ts';
+import { toDateOnly } from './timeTracking.ts';
+import { Issue, IssueTemplate } from './types.ts';
+
+export const ISSUE_TEMPLATE_SOCKET_EVENTS = ['issue_template_created', 'issue_template_updated', 'issue_template_deleted'];
+
+const PRIORITIES: Issue['priority'][] = ['HIGHEST', 'HIGH', 'MEDIUM', 'LOW', 'LOWEST'];
+
+/** The parts of the create form a template fills in. */
+export interface TemplateDraft {
+  title: string;
+  description: string;
+  issue_type: Issue['issue_type'];
+  priority: Issue['priority'];
+  labels: string[];
+  story_points: number;
+}
+
+export const expandTitlePattern = (pattern: string, now: Date) => pattern.replace(/\{date\}/g, toDateOnly(now));
+
+export const applyIssueTemplate = <T extends TemplateDraft>(draft: T, template: IssueTemplate, now: Date): T => ({
+  ...draft,
+  issue_type: template.issue_type,
+  title: expandTitlePattern(template.title_pattern, now),
+  description: template.description,
+  priority: template.priority,
+  labels: [...template.labels],
+  story_points: template.story_points ?? draft.story_points
+});
+
+/**
+ * Whether the title or description holds something typed by hand rather than what `filled`
+ * (the last template applied) put there; a template only replaces typed text after asking.
+ */
+export const hasTypedText = (draft: Pick<TemplateDraft, 'title' | 'description'>, filled: Pick<TemplateDraft, 'title' | 'description'> | null) =>
+  (draft.title.trim() !== '' && draft.title !== filled?.title) ||
+  (draft.description.trim() !== '' && draft.description !== filled?.description);
+
+export const defaultTemplateFor = (templates: IssueTemplate[], issueType: Issue['issue_type']) =>
+  templates.find(template => template.issue_type === issueType && template.is_default);
+
+/** Sorted for the picker: by issue type in the usual order, then by name. */
+export const sortTemplates = (templates: IssueTemplate[]) => {
+  const typeOrder = Object.keys(ISSUE_TYPE_LABELS);
+  return [...templates].sort((a, b) =>
+    typeOrder.indexOf(a.issue_type) - typeOrder.indexOf(b.issue_type) || a.name.localeCompare(b.name));
+};
+
+/** The list after `saved` was stored; saving a default takes the flag from the type's previous one. */
+export const withSavedTemplate = (templates: IssueTemplate[], saved: IssueTemplate) => [
+  ...templates
+    .filter(template => template.id !== saved.id)
+    .map(template => (saved.is_default && template.issue_type === saved.issue_type && template.is_default ? { ...template, is_default: false } : template)),
+  saved
+];
+
+/** Why a template can't be saved alongside `others`, or null when it can. */
+export const templateProblem = (
+  template: Pick<IssueTemplate, 'name' | 'issue_type' | 'priority' | 'labels' | 'story_points'> & { id?: string },
+  others: IssueTemplate[]
+): string | null => {
+  const name = template.name.trim();
+  if (!name) return 'Template name is required';
+  if (!(template.issue_type in ISSUE_TYPE_LABELS)) return 'Choose the issue type the template is for';
+  if (others.some(other => other.id !== template.id && other.issue_type === template.issue_type && other.name.trim().toLowerCase() === name.toLowerCase())) {
+    return `There is already a ${ISSUE_TYPE_LABELS[template.issue_type].toLowerCase()} template called "${name}"`;
+  }
+  if (!PRIORITIES.includes(template.priority)) return 'Unknown priority';
+  if (template.labels.some(label => !label.trim())) return 'Labels cannot be blank';
+  if (template.story_points !== null && !(Number.isInteger(template.story_points) && template.story_points >= 1 && template.story_points <= 21)) {
+    return 'Story points must be a whole number from 1 to 21';
+  }
+  return null;
+};
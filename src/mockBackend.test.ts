@@ -0,0 +1,201 @@
+import { ApiError, createApiClient, RefreshResponse } from './apiClient.ts';
+import { createMockBackend, MockBackend, MockWebSocket } from './mockBackend.ts';
+import { AuthResponse, Issue } from './types.ts';
+
+const PASSWORD = 'password123';
+
+const newBackend = (options: Parameters<typeof createMockBackend>[0] = {}) =>
+  createMockBackend({ latencyMs: 0, simulateTeammates: false, ...options });
+
+/** Sends one request straight to the mock's fetch and decodes the answer. */
+const call = async (backend: MockBackend, method: string, path: string, { body, token }: { body?: unknown; token?: string } = {}) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const response = await backend.fetch(`http://mock.local${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+const login = async (backend: MockBackend, email = 'ada@acme.test') => {
+  const { status, body } = await call(backend, 'POST', '/api/auth/login', { body: { email, password: PASSWORD } });
+  expect(status).toBe(200);
+  return body as AuthResponse;
+};
+
+// The mock opens sockets and answers on timers, even with no latency
+const settle = () => new Promise(resolve => setTimeout(resolve, 5));
+
+/** A socket for `token` that records every frame the server sends it. */
+const openSocket = async (backend: MockBackend, token: string) => {
+  const frames: any[] = [];
+  const socket = backend.createWebSocket(`ws://mock.local/ws/${encodeURIComponent(token)}`);
+  socket.onmessage = event => frames.push(JSON.parse(event.data));
+  await settle();
+  return { socket, frames };
+};
+
+describe('auth routes', () => {
+  it('signs in with the seeded password and refuses a wrong one', async () => {
+    const backend = newBackend();
+    const session = await login(backend);
+    expect(session.user.email).toBe('ada@acme.test');
+    expect(session.access_token).toBeTruthy();
+    expect(session.refresh_token).toBeTruthy();
+
+    const refused = await call(backend, 'POST', '/api/auth/login', { body: { email: 'ada@acme.test', password: 'nope' } });
+    expect(refused.status).toBe(401);
+  });
+
+  it('answers 401 to requests without a valid token', async () => {
+    const backend = newBackend();
+    expect((await call(backend, 'GET', '/api/issues')).status).toBe(401);
+    expect((await call(backend, 'GET', '/api/issues', { token: 'mock-token-user-ada.1' })).status).toBe(401);
+  });
+
+  it('rotates refresh tokens so each can be used once', async () => {
+    const backend = newBackend();
+    const session = await login(backend);
+
+    const renewed = await call(backend, 'POST', '/api/auth/refresh', { body: { refresh_token: session.refresh_token } });
+    expect(renewed.status).toBe(200);
+    expect((await call(backend, 'GET', '/api/users', { token: renewed.body.access_token })).status).toBe(200);
+
+    const replayed = await call(backend, 'POST', '/api/auth/refresh', { body: { refresh_token: session.refresh_token } });
+    expect(replayed.status).toBe(401);
+  });
+});
+
+describe('issue routes', () => {
+  it('pages a column by status', async () => {
+    const backend = newBackend();
+    const { access_token } = await login(backend);
+
+    const first = await call(backend, 'GET', '/api/issues?status=TODO&limit=2', { token: access_token });
+    expect(first.status).toBe(200);
+    expect(first.body.items).toHaveLength(2);
+    expect(first.body.items.every((issue: Issue) => issue.status === 'TODO')).toBe(true);
+
+    const all = await call(backend, 'GET', '/api/issues', { token: access_token });
+    const inColumn = (all.body as Issue[]).filter(issue => issue.status === 'TODO');
+    expect(first.body.total).toBe(inColumn.length);
+
+    const second = await call(backend, 'GET', `/api/issues?status=TODO&limit=2&cursor=${first.body.next_cursor}`, { token: access_token });
+    expect(second.body.items[0].id).not.toBe(first.body.items[0].id);
+  });
+
+  it('tells connected clients about an update over the socket', async () => {
+    const backend = newBackend();
+    const editor = await login(backend);
+    const teammate = await login(backend, 'grace@acme.test');
+    const { frames } = await openSocket(backend, teammate.access_token);
+
+    const updated = await call(backend, 'PUT', '/api/issues/issue-1', { body: { title: 'Renamed by Ada' }, token: editor.access_token });
+    expect(updated.status).toBe(200);
+    expect(updated.body.title).toBe('Renamed by Ada');
+
+    const frame = frames.find(candidate => candidate.type === 'issue_updated');
+    expect(frame).toMatchObject({ issue: { id: 'issue-1', title: 'Renamed by Ada' }, actor_id: editor.user.id });
+    expect(frame.event_id).toBeTruthy();
+  });
+
+  it('refuses an update made against an older version', async () => {
+    const backend = newBackend();
+    const { access_token } = await login(backend);
+    const response = await backend.fetch('http://mock.local/api/issues/issue-1', {
+      method: 'PUT',
+      headers: { Authorization: `Bearer ${access_token}`, 'If-Match': '"1999-01-01T00:00:00.000Z"' },
+      body: JSON.stringify({ title: 'Overwrite' })
+    });
+    expect(response.status).toBe(412);
+  });
+});
+
+describe('socket', () => {
+  it('closes a socket opened with an unknown token', async () => {
+    const backend = newBackend();
+    const { socket } = await openSocket(backend, 'not-a-token');
+    expect(socket.readyState).toBe(MockWebSocket.CLOSED);
+  });
+
+  it('replays missed events to a resuming client', async () => {
+    const backend = newBackend();
+    const { access_token } = await login(backend);
+    const first = await openSocket(backend, access_token);
+    await call(backend, 'PUT', '/api/issues/issue-1', { body: { title: 'Seen' }, token: access_token });
+    const lastSeen = first.frames.filter(frame => frame.event_id).pop().event_id;
+    backend.dropConnections();
+
+    await call(backend, 'PUT', '/api/issues/issue-2', { body: { title: 'Missed' }, token: access_token });
+    const second = await openSocket(backend, access_token);
+    second.socket.send(JSON.stringify({ type: 'resume', last_event_id: lastSeen }));
+
+    expect(second.frames.some(frame => frame.type === 'issue_updated' && frame.issue.title === 'Missed')).toBe(true);
+    expect(second.frames[second.frames.length - 1]).toMatchObject({ type: 'resume_complete' });
+  });
+});
+
+describe('ApiClient against the mock', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const clientFor = (backend: MockBackend) => {
+    const session: { access?: string; refresh?: string } = {};
+    const onUnauthorized = jest.fn();
+    const api = createApiClient({
+      baseUrl: 'http://mock.local',
+      fetchImpl: backend.fetch,
+      retryBaseDelayMs: 1,
+      getAccessToken: () => session.access,
+      getRefreshToken: () => session.refresh,
+      onTokenRefreshed: (tokens: RefreshResponse) => {
+        session.access = tokens.access_token;
+        session.refresh = tokens.refresh_token ?? session.refresh;
+      },
+      onUnauthorized
+    });
+    return { api, session, onUnauthorized };
+  };
+
+  it('signs in, pages issues and saves an edit', async () => {
+    const backend = newBackend();
+    const { api, session } = clientFor(backend);
+    const auth = await api.auth.login('grace@acme.test', PASSWORD);
+    session.access = auth.access_token;
+    session.refresh = auth.refresh_token;
+
+    const page = await api.issues.listPage({ status: 'TODO', limit: 3 });
+    expect(page.items.length).toBeGreaterThan(0);
+    expect(page.allIssues).toBeUndefined();
+
+    const target = page.items[0];
+    const saved = await api.issues.update(target.id, { priority: 'HIGHEST' }, { expectedUpdatedAt: target.updated_at });
+    expect(saved.priority).toBe('HIGHEST');
+
+    const conflict = await api.issues.update(target.id, { priority: 'LOW' }, { expectedUpdatedAt: target.updated_at }).catch((error: ApiError) => error);
+    expect(conflict).toMatchObject({ kind: 'conflict' });
+  });
+
+  it('renews an expired access token and replays the request', async () => {
+    const backend = newBackend({ accessTokenTtlMs: 20 });
+    const { api, session, onUnauthorized } = clientFor(backend);
+    const auth = await api.auth.login('ada@acme.test', PASSWORD);
+    session.access = auth.access_token;
+    session.refresh = auth.refresh_token;
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    const users = await api.users.list();
+    expect(users.length).toBeGreaterThan(0);
+    expect(session.access).not.toBe(auth.access_token);
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+});
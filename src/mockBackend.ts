@@ -0,0 +1,1824 @@
+// src/mockBackend.ts
+// In-memory stand-in for the MissedTask backend, enabled with REACT_APP_MOCK_BACKEND=true.
+// It answers every route the app calls and pushes the same WebSocket events the real
+// server does, so the frontend can be developed and tested fully offline.
+import { attachmentProblem, base64Size, contentTypeOf } from './attachments.ts';
+import { compactFieldValues, fieldDefinitionProblem, fieldValuesProblem, fieldValueStillFits, hasFieldOptions } from './customFields.ts';
+import { parentProblem } from './issueHierarchy.ts';
+import { HISTORY_FIELDS, ISSUE_HISTORY_SOCKET_EVENT } from './issueHistory.ts';
+import { templateProblem } from './issueTemplates.ts';
+import { DEFAULT_SCHEDULE, nextRunAfter, scheduleProblem } from './recurrence.ts';
+import { estimateProblem, toDateOnly, workLogProblem } from './timeTracking.ts';
+import {
+  Attachment,
+  AuthResponse,
+  ChatConversation,
+  ChatMessage,
+  Comment,
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValue,
+  Issue,
+  IssueHistoryEntry,
+  IssueLink,
+  IssueLinkType,
+  IssueTemplate,
+  Organization,
+  PresenceStatus,
+  RecurrenceSchedule,
+  RecurringIssue,
+  RecurringIssueTemplate,
+  User,
+  WorkflowStatus,
+  WorkLog
+} from './types.ts';
+import { WATCHER_NOTIFICATION_EVENT, WatcherNotificationKind, withWatcher } from './watchers.ts';
+import { DEFAULT_WORKFLOW, validateWorkflow, WORKFLOW_SOCKET_EVENT } from './workflow.ts';
+
+export interface MockBackendOptions {
+  /** Artificial network delay per request. */
+  latencyMs?: number;
+  /** Seeded teammates answer direct messages so incoming chat can be exercised. */
+  simulateTeammates?: boolean;
+  /** Every seeded account shares this password. */
+  seedPassword?: string;
+  /** Access token lifetime; keep it short to exercise silent session renewal. */
+  accessTokenTtlMs?: number;
+  /** Generated issues added on top of the hand-written seed, for exercising pagination. */
+  bulkIssueCount?: number;
+}
+
+// Shape used by the legacy team/personal chat endpoints (EnhancedChat)
+interface LegacyChatMessage {
+  id: string;
+  sender_id: string;
+  sender_name: string;
+  content: string;
+  timestamp: string;
+  chat_type: 'team' | 'personal';
+  recipient_id?: string;
+}
+
+interface PendingSignup {
+  email: string;
+  password: string;
+  name: string;
+  organization_name?: string;
+  member: boolean;
+}
+
+interface MockDatabase {
+  organizations: Organization[];
+  users: User[];
+  passwords: Record<string, string>;
+  issues: Issue[];
+  issueLinks: IssueLink[];
+  issueHistory: IssueHistoryEntry[];
+  /** Keyed by organization id; organizations created later start from DEFAULT_WORKFLOW. */
+  workflows: Record<string, WorkflowStatus[]>;
+  /** Keyed by organization id. */
+  customFields: Record<string, CustomFieldDefinition[]>;
+  /** Issue key and title are filled in when a log is read, so renames show up on timesheets. */
+  workLogs: Array<Omit<WorkLog, 'issue_key' | 'issue_title'>>;
+  /** Finished files are served as data URLs. */
+  attachments: Attachment[];
+  /** Uploads still receiving chunks, keyed by upload id; chunks are base64 keyed by byte offset. */
+  attachmentUploads: Record<string, Omit<Attachment, 'id' | 'url' | 'created_at'> & { chunks: Record<number, string> }>;
+  recurringIssues: RecurringIssue[];
+  issueTemplates: IssueTemplate[];
+  conversations: ChatConversation[];
+  messages: ChatMessage[];
+  legacyMessages: LegacyChatMessage[];
+  pendingSignups: Record<string, PendingSignup>;
+  refreshTokens: Record<string, string>;
+  issueCounter: number;
+  idCounter: number;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  body: any;
+  viewer: User | null;
+  query: URLSearchParams;
+  headers: Headers;
+}
+
+interface MockResult {
+  status: number;
+  body?: unknown;
+}
+
+type RouteHandler = (request: MockRequest, params: string[]) => MockResult;
+
+export const MOCK_OTP_CODE = '123456';
+const TOKEN_PREFIX = 'mock-token-';
+const REFRESH_TOKEN_PREFIX = 'mock-refresh-';
+const MANAGER_ROLES: User['role'][] = ['super_admin', 'admin', 'project_manager'];
+// Socket events kept for clients resuming after a disconnect; typing indicators aren't worth replaying
+const EVENT_LOG_LIMIT = 500;
+const EPHEMERAL_EVENTS = ['user_typing', 'pong'];
+// Clients heartbeat every 25s; a socket silent for three beats no longer counts towards presence
+const HEARTBEAT_TIMEOUT_MS = 75_000;
+const PRESENCE_RANK: PresenceStatus[] = ['active', 'idle', 'away'];
+const ISSUE_LINK_TYPES: IssueLinkType[] = ['blocks', 'duplicates', 'relates_to', 'clones'];
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 86400000).toISOString();
+
+const seedDatabase = (password: string, bulkIssueCount: number): MockDatabase => {
+  const orgId = 'org-acme';
+  const createdAt = daysFromNow(-60);
+  const organization: Organization = {
+    id: orgId,
+    name: 'Acme Corp',
+    domain: 'acme.test',
+    plan: 'pro',
+    user_count: 5,
+    max_users: 25,
+    created_at: createdAt
+  };
+
+  const seedUser = (id: string, name: string, role: User['role'], presence: PresenceStatus): User => ({
+    id,
+    name,
+    email: `${name.split(' ')[0].toLowerCase()}@acme.test`,
+    avatar: name.split(' ').map(part => part[0]).join(''),
+    role,
+    organization_id: orgId,
+    is_active: true,
+    created_at: createdAt,
+    last_seen: presence === 'offline' ? daysFromNow(-1) : new Date().toISOString(),
+    is_online: presence !== 'offline',
+    presence
+  });
+
+  const users = [
+    seedUser('user-ada', 'Ada Lovelace', 'super_admin', 'offline'),
+    seedUser('user-grace', 'Grace Hopper', 'project_manager', 'active'),
+    seedUser('user-linus', 'Linus Park', 'developer', 'offline'),
+    seedUser('user-margaret', 'Margaret Hamilton', 'developer', 'away'),
+    seedUser('user-tim', 'Tim Berners', 'tester', 'offline')
+  ];
+
+  const seedIssue = (
+    n: number,
+    title: string,
+    issueType: Issue['issue_type'],
+    priority: Issue['priority'],
+    status: Issue['status'],
+    assigneeId: string | null,
+    deadlineInDays: number | null,
+    labels: string[],
+    parentId: string | null = null
+  ): Issue => ({
+    id: `issue-${n}`,
+    key: `MT-${n}`,
+    title,
+    description: `${title}. Seeded by the mock backend.`,
+    issue_type: issueType,
+    priority,
+    status,
+    assignee_id: assigneeId,
+    reporter_id: 'user-grace',
+    story_points: (n % 5) + 1,
+    created_at: daysFromNow(-30 + n),
+    updated_at: daysFromNow(-10 + n),
+    labels,
+    visibility: 'organization',
+    organization_id: orgId,
+    deadline: deadlineInDays === null ? null : daysFromNow(deadlineInDays),
+    parent_id: parentId,
+    custom_fields: {},
+    original_estimate_minutes: null,
+    remaining_estimate_minutes: null,
+    time_spent_minutes: 0,
+    attachment_count: 0,
+    watcher_ids: withWatcher(['user-grace'], assigneeId),
+    comments: []
+  });
+
+  const issues = [
+    seedIssue(1, 'Onboarding checklist for new members', 'EPIC', 'HIGH', 'IN_PROGRESS', 'user-grace', 14, ['onboarding']),
+    seedIssue(2, 'Login form forgets the email after a failed attempt', 'BUG', 'HIGHEST', 'TODO', 'user-linus', -1, ['auth', 'ui']),
+    seedIssue(3, 'Export board to XLSX', 'STORY', 'MEDIUM', 'READY_FOR_QA', 'user-margaret', 3, ['import-export']),
+    seedIssue(4, 'Add deadline reminders to notifications', 'STORY', 'MEDIUM', 'TODO', 'user-margaret', 7, ['notifications']),
+    seedIssue(5, 'Regression pass on the chat popup', 'TASK', 'LOW', 'TODO', 'user-tim', 0, ['chat', 'qa']),
+    seedIssue(6, 'Upgrade charts library', 'TASK', 'LOWEST', 'DONE', 'user-linus', null, ['tech-debt']),
+    seedIssue(7, 'Profile picture upload fails for large images', 'BUG', 'HIGH', 'BLOCKED', 'user-linus', 2, ['profile']),
+    seedIssue(8, 'Write the admin panel user guide', 'TASK', 'MEDIUM', 'DONE', null, null, ['docs'], 'issue-1'),
+    seedIssue(9, 'Welcome email for invited members', 'STORY', 'MEDIUM', 'IN_PROGRESS', 'user-margaret', 5, ['onboarding'], 'issue-1'),
+    seedIssue(10, 'Draft the welcome email copy', 'SUBTASK', 'LOW', 'DONE', 'user-grace', null, ['onboarding'], 'issue-9'),
+    seedIssue(11, 'Send the welcome email on invite', 'SUBTASK', 'MEDIUM', 'TODO', 'user-linus', 5, ['onboarding'], 'issue-9')
+  ];
+  const statuses = ['TODO', 'IN_PROGRESS', 'REVIEW', 'DONE'];
+  const issueTypes: Issue['issue_type'][] = ['STORY', 'TASK', 'BUG'];
+  const priorities: Issue['priority'][] = ['HIGHEST', 'HIGH', 'MEDIUM', 'LOW', 'LOWEST'];
+  for (let i = 0; i < bulkIssueCount; i += 1) {
+    const n = issues.length + 1;
+    issues.push(seedIssue(
+      n,
+      `Backlog item ${n}`,
+      issueTypes[i % issueTypes.length],
+      priorities[i % priorities.length],
+      statuses[i % statuses.length],
+      users[i % users.length].id,
+      null,
+      ['backlog']
+    ));
+  }
+  issues[1].watcher_ids = withWatcher(issues[1].watcher_ids, 'user-tim');
+  issues[1].original_estimate_minutes = 8 * 60;
+  issues[1].remaining_estimate_minutes = 3 * 60;
+  issues[2].original_estimate_minutes = 2 * 8 * 60;
+  issues[2].remaining_estimate_minutes = 0;
+  issues[8].original_estimate_minutes = 3 * 8 * 60;
+  issues[8].remaining_estimate_minutes = 2 * 8 * 60;
+  const seedWorkLog = (n: number, issueN: number, authorId: string, minutes: number, dayOffset: number, note: string) => ({
+    id: `worklog-${n}`,
+    issue_id: `issue-${issueN}`,
+    author_id: authorId,
+    minutes,
+    date: toDateOnly(new Date(daysFromNow(dayOffset))),
+    note,
+    created_at: daysFromNow(dayOffset)
+  });
+  const workLogs = [
+    seedWorkLog(1, 2, 'user-linus', 3 * 60, -2, 'Reproduced and traced to the form reset'),
+    seedWorkLog(2, 2, 'user-linus', 2 * 60, -1, 'Keep the email on failed attempts'),
+    seedWorkLog(3, 2, 'user-tim', 90, -1, 'Retested on Safari and Chrome'),
+    seedWorkLog(4, 3, 'user-margaret', 6 * 60, -6, 'Sheet layout and styling'),
+    seedWorkLog(5, 3, 'user-margaret', 12 * 60, -4, 'Custom field columns'),
+    seedWorkLog(6, 9, 'user-margaret', 4 * 60, -3, 'Template and sending hook'),
+    seedWorkLog(7, 9, 'user-margaret', 4 * 60, 0, 'Invite flow wiring'),
+    seedWorkLog(8, 5, 'user-tim', 45, 0, 'First pass over the popup')
+  ];
+  workLogs.forEach(log => {
+    const issue = issues.find(candidate => candidate.id === log.issue_id)!;
+    issue.time_spent_minutes = (issue.time_spent_minutes ?? 0) + log.minutes;
+  });
+  const attachments: Attachment[] = [
+    {
+      id: 'attachment-1',
+      issue_id: 'issue-2',
+      file_name: 'login-form.png',
+      content_type: 'image/png',
+      size: 261,
+      url: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAKAAAABaCAIAAACwpMoFAAAAzElEQVR42u3ZoQ2AMBCG0frugGeAKvZfA1mDhVSCxjY5Qi4v+Sa45/4r5zWUuOIEgAVYgAVYgAVYL+Bl3ZQ4wIAFWIAFWIAFWIABC7AA6w/A5njfJAEWYAEWYAEWYMACLMACLMACLMCAJ9pb1QcBBhwJfB9dQQEGDBgwYMCAAQuwAAswYMCAAQO2RduinT45sDz8BViABViAAQuwAAuwAAuwAAswYAEWYAEWYAEWYMACLMACLMACLMCABViABViABViABRiwAAuwACuoBwZhFl3fEVgfAAAAAElFTkSuQmCC',
+      uploaded_by: 'user-tim',
+      created_at: daysFromNow(-2)
+    },
+    {
+      id: 'attachment-2',
+      issue_id: 'issue-2',
+      file_name: 'auth.log',
+      content_type: 'text/plain',
+      size: 153,
+      url: 'data:text/plain;base64,MjAyNi0xMC0xMiAwOToxNDowMyBFUlJPUiBhdXRoOiBzZXNzaW9uIHJlc2V0IGFmdGVyIGZhaWxlZCBsb2dpbiwgZW1haWwgZmllbGQgY2xlYXJlZAoyMDI2LTEwLTEyIDA5OjE0OjAzIFdBUk4gIGZvcm06IHJlc3RvcmluZyBkcmFmdCBza2lwcGVkIChubyBkcmFmdCkK',
+      uploaded_by: 'user-tim',
+      created_at: daysFromNow(-2)
+    }
+  ];
+  issues[1].attachment_count = attachments.length;
+  issues[1].custom_fields = { 'field-customer': 'Globex', 'field-environment': 'Production', 'field-releases': ['2.4'] };
+  issues[6].custom_fields = { 'field-environment': 'Staging', 'field-qa-owner': 'user-tim' };
+  issues[1].comments = [{
+    id: 'comment-1',
+    content: 'Reproduced on Safari and Chrome.',
+    author_id: 'user-tim',
+    issue_id: 'issue-2',
+    created_at: daysFromNow(-2),
+    updated_at: daysFromNow(-2)
+  }];
+
+  const issueHistory: IssueHistoryEntry[] = issues.map(issue => ({
+    id: `history-${issue.id}`,
+    issue_id: issue.id,
+    actor_id: issue.reporter_id,
+    created_at: issue.created_at,
+    kind: 'created',
+    changes: []
+  }));
+  issueHistory.push(
+    {
+      id: 'history-seed-1',
+      issue_id: 'issue-2',
+      actor_id: 'user-tim',
+      created_at: daysFromNow(-12),
+      kind: 'updated',
+      changes: [{ field: 'priority', from: 'HIGH', to: 'HIGHEST' }, { field: 'labels', from: ['auth'], to: ['auth', 'ui'] }]
+    },
+    {
+      id: 'history-seed-2',
+      issue_id: 'issue-2',
+      actor_id: 'user-linus',
+      created_at: daysFromNow(-9),
+      kind: 'updated',
+      changes: [{ field: 'description', from: 'The login form forgets the email. Seeded by the mock backend.', to: issues[1].description }]
+    }
+  );
+
+  const seedLink = (id: string, type: IssueLinkType, sourceN: number, targetN: number): IssueLink => ({
+    id,
+    type,
+    source_id: `issue-${sourceN}`,
+    source_key: `MT-${sourceN}`,
+    target_id: `issue-${targetN}`,
+    target_key: `MT-${targetN}`,
+    created_by: 'user-grace',
+    created_at: daysFromNow(-5)
+  });
+
+  const seedRecurringIssue = (
+    n: number,
+    title: string,
+    schedule: Partial<RecurrenceSchedule>,
+    assigneeId: string,
+    deadlineOffsetDays: number,
+    labels: string[],
+    paused = false
+  ): RecurringIssue => {
+    const fullSchedule = { ...DEFAULT_SCHEDULE, ...schedule };
+    return {
+      id: `recurring-${n}`,
+      organization_id: orgId,
+      template: {
+        title,
+        description: `${title}. Created on a schedule by the mock backend.`,
+        issue_type: 'TASK',
+        priority: 'MEDIUM',
+        status: 'TODO',
+        assignee_id: assigneeId,
+        story_points: 1,
+        labels,
+        parent_id: null,
+        custom_fields: {},
+        original_estimate_minutes: null,
+        deadline_offset_days: deadlineOffsetDays
+      },
+      schedule: fullSchedule,
+      paused,
+      next_run_at: paused ? null : nextRunAfter(fullSchedule, new Date())!.toISOString(),
+      last_run_at: null,
+      last_issue_key: null,
+      issue_count: 0,
+      last_error: null,
+      created_by: 'user-grace',
+      created_at: daysFromNow(-20)
+    };
+  };
+  const recurringIssues = [
+    seedRecurringIssue(1, 'Rotate certificates', { frequency: 'cron', cron: '0 9 1 */3 *' }, 'user-linus', 7, ['ops', 'security']),
+    seedRecurringIssue(2, 'Monthly backup restore test', { frequency: 'monthly', day_of_month: 15, time: '10:00' }, 'user-tim', 3, ['ops']),
+    seedRecurringIssue(3, 'Dependency audit', { frequency: 'weekly', weekdays: [1], time: '09:00' }, 'user-margaret', 2, ['tech-debt'], true)
+  ];
+
+  const seedTemplate = (
+    n: number,
+    name: string,
+    fields: Pick<IssueTemplate, 'issue_type' | 'title_pattern' | 'description' | 'priority' | 'labels' | 'story_points' | 'is_default'>
+  ): IssueTemplate => ({ id: `template-${n}`, organization_id: orgId, name, ...fields, created_by: 'user-ada', updated_at: daysFromNow(-30) });
+  const issueTemplates = [
+    seedTemplate(1, 'Bug report', {
+      issue_type: 'BUG',
+      title_pattern: '[Bug] ',
+      description: '## Steps to reproduce\n1. \n\n## Expected\n\n## Actual\n\n## Environment\nBrowser / OS:\nVersion:',
+      priority: 'HIGH',
+      labels: ['bug'],
+      story_points: null,
+      is_default: true
+    }),
+    seedTemplate(2, 'Production incident', {
+      issue_type: 'BUG',
+      title_pattern: '[Incident {date}] ',
+      description: '## Impact\nWho is affected and since when.\n\n## Timeline\n\n## Mitigation\n\n## Follow-ups',
+      priority: 'HIGHEST',
+      labels: ['bug', 'incident'],
+      story_points: null,
+      is_default: false
+    }),
+    seedTemplate(3, 'User story', {
+      issue_type: 'STORY',
+      title_pattern: '',
+      description: 'As a <role>, I want <goal> so that <reason>.\n\n## Acceptance criteria\n- [ ] ',
+      priority: 'MEDIUM',
+      labels: [],
+      story_points: 3,
+      is_default: true
+    })
+  ];
+
+  const teamConversation: ChatConversation = {
+    id: 'conv-team',
+    type: 'team',
+    name: 'Team Chat',
+    participants: users.map(u => u.id),
+    last_activity: daysFromNow(-1)
+  };
+
+  return {
+    organizations: [organization],
+    users,
+    passwords: Object.fromEntries(users.map(u => [u.email, password])),
+    issues,
+    issueLinks: [
+      seedLink('link-1', 'blocks', 2, 9),
+      seedLink('link-2', 'blocks', 10, 11),
+      seedLink('link-3', 'relates_to', 4, 9)
+    ],
+    issueHistory,
+    workflows: {
+      [orgId]: [
+        { id: 'TODO', name: 'To Do', color: '#42526e', category: 'todo' },
+        { id: 'IN_PROGRESS', name: 'In Progress', color: '#0052cc', category: 'in_progress' },
+        { id: 'BLOCKED', name: 'Blocked', color: '#de350b', category: 'in_progress' },
+        { id: 'REVIEW', name: 'In Review', color: '#ffa500', category: 'in_progress' },
+        { id: 'READY_FOR_QA', name: 'Ready for QA', color: '#6554c0', category: 'in_progress' },
+        { id: 'DONE', name: 'Done', color: '#36b37e', category: 'done' }
+      ]
+    },
+    workLogs,
+    attachments,
+    attachmentUploads: {},
+    recurringIssues,
+    issueTemplates,
+    customFields: {
+      [orgId]: [
+        { id: 'field-customer', name: 'Customer', type: 'text', options: [], required: false },
+        { id: 'field-environment', name: 'Environment', type: 'select', options: ['Production', 'Staging', 'Development'], required: false },
+        { id: 'field-releases', name: 'Affected Releases', type: 'multi_select', options: ['2.3', '2.4', '2.5'], required: false },
+        { id: 'field-qa-owner', name: 'QA Owner', type: 'user', options: [], required: false }
+      ]
+    },
+    conversations: [teamConversation],
+    messages: [{
+      id: 'msg-1',
+      content: 'Welcome to the mock workspace! Everything here lives in memory.',
+      conversation_id: teamConversation.id,
+      created_at: daysFromNow(-1),
+      sender_id: 'user-grace',
+      sender_name: 'Grace Hopper',
+      sender_avatar: 'GH'
+    }],
+    legacyMessages: [],
+    pendingSignups: {},
+    refreshTokens: {},
+    issueCounter: issues.length,
+    idCounter: 100
+  };
+};
+
+// jsdom (used by the test runner) has no Response constructor, so only the parts the API client reads are provided
+const toResponse = ({ status, body }: MockResult): Response => {
+  const text = body === undefined || status === 204 ? '' : JSON.stringify(body);
+  const headers = new Map<string, string>([['content-type', 'application/json']]);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers.get(name.toLowerCase()) ?? null },
+    text: async () => text,
+    json: async () => (text ? JSON.parse(text) : null)
+  } as unknown as Response;
+};
+
+const ok = (body: unknown = null): MockResult => ({ status: 200, body });
+const created = (body: unknown): MockResult => ({ status: 201, body });
+const fail = (status: number, detail: string): MockResult => ({ status, body: { detail } });
+
+/** Minimal WebSocket look-alike; the app only uses the on* handlers, send, close and readyState. */
+export class MockWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState = MockWebSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent | Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private readonly handleClientFrame: (socket: MockWebSocket, data: string) => void;
+  private readonly handleClose: (socket: MockWebSocket) => void;
+
+  constructor(
+    url: string,
+    hooks: { onClientFrame: (socket: MockWebSocket, data: string) => void; onClose: (socket: MockWebSocket) => void }
+  ) {
+    super();
+    this.url = url;
+    this.handleClientFrame = hooks.onClientFrame;
+    this.handleClose = hooks.onClose;
+  }
+
+  open() {
+    if (this.readyState !== MockWebSocket.CONNECTING) return;
+    this.readyState = MockWebSocket.OPEN;
+    this.fire('open', new Event('open'));
+  }
+
+  send(data: string) {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new Error('MockWebSocket is not open');
+    }
+    this.handleClientFrame(this, data);
+  }
+
+  close() {
+    if (this.readyState === MockWebSocket.CLOSED) return;
+    this.readyState = MockWebSocket.CLOSED;
+    this.handleClose(this);
+    this.fire('close', new Event('close'));
+  }
+
+  /** Deliver a server frame to the page. */
+  receive(payload: unknown) {
+    if (this.readyState !== MockWebSocket.OPEN) return;
+    this.fire('message', new MessageEvent('message', { data: JSON.stringify(payload) }));
+  }
+
+  private fire(type: 'open' | 'message' | 'close' | 'error', event: Event) {
+    const handler = this[`on${type}` as const] as ((event: Event) => void) | null;
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+export const createMockBackend = (options: MockBackendOptions = {}) => {
+  const latencyMs = options.latencyMs ?? 150;
+  const accessTokenTtlMs = options.accessTokenTtlMs ?? 15 * 60 * 1000;
+  const simulateTeammates = options.simulateTeammates ?? true;
+  const seedPassword = options.seedPassword ?? 'password123';
+  const bulkIssueCount = options.bulkIssueCount ?? 0;
+  let db = seedDatabase(seedPassword, bulkIssueCount);
+  const sockets = new Map<MockWebSocket, string>();
+  // Last heartbeat per socket; a user's presence is the most present of their live sockets
+  const socketPresence = new Map<MockWebSocket, { status: PresenceStatus; heartbeatAt: number }>();
+  // Which issue each socket has open; viewer lists are only sent to sockets looking at the same issue
+  const socketViewing = new Map<MockWebSocket, { issueId: string; editing: boolean }>();
+  // Sequence numbers keep growing across reset() so a resuming client never mistakes new events for seen ones
+  let eventLog: Array<{ seq: number; recipients: string[]; frame: Record<string, unknown> }> = [];
+  let eventSeq = 0;
+
+  const nextId = (prefix: string) => {
+    db.idCounter += 1;
+    return `${prefix}-${db.idCounter}`;
+  };
+
+  // Access tokens look like mock-token-<userId>.<issuedAt> and expire after accessTokenTtlMs
+  const userForToken = (token: string | null | undefined) => {
+    if (!token || !token.startsWith(TOKEN_PREFIX)) return null;
+    const [userId, issuedAt] = token.slice(TOKEN_PREFIX.length).split('.');
+    if (!issuedAt || Date.now() - Number(issuedAt) > accessTokenTtlMs) return null;
+    return db.users.find(u => u.id === userId && u.is_active) ?? null;
+  };
+
+  const issueTokens = (user: User) => {
+    const refreshToken = `${REFRESH_TOKEN_PREFIX}${nextId('rt')}`;
+    db.refreshTokens[refreshToken] = user.id;
+    return { access_token: `${TOKEN_PREFIX}${user.id}.${Date.now()}`, refresh_token: refreshToken };
+  };
+
+  const authResponse = (user: User): AuthResponse => ({
+    ...issueTokens(user),
+    token_type: 'bearer',
+    user,
+    organization: db.organizations.find(o => o.id === user.organization_id)!
+  });
+
+  const orgUsers = (orgId: string) => db.users.filter(u => u.organization_id === orgId);
+
+  const isOnline = (userId: string) => Array.from(sockets.values()).includes(userId);
+
+  // Users without a socket keep their stored presence, which is how the simulated teammates appear online
+  const presenceOf = (user: User): PresenceStatus => {
+    if (!isOnline(user.id)) return user.presence ?? 'offline';
+    const now = Date.now();
+    const live = Array.from(sockets.entries())
+      .filter(([socket, userId]) => userId === user.id && now - (socketPresence.get(socket)?.heartbeatAt ?? 0) < HEARTBEAT_TIMEOUT_MS)
+      .map(([socket]) => socketPresence.get(socket)!.status);
+    return PRESENCE_RANK.find(status => live.includes(status)) ?? 'offline';
+  };
+
+  const withPresence = (user: User): User => {
+    const presence = presenceOf(user);
+    return { ...user, presence, is_online: presence !== 'offline' };
+  };
+
+  // ---- WebSocket fan-out ----
+
+  const pushToUsers = (userIds: string[], payload: Record<string, unknown>) => {
+    let frame = payload;
+    if (!EPHEMERAL_EVENTS.includes(String(payload.type))) {
+      eventSeq += 1;
+      frame = { ...payload, event_id: String(eventSeq), sent_at: new Date().toISOString() };
+      eventLog.push({ seq: eventSeq, recipients: userIds, frame });
+      if (eventLog.length > EVENT_LOG_LIMIT) eventLog.shift();
+    }
+    sockets.forEach((userId, socket) => {
+      if (userIds.includes(userId)) socket.receive(frame);
+    });
+  };
+
+  const pushToOrg = (orgId: string, payload: Record<string, unknown>) => {
+    pushToUsers(orgUsers(orgId).map(u => u.id), payload);
+  };
+
+  const viewersOf = (issueId: string) => {
+    const viewers = new Map<string, boolean>();
+    socketViewing.forEach((viewing, socket) => {
+      const userId = sockets.get(socket);
+      if (userId && viewing.issueId === issueId) viewers.set(userId, viewers.get(userId) || viewing.editing);
+    });
+    return Array.from(viewers, ([user_id, editing]) => ({ user_id, editing }));
+  };
+
+  const broadcastIssueViewers = (issueId: string) => {
+    const frame = { type: 'issue_viewers', issue_id: issueId, viewers: viewersOf(issueId) };
+    socketViewing.forEach((viewing, socket) => {
+      if (viewing.issueId === issueId) socket.receive(frame);
+    });
+  };
+
+  // Closing the issue (issue_id null) or the socket releases any edit lock it held
+  const setSocketViewing = (socket: MockWebSocket, next: { issueId: string; editing: boolean } | null) => {
+    const previous = socketViewing.get(socket);
+    if (next) socketViewing.set(socket, next);
+    else socketViewing.delete(socket);
+    if (previous && previous.issueId !== next?.issueId) broadcastIssueViewers(previous.issueId);
+    if (next) broadcastIssueViewers(next.issueId);
+  };
+
+  const participantsOf = (conversation: ChatConversation) =>
+    conversation.type === 'team' || conversation.type === 'general'
+      ? db.users.map(u => u.id)
+      : conversation.participants ?? [];
+
+  const postChatMessage = (conversation: ChatConversation, sender: User, content: string) => {
+    const message: ChatMessage = {
+      id: nextId('msg'),
+      content,
+      conversation_id: conversation.id,
+      created_at: new Date().toISOString(),
+      sender_id: sender.id,
+      sender_name: sender.name,
+      sender_avatar: sender.avatar
+    };
+    db.messages.push(message);
+    conversation.last_activity = message.created_at;
+    pushToUsers(participantsOf(conversation), { type: 'chat_message', message });
+    return message;
+  };
+
+  const scheduleTeammateReply = (conversation: ChatConversation, sender: User) => {
+    if (!simulateTeammates || conversation.type !== 'direct') return;
+    const teammate = db.users.find(u => u.id !== sender.id && conversation.participants?.includes(u.id));
+    if (!teammate) return;
+
+    setTimeout(() => {
+      pushToUsers([sender.id], { type: 'user_typing', conversation_id: conversation.id, user_id: teammate.id });
+    }, 400);
+    setTimeout(() => {
+      postChatMessage(conversation, teammate, `Got it, ${sender.name.split(' ')[0]}! (automatic reply from the mock backend)`);
+    }, 1600);
+  };
+
+  const handleClientFrame = (socket: MockWebSocket, data: string) => {
+    let frame: any;
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      return;
+    }
+    const userId = sockets.get(socket);
+    if (!userId) return;
+    runDueRecurringIssues();
+
+    if (frame?.type === 'ping') {
+      socket.receive({ type: 'pong' });
+      return;
+    }
+    if (frame?.type === 'heartbeat') {
+      const user = db.users.find(u => u.id === userId);
+      const status = PRESENCE_RANK.includes(frame.status) ? (frame.status as PresenceStatus) : 'active';
+      if (!user) return;
+      const before = presenceOf(user);
+      socketPresence.set(socket, { status, heartbeatAt: Date.now() });
+      user.last_seen = new Date().toISOString();
+      const after = presenceOf(user);
+      if (after !== before) {
+        pushToOrg(user.organization_id, { type: 'presence_changed', user_id: user.id, status: after, last_seen: user.last_seen });
+      }
+      return;
+    }
+    if (frame?.type === 'resume') {
+      const lastSeq = Number(frame.last_event_id);
+      const oldestSeq = eventLog.length > 0 ? eventLog[0].seq : eventSeq + 1;
+      // Too far behind (or from before a reset): the client has to reload instead
+      if (!Number.isFinite(lastSeq) || lastSeq < oldestSeq - 1 || lastSeq > eventSeq) {
+        socket.receive({ type: 'resume_failed', reason: 'history_unavailable' });
+        return;
+      }
+      const missed = eventLog.filter(entry => entry.seq > lastSeq && entry.recipients.includes(userId));
+      missed.forEach(entry => socket.receive(entry.frame));
+      socket.receive({ type: 'resume_complete', replayed: missed.length, last_event_id: String(eventSeq) });
+      return;
+    }
+    if (frame?.type === 'issue_viewing') {
+      const user = db.users.find(u => u.id === userId);
+      const issue = frame.issue_id ? db.issues.find(i => i.id === frame.issue_id) : undefined;
+      if (issue && user && issue.organization_id === user.organization_id) {
+        setSocketViewing(socket, { issueId: issue.id, editing: Boolean(frame.editing) });
+      } else {
+        setSocketViewing(socket, null);
+      }
+      return;
+    }
+    if (frame?.type === 'user_typing' && frame.conversation_id) {
+      const conversation = db.conversations.find(c => c.id === frame.conversation_id);
+      if (!conversation) return;
+      sockets.forEach((otherUserId, otherSocket) => {
+        if (otherSocket !== socket && participantsOf(conversation).includes(otherUserId)) {
+          otherSocket.receive({ type: 'user_typing', conversation_id: conversation.id, user_id: userId });
+        }
+      });
+    }
+    // chat_message frames are echoes of REST posts the server has already broadcast
+  };
+
+  const handleSocketClose = (socket: MockWebSocket) => {
+    const userId = sockets.get(socket);
+    const viewing = socketViewing.get(socket);
+    sockets.delete(socket);
+    socketPresence.delete(socket);
+    socketViewing.delete(socket);
+    if (viewing) broadcastIssueViewers(viewing.issueId);
+    const user = db.users.find(u => u.id === userId);
+    if (user && !isOnline(user.id)) {
+      user.presence = 'offline';
+      user.is_online = false;
+      user.last_seen = new Date().toISOString();
+      pushToOrg(user.organization_id, { type: 'user_offline', user_id: user.id, last_seen: user.last_seen });
+    }
+  };
+
+  // ---- Routes ----
+
+  // Pages are ordered by key number so cursors stay stable while issues are added
+  const issueNumber = (issue: Issue) => Number(issue.key.split('-').pop()) || 0;
+
+  const findIssue = (viewer: User, issueId: string) =>
+    db.issues.find(issue => issue.id === issueId && issue.organization_id === viewer.organization_id);
+
+  const workflowOf = (orgId: string) => db.workflows[orgId] ?? DEFAULT_WORKFLOW;
+
+  const initialStatusOf = (orgId: string) => (workflowOf(orgId).find(status => status.category === 'todo') ?? workflowOf(orgId)[0]).id;
+
+  const statusProblem = (viewer: User, body: any) =>
+    body?.status !== undefined && !workflowOf(viewer.organization_id).some(status => status.id === body.status)
+      ? `Unknown status "${body.status}"`
+      : null;
+
+  const customFieldsOf = (orgId: string) => db.customFields[orgId] ?? [];
+
+  // Creates check every field, so required ones can't be skipped; updates only check values they send
+  const customFieldProblem = (viewer: User, body: any, isCreate: boolean) => {
+    if (!isCreate && body?.custom_fields === undefined) return null;
+    const members = new Set(orgUsers(viewer.organization_id).map(u => u.id));
+    return fieldValuesProblem(customFieldsOf(viewer.organization_id), body?.custom_fields ?? {}, userId => members.has(userId));
+  };
+
+  const applyIssueFields = (issue: Issue, body: any) => {
+    const fields: Array<keyof Issue> = [
+      'title', 'description', 'issue_type', 'priority', 'status', 'assignee_id', 'story_points', 'labels', 'deadline', 'visibility', 'parent_id',
+      'original_estimate_minutes', 'remaining_estimate_minutes'
+    ];
+    // A first estimate is all still to do
+    if (body.original_estimate_minutes != null && body.remaining_estimate_minutes === undefined && issue.remaining_estimate_minutes == null) {
+      issue.remaining_estimate_minutes = body.original_estimate_minutes;
+    }
+    fields.forEach(field => {
+      if (body[field] !== undefined) {
+        (issue as any)[field] = body[field];
+      }
+    });
+    if (body.custom_fields !== undefined) issue.custom_fields = compactFieldValues(body.custom_fields);
+    // updated_at doubles as the version checked by conditional updates, so two writes in the same millisecond must differ
+    issue.updated_at = new Date(Math.max(Date.now(), Date.parse(issue.updated_at) + 1)).toISOString();
+  };
+
+  const readFieldDefinition = (body: any): Omit<CustomFieldDefinition, 'id'> => {
+    const type = body?.type as CustomFieldType;
+    return {
+      name: String(body?.name ?? '').trim(),
+      type,
+      options: hasFieldOptions(type) && Array.isArray(body?.options) ? body.options.map((option: unknown) => String(option).trim()) : [],
+      required: !!body?.required
+    };
+  };
+
+  const readIssueTemplate = (body: any): Pick<IssueTemplate, 'name' | 'issue_type' | 'title_pattern' | 'description' | 'priority' | 'labels' | 'story_points' | 'is_default'> => ({
+    name: String(body?.name ?? '').trim(),
+    issue_type: body?.issue_type,
+    title_pattern: String(body?.title_pattern ?? ''),
+    description: String(body?.description ?? ''),
+    priority: body?.priority ?? 'MEDIUM',
+    labels: Array.isArray(body?.labels) ? body.labels.map((label: unknown) => String(label).trim()) : [],
+    story_points: body?.story_points ?? null,
+    is_default: !!body?.is_default
+  });
+
+  const issueTemplatesOf = (orgId: string) => db.issueTemplates.filter(template => template.organization_id === orgId);
+
+  // Stores a template; a new default takes the flag from the type's old one, and everyone hears about both
+  const saveIssueTemplate = (viewer: User, template: IssueTemplate, type: 'issue_template_created' | 'issue_template_updated') => {
+    const replaced = template.is_default
+      ? issueTemplatesOf(viewer.organization_id).find(other => other.id !== template.id && other.issue_type === template.issue_type && other.is_default)
+      : undefined;
+    db.issueTemplates = [
+      ...db.issueTemplates.filter(existing => existing.id !== template.id).map(existing => (existing === replaced ? { ...existing, is_default: false } : existing)),
+      template
+    ];
+    if (replaced) {
+      pushToOrg(viewer.organization_id, { type: 'issue_template_updated', template: { ...replaced, is_default: false }, actor_id: viewer.id });
+    }
+    pushToOrg(viewer.organization_id, { type, template, actor_id: viewer.id });
+  };
+
+  // Records what an edit changed, if anything, and tells everyone following the issue's activity
+  const recordHistory = (viewer: User, issue: Issue, before: Issue | null): IssueHistoryEntry | null => {
+    const changes = before
+      ? HISTORY_FIELDS.flatMap(field => {
+        const from = before[field] ?? null;
+        const to = issue[field] ?? null;
+        return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ field, from, to }];
+      })
+      : [];
+    if (before && changes.length === 0) return null;
+    const entry: IssueHistoryEntry = {
+      id: nextId('history'),
+      issue_id: issue.id,
+      actor_id: viewer.id,
+      created_at: issue.updated_at,
+      kind: before ? 'updated' : 'created',
+      changes
+    };
+    db.issueHistory.push(entry);
+    pushToOrg(viewer.organization_id, { type: ISSUE_HISTORY_SOCKET_EVENT, issue_id: issue.id, entry, actor_id: viewer.id });
+    return entry;
+  };
+
+  // Only watchers hear about changes and comments, and never the person who made them
+  const notifyWatchers = (viewer: User, issue: Issue, kind: WatcherNotificationKind, details: Record<string, unknown>) => {
+    const members = orgUsers(viewer.organization_id);
+    const recipients = (issue.watcher_ids ?? []).filter(userId => userId !== viewer.id && members.some(member => member.id === userId));
+    if (recipients.length === 0) return;
+    pushToUsers(recipients, { type: WATCHER_NOTIFICATION_EVENT, kind, issue_id: issue.id, issue_key: issue.key, actor_id: viewer.id, ...details });
+  };
+
+  const saveIssueChanges = (viewer: User, issue: Issue, body: any) => {
+    const before = { ...issue };
+    applyIssueFields(issue, body);
+    issue.watcher_ids = withWatcher(issue.watcher_ids, issue.assignee_id);
+    pushToOrg(viewer.organization_id, { type: 'issue_updated', issue, previous_status: before.status, actor_id: viewer.id });
+    const entry = recordHistory(viewer, issue, before);
+    if (!entry) return;
+    const fields = entry.changes.map(change => change.field);
+    if (before.status !== issue.status) {
+      notifyWatchers(viewer, issue, 'status_changed', { issue, fields, from_status: before.status, to_status: issue.status });
+    } else {
+      notifyWatchers(viewer, issue, 'issue_updated', { issue, fields });
+    }
+  };
+
+  // Watching isn't an edit: it keeps the issue's version, so nobody's open edit turns stale over it
+  const setWatchers = (viewer: User, issue: Issue, watcherIds: string[]) => {
+    if (JSON.stringify(watcherIds) === JSON.stringify(issue.watcher_ids ?? [])) return;
+    issue.watcher_ids = watcherIds;
+    pushToOrg(viewer.organization_id, { type: 'issue_updated', issue, actor_id: viewer.id });
+  };
+
+  const clearFieldValues = (viewer: User, fieldId: string, shouldClear: (value: CustomFieldValue) => boolean) => {
+    db.issues
+      .filter(issue => issue.organization_id === viewer.organization_id && issue.custom_fields?.[fieldId] !== undefined)
+      .filter(issue => shouldClear(issue.custom_fields![fieldId]))
+      .forEach(issue => {
+        const { [fieldId]: _cleared, ...rest } = issue.custom_fields!;
+        saveIssueChanges(viewer, issue, { custom_fields: rest });
+      });
+  };
+
+  // Checks the parent an issue would have after a create or update, and that its children still fit its type
+  const hierarchyProblem = (viewer: User, issue: Partial<Issue> | undefined, body: any) => {
+    const issueType: Issue['issue_type'] = body?.issue_type ?? issue?.issue_type ?? 'TASK';
+    const parentId: string | null = body?.parent_id !== undefined ? body.parent_id : issue?.parent_id ?? null;
+    if (!parentId && issueType === 'SUBTASK') return 'A subtask needs a parent issue';
+    if (parentId) {
+      const parent = db.issues.find(candidate => candidate.id === parentId && candidate.organization_id === viewer.organization_id);
+      const problem = parentProblem(issueType, parent, issue?.id);
+      if (problem) return problem;
+    }
+    const issueId = issue?.id;
+    if (!issueId) return null;
+    for (const child of db.issues.filter(candidate => candidate.parent_id === issueId)) {
+      const problem = parentProblem(child.issue_type, { id: issueId, issue_type: issueType });
+      if (problem) return `${child.key}: ${problem}. Move it first.`;
+    }
+    return null;
+  };
+
+  const timeTrackingProblem = (body: any) =>
+    estimateProblem(body?.original_estimate_minutes, 'Original estimate') ?? estimateProblem(body?.remaining_estimate_minutes, 'Remaining estimate');
+
+  // Shared by the create route and recurring series; returns the problem instead when the body doesn't fit
+  const createIssue = (viewer: User, body: any, recurringIssueId: string | null = null): Issue | string => {
+    if (!String(body?.title ?? '').trim()) return 'Title is required';
+    const problem = statusProblem(viewer, body)
+      ?? hierarchyProblem(viewer, undefined, body)
+      ?? customFieldProblem(viewer, body, true)
+      ?? timeTrackingProblem(body);
+    if (problem) return problem;
+    db.issueCounter += 1;
+    const now = new Date().toISOString();
+    const issue: Issue = {
+      id: nextId('issue'),
+      key: `MT-${db.issueCounter}`,
+      title: '',
+      description: '',
+      issue_type: 'TASK',
+      priority: 'MEDIUM',
+      status: initialStatusOf(viewer.organization_id),
+      assignee_id: null,
+      reporter_id: viewer.id,
+      story_points: null,
+      created_at: now,
+      updated_at: now,
+      labels: [],
+      visibility: 'organization',
+      organization_id: viewer.organization_id,
+      deadline: null,
+      parent_id: null,
+      custom_fields: {},
+      original_estimate_minutes: null,
+      remaining_estimate_minutes: null,
+      time_spent_minutes: 0,
+      attachment_count: 0,
+      watcher_ids: [viewer.id],
+      recurring_issue_id: recurringIssueId,
+      comments: []
+    };
+    applyIssueFields(issue, body);
+    issue.watcher_ids = withWatcher(issue.watcher_ids, issue.assignee_id);
+    db.issues.push(issue);
+    pushToOrg(viewer.organization_id, { type: 'issue_created', issue, actor_id: viewer.id });
+    recordHistory(viewer, issue, null);
+    return issue;
+  };
+
+  const readSchedule = (body: any): RecurrenceSchedule => ({
+    frequency: body?.frequency,
+    time: String(body?.time ?? DEFAULT_SCHEDULE.time),
+    weekdays: Array.isArray(body?.weekdays) ? body.weekdays.map(Number) : [],
+    day_of_month: Number(body?.day_of_month ?? DEFAULT_SCHEDULE.day_of_month),
+    cron: String(body?.cron ?? '').trim()
+  });
+
+  const readRecurringTemplate = (viewer: User, body: any): RecurringIssueTemplate => ({
+    title: String(body?.title ?? '').trim(),
+    description: String(body?.description ?? ''),
+    issue_type: body?.issue_type ?? 'TASK',
+    priority: body?.priority ?? 'MEDIUM',
+    status: body?.status || initialStatusOf(viewer.organization_id),
+    assignee_id: body?.assignee_id || null,
+    story_points: body?.story_points ?? null,
+    labels: Array.isArray(body?.labels) ? body.labels.map(String) : [],
+    parent_id: body?.parent_id || null,
+    custom_fields: compactFieldValues(body?.custom_fields),
+    original_estimate_minutes: body?.original_estimate_minutes ?? null,
+    deadline_offset_days: body?.deadline_offset_days ?? null
+  });
+
+  // Templates get the same checks as a new issue, so a series can't be saved that would fail on its first run
+  const recurringIssueProblem = (viewer: User, template: RecurringIssueTemplate, schedule: RecurrenceSchedule) => {
+    if (!template.title) return 'Title is required';
+    const offset = template.deadline_offset_days;
+    if (offset !== null && !(Number.isInteger(offset) && offset >= 0 && offset <= 365)) {
+      return 'The deadline must be between 0 and 365 days after each run';
+    }
+    return scheduleProblem(schedule)
+      ?? statusProblem(viewer, template)
+      ?? hierarchyProblem(viewer, undefined, template)
+      ?? customFieldProblem(viewer, template, true)
+      ?? timeTrackingProblem(template);
+  };
+
+  // Deadlines keep the run's time of day and count calendar days, so a clock change doesn't shift them
+  const runRecurringIssue = (series: RecurringIssue, runAt: Date, actor: User): Issue | string => {
+    const { deadline_offset_days: offset, ...template } = series.template;
+    const deadline = offset === null
+      ? null
+      : new Date(runAt.getFullYear(), runAt.getMonth(), runAt.getDate() + offset, runAt.getHours(), runAt.getMinutes()).toISOString();
+    const result = createIssue(actor, { ...template, deadline }, series.id);
+    if (typeof result === 'string') return result;
+    series.issue_count += 1;
+    series.last_issue_key = result.key;
+    series.last_run_at = runAt.toISOString();
+    series.last_error = null;
+    return result;
+  };
+
+  // There's no clock here: series that came due are run on the next request or socket frame. Missed runs
+  // collapse into one, and a series whose template stopped fitting (a new required field, say) is paused
+  // with the reason instead of failing on every request.
+  const runDueRecurringIssues = (now = new Date()) => {
+    db.recurringIssues
+      .filter(series => !series.paused && series.next_run_at && Date.parse(series.next_run_at) <= now.getTime())
+      .forEach(series => {
+        const creator = db.users.find(u => u.id === series.created_by && u.is_active);
+        const result = creator
+          ? runRecurringIssue(series, new Date(series.next_run_at!), creator)
+          : 'The person who set up this series is no longer active';
+        if (typeof result === 'string') {
+          series.paused = true;
+          series.next_run_at = null;
+          series.last_error = result;
+        } else {
+          series.next_run_at = nextRunAfter(series.schedule, now)?.toISOString() ?? null;
+        }
+        pushToOrg(series.organization_id, { type: 'recurring_issue_updated', recurring_issue: series, actor_id: series.created_by });
+      });
+  };
+
+  const describeWorkLog = (log: MockDatabase['workLogs'][number]): WorkLog => {
+    const issue = db.issues.find(candidate => candidate.id === log.issue_id);
+    return { ...log, issue_key: issue?.key ?? '', issue_title: issue?.title ?? '' };
+  };
+
+  const removeIssue = (viewer: User, issue: Issue) => {
+    db.issues = db.issues.filter(candidate => candidate.id !== issue.id);
+    db.issueHistory = db.issueHistory.filter(entry => entry.issue_id !== issue.id);
+    db.workLogs = db.workLogs.filter(log => log.issue_id !== issue.id);
+    db.attachments = db.attachments.filter(attachment => attachment.issue_id !== issue.id);
+    pushToOrg(viewer.organization_id, { type: 'issue_deleted', issue_id: issue.id, key: issue.key, actor_id: viewer.id });
+    db.issueLinks
+      .filter(link => link.source_id === issue.id || link.target_id === issue.id)
+      .forEach(link => {
+        db.issueLinks = db.issueLinks.filter(candidate => candidate.id !== link.id);
+        pushToOrg(viewer.organization_id, { type: 'issue_link_deleted', link_id: link.id, actor_id: viewer.id });
+      });
+  };
+
+  const routes: Array<[string, RegExp, RouteHandler]> = [
+    ['POST', /^\/api\/auth\/login$/, ({ body }) => {
+      const email = String(body?.email ?? '').trim().toLowerCase();
+      const user = db.users.find(u => u.email.toLowerCase() === email);
+      if (!user || db.passwords[user.email] !== body?.password) {
+        return fail(401, 'Invalid email or password');
+      }
+      if (!user.is_active) return fail(403, 'This account has been deactivated');
+      return ok(authResponse(user));
+    }],
+    ['POST', /^\/api\/auth\/(signup|signup-member)$/, ({ body }, [kind]) => {
+      const email = String(body?.email ?? '').trim().toLowerCase();
+      if (!email || !body?.password || !body?.name) return fail(422, 'Email, password and name are required');
+      if (db.users.some(u => u.email.toLowerCase() === email)) return fail(400, 'Email already registered');
+
+      const member = kind === 'signup-member';
+      if (member && !db.organizations.some(o => o.domain === email.split('@')[1])) {
+        return fail(404, 'No organization found for this email domain');
+      }
+      if (!member && !body.organization_name) return fail(422, 'Organization name is required');
+
+      db.pendingSignups[email] = { email, password: body.password, name: body.name, organization_name: body.organization_name, member };
+      console.info(`[mock-backend] OTP for ${email}: ${MOCK_OTP_CODE}`);
+      return ok({ message: 'Verification code sent' });
+    }],
+    ['POST', /^\/api\/auth\/(verify-otp|verify-otp-member)$/, ({ body }) => {
+      const email = String(body?.email ?? '').trim().toLowerCase();
+      const pending = db.pendingSignups[email];
+      if (!pending || body?.otp !== MOCK_OTP_CODE) return fail(400, 'Invalid or expired code');
+      delete db.pendingSignups[email];
+
+      const domain = email.split('@')[1];
+      let organization = db.organizations.find(o => o.domain === domain);
+      if (!pending.member || !organization) {
+        organization = {
+          id: nextId('org'),
+          name: pending.organization_name || domain,
+          domain,
+          plan: 'free',
+          user_count: 0,
+          max_users: 10,
+          created_at: new Date().toISOString()
+        };
+        db.organizations.push(organization);
+      }
+
+      const user: User = {
+        id: nextId('user'),
+        name: pending.name,
+        email,
+        avatar: pending.name.charAt(0).toUpperCase(),
+        role: pending.member ? 'developer' : 'super_admin',
+        organization_id: organization.id,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      db.users.push(user);
+      db.passwords[email] = pending.password;
+      organization.user_count += 1;
+      pushToOrg(organization.id, { type: 'user_joined', user });
+      return ok(authResponse(user));
+    }],
+    ['POST', /^\/api\/auth\/refresh$/, ({ body }) => {
+      const userId = db.refreshTokens[body?.refresh_token];
+      const user = db.users.find(u => u.id === userId && u.is_active);
+      if (!user) return fail(401, 'Refresh token is invalid or expired');
+      // Refresh tokens rotate: the one just used cannot be replayed
+      delete db.refreshTokens[body.refresh_token];
+      return ok(issueTokens(user));
+    }],
+    ['POST', /^\/api\/auth\/logout$/, ({ body }) => {
+      if (body?.refresh_token) delete db.refreshTokens[body.refresh_token];
+      return ok({ message: 'Logged out' });
+    }],
+
+    ['GET', /^\/api\/issues$/, ({ viewer, query }) => {
+      const visible = db.issues.filter(issue => issue.organization_id === viewer!.organization_id);
+      // Without paging parameters the legacy full-list response is kept
+      if (!query.has('limit') && !query.has('cursor')) return ok(visible);
+
+      const status = query.get('status');
+      const key = query.get('key')?.toUpperCase();
+      const parentId = query.get('parent_id');
+      const issueType = query.get('issue_type');
+      const matching = visible
+        .filter(issue => (!status || issue.status === status) && (!key || issue.key.toUpperCase() === key))
+        .filter(issue => (!parentId || issue.parent_id === parentId) && (!issueType || issue.issue_type === issueType))
+        .sort((a, b) => issueNumber(a) - issueNumber(b));
+      const limit = Math.min(Math.max(Number(query.get('limit')) || 50, 1), 200);
+      const offset = Math.max(Number(query.get('cursor')) || 0, 0);
+      const items = matching.slice(offset, offset + limit);
+      const nextOffset = offset + items.length;
+      return ok({ items, next_cursor: nextOffset < matching.length ? String(nextOffset) : null, total: matching.length });
+    }],
+    ['POST', /^\/api\/issues$/, request => {
+      const result = createIssue(request.viewer!, request.body);
+      return typeof result === 'string' ? fail(422, result) : created(result);
+    }],
+    ['PUT', /^\/api\/issues\/([^/]+)$/, (request, [issueId]) => {
+      const viewer = request.viewer!;
+      const issue = findIssue(viewer, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      // Conditional update: the client sends the version its edit started from
+      const expectedUpdatedAt = request.headers.get('If-Match')?.replace(/^W\//, '').replace(/"/g, '');
+      if (expectedUpdatedAt && expectedUpdatedAt !== issue.updated_at) {
+        return { status: 412, body: { detail: `${issue.key} was changed by someone else`, issue } };
+      }
+      const problem = statusProblem(viewer, request.body)
+        ?? hierarchyProblem(viewer, issue, request.body)
+        ?? customFieldProblem(viewer, request.body, false)
+        ?? timeTrackingProblem(request.body);
+      if (problem) return fail(422, problem);
+      saveIssueChanges(viewer, issue, request.body ?? {});
+      return ok(issue);
+    }],
+    ['DELETE', /^\/api\/issues\/([^/]+)$/, (request, [issueId]) => {
+      const viewer = request.viewer!;
+      const issue = findIssue(viewer, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      if (issue.reporter_id !== viewer.id && !MANAGER_ROLES.includes(viewer.role)) {
+        return fail(403, 'Only the reporter or a manager can delete this issue');
+      }
+      removeIssue(viewer, issue);
+      // Subtasks go with their parent; stories, tasks and bugs outlive their epic as top-level issues
+      db.issues.filter(child => child.parent_id === issue.id).forEach(child => {
+        if (child.issue_type === 'SUBTASK') {
+          removeIssue(viewer, child);
+          return;
+        }
+        saveIssueChanges(viewer, child, { parent_id: null });
+      });
+      return { status: 204 };
+    }],
+    ['GET', /^\/api\/issues\/([^/]+)\/worklogs$/, ({ viewer }, [issueId]) => {
+      const issue = findIssue(viewer!, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      return ok({ logs: db.workLogs.filter(log => log.issue_id === issue.id).map(describeWorkLog) });
+    }],
+    ['POST', /^\/api\/issues\/([^/]+)\/worklogs$/, (request, [issueId]) => {
+      const viewer = request.viewer!;
+      const issue = findIssue(viewer, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      const minutes = request.body?.minutes;
+      const problem = workLogProblem({ minutes, date: request.body?.date })
+        ?? estimateProblem(request.body?.remaining_estimate_minutes, 'Remaining estimate');
+      if (problem) return fail(422, problem);
+      const log = {
+        id: nextId('worklog'),
+        issue_id: issue.id,
+        author_id: viewer.id,
+        minutes,
+        date: request.body.date,
+        note: String(request.body?.note ?? '').trim(),
+        created_at: new Date().toISOString()
+      };
+      db.workLogs.push(log);
+      issue.time_spent_minutes = (issue.time_spent_minutes ?? 0) + minutes;
+      // Without a new figure from the person logging, the remaining estimate counts down and stops at zero
+      const remaining = request.body?.remaining_estimate_minutes !== undefined
+        ? request.body.remaining_estimate_minutes
+        : issue.remaining_estimate_minutes == null ? null : Math.max(issue.remaining_estimate_minutes - minutes, 0);
+      saveIssueChanges(viewer, issue, { remaining_estimate_minutes: remaining });
+      pushToOrg(viewer.organization_id, { type: 'work_logged', issue_id: issue.id, log: describeWorkLog(log), actor_id: viewer.id });
+      return created(describeWorkLog(log));
+    }],
+    ['DELETE', /^\/api\/worklogs\/([^/]+)$/, (request, [logId]) => {
+      const viewer = request.viewer!;
+      const log = db.workLogs.find(candidate => candidate.id === logId);
+      const issue = log && findIssue(viewer, log.issue_id);
+      if (!log || !issue) return fail(404, 'Work log not found');
+      if (log.author_id !== viewer.id && !MANAGER_ROLES.includes(viewer.role)) {
+        return fail(403, 'Only the person who logged the work or a manager can delete it');
+      }
+      db.workLogs = db.workLogs.filter(candidate => candidate.id !== log.id);
+      issue.time_spent_minutes = Math.max((issue.time_spent_minutes ?? 0) - log.minutes, 0);
+      saveIssueChanges(viewer, issue, {
+        remaining_estimate_minutes: issue.remaining_estimate_minutes == null ? null : issue.remaining_estimate_minutes + log.minutes
+      });
+      pushToOrg(viewer.organization_id, { type: 'work_log_deleted', issue_id: issue.id, log_id: log.id, actor_id: viewer.id });
+      return { status: 204 };
+    }],
+    // Timesheets: anyone can read their own; managers can read anyone's in the organization
+    ['GET', /^\/api\/worklogs$/, ({ viewer, query }) => {
+      const userId = query.get('user_id') || viewer!.id;
+      if (userId !== viewer!.id && !MANAGER_ROLES.includes(viewer!.role)) return fail(403, "Only managers can see other people's timesheets");
+      if (!orgUsers(viewer!.organization_id).some(member => member.id === userId)) return fail(404, 'User not found');
+      const from = query.get('from');
+      const to = query.get('to');
+      return ok({
+        logs: db.workLogs
+          .filter(log => log.author_id === userId && (!from || log.date >= from) && (!to || log.date <= to))
+          .filter(log => findIssue(viewer!, log.issue_id))
+          .map(describeWorkLog)
+      });
+    }],
+    ['GET', /^\/api\/issues\/([^/]+)\/attachments$/, ({ viewer }, [issueId]) => {
+      const issue = findIssue(viewer!, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      return ok({ attachments: db.attachments.filter(attachment => attachment.issue_id === issue.id) });
+    }],
+    ['POST', /^\/api\/issues\/([^/]+)\/attachments\/uploads$/, (request, [issueId]) => {
+      const viewer = request.viewer!;
+      const issue = findIssue(viewer, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      const file = { name: String(request.body?.file_name ?? '').trim(), type: String(request.body?.content_type ?? ''), size: Number(request.body?.size) };
+      if (!file.name) return fail(422, 'File name is required');
+      const problem = attachmentProblem(file);
+      if (problem) return fail(422, problem);
+      const uploadId = nextId('upload');
+      db.attachmentUploads[uploadId] = {
+        issue_id: issue.id,
+        file_name: file.name,
+        content_type: contentTypeOf(file),
+        size: file.size,
+        uploaded_by: viewer.id,
+        chunks: {}
+      };
+      return created({ upload_id: uploadId });
+    }],
+    // Chunks are keyed by offset, so a retried chunk just replaces itself
+    ['PUT', /^\/api\/attachment-uploads\/([^/]+)$/, (request, [uploadId]) => {
+      const upload = db.attachmentUploads[uploadId];
+      if (!upload || upload.uploaded_by !== request.viewer!.id) return fail(404, 'Upload not found');
+      const offset = Number(request.body?.offset);
+      const data = String(request.body?.data ?? '');
+      if (!Number.isInteger(offset) || offset < 0 || offset + base64Size(data) > upload.size) return fail(422, 'Chunk is outside the file');
+      upload.chunks[offset] = data;
+      return { status: 204 };
+    }],
+    ['POST', /^\/api\/attachment-uploads\/([^/]+)\/complete$/, (request, [uploadId]) => {
+      const viewer = request.viewer!;
+      const upload = db.attachmentUploads[uploadId];
+      if (!upload || upload.uploaded_by !== viewer.id) return fail(404, 'Upload not found');
+      const issue = findIssue(viewer, upload.issue_id);
+      if (!issue) return fail(404, 'Issue not found');
+      const offsets = Object.keys(upload.chunks).map(Number).sort((a, b) => a - b);
+      let received = 0;
+      for (const offset of offsets) {
+        if (offset !== received) break;
+        received += base64Size(upload.chunks[offset]);
+      }
+      if (received !== upload.size) return fail(422, `${upload.file_name} didn't finish uploading; try again`);
+      const { chunks, ...details } = upload;
+      const attachment: Attachment = {
+        ...details,
+        id: nextId('attachment'),
+        url: `data:${upload.content_type};base64,${offsets.map(offset => chunks[offset]).join('')}`,
+        created_at: new Date().toISOString()
+      };
+      delete db.attachmentUploads[uploadId];
+      db.attachments.push(attachment);
+      issue.attachment_count = (issue.attachment_count ?? 0) + 1;
+      saveIssueChanges(viewer, issue, {});
+      pushToOrg(viewer.organization_id, { type: 'attachment_added', issue_id: issue.id, attachment, actor_id: viewer.id });
+      return created(attachment);
+    }],
+    ['DELETE', /^\/api\/attachments\/([^/]+)$/, (request, [attachmentId]) => {
+      const viewer = request.viewer!;
+      const attachment = db.attachments.find(candidate => candidate.id === attachmentId);
+      const issue = attachment && findIssue(viewer, attachment.issue_id);
+      if (!attachment || !issue) return fail(404, 'Attachment not found');
+      if (attachment.uploaded_by !== viewer.id && !['super_admin', 'admin'].includes(viewer.role)) {
+        return fail(403, 'Only the person who uploaded the file or an admin can delete it');
+      }
+      db.attachments = db.attachments.filter(candidate => candidate.id !== attachment.id);
+      issue.attachment_count = Math.max((issue.attachment_count ?? 1) - 1, 0);
+      saveIssueChanges(viewer, issue, {});
+      pushToOrg(viewer.organization_id, { type: 'attachment_deleted', issue_id: issue.id, attachment_id: attachment.id, actor_id: viewer.id });
+      return { status: 204 };
+    }],
+    ['GET', /^\/api\/issues\/([^/]+)\/history$/, ({ viewer }, [issueId]) => {
+      const issue = findIssue(viewer!, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      return ok({ entries: db.issueHistory.filter(entry => entry.issue_id === issue.id) });
+    }],
+    ['POST', /^\/api\/issues\/([^/]+)\/comments$/, (request, [issueId]) => {
+      const viewer = request.viewer!;
+      const issue = findIssue(viewer, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      const content = String(request.body?.content ?? '').trim();
+      if (!content) return fail(422, 'Comment cannot be empty');
+      const now = new Date().toISOString();
+      const comment: Comment = { id: nextId('comment'), content, author_id: viewer.id, issue_id: issue.id, created_at: now, updated_at: now };
+      issue.comments = [...(issue.comments ?? []), comment];
+      pushToOrg(viewer.organization_id, { type: 'comment_added', issue_id: issue.id, comment, actor_id: viewer.id });
+      setWatchers(viewer, issue, withWatcher(issue.watcher_ids, viewer.id));
+      notifyWatchers(viewer, issue, 'comment_added', { comment });
+      return created(comment);
+    }],
+    ['POST', /^\/api\/issues\/([^/]+)\/watchers$/, (request, [issueId]) => {
+      const viewer = request.viewer!;
+      const issue = findIssue(viewer, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      const userId = String(request.body?.user_id ?? viewer.id);
+      if (userId !== viewer.id && !MANAGER_ROLES.includes(viewer.role)) return fail(403, 'Only managers can add other people as watchers');
+      if (!orgUsers(viewer.organization_id).some(member => member.id === userId && member.is_active)) {
+        return fail(422, 'Watchers must be active members of the organization');
+      }
+      setWatchers(viewer, issue, withWatcher(issue.watcher_ids, userId));
+      return ok(issue);
+    }],
+    ['DELETE', /^\/api\/issues\/([^/]+)\/watchers\/([^/]+)$/, (request, [issueId, userId]) => {
+      const viewer = request.viewer!;
+      const issue = findIssue(viewer, issueId);
+      if (!issue) return fail(404, 'Issue not found');
+      if (userId !== viewer.id && !MANAGER_ROLES.includes(viewer.role)) return fail(403, 'Only managers can remove other watchers');
+      setWatchers(viewer, issue, (issue.watcher_ids ?? []).filter(watcherId => watcherId !== userId));
+      return ok(issue);
+    }],
+
+    ['GET', /^\/api\/issue-links$/, ({ viewer }) => {
+      const visibleIds = new Set(db.issues.filter(issue => issue.organization_id === viewer!.organization_id).map(issue => issue.id));
+      return ok(db.issueLinks.filter(link => visibleIds.has(link.source_id)));
+    }],
+    ['POST', /^\/api\/issue-links$/, request => {
+      const viewer = request.viewer!;
+      const type = request.body?.type as IssueLinkType;
+      if (!ISSUE_LINK_TYPES.includes(type)) return fail(422, 'Unknown link type');
+      const source = findIssue(viewer, String(request.body?.source_id ?? ''));
+      const target = findIssue(viewer, String(request.body?.target_id ?? ''));
+      if (!source || !target) return fail(404, 'Issue not found');
+      if (source.id === target.id) return fail(422, 'An issue cannot be linked to itself');
+      // "relates to" reads the same both ways, so either direction counts as the same link
+      const duplicate = db.issueLinks.some(link => link.type === type && (
+        (link.source_id === source.id && link.target_id === target.id) ||
+        (type === 'relates_to' && link.source_id === target.id && link.target_id === source.id)
+      ));
+      if (duplicate) return fail(409, `${source.key} is already linked to ${target.key} that way`);
+
+      const link: IssueLink = {
+        id: nextId('link'),
+        type,
+        source_id: source.id,
+        source_key: source.key,
+        target_id: target.id,
+        target_key: target.key,
+        created_by: viewer.id,
+        created_at: new Date().toISOString()
+      };
+      db.issueLinks.push(link);
+      pushToOrg(viewer.organization_id, { type: 'issue_link_created', link, actor_id: viewer.id });
+      return created(link);
+    }],
+    ['DELETE', /^\/api\/issue-links\/([^/]+)$/, (request, [linkId]) => {
+      const viewer = request.viewer!;
+      const link = db.issueLinks.find(candidate => candidate.id === linkId);
+      if (!link || !findIssue(viewer, link.source_id)) return fail(404, 'Link not found');
+      db.issueLinks = db.issueLinks.filter(candidate => candidate.id !== link.id);
+      pushToOrg(viewer.organization_id, { type: 'issue_link_deleted', link_id: link.id, actor_id: viewer.id });
+      return { status: 204 };
+    }],
+
+    ['GET', /^\/api\/workflow$/, ({ viewer }) => ok({ statuses: workflowOf(viewer!.organization_id) })],
+    ['PUT', /^\/api\/workflow$/, request => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can change the workflow');
+      const statuses: WorkflowStatus[] = Array.isArray(request.body?.statuses)
+        ? request.body.statuses.map((status: any) => ({
+          id: String(status?.id ?? ''),
+          name: String(status?.name ?? '').trim(),
+          color: String(status?.color ?? ''),
+          category: status?.category
+        }))
+        : [];
+      const problems = validateWorkflow(statuses);
+      if (problems.length > 0) return fail(422, problems.join('. '));
+      // Issues keep their status id, so a status can only go once nothing is in it
+      const kept = new Set(statuses.map(status => status.id));
+      const stranded = workflowOf(viewer.organization_id)
+        .filter(status => !kept.has(status.id))
+        .map(status => ({ status, count: db.issues.filter(issue => issue.organization_id === viewer.organization_id && issue.status === status.id).length }))
+        .filter(({ count }) => count > 0);
+      if (stranded.length > 0) {
+        const described = stranded.map(({ status, count }) => `${status.name} (${count} issue${count === 1 ? '' : 's'})`).join(', ');
+        return fail(409, `Move issues out of ${described} before removing ${stranded.length === 1 ? 'it' : 'them'}`);
+      }
+      db.workflows[viewer.organization_id] = statuses;
+      pushToOrg(viewer.organization_id, { type: WORKFLOW_SOCKET_EVENT, statuses, actor_id: viewer.id });
+      return ok({ statuses });
+    }],
+
+    ['GET', /^\/api\/custom-fields$/, ({ viewer }) => ok({ fields: customFieldsOf(viewer!.organization_id) })],
+    ['POST', /^\/api\/custom-fields$/, request => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can manage custom fields');
+      const field: CustomFieldDefinition = { id: nextId('field'), ...readFieldDefinition(request.body) };
+      const problem = fieldDefinitionProblem(field, customFieldsOf(viewer.organization_id));
+      if (problem) return fail(422, problem);
+      db.customFields[viewer.organization_id] = [...customFieldsOf(viewer.organization_id), field];
+      pushToOrg(viewer.organization_id, { type: 'custom_field_created', field, actor_id: viewer.id });
+      return created(field);
+    }],
+    ['PUT', /^\/api\/custom-fields\/([^/]+)$/, (request, [fieldId]) => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can manage custom fields');
+      const fields = customFieldsOf(viewer.organization_id);
+      if (!fields.some(field => field.id === fieldId)) return fail(404, 'Custom field not found');
+      const field: CustomFieldDefinition = { id: fieldId, ...readFieldDefinition(request.body) };
+      const problem = fieldDefinitionProblem(field, fields);
+      if (problem) return fail(422, problem);
+      db.customFields[viewer.organization_id] = fields.map(existing => (existing.id === fieldId ? field : existing));
+      pushToOrg(viewer.organization_id, { type: 'custom_field_updated', field, actor_id: viewer.id });
+      // Values that no longer fit (a removed option, a changed type) are cleared rather than left invalid
+      clearFieldValues(viewer, fieldId, value => !fieldValueStillFits(field, value));
+      return ok(field);
+    }],
+    ['DELETE', /^\/api\/custom-fields\/([^/]+)$/, (request, [fieldId]) => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can manage custom fields');
+      const fields = customFieldsOf(viewer.organization_id);
+      if (!fields.some(field => field.id === fieldId)) return fail(404, 'Custom field not found');
+      db.customFields[viewer.organization_id] = fields.filter(field => field.id !== fieldId);
+      pushToOrg(viewer.organization_id, { type: 'custom_field_deleted', field_id: fieldId, actor_id: viewer.id });
+      clearFieldValues(viewer, fieldId, () => true);
+      return { status: 204 };
+    }],
+
+    ['GET', /^\/api\/issue-templates$/, ({ viewer }) => ok({ templates: issueTemplatesOf(viewer!.organization_id) })],
+    ['POST', /^\/api\/issue-templates$/, request => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can manage issue templates');
+      const template: IssueTemplate = {
+        id: nextId('template'),
+        organization_id: viewer.organization_id,
+        ...readIssueTemplate(request.body),
+        created_by: viewer.id,
+        updated_at: new Date().toISOString()
+      };
+      const problem = templateProblem(template, issueTemplatesOf(viewer.organization_id));
+      if (problem) return fail(422, problem);
+      saveIssueTemplate(viewer, template, 'issue_template_created');
+      return created(template);
+    }],
+    ['PUT', /^\/api\/issue-templates\/([^/]+)$/, (request, [templateId]) => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can manage issue templates');
+      const templates = issueTemplatesOf(viewer.organization_id);
+      const existing = templates.find(template => template.id === templateId);
+      if (!existing) return fail(404, 'Issue template not found');
+      const template: IssueTemplate = { ...existing, ...readIssueTemplate(request.body), updated_at: new Date().toISOString() };
+      const problem = templateProblem(template, templates);
+      if (problem) return fail(422, problem);
+      saveIssueTemplate(viewer, template, 'issue_template_updated');
+      return ok(template);
+    }],
+    ['DELETE', /^\/api\/issue-templates\/([^/]+)$/, (request, [templateId]) => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can manage issue templates');
+      if (!issueTemplatesOf(viewer.organization_id).some(template => template.id === templateId)) return fail(404, 'Issue template not found');
+      db.issueTemplates = db.issueTemplates.filter(template => template.id !== templateId);
+      pushToOrg(viewer.organization_id, { type: 'issue_template_deleted', template_id: templateId, actor_id: viewer.id });
+      return { status: 204 };
+    }],
+
+    ['GET', /^\/api\/recurring-issues$/, ({ viewer }) =>
+      ok(db.recurringIssues.filter(series => series.organization_id === viewer!.organization_id))],
+    ['POST', /^\/api\/recurring-issues$/, request => {
+      const viewer = request.viewer!;
+      if (!MANAGER_ROLES.includes(viewer.role)) return fail(403, 'Only managers can set up recurring issues');
+      const template = readRecurringTemplate(viewer, request.body?.template);
+      const schedule = readSchedule(request.body?.schedule);
+      const problem = recurringIssueProblem(viewer, template, schedule);
+      if (problem) return fail(422, problem);
+      const paused = !!request.body?.paused;
+      const series: RecurringIssue = {
+        id: nextId('recurring'),
+        organization_id: viewer.organization_id,
+        template,
+        schedule,
+        paused,
+        next_run_at: paused ? null : nextRunAfter(schedule, new Date())?.toISOString() ?? null,
+        last_run_at: null,
+        last_issue_key: null,
+        issue_count: 0,
+        last_error: null,
+        created_by: viewer.id,
+        created_at: new Date().toISOString()
+      };
+      db.recurringIssues.push(series);
+      pushToOrg(viewer.organization_id, { type: 'recurring_issue_created', recurring_issue: series, actor_id: viewer.id });
+      return created(series);
+    }],
+    // Resuming or changing the schedule counts from now, so runs missed while paused are skipped
+    ['PUT', /^\/api\/recurring-issues\/([^/]+)$/, (request, [seriesId]) => {
+      const viewer = request.viewer!;
+      if (!MANAGER_ROLES.includes(viewer.role)) return fail(403, 'Only managers can change recurring issues');
+      const series = db.recurringIssues.find(candidate => candidate.id === seriesId && candidate.organization_id === viewer.organization_id);
+      if (!series) return fail(404, 'Recurring issue not found');
+      const template = request.body?.template !== undefined ? readRecurringTemplate(viewer, request.body.template) : series.template;
+      const schedule = request.body?.schedule !== undefined ? readSchedule(request.body.schedule) : series.schedule;
+      const paused = request.body?.paused !== undefined ? !!request.body.paused : series.paused;
+      const problem = recurringIssueProblem(viewer, template, schedule);
+      if (problem) return fail(422, problem);
+      series.template = template;
+      series.schedule = schedule;
+      series.paused = paused;
+      series.next_run_at = paused ? null : nextRunAfter(schedule, new Date())?.toISOString() ?? null;
+      if (!paused) series.last_error = null;
+      pushToOrg(viewer.organization_id, { type: 'recurring_issue_updated', recurring_issue: series, actor_id: viewer.id });
+      return ok(series);
+    }],
+    // Issues the series already created stay, with their link to it
+    ['DELETE', /^\/api\/recurring-issues\/([^/]+)$/, (request, [seriesId]) => {
+      const viewer = request.viewer!;
+      if (!MANAGER_ROLES.includes(viewer.role)) return fail(403, 'Only managers can delete recurring issues');
+      const series = db.recurringIssues.find(candidate => candidate.id === seriesId && candidate.organization_id === viewer.organization_id);
+      if (!series) return fail(404, 'Recurring issue not found');
+      db.recurringIssues = db.recurringIssues.filter(candidate => candidate.id !== series.id);
+      pushToOrg(viewer.organization_id, { type: 'recurring_issue_deleted', recurring_issue_id: series.id, actor_id: viewer.id });
+      return { status: 204 };
+    }],
+    // Creates the next issue now, on top of the schedule (which carries on as before)
+    ['POST', /^\/api\/recurring-issues\/([^/]+)\/run$/, (request, [seriesId]) => {
+      const viewer = request.viewer!;
+      if (!MANAGER_ROLES.includes(viewer.role)) return fail(403, 'Only managers can run recurring issues');
+      const series = db.recurringIssues.find(candidate => candidate.id === seriesId && candidate.organization_id === viewer.organization_id);
+      if (!series) return fail(404, 'Recurring issue not found');
+      const result = runRecurringIssue(series, new Date(), viewer);
+      if (typeof result === 'string') return fail(422, result);
+      pushToOrg(viewer.organization_id, { type: 'recurring_issue_updated', recurring_issue: series, actor_id: viewer.id });
+      return created(result);
+    }],
+
+    ['GET', /^\/api\/users$/, request => {
+      const viewer = request.viewer!;
+      return ok(orgUsers(viewer.organization_id).map(withPresence));
+    }],
+    ['POST', /^\/api\/users\/invite$/, request => {
+      const viewer = request.viewer!;
+      if (!['super_admin', 'admin'].includes(viewer.role)) return fail(403, 'Only admins can invite members');
+      const email = String(request.body?.email ?? '').trim().toLowerCase();
+      if (db.users.some(u => u.email.toLowerCase() === email)) return fail(400, 'A user with this email already exists');
+      const organization = db.organizations.find(o => o.id === viewer.organization_id)!;
+      if (organization.user_count >= organization.max_users) return fail(400, 'Organization user limit reached');
+
+      const user: User = {
+        id: nextId('user'),
+        name: request.body?.name || email,
+        email,
+        avatar: String(request.body?.name || email).charAt(0).toUpperCase(),
+        role: request.body?.role || 'developer',
+        organization_id: organization.id,
+        is_active: true,
+        created_at: new Date().toISOString()
+      };
+      db.users.push(user);
+      db.passwords[email] = seedPassword;
+      organization.user_count += 1;
+      return created({ message: 'Invitation sent', user_id: user.id });
+    }],
+    ['PUT', /^\/api\/users\/([^/]+)\/role$/, (request, [userId]) => {
+      const viewer = request.viewer!;
+      if (viewer.role !== 'super_admin') return fail(403, 'Only super admins can change user roles');
+      const target = orgUsers(viewer.organization_id).find(u => u.id === userId);
+      if (!target) return fail(404, 'User not found');
+      if (request.body?.role) target.role = request.body.role;
+      if (typeof request.body?.is_active === 'boolean') target.is_active = request.body.is_active;
+      return ok(target);
+    }],
+    ['PUT', /^\/api\/users\/([^/]+)$/, (request, [userId]) => {
+      const viewer = request.viewer!;
+      if (viewer.id !== userId && !['super_admin', 'admin'].includes(viewer.role)) {
+        return fail(403, 'You can only edit your own profile');
+      }
+      const target = orgUsers(viewer.organization_id).find(u => u.id === userId);
+      if (!target) return fail(404, 'User not found');
+      const oldEmail = target.email;
+      if (request.body?.name) target.name = request.body.name;
+      if (request.body?.email && request.body.email !== oldEmail) {
+        target.email = request.body.email;
+        db.passwords[target.email] = db.passwords[oldEmail];
+        delete db.passwords[oldEmail];
+      }
+      return ok(target);
+    }],
+    ['POST', /^\/user\/profile-picture$/, request => {
+      const viewer = request.viewer!;
+      if (typeof request.body?.profile_picture !== 'string') return fail(422, 'profile_picture is required');
+      viewer.profile_picture = request.body.profile_picture;
+      return ok(viewer);
+    }],
+
+    ['GET', /^\/api\/chat\/conversations$/, request => {
+      const viewer = request.viewer!;
+      return ok(db.conversations.filter(c => participantsOf(c).includes(viewer.id)));
+    }],
+    ['POST', /^\/api\/chat\/conversations$/, request => {
+      const viewer = request.viewer!;
+      const participants: string[] = Array.from(new Set([...(request.body?.participants ?? []), viewer.id].filter(Boolean)));
+      const type: ChatConversation['type'] = request.body?.type ?? 'direct';
+      if (type === 'direct' && participants.length !== 2) return fail(422, 'Direct conversations need exactly 2 participants');
+      const conversation: ChatConversation = {
+        id: nextId('conv'),
+        type,
+        name: request.body?.name,
+        participants,
+        last_activity: new Date().toISOString()
+      };
+      db.conversations.push(conversation);
+      return created(conversation);
+    }],
+    ['GET', /^\/api\/chat\/conversations\/([^/]+)\/messages$/, (request, [conversationId]) => {
+      const viewer = request.viewer!;
+      const conversation = db.conversations.find(c => c.id === conversationId);
+      if (!conversation || !participantsOf(conversation).includes(viewer.id)) return fail(404, 'Conversation not found');
+      return ok(db.messages.filter(m => m.conversation_id === conversationId));
+    }],
+    ['POST', /^\/api\/chat\/messages$/, request => {
+      const viewer = request.viewer!;
+      const conversation = db.conversations.find(c => c.id === request.body?.conversation_id);
+      if (!conversation || !participantsOf(conversation).includes(viewer.id)) return fail(404, 'Conversation not found');
+      const content = String(request.body?.content ?? '').trim();
+      if (!content) return fail(422, 'Message cannot be empty');
+      const message = postChatMessage(conversation, viewer, content);
+      scheduleTeammateReply(conversation, viewer);
+      return created(message);
+    }],
+    ['DELETE', /^\/api\/chat\/messages\/([^/]+)$/, (request, [messageId]) => {
+      const viewer = request.viewer!;
+      const message = db.messages.find(m => m.id === messageId);
+      if (!message) return fail(404, 'Message not found');
+      if (message.sender_id !== viewer.id) return fail(403, 'You can only delete your own messages');
+      db.messages = db.messages.filter(m => m.id !== messageId);
+      const conversation = db.conversations.find(c => c.id === message.conversation_id);
+      if (conversation) {
+        pushToUsers(participantsOf(conversation), { type: 'message_deleted', message_id: messageId, conversation_id: conversation.id });
+      }
+      return { status: 204 };
+    }],
+    ['GET', /^\/api\/chat\/team$/, () => ok(db.legacyMessages.filter(m => m.chat_type === 'team'))],
+    ['POST', /^\/api\/chat\/team$/, request => {
+      const viewer = request.viewer!;
+      const message: LegacyChatMessage = {
+        id: nextId('msg'),
+        sender_id: viewer.id,
+        sender_name: viewer.name,
+        content: String(request.body?.content ?? ''),
+        timestamp: new Date().toISOString(),
+        chat_type: 'team'
+      };
+      db.legacyMessages.push(message);
+      pushToOrg(viewer.organization_id, { type: 'new_team_message', message });
+      return created(message);
+    }],
+    ['GET', /^\/api\/chat\/personal$/, request => {
+      const viewer = request.viewer!;
+      const chats: Record<string, LegacyChatMessage[]> = {};
+      db.legacyMessages
+        .filter(m => m.chat_type === 'personal' && (m.sender_id === viewer.id || m.recipient_id === viewer.id))
+        .forEach(m => {
+          const otherUserId = m.sender_id === viewer.id ? m.recipient_id! : m.sender_id;
+          chats[otherUserId] = [...(chats[otherUserId] ?? []), m];
+        });
+      return ok(chats);
+    }],
+    ['POST', /^\/api\/chat\/personal\/([^/]+)$/, (request, [recipientId]) => {
+      const viewer = request.viewer!;
+      if (!orgUsers(viewer.organization_id).some(u => u.id === recipientId)) return fail(404, 'User not found');
+      const message: LegacyChatMessage = {
+        id: nextId('msg'),
+        sender_id: viewer.id,
+        sender_name: viewer.name,
+        content: String(request.body?.content ?? ''),
+        timestamp: new Date().toISOString(),
+        chat_type: 'personal',
+        recipient_id: recipientId
+      };
+      db.legacyMessages.push(message);
+      pushToUsers([viewer.id, recipientId], { type: 'new_personal_message', message });
+      return created(message);
+    }]
+  ];
+
+  const PUBLIC_PATHS = /^\/api\/auth\/(login|signup|signup-member|verify-otp|verify-otp-member|refresh|logout)$/;
+
+  const dispatch = (request: MockRequest): MockResult => {
+    const pathKnown = routes.some(([, pattern]) => pattern.test(request.path));
+    for (const [method, pattern, handler] of routes) {
+      const match = request.path.match(pattern);
+      if (!match || method !== request.method) continue;
+      if (!PUBLIC_PATHS.test(request.path) && !request.viewer) {
+        return fail(401, 'Not authenticated');
+      }
+      return handler(request, match.slice(1));
+    }
+    return pathKnown ? fail(405, 'Method not allowed') : fail(404, 'Not found');
+  };
+
+  const mockFetch: typeof fetch = async (input, init = {}) => {
+    const rawUrl = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const url = new URL(rawUrl, 'http://mock.local');
+    const path = url.pathname;
+    const method = (init.method || 'GET').toUpperCase();
+    const headers = new Headers(init.headers);
+    const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+
+    let body: unknown = null;
+    if (typeof init.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return toResponse(fail(400, 'Malformed JSON body'));
+      }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    if (init.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    runDueRecurringIssues();
+    return toResponse(dispatch({ method, path, body, viewer: userForToken(token), query: url.searchParams, headers }));
+  };
+
+  /** Accepts the same /ws/<token> URL the app builds for the real server. */
+  const createWebSocket = (url: string): WebSocket => {
+    const token = decodeURIComponent(url.split('/').pop() || '');
+    const socket = new MockWebSocket(url, { onClientFrame: handleClientFrame, onClose: handleSocketClose });
+    const user = userForToken(token);
+
+    setTimeout(() => {
+      if (!user) {
+        socket.close();
+        return;
+      }
+      const wasOnline = isOnline(user.id);
+      sockets.set(socket, user.id);
+      socketPresence.set(socket, { status: 'active', heartbeatAt: Date.now() });
+      socket.open();
+      if (!wasOnline) {
+        user.last_seen = new Date().toISOString();
+        pushToOrg(user.organization_id, { type: 'user_online', user_id: user.id, status: presenceOf(user), last_seen: user.last_seen });
+      }
+    }, latencyMs);
+
+    return socket as unknown as WebSocket;
+  };
+
+  return {
+    fetch: mockFetch,
+    createWebSocket,
+    /** Push an arbitrary server event to every connected socket (useful in tests). */
+    emit: (payload: unknown) => sockets.forEach((_, socket) => socket.receive(payload)),
+    /** Close every socket as if the connection dropped, to exercise reconnection and resume. */
+    dropConnections: () => Array.from(sockets.keys()).forEach(socket => socket.close()),
+    reset: () => {
+      Array.from(sockets.keys()).forEach(socket => socket.close());
+      db = seedDatabase(seedPassword, bulkIssueCount);
+      eventLog = [];
+    }
+  };
+};
+
+export type MockBackend = ReturnType<typeof createMockBackend>;
@@ -0,0 +1,124 @@
+import { ApiClient, ApiError } from './apiClient.ts';
+import { createOfflineQueue, MAX_SERVER_FAILURES, QueuedMutationInput, replayOfflineQueue } from './offlineQueue.ts';
+import { Comment, Issue } from './types.ts';
+
+const issue = (id: string, updatedAt = '2026-01-01T00:00:00Z') => ({ id, title: id, updated_at: updatedAt } as Issue);
+
+const serverError = () => new ApiError('server', 'Service unavailable', { endpoint: '/api/issues', status: 503 });
+
+/** Only the endpoints replay calls; each is a jest.fn the test can script. */
+const fakeApi = () => {
+  const issues = {
+    create: jest.fn(async (payload: { title?: string }) => issue(`server-${payload.title}`)),
+    update: jest.fn(async (id: string) => issue(id, '2026-01-02T00:00:00Z')),
+    remove: jest.fn(async () => undefined)
+  };
+  const comments = { create: jest.fn(async (issueId: string, content: string) => ({ id: 'comment-1', issue_id: issueId, content })) };
+  return { api: { issues, comments } as unknown as ApiClient, issues, comments };
+};
+
+const handlers = () => ({ onApplied: jest.fn(), onConflict: jest.fn() });
+
+// jsdom has no IndexedDB, so these run against the queue's in-memory fallback
+const queueWith = async (...inputs: QueuedMutationInput[]) => {
+  const queue = createOfflineQueue();
+  for (const input of inputs) await queue.enqueue('user-1', input);
+  return queue;
+};
+
+describe('replayOfflineQueue', () => {
+  it('replays writes oldest first and empties the queue', async () => {
+    const { api, issues, comments } = fakeApi();
+    const queue = await queueWith(
+      { kind: 'issue.update', issueId: 'issue-1', payload: { title: 'Renamed' } },
+      { kind: 'comment.create', issueId: 'issue-1', tempId: 'offline-comment-1', content: 'Done', placeholder: { id: 'offline-comment-1' } as Comment }
+    );
+
+    const outcome = await replayOfflineQueue(api, queue, 'user-1', handlers());
+
+    expect(outcome).toEqual({ applied: 2, conflicts: 0, stalled: false });
+    expect(issues.update.mock.invocationCallOrder[0]).toBeLessThan(comments.create.mock.invocationCallOrder[0]);
+    expect(await queue.list('user-1')).toEqual([]);
+  });
+
+  it('points later writes at the id the server gave an issue created offline', async () => {
+    const { api, issues } = fakeApi();
+    const queue = await queueWith(
+      { kind: 'issue.create', tempId: 'offline-issue-1', payload: { title: 'New' }, placeholder: issue('offline-issue-1') },
+      { kind: 'issue.update', issueId: 'offline-issue-1', payload: { priority: 'HIGH' } }
+    );
+    const callbacks = handlers();
+
+    await replayOfflineQueue(api, queue, 'user-1', callbacks);
+
+    expect(issues.update).toHaveBeenCalledWith('server-New', { priority: 'HIGH' }, { expectedUpdatedAt: undefined });
+    expect(callbacks.onApplied).toHaveBeenLastCalledWith(expect.objectContaining({ kind: 'issue.update' }), expect.anything(), 'server-New');
+  });
+
+  it('stops at a network failure and keeps the rest queued', async () => {
+    const { api, issues } = fakeApi();
+    issues.update.mockRejectedValueOnce(new ApiError('network', 'Failed to fetch', { endpoint: '/api/issues/issue-1' }));
+    const queue = await queueWith(
+      { kind: 'issue.update', issueId: 'issue-1', payload: { title: 'A' } },
+      { kind: 'issue.delete', issueId: 'issue-2' }
+    );
+
+    const outcome = await replayOfflineQueue(api, queue, 'user-1', handlers());
+
+    expect(outcome).toEqual({ applied: 0, conflicts: 0, stalled: true });
+    expect(issues.remove).not.toHaveBeenCalled();
+    expect((await queue.list('user-1')).map(mutation => mutation.state)).toEqual(['pending', 'pending']);
+  });
+
+  it('keeps a rejected write as a conflict and holds back writes to an issue that was never created', async () => {
+    const { api, issues } = fakeApi();
+    issues.create.mockRejectedValueOnce(new ApiError('validation', 'Title is required', { endpoint: '/api/issues', status: 422 }));
+    const queue = await queueWith(
+      { kind: 'issue.create', tempId: 'offline-issue-1', payload: { title: '' }, placeholder: issue('offline-issue-1') },
+      { kind: 'issue.update', issueId: 'offline-issue-1', payload: { title: 'Named later' } },
+      { kind: 'issue.delete', issueId: 'issue-9' }
+    );
+    const callbacks = handlers();
+
+    const outcome = await replayOfflineQueue(api, queue, 'user-1', callbacks);
+
+    expect(outcome).toEqual({ applied: 1, conflicts: 2, stalled: false });
+    expect(issues.update).not.toHaveBeenCalled();
+    expect(callbacks.onConflict).toHaveBeenCalledWith(expect.objectContaining({ kind: 'issue.create' }), 'Title is required');
+    expect((await queue.list('user-1')).map(mutation => mutation.state)).toEqual(['conflict', 'conflict']);
+  });
+
+  it('turns a write the server keeps failing on into a conflict so the rest can go', async () => {
+    const { api, issues } = fakeApi();
+    issues.update.mockRejectedValue(serverError());
+    const queue = await queueWith(
+      { kind: 'issue.update', issueId: 'issue-1', payload: { title: 'A' } },
+      { kind: 'issue.delete', issueId: 'issue-2' }
+    );
+
+    for (let attempt = 1; attempt < MAX_SERVER_FAILURES; attempt += 1) {
+      const outcome = await replayOfflineQueue(api, queue, 'user-1', handlers());
+      expect(outcome.stalled).toBe(true);
+      expect((await queue.list('user-1'))[0]).toMatchObject({ state: 'pending', serverFailures: attempt });
+    }
+    expect(issues.remove).not.toHaveBeenCalled();
+
+    const callbacks = handlers();
+    const outcome = await replayOfflineQueue(api, queue, 'user-1', callbacks);
+
+    expect(outcome).toEqual({ applied: 1, conflicts: 1, stalled: false });
+    expect(callbacks.onConflict.mock.calls[0][1]).toMatch(`failed ${MAX_SERVER_FAILURES} times`);
+    expect(issues.remove).toHaveBeenCalledWith('issue-2');
+  });
+
+  it('only replays the signed-in user\'s writes', async () => {
+    const { api, issues } = fakeApi();
+    const queue = await queueWith({ kind: 'issue.delete', issueId: 'issue-1' });
+    await queue.enqueue('user-2', { kind: 'issue.delete', issueId: 'issue-2' });
+
+    await replayOfflineQueue(api, queue, 'user-1', handlers());
+
+    expect(issues.remove).toHaveBeenCalledTimes(1);
+    expect(await queue.list('user-2')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,254 @@
+// src/offlineQueue.ts
+// Issue and comment writes made while offline are persisted in IndexedDB and
+// replayed in order once the connection is back.
+import { ApiClient, IssuePayload, isApiError } from './apiClient.ts';
+import { Comment, Issue } from './types.ts';
+
+export type QueuedMutationInput =
+  | { kind: 'issue.create'; tempId: string; payload: IssuePayload; placeholder: Issue }
+  | { kind: 'issue.update'; issueId: string; payload: IssuePayload; expectedUpdatedAt?: string }
+  | { kind: 'issue.delete'; issueId: string }
+  | { kind: 'comment.create'; issueId: string; tempId: string; content: string; placeholder: Comment };
+
+export type QueuedMutation = QueuedMutationInput & {
+  seq: number;
+  userId: string;
+  queuedAt: string;
+  state: 'pending' | 'conflict';
+  error?: string;
+  /** Replays the server answered with a 5xx; at MAX_SERVER_FAILURES the mutation becomes a conflict. */
+  serverFailures?: number;
+};
+
+export interface ReplayHandlers {
+  /** resolvedIssueId is the server id when the mutation targeted an issue created offline. */
+  onApplied: (mutation: QueuedMutation, result: unknown, resolvedIssueId: string) => void;
+  onConflict: (mutation: QueuedMutation, message: string) => void;
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  /** True when replay stopped early because the network dropped again or the server failed. */
+  stalled: boolean;
+}
+
+// A write the server keeps failing on would otherwise hold up everything queued behind it
+export const MAX_SERVER_FAILURES = 5;
+
+const DB_NAME = 'missedtask-offline';
+const STORE_NAME = 'mutations';
+const TEMP_ID_PREFIX = 'offline-';
+
+export const createTempId = (kind: 'issue' | 'comment') =>
+  `${TEMP_ID_PREFIX}${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isTempId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+/** Errors that mean "try again later" rather than "the server rejected this". */
+export const isOfflineError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  return isApiError(error) && (error.kind === 'network' || error.kind === 'server' || error.kind === 'aborted');
+};
+
+export const describeMutation = (mutation: QueuedMutationInput, issueKey?: string) => {
+  const target = issueKey || 'issue';
+  switch (mutation.kind) {
+    case 'issue.create': return `Create "${mutation.payload.title || mutation.placeholder.title}"`;
+    case 'issue.update': return `Update ${target}`;
+    case 'issue.delete': return `Delete ${target}`;
+    case 'comment.create': return `Comment on ${target}`;
+  }
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createOfflineQueue = () => {
+  // Falls back to memory where IndexedDB is unavailable (private mode in some browsers, jsdom)
+  const hasIndexedDb = typeof indexedDB !== 'undefined';
+  const memoryStore = new Map<number, QueuedMutation>();
+  let memorySeq = 0;
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <T,>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T>) => {
+    if (!dbPromise) dbPromise = openDatabase();
+    const db = await dbPromise;
+    return requestToPromise(work(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  const list = async (userId: string): Promise<QueuedMutation[]> => {
+    const all = hasIndexedDb
+      ? await withStore('readonly', store => store.getAll() as IDBRequest<QueuedMutation[]>)
+      : Array.from(memoryStore.values());
+    return all.filter(mutation => mutation.userId === userId).sort((a, b) => a.seq - b.seq);
+  };
+
+  const enqueue = async (userId: string, input: QueuedMutationInput): Promise<QueuedMutation> => {
+    const record = { ...input, userId, queuedAt: new Date().toISOString(), state: 'pending' as const };
+    if (!hasIndexedDb) {
+      memorySeq += 1;
+      const stored = { ...record, seq: memorySeq } as QueuedMutation;
+      memoryStore.set(memorySeq, stored);
+      return stored;
+    }
+    const seq = await withStore('readwrite', store => store.add(record) as IDBRequest<number>);
+    return { ...record, seq } as QueuedMutation;
+  };
+
+  const put = async (mutation: QueuedMutation) => {
+    if (!hasIndexedDb) {
+      memoryStore.set(mutation.seq, mutation);
+      return;
+    }
+    await withStore('readwrite', store => store.put(mutation));
+  };
+
+  const remove = async (seq: number) => {
+    if (!hasIndexedDb) {
+      memoryStore.delete(seq);
+      return;
+    }
+    await withStore('readwrite', store => store.delete(seq));
+  };
+
+  return { list, enqueue, put, remove };
+};
+
+export type OfflineQueue = ReturnType<typeof createOfflineQueue>;
+
+const issueIdOf = (mutation: QueuedMutationInput) =>
+  mutation.kind === 'issue.create' ? mutation.tempId : mutation.issueId;
+
+const messageOf = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Replays pending mutations oldest first. A rejected mutation (or one the server
+ * keeps failing on) is kept as a conflict for the user to retry or discard; later
+ * writes to an issue that could not be created are held back with it.
+ */
+export const replayOfflineQueue = async (
+  api: ApiClient,
+  queue: OfflineQueue,
+  userId: string,
+  handlers: ReplayHandlers
+): Promise<ReplayResult> => {
+  const result: ReplayResult = { applied: 0, conflicts: 0, stalled: false };
+  const resolvedIds = new Map<string, string>();
+  const blockedIssueIds = new Set<string>();
+  // Versions produced by our own earlier writes in this replay, so a later edit made on top of one isn't a conflict
+  const replayedVersions = new Map<string, { from: string; to: string }>();
+
+  for (const mutation of await queue.list(userId)) {
+    const targetId = issueIdOf(mutation);
+
+    if (mutation.state === 'conflict') {
+      if (mutation.kind === 'issue.create' || isTempId(targetId)) blockedIssueIds.add(targetId);
+      continue;
+    }
+    if (blockedIssueIds.has(targetId)) {
+      const message = 'Waiting on an earlier change to this issue that could not be synced';
+      await queue.put({ ...mutation, state: 'conflict', error: message });
+      handlers.onConflict(mutation, message);
+      result.conflicts += 1;
+      continue;
+    }
+
+    const issueId = resolvedIds.get(targetId) ?? targetId;
+    try {
+      let response: unknown;
+      switch (mutation.kind) {
+        case 'issue.create':
+          response = await api.issues.create(mutation.payload);
+          resolvedIds.set(mutation.tempId, (response as Issue).id);
+          // Persist the new id too, so later writes still find the issue if this replay stalls part-way
+          for (const later of await queue.list(userId)) {
+            if (later.kind !== 'issue.create' && later.issueId === mutation.tempId) {
+              await queue.put({ ...later, issueId: (response as Issue).id });
+            }
+          }
+          break;
+        case 'issue.update': {
+          const replayed = replayedVersions.get(issueId);
+          const expectedUpdatedAt = replayed && replayed.from === mutation.expectedUpdatedAt ? replayed.to : mutation.expectedUpdatedAt;
+          response = await api.issues.update(issueId, mutation.payload, { expectedUpdatedAt });
+          if (mutation.expectedUpdatedAt) {
+            replayedVersions.set(issueId, { from: mutation.expectedUpdatedAt, to: (response as Issue).updated_at });
+          }
+          break;
+        }
+        case 'issue.delete':
+          response = await api.issues.remove(issueId);
+          break;
+        case 'comment.create':
+          response = await api.comments.create(issueId, mutation.content);
+          break;
+      }
+      await queue.remove(mutation.seq);
+      handlers.onApplied(mutation, response, mutation.kind === 'issue.create' ? (response as Issue).id : issueId);
+      result.applied += 1;
+    } catch (error) {
+      const browserOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+      const serverFailures = isApiError(error) && error.kind === 'server' && !browserOffline ? (mutation.serverFailures ?? 0) + 1 : 0;
+      if (serverFailures > 0 && serverFailures < MAX_SERVER_FAILURES) {
+        await queue.put({ ...mutation, serverFailures });
+        result.stalled = true;
+        break;
+      }
+      if (serverFailures === 0 && (isOfflineError(error) || (isApiError(error) && error.kind === 'unauthorized'))) {
+        result.stalled = true;
+        break;
+      }
+      const message = isApiError(error) && error.kind === 'not_found'
+        ? 'The issue no longer exists on the server'
+        : isApiError(error) && error.kind === 'conflict'
+          ? 'Someone else changed this issue while you were offline'
+          : serverFailures > 0
+            ? `The server failed ${serverFailures} times in a row: ${messageOf(error)}`
+            : messageOf(error);
+      await queue.put({ ...mutation, state: 'conflict', error: message });
+      handlers.onConflict(mutation, message);
+      result.conflicts += 1;
+      if (mutation.kind === 'issue.create') blockedIssueIds.add(mutation.tempId);
+    }
+  }
+
+  return result;
+};
+
+/** Re-applies queued writes on top of a fresh server snapshot so offline work stays visible. */
+export const applyQueuedMutations = (issues: Issue[], mutations: QueuedMutation[]): Issue[] =>
+  mutations.reduce<Issue[]>((current, mutation) => {
+    switch (mutation.kind) {
+      case 'issue.create':
+        return current.some(issue => issue.id === mutation.tempId) ? current : [...current, mutation.placeholder];
+      case 'issue.update':
+        return current.map(issue =>
+          issue.id === mutation.issueId ? { ...issue, ...(mutation.payload as Partial<Issue>) } : issue
+        );
+      case 'comment.create':
+        return current.map(issue =>
+          issue.id === mutation.issueId && !(issue.comments || []).some(comment => comment.id === mutation.tempId)
+            ? { ...issue, comments: [...(issue.comments || []), mutation.placeholder] }
+            : issue
+        );
+      case 'issue.delete':
+        // Kept visible (and flagged) until the server confirms the deletion
+        return current;
+    }
+    return current;
+  }, issues);
@@ -0,0 +1,165 @@
+// src/presence.ts
+// Presence for the signed-in user is derived from page visibility and input
+// activity and reported over the socket as heartbeats; everyone else's arrives
+// as presence events and is merged into the shared users list.
+import { PresenceStatus, User } from './types.ts';
+
+/** How often a connected client reports its status; the server drops clients that miss a few. */
+export const PRESENCE_HEARTBEAT_MS = 25_000;
+/** No keyboard, pointer or scroll input for this long (with the tab visible) counts as idle. */
+export const PRESENCE_IDLE_AFTER_MS = 2 * 60_000;
+/** A hidden tab, or idle for this long, counts as away. */
+export const PRESENCE_AWAY_AFTER_MS = 10 * 60_000;
+
+export const PRESENCE_SOCKET_EVENTS = ['user_online', 'user_offline', 'presence_changed'];
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  active: 'Active',
+  idle: 'Idle',
+  away: 'Away',
+  offline: 'Offline'
+};
+
+export const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  active: '#22c55e',
+  idle: '#f59e0b',
+  away: '#94a3b8',
+  offline: 'transparent'
+};
+
+const PRESENCE_STATUSES = Object.keys(PRESENCE_LABELS) as PresenceStatus[];
+const ACTIVITY_EVENTS = ['keydown', 'pointerdown', 'pointermove', 'wheel', 'touchstart', 'focus'] as const;
+// Pointer moves fire constantly; one timestamp per second is plenty to tell active from idle
+const ACTIVITY_SAMPLE_MS = 1000;
+const STATUS_CHECK_MS = 15_000;
+
+const interpretOnlineFlag = (value: any): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') {
+    if (value === 1) return true;
+    if (value === 0) return false;
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (['1', 'true', 'yes', 'online', 'active'].includes(normalized)) return true;
+    if (['0', 'false', 'no', 'offline', 'inactive'].includes(normalized)) return false;
+  }
+  return undefined;
+};
+
+const asPresenceStatus = (value: unknown): PresenceStatus | undefined =>
+  typeof value === 'string' && PRESENCE_STATUSES.includes(value as PresenceStatus) ? (value as PresenceStatus) : undefined;
+
+/**
+ * Normalizes a user from the API. Servers that speak the presence protocol send
+ * `presence`; older ones only report a boolean under one of several field names.
+ */
+export const withPresence = (u: any): User => {
+  const explicit = asPresenceStatus(u?.presence) ?? asPresenceStatus(u?.presence?.status);
+  const legacyOnline =
+    interpretOnlineFlag(u?.is_online) ??
+    interpretOnlineFlag(u?.online) ??
+    interpretOnlineFlag(u?.online_status) ??
+    interpretOnlineFlag(u?.status?.is_online) ??
+    interpretOnlineFlag(u?.status?.online) ??
+    interpretOnlineFlag(u?.presence?.is_online) ??
+    interpretOnlineFlag(u?.presence);
+  const presence = explicit ?? (legacyOnline ? 'active' : 'offline');
+
+  return {
+    ...u,
+    presence,
+    is_online: presence !== 'offline'
+  };
+};
+
+export const presenceOf = (user: Pick<User, 'presence' | 'is_online'> | null | undefined): PresenceStatus =>
+  user?.presence ?? (user?.is_online ? 'active' : 'offline');
+
+/** Applies a user_online, user_offline or presence_changed event to a users list. */
+export const applyPresenceEvent = <T extends { id: string; presence?: PresenceStatus; is_online?: boolean; last_seen?: string }>(
+  users: T[],
+  data: any
+): T[] => {
+  const presence: PresenceStatus | undefined =
+    data.type === 'user_offline' ? 'offline' : asPresenceStatus(data.status) ?? (data.type === 'user_online' ? 'active' : undefined);
+  if (!data.user_id || !presence) return users;
+  const lastSeen: string | undefined = data.last_seen;
+  let changed = false;
+  const next = users.map(user => {
+    // The host app and an embedded chat may both apply the same event
+    if (user.id !== data.user_id || (user.presence === presence && (!lastSeen || user.last_seen === lastSeen))) return user;
+    changed = true;
+    return { ...user, presence, is_online: presence !== 'offline', last_seen: lastSeen ?? user.last_seen };
+  });
+  return changed ? next : users;
+};
+
+export const describeLastSeen = (user: Pick<User, 'presence' | 'is_online' | 'last_seen'>, now = Date.now()) => {
+  const presence = presenceOf(user);
+  if (presence !== 'offline') return PRESENCE_LABELS[presence];
+  if (!user.last_seen) return PRESENCE_LABELS.offline;
+  const minutes = Math.floor((now - new Date(user.last_seen).getTime()) / 60_000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last seen ${hours}h ago`;
+  return `Last seen ${new Date(user.last_seen).toLocaleDateString()}`;
+};
+
+/** Tracks this tab's own status; listeners hear about every change. */
+export const createPresenceTracker = () => {
+  const hasDocument = typeof document !== 'undefined';
+  const listeners = new Set<(status: PresenceStatus) => void>();
+  let lastActivityAt = Date.now();
+  let status: PresenceStatus = 'active';
+  let checkTimer: ReturnType<typeof setInterval> | null = null;
+
+  const computeStatus = (): PresenceStatus => {
+    const inactiveFor = Date.now() - lastActivityAt;
+    if ((hasDocument && document.visibilityState === 'hidden') || inactiveFor >= PRESENCE_AWAY_AFTER_MS) return 'away';
+    return inactiveFor >= PRESENCE_IDLE_AFTER_MS ? 'idle' : 'active';
+  };
+
+  const update = () => {
+    const next = computeStatus();
+    if (next === status) return;
+    status = next;
+    listeners.forEach(listener => listener(status));
+  };
+
+  const recordActivity = () => {
+    const now = Date.now();
+    if (now - lastActivityAt < ACTIVITY_SAMPLE_MS && status === 'active') return;
+    lastActivityAt = now;
+    update();
+  };
+
+  const start = () => {
+    if (checkTimer || !hasDocument) return;
+    lastActivityAt = Date.now();
+    status = computeStatus();
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, recordActivity, { passive: true }));
+    document.addEventListener('visibilitychange', update);
+    checkTimer = setInterval(update, STATUS_CHECK_MS);
+  };
+
+  const stop = () => {
+    if (!checkTimer) return;
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, recordActivity));
+    document.removeEventListener('visibilitychange', update);
+    clearInterval(checkTimer);
+    checkTimer = null;
+  };
+
+  const subscribe = (listener: (status: PresenceStatus) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { start, stop, subscribe, getStatus: () => status };
+};
+
+export type PresenceTracker = ReturnType<typeof createPresenceTracker>;
@@ -0,0 +1,77 @@
+import { DEFAULT_SCHEDULE, nextRunAfter, scheduleProblem, upcomingRuns } from './recurrence.ts';
+import { RecurrenceSchedule } from './types.ts';
+
+const schedule = (overrides: Partial<RecurrenceSchedule>): RecurrenceSchedule => ({ ...DEFAULT_SCHEDULE, ...overrides });
+
+// Schedules run in local time, so dates are built the same way
+const at = (year: number, month: number, day: number, hours = 0, minutes = 0) => new Date(year, month - 1, day, hours, minutes);
+
+describe('nextRunAfter', () => {
+  it('runs daily schedules later the same day, or the next day once the time has passed', () => {
+    const daily = schedule({ frequency: 'daily', time: '09:30' });
+    expect(nextRunAfter(daily, at(2026, 1, 14, 8))).toEqual(at(2026, 1, 14, 9, 30));
+    expect(nextRunAfter(daily, at(2026, 1, 14, 9, 30))).toEqual(at(2026, 1, 15, 9, 30));
+  });
+
+  it('runs weekly schedules on the chosen days only', () => {
+    // 2026-01-14 is a Wednesday
+    const weekly = schedule({ frequency: 'weekly', time: '09:00', weekdays: [1, 5] });
+    expect(nextRunAfter(weekly, at(2026, 1, 14, 12))).toEqual(at(2026, 1, 16, 9));
+    expect(nextRunAfter(weekly, at(2026, 1, 16, 12))).toEqual(at(2026, 1, 19, 9));
+  });
+
+  it('runs monthly schedules on the last day of months without the chosen day', () => {
+    const monthly = schedule({ frequency: 'monthly', time: '09:00', day_of_month: 31 });
+    expect(nextRunAfter(monthly, at(2026, 1, 31, 12))).toEqual(at(2026, 2, 28, 9));
+    expect(nextRunAfter(monthly, at(2028, 1, 31, 12))).toEqual(at(2028, 2, 29, 9));
+    expect(nextRunAfter(monthly, at(2026, 4, 1))).toEqual(at(2026, 4, 30, 9));
+    expect(upcomingRuns(monthly, at(2026, 1, 1), 4)).toEqual([at(2026, 1, 31, 9), at(2026, 2, 28, 9), at(2026, 3, 31, 9), at(2026, 4, 30, 9)]);
+  });
+
+  it('follows cron schedules', () => {
+    const weekdayMornings = schedule({ frequency: 'cron', cron: '0 9 * * 1-5' });
+    // Saturday 2026-01-17
+    expect(nextRunAfter(weekdayMornings, at(2026, 1, 17, 10))).toEqual(at(2026, 1, 19, 9));
+
+    const quarterHours = schedule({ frequency: 'cron', cron: '*/15 8-9 * * *' });
+    expect(upcomingRuns(quarterHours, at(2026, 1, 14, 9, 40), 3)).toEqual([at(2026, 1, 14, 9, 45), at(2026, 1, 15, 8), at(2026, 1, 15, 8, 15)]);
+  });
+
+  it('treats 7 as Sunday in cron', () => {
+    expect(nextRunAfter(schedule({ frequency: 'cron', cron: '0 12 * * 7' }), at(2026, 1, 14))).toEqual(at(2026, 1, 18, 12));
+  });
+
+  it('matches either day field when cron restricts both', () => {
+    // The 1st of the month or any Monday; 2026-02-01 is a Sunday
+    const cron = schedule({ frequency: 'cron', cron: '0 9 1 * 1' });
+    expect(upcomingRuns(cron, at(2026, 1, 27), 3)).toEqual([at(2026, 2, 1, 9), at(2026, 2, 2, 9), at(2026, 2, 9, 9)]);
+  });
+
+  it('only runs cron day-of-month schedules in months that have the day', () => {
+    expect(nextRunAfter(schedule({ frequency: 'cron', cron: '0 9 31 * *' }), at(2026, 1, 31, 12))).toEqual(at(2026, 3, 31, 9));
+    expect(nextRunAfter(schedule({ frequency: 'cron', cron: '0 9 29 2 *' }), at(2026, 1, 1))).toEqual(at(2028, 2, 29, 9));
+  });
+
+  it('returns null for schedules that never run or cannot be read', () => {
+    expect(nextRunAfter(schedule({ frequency: 'cron', cron: '0 9 31 2 *' }), at(2026, 1, 1))).toBeNull();
+    expect(nextRunAfter(schedule({ frequency: 'cron', cron: '0 9 * *' }), at(2026, 1, 1))).toBeNull();
+    expect(nextRunAfter(schedule({ frequency: 'daily', time: '25:00' }), at(2026, 1, 1))).toBeNull();
+  });
+});
+
+describe('scheduleProblem', () => {
+  it('accepts the default schedule', () => {
+    expect(scheduleProblem(DEFAULT_SCHEDULE)).toBeNull();
+  });
+
+  it('explains what is wrong with a cron expression', () => {
+    expect(scheduleProblem(schedule({ frequency: 'cron', cron: '0 9 * *' }))).toMatch('five fields');
+    expect(scheduleProblem(schedule({ frequency: 'cron', cron: '0 24 * * *' }))).toBe('The hour must be between 0 and 23');
+    expect(scheduleProblem(schedule({ frequency: 'cron', cron: '0 9 31 2 *' }))).toBe('That cron schedule never runs');
+  });
+
+  it('rejects weekly schedules without a day and monthly ones outside 1-31', () => {
+    expect(scheduleProblem(schedule({ frequency: 'weekly', weekdays: [] }))).toBe('Pick at least one day of the week');
+    expect(scheduleProblem(schedule({ frequency: 'monthly', day_of_month: 32 }))).toBe('The day of the month must be between 1 and 31');
+  });
+});
@@ -0,0 +1,188 @@
+// src/recurrence.ts
+// Recurring issues: a template plus a schedule. Schedules run in local time, and the server
+// creates one issue per run, so a series that was paused (or a server that was down) skips the
+// runs it missed rather than creating them all at once.
+import { RecurrenceSchedule } from './types.ts';
+
+export const RECURRING_ISSUE_SOCKET_EVENTS = ['recurring_issue_created', 'recurring_issue_updated', 'recurring_issue_deleted'];
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceSchedule['frequency'], string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  cron: 'Custom (cron)'
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_SCHEDULE: RecurrenceSchedule = {
+  frequency: 'weekly',
+  time: '09:00',
+  weekdays: [1],
+  day_of_month: 1,
+  cron: '0 9 * * 1-5'
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// A cron schedule that matches nothing in this long (say "31 February") never runs
+const MAX_SEARCH_DAYS = 4 * 366 + 1;
+
+interface CronSpec {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Cron matches either day field when both are restricted, and only the restricted one otherwise. */
+  anyDayOfMonth: boolean;
+  anyWeekday: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is Sunday too, as in most crons
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// One field: "*", "5", "1-5", "*/15", "1-20/5" or a comma-separated list of those
+const parseCronField = (text: string, { name, min, max }: typeof CRON_FIELDS[number]): number[] | string => {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return `"${part}" isn't a valid ${name}`;
+    const from = match[1] === '*' ? min : Number(match[2]);
+    const to = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : from;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (from < min || to > max || from > to) return `The ${name} must be between ${min} and ${max}`;
+    if (step < 1) return `"${part}" needs a step of at least 1`;
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+const parseCron = (expression: string): CronSpec | string => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) return 'A cron schedule has five fields: minute, hour, day of month, month and day of week';
+  const fields: number[][] = [];
+  for (let index = 0; index < parts.length; index += 1) {
+    const field = parseCronField(parts[index], CRON_FIELDS[index]);
+    if (typeof field === 'string') return field;
+    fields.push(field);
+  }
+  const [minutes, hours, daysOfMonth, months, weekdays] = fields;
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    weekdays: new Set(weekdays.map(day => day % 7)),
+    anyDayOfMonth: parts[2].startsWith('*'),
+    anyWeekday: parts[4].startsWith('*')
+  };
+};
+
+const atTime = (day: Date, time: string) => {
+  const [, hours, minutes] = time.match(TIME_OF_DAY) ?? ['', '0', '0'];
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Number(hours), Number(minutes));
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/** The first run strictly after `after`, or null for a schedule that's invalid or never runs. */
+export const nextRunAfter = (schedule: RecurrenceSchedule, after: Date): Date | null => {
+  const firstDay = new Date(after.getFullYear(), after.getMonth(), after.getDate());
+  const dayAt = (offset: number) => new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + offset);
+
+  if (schedule.frequency === 'cron') {
+    const cron = parseCron(schedule.cron ?? '');
+    if (typeof cron === 'string') return null;
+    for (let offset = 0; offset < MAX_SEARCH_DAYS; offset += 1) {
+      const day = dayAt(offset);
+      if (!cron.months.has(day.getMonth() + 1)) continue;
+      const dayOfMonthMatches = cron.daysOfMonth.has(day.getDate());
+      const weekdayMatches = cron.weekdays.has(day.getDay());
+      const dayMatches = cron.anyDayOfMonth || cron.anyWeekday
+        ? dayOfMonthMatches && weekdayMatches
+        : dayOfMonthMatches || weekdayMatches;
+      if (!dayMatches) continue;
+      for (const hour of cron.hours) {
+        for (const minute of cron.minutes) {
+          const run = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+          if (run > after) return run;
+        }
+      }
+    }
+    return null;
+  }
+
+  if (!TIME_OF_DAY.test(schedule.time ?? '')) return null;
+  if (schedule.frequency === 'monthly') {
+    // Months without the chosen day run on their last day instead
+    for (let months = 0; months <= 12; months += 1) {
+      const year = firstDay.getFullYear();
+      const month = firstDay.getMonth() + months;
+      const day = Math.min(schedule.day_of_month, daysInMonth(year, month));
+      const run = atTime(new Date(year, month, day), schedule.time);
+      if (run > after) return run;
+    }
+    return null;
+  }
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const run = atTime(dayAt(offset), schedule.time);
+    if (run <= after) continue;
+    if (schedule.frequency === 'daily' || (schedule.weekdays ?? []).includes(run.getDay())) return run;
+  }
+  return null;
+};
+
+/** Why a schedule can't be saved, or null when it can. */
+export const scheduleProblem = (schedule: RecurrenceSchedule | undefined): string | null => {
+  if (!schedule || !(schedule.frequency in RECURRENCE_FREQUENCY_LABELS)) return 'Choose how often the issue repeats';
+  if (schedule.frequency === 'cron') {
+    const cron = parseCron(schedule.cron ?? '');
+    if (typeof cron === 'string') return cron;
+    return nextRunAfter(schedule, new Date()) ? null : 'That cron schedule never runs';
+  }
+  if (!TIME_OF_DAY.test(schedule.time ?? '')) return 'Give the time of day as HH:MM';
+  if (schedule.frequency === 'weekly') {
+    const weekdays = schedule.weekdays ?? [];
+    if (weekdays.length === 0) return 'Pick at least one day of the week';
+    if (weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) return 'Days of the week go from 0 (Sunday) to 6 (Saturday)';
+  }
+  if (schedule.frequency === 'monthly' && !(Number.isInteger(schedule.day_of_month) && schedule.day_of_month >= 1 && schedule.day_of_month <= 31)) {
+    return 'The day of the month must be between 1 and 31';
+  }
+  return null;
+};
+
+/** The next `count` runs after `after`, for previews. */
+export const upcomingRuns = (schedule: RecurrenceSchedule, after: Date, count: number): Date[] => {
+  const runs: Date[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    const run = nextRunAfter(schedule, cursor);
+    if (!run) break;
+    runs.push(run);
+    cursor = run;
+  }
+  return runs;
+};
+
+export const describeSchedule = (schedule: RecurrenceSchedule): string => {
+  switch (schedule.frequency) {
+    case 'daily':
+      return `Every day at ${schedule.time}`;
+    case 'weekly': {
+      const days = [...(schedule.weekdays ?? [])].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]);
+      return `Every ${days.join(', ')} at ${schedule.time}`;
+    }
+    case 'monthly':
+      return `Monthly on day ${schedule.day_of_month} at ${schedule.time}`;
+    default:
+      return `Cron: ${schedule.cron}`;
+  }
+};
@@ -0,0 +1,120 @@
+// src/timeTracking.ts
+// Estimates and logged work are kept in minutes and written the way people say them:
+// "1d 4h 30m", where a day is a working day of eight hours.
+import { Issue, WorkLog } from './types.ts';
+
+export const WORK_LOG_SOCKET_EVENTS = ['work_logged', 'work_log_deleted'];
+
+const MINUTES_PER_HOUR = 60;
+const MINUTES_PER_DAY = 8 * MINUTES_PER_HOUR;
+const UNIT_MINUTES: Record<string, number> = { d: MINUTES_PER_DAY, h: MINUTES_PER_HOUR, m: 1 };
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest single entry; more than a day's work is logged day by day. */
+export const MAX_WORK_LOG_MINUTES = 24 * MINUTES_PER_HOUR;
+
+/** "1d 4h 30m", "1.5h" or "90m" in minutes; a bare number is hours. Null when it can't be read. */
+export const parseDuration = (text: string): number | null => {
+  const trimmed = text.trim().toLowerCase();
+  if (!trimmed) return null;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * MINUTES_PER_HOUR);
+  const parts = trimmed.split(/\s+/);
+  let minutes = 0;
+  for (const part of parts) {
+    const match = part.match(/^(\d+(?:\.\d+)?)([dhm])$/);
+    if (!match) return null;
+    minutes += Number(match[1]) * UNIT_MINUTES[match[2]];
+  }
+  return Math.round(minutes);
+};
+
+export const formatDuration = (minutes: number | null | undefined): string => {
+  if (minutes === null || minutes === undefined) return '—';
+  if (minutes <= 0) return '0m';
+  const days = Math.floor(minutes / MINUTES_PER_DAY);
+  const hours = Math.floor((minutes % MINUTES_PER_DAY) / MINUTES_PER_HOUR);
+  const rest = minutes % MINUTES_PER_HOUR;
+  return [days && `${days}d`, hours && `${hours}h`, rest && `${rest}m`].filter(Boolean).join(' ');
+};
+
+/** Decimal hours for exports, where a spreadsheet has to add them up. */
+export const toHours = (minutes: number) => Math.round((minutes / MINUTES_PER_HOUR) * 100) / 100;
+
+/** Why an estimate can't be saved, or null when it can. Null and undefined clear or keep it. */
+export const estimateProblem = (value: unknown, label: string): string | null =>
+  value === null || value === undefined || (Number.isInteger(value) && (value as number) >= 0)
+    ? null
+    : `${label} must be a whole number of minutes`;
+
+export const workLogProblem = (log: { minutes?: unknown; date?: unknown }): string | null => {
+  if (!Number.isInteger(log.minutes) || (log.minutes as number) <= 0) return 'Time spent must be more than zero';
+  if ((log.minutes as number) > MAX_WORK_LOG_MINUTES) return 'A single entry can be at most 24h; log longer work day by day';
+  if (typeof log.date !== 'string' || !DATE_ONLY.test(log.date) || Number.isNaN(Date.parse(log.date))) return 'Pick the day the work was done';
+  return null;
+};
+
+/** Adds a log that arrived over the socket or from our own request, whichever came first. */
+export const addWorkLog = (logs: WorkLog[], log: WorkLog) => (logs.some(existing => existing.id === log.id) ? logs : [...logs, log]);
+
+export const hasTimeTracking = (issue: Issue) => issue.original_estimate_minutes != null || (issue.time_spent_minutes ?? 0) > 0;
+
+/**
+ * Shares of a time bar: logged work, then what's left. The bar spans the original estimate,
+ * or spent plus remaining once that runs past it, in which case `overEstimate` is set.
+ */
+export const timeProgress = (issue: Issue) => {
+  const spent = issue.time_spent_minutes ?? 0;
+  const remaining = issue.remaining_estimate_minutes ?? 0;
+  const estimate = issue.original_estimate_minutes ?? 0;
+  const total = Math.max(estimate, spent + remaining, 1);
+  return {
+    spent,
+    remaining,
+    estimate,
+    spentPercent: Math.round((spent / total) * 100),
+    remainingPercent: Math.round((remaining / total) * 100),
+    overEstimate: issue.original_estimate_minutes != null && spent + remaining > estimate
+  };
+};
+
+// Local calendar date, so work logged late in the evening lands on the day it was done
+export const toDateOnly = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Monday of the week `date` falls in. */
+export const startOfWeek = (date: Date) => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+};
+
+export const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const weekDates = (weekStart: Date) => Array.from({ length: 7 }, (_, day) => toDateOnly(addDays(weekStart, day)));
+
+export interface TimesheetRow {
+  issueId: string;
+  issueKey: string;
+  issueTitle: string;
+  /** Minutes per `YYYY-MM-DD`. */
+  byDate: Record<string, number>;
+  total: number;
+}
+
+/** One row per issue worked on during the week, in key order, with totals per day and overall. */
+export const buildTimesheet = (logs: WorkLog[], dates: string[]) => {
+  const rows = new Map<string, TimesheetRow>();
+  const dayTotals: Record<string, number> = Object.fromEntries(dates.map(date => [date, 0]));
+  logs.filter(log => dates.includes(log.date)).forEach(log => {
+    const row = rows.get(log.issue_id) ?? { issueId: log.issue_id, issueKey: log.issue_key, issueTitle: log.issue_title, byDate: {}, total: 0 };
+    row.byDate[log.date] = (row.byDate[log.date] ?? 0) + log.minutes;
+    row.total += log.minutes;
+    dayTotals[log.date] += log.minutes;
+    rows.set(log.issue_id, row);
+  });
+  return {
+    rows: Array.from(rows.values()).sort((a, b) => a.issueKey.localeCompare(b.issueKey, undefined, { numeric: true })),
+    dayTotals,
+    total: Object.values(dayTotals).reduce((sum, minutes) => sum + minutes, 0)
+  };
+};
@@ -0,0 +1,253 @@
+// src/types.ts
+// Domain models shared by the API client and the views that render them.
+
+export type PresenceStatus = 'active' | 'idle' | 'away' | 'offline';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  avatar: string;
+  profile_picture?: string;
+  role: 'super_admin' | 'admin' | 'project_manager' | 'developer' | 'tester'| 'employees';
+  organization_id: string;
+  is_active: boolean;
+  created_at: string;
+  last_seen?: string;
+  is_online?: boolean;
+  presence?: PresenceStatus;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  domain: string;
+  plan: 'free' | 'pro' | 'enterprise';
+  user_count: number;
+  max_users: number;
+  created_at: string;
+}
+
+export interface Issue {
+  id: string;
+  key: string;
+  title: string;
+  description: string;
+  issue_type: 'STORY' | 'TASK' | 'BUG' | 'EPIC' | 'SUBTASK';
+  priority: 'HIGHEST' | 'HIGH' | 'MEDIUM' | 'LOW' | 'LOWEST';
+  /** Id of one of the organization's workflow statuses. */
+  status: string;
+  assignee_id: string | null;
+  reporter_id: string;
+  story_points: number | null;
+  created_at: string;
+  updated_at: string;
+  labels: string[];
+  visibility?: string;
+  organization_id: string;
+  deadline?: string | null;
+  /** Epic a story, task or bug belongs to, or the issue a subtask splits up. */
+  parent_id?: string | null;
+  /** Values for the organization's custom fields, keyed by field id; empty fields are left out. */
+  custom_fields?: Record<string, CustomFieldValue>;
+  /** Minutes; null until someone estimates the issue. */
+  original_estimate_minutes?: number | null;
+  /** Minutes still to go. Logging work counts it down unless the person logging sets a new figure. */
+  remaining_estimate_minutes?: number | null;
+  /** Total of the issue's work logs, kept by the server. */
+  time_spent_minutes?: number;
+  /** Number of files attached, kept by the server so cards needn't load the list. */
+  attachment_count?: number;
+  /** Who is notified about edits and comments. Reporter, assignee and commenters are added automatically. */
+  watcher_ids?: string[];
+  /** Recurring series that created the issue, if any. */
+  recurring_issue_id?: string | null;
+  comments?: Comment[];
+}
+
+export interface Attachment {
+  id: string;
+  issue_id: string;
+  file_name: string;
+  content_type: string;
+  /** Bytes. */
+  size: number;
+  /** Where to download or preview the file. */
+  url: string;
+  uploaded_by: string;
+  created_at: string;
+}
+
+export interface WorkLog {
+  id: string;
+  issue_id: string;
+  /** Key and title of the issue, so a timesheet can list work on issues that aren't loaded. */
+  issue_key: string;
+  issue_title: string;
+  author_id: string;
+  minutes: number;
+  /** Day the work was done, `YYYY-MM-DD`. */
+  date: string;
+  note: string;
+  created_at: string;
+}
+
+export interface RecurrenceSchedule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'cron';
+  /** Local time of day, `HH:MM`; cron schedules carry their own. */
+  time: string;
+  /** Weekly runs, 0 = Sunday. */
+  weekdays: number[];
+  /** Monthly runs, 1-31; shorter months run on their last day. */
+  day_of_month: number;
+  /** Five fields: minute, hour, day of month, month, day of week. */
+  cron: string;
+}
+
+/** What every issue in a series starts with. */
+export interface RecurringIssueTemplate {
+  title: string;
+  description: string;
+  issue_type: Issue['issue_type'];
+  priority: Issue['priority'];
+  status: string;
+  assignee_id: string | null;
+  story_points: number | null;
+  labels: string[];
+  parent_id: string | null;
+  custom_fields: Record<string, CustomFieldValue>;
+  original_estimate_minutes: number | null;
+  /** Each issue is due this many days after its run; null leaves the deadline unset. */
+  deadline_offset_days: number | null;
+}
+
+export interface RecurringIssue {
+  id: string;
+  organization_id: string;
+  template: RecurringIssueTemplate;
+  schedule: RecurrenceSchedule;
+  paused: boolean;
+  /** Null while paused. */
+  next_run_at: string | null;
+  last_run_at: string | null;
+  /** Key of the latest issue the series created. */
+  last_issue_key: string | null;
+  issue_count: number;
+  /** Why the last run couldn't create an issue; the series is paused until someone fixes it. */
+  last_error: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+/** An admin-defined starting point for the create form, offered for one issue type. */
+export interface IssueTemplate {
+  id: string;
+  organization_id: string;
+  name: string;
+  issue_type: Issue['issue_type'];
+  /** Prefilled title; "{date}" becomes the day the issue is filed. */
+  title_pattern: string;
+  description: string;
+  priority: Issue['priority'];
+  labels: string[];
+  /** Null keeps whatever the form already has. */
+  story_points: number | null;
+  /** Filled in whenever the create form opens on (or switches to) this type; at most one per type. */
+  is_default: boolean;
+  created_by: string;
+  updated_at: string;
+}
+
+/** One field an edit changed; values are as the issue stores them (ids, keys, ISO dates). */
+export interface IssueFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface IssueHistoryEntry {
+  id: string;
+  issue_id: string;
+  actor_id: string;
+  created_at: string;
+  kind: 'created' | 'updated';
+  /** Empty for `created`. */
+  changes: IssueFieldChange[];
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'multi_select' | 'date' | 'user';
+
+/** Text and select values are strings, multi-selects lists of options, dates `YYYY-MM-DD` and users a user id. */
+export type CustomFieldValue = string | number | string[];
+
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  /** Choices for select and multi-select fields, in display order. */
+  options: string[];
+  required: boolean;
+}
+
+export type StatusCategory = 'todo' | 'in_progress' | 'done';
+
+/** One column of an organization's workflow. Admins can rename or recolor it; `id` is what issues store and never changes. */
+export interface WorkflowStatus {
+  id: string;
+  name: string;
+  color: string;
+  category: StatusCategory;
+}
+
+export type IssueLinkType = 'blocks' | 'duplicates' | 'relates_to' | 'clones';
+
+/** Read as "source <type> target", e.g. MT-2 blocks MT-7. Keys are kept so either end can be shown unloaded. */
+export interface IssueLink {
+  id: string;
+  type: IssueLinkType;
+  source_id: string;
+  source_key: string;
+  target_id: string;
+  target_key: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface Comment {
+  id: string;
+  content: string;
+  author_id: string;
+  issue_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatConversation {
+  id: string;
+  type: 'team' | 'direct' | 'group' | 'general';
+  name?: string;
+  participants?: string[];
+  last_activity?: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  conversation_id: string;
+  created_at: string;
+  sender_id?: string;
+  sender_name?: string;
+  sender_avatar?: string;
+  author_id?: string;
+  author_name?: string;
+  author_avatar?: string;
+  author?: { id?: string; name?: string; avatar?: string };
+}
+
+export interface AuthResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type?: string;
+  user: User;
+  organization: Organization;
+}
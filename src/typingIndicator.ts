@@ -0,0 +1,36 @@
+// src/typingIndicator.ts
+// "X is typing…" shared by the floating chat and the full chat view. Senders
+// throttle user_typing frames; receivers show the indicator until the frames stop.
+
+/** Minimum gap between user_typing frames while someone keeps typing. */
+export const TYPING_THROTTLE_MS = 2000;
+/** How long an indicator stays up after the last frame; longer than the throttle so it doesn't flicker. */
+export const TYPING_TIMEOUT_MS = 4000;
+
+/** Returns a function that sends at most once per TYPING_THROTTLE_MS; reset() lets the next keystroke send again. */
+export const createTypingThrottle = (send: (conversationId: string) => void) => {
+  let lastSentAt = 0;
+  let lastConversationId: string | null = null;
+
+  const notifyTyping = (conversationId: string) => {
+    const now = Date.now();
+    if (conversationId === lastConversationId && now - lastSentAt < TYPING_THROTTLE_MS) return;
+    lastSentAt = now;
+    lastConversationId = conversationId;
+    send(conversationId);
+  };
+
+  const reset = () => {
+    lastSentAt = 0;
+    lastConversationId = null;
+  };
+
+  return Object.assign(notifyTyping, { reset });
+};
+
+export const describeTypingUsers = (names: string[]) => {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return 'Several people are typing…';
+};
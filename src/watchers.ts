@@ -0,0 +1,15 @@
+// src/watchers.ts
+// Watchers are the people who hear about an issue's edits, status moves and comments. The rest of
+// the organization still gets the socket events that keep boards current, just no notification.
+import { Issue } from './types.ts';
+
+export const WATCHER_NOTIFICATION_EVENT = 'watcher_notification';
+
+export type WatcherNotificationKind = 'issue_updated' | 'status_changed' | 'comment_added';
+
+export const isWatching = (issue: Pick<Issue, 'watcher_ids'>, userId: string | undefined) =>
+  !!userId && (issue.watcher_ids ?? []).includes(userId);
+
+/** Adds a watcher, keeping the list as it was when they already watch (or there's no one to add). */
+export const withWatcher = (watcherIds: string[] | undefined, userId: string | null | undefined) =>
+  !userId || (watcherIds ?? []).includes(userId) ? watcherIds ?? [] : [...(watcherIds ?? []), userId];
@@ -0,0 +1,82 @@
+// src/workflow.ts
+// Each organization defines its own workflow: an ordered list of statuses, one board
+// column each. Every status belongs to a category (to do, in progress, done), and
+// anything that asks "is this finished?" asks the category rather than a status id.
+import { StatusCategory, WorkflowStatus } from './types.ts';
+
+export const WORKFLOW_SOCKET_EVENT = 'workflow_updated';
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  done: 'Done'
+};
+
+export const STATUS_CATEGORIES = Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[];
+
+/** Used until the organization's workflow has loaded, and by servers that don't have one. */
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: 'TODO', name: 'To Do', color: '#42526e', category: 'todo' },
+  { id: 'IN_PROGRESS', name: 'In Progress', color: '#0052cc', category: 'in_progress' },
+  { id: 'REVIEW', name: 'In Review', color: '#ffa500', category: 'in_progress' },
+  { id: 'DONE', name: 'Done', color: '#36b37e', category: 'done' }
+];
+
+const UNKNOWN_STATUS_COLOR = '#97a0af';
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const createWorkflow = (statuses: WorkflowStatus[]) => {
+  const list = statuses.length > 0 ? statuses : DEFAULT_WORKFLOW;
+  const byId = new Map(list.map(status => [status.id, status]));
+
+  // Issues can briefly hold a status the admin just removed; show the raw id rather than nothing
+  const nameOf = (statusId: string) => byId.get(statusId)?.name ?? statusId;
+  const colorOf = (statusId: string) => byId.get(statusId)?.color ?? UNKNOWN_STATUS_COLOR;
+  const categoryOf = (statusId: string): StatusCategory | undefined => byId.get(statusId)?.category;
+
+  return {
+    statuses: list,
+    has: (statusId: string) => byId.has(statusId),
+    nameOf,
+    colorOf,
+    categoryOf,
+    isDone: (statusId: string) => categoryOf(statusId) === 'done',
+    isInProgress: (statusId: string) => categoryOf(statusId) === 'in_progress',
+    /** Where new issues start: the first to-do status. */
+    initialStatus: (list.find(status => status.category === 'todo') ?? list[0]).id,
+    inCategory: (category: StatusCategory) => list.filter(status => status.category === category)
+  };
+};
+
+export type Workflow = ReturnType<typeof createWorkflow>;
+
+/** "Ready for QA" -> "READY_FOR_QA" */
+export const statusKeyFromName = (name: string) =>
+  name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/** Everything wrong with a workflow an admin wants to save; empty when it can be saved. */
+export const validateWorkflow = (statuses: WorkflowStatus[]): string[] => {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  statuses.forEach(status => {
+    const name = status.name.trim();
+    if (!name) problems.push('Every status needs a name');
+    else if (names.has(name.toLowerCase())) problems.push(`"${name}" is used twice`);
+    names.add(name.toLowerCase());
+    if (!status.id || ids.has(status.id)) problems.push(`"${name || status.id}" needs a unique key`);
+    ids.add(status.id);
+    if (!HEX_COLOR.test(status.color)) problems.push(`"${name || status.id}" needs a color like #0052cc`);
+    if (!STATUS_CATEGORIES.includes(status.category)) problems.push(`"${name || status.id}" has an unknown category`);
+  });
+  if (!statuses.some(status => status.category === 'todo')) problems.push('At least one status must be in the To Do category');
+  if (!statuses.some(status => status.category === 'done')) problems.push('At least one status must be in the Done category');
+  return Array.from(new Set(problems));
+};
+
+/** Matches an imported status by id or by name, ignoring case and spacing ("ready for qa" finds READY_FOR_QA). */
+export const resolveStatus = (value: string, workflow: Workflow): string | undefined => {
+  const key = statusKeyFromName(value);
+  if (!key) return undefined;
+  return workflow.statuses.find(status => status.id === key || statusKeyFromName(status.name) === key)?.id;
+};